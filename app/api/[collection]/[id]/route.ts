@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { currentUser, forbidden, requestWorkspace, unauthorized } from '../../../../lib/server/auth/session';
+import { deleteRecord, getRecord, putRecord } from '../../../../lib/server/store';
+import { isSyncCollection, parseRecord } from '../../../../lib/sync/protocol';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { collection: string; id: string } };
+
+function unknownCollection(collection: string) {
+  return NextResponse.json({ error: `Unknown collection "${collection}"` }, { status: 404 });
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const workspace = await requestWorkspace(request, user);
+  if (!workspace) return forbidden();
+  if (!isSyncCollection(params.collection)) return unknownCollection(params.collection);
+  const record = await getRecord(workspace.workspaceId, params.collection, params.id, workspace.actor);
+  if (!record) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  return NextResponse.json({ record });
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const workspace = await requestWorkspace(request, user);
+  if (!workspace) return forbidden();
+  if (!isSyncCollection(params.collection)) return unknownCollection(params.collection);
+
+  let record;
+  try {
+    record = parseRecord(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid record' }, { status: 400 });
+  }
+  if (record.id !== params.id) {
+    return NextResponse.json({ error: 'Record id does not match the URL' }, { status: 400 });
+  }
+
+  const result = await putRecord(workspace.workspaceId, params.collection, record, workspace.actor);
+  if (result.status === 'denied') {
+    return NextResponse.json({ error: 'You cannot change this record', current: result.current }, { status: 403 });
+  }
+  if (result.status === 'stale') {
+    return NextResponse.json({ error: 'A newer version exists', current: result.current }, { status: 409 });
+  }
+  return NextResponse.json({ record, revision: result.revision });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const workspace = await requestWorkspace(request, user);
+  if (!workspace) return forbidden();
+  if (!isSyncCollection(params.collection)) return unknownCollection(params.collection);
+  const deletedAt = new URL(request.url).searchParams.get('deletedAt') ?? undefined;
+  const result = await deleteRecord(workspace.workspaceId, params.collection, params.id, workspace.actor, deletedAt);
+  if (!result) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  if (result.status === 'denied') {
+    return NextResponse.json({ error: 'Only the owner can delete this record' }, { status: 403 });
+  }
+  if (result.status === 'stale') {
+    return NextResponse.json({ error: 'A newer version exists', current: result.current }, { status: 409 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
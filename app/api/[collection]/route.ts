@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { currentUser, forbidden, requestWorkspace, unauthorized } from '../../../lib/server/auth/session';
+import { listRecords, putRecord } from '../../../lib/server/store';
+import { isSyncCollection, parseRecord } from '../../../lib/sync/protocol';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { collection: string } };
+
+export async function GET(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const workspace = await requestWorkspace(request, user);
+  if (!workspace) return forbidden();
+  if (!isSyncCollection(params.collection)) {
+    return NextResponse.json({ error: `Unknown collection "${params.collection}"` }, { status: 404 });
+  }
+  return NextResponse.json({ records: await listRecords(workspace.workspaceId, params.collection, workspace.actor) });
+}
+
+export async function POST(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const workspace = await requestWorkspace(request, user);
+  if (!workspace) return forbidden();
+  if (!isSyncCollection(params.collection)) {
+    return NextResponse.json({ error: `Unknown collection "${params.collection}"` }, { status: 404 });
+  }
+
+  let record;
+  try {
+    record = parseRecord(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid record' }, { status: 400 });
+  }
+
+  const result = await putRecord(workspace.workspaceId, params.collection, record, workspace.actor);
+  if (result.status === 'denied') {
+    return NextResponse.json({ error: 'You cannot change this record', current: result.current }, { status: 403 });
+  }
+  if (result.status === 'stale') {
+    return NextResponse.json({ error: 'A newer version exists', current: result.current }, { status: 409 });
+  }
+  return NextResponse.json({ record, revision: result.revision }, { status: 201 });
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { encodeMockGrant, isMockOAuthEnabled, mockDisabled } from '../../../../../lib/server/auth/mockOAuth';
+import { MOCK_CLIENT_ID, appOrigin } from '../../../../../lib/server/auth/oauth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/** Shows a tiny "who are you?" form, then redirects back like a real provider would. */
+export async function GET(request: Request) {
+  if (!isMockOAuthEnabled()) return mockDisabled();
+  const params = new URL(request.url).searchParams;
+  const redirectUri = params.get('redirect_uri');
+  // Only ever hands codes back to this app, so the mock cannot be used as an open redirect.
+  if (params.get('client_id') !== MOCK_CLIENT_ID || !redirectUri?.startsWith(`${appOrigin(request)}/`)) {
+    return NextResponse.json({ error: 'Unknown client or redirect_uri' }, { status: 400 });
+  }
+
+  const email = params.get('email')?.trim().toLowerCase();
+  if (email) {
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', encodeMockGrant({ subject: email, email, name: params.get('name')?.trim() ?? '' }));
+    target.searchParams.set('state', params.get('state') ?? '');
+    return NextResponse.redirect(target);
+  }
+
+  const hidden = ['client_id', 'redirect_uri', 'state', 'scope', 'response_type']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? '')}">`)
+    .join('');
+  return new Response(
+    `<!doctype html><title>Mock OAuth</title>
+<form method="get" style="font-family:sans-serif;max-width:20rem;margin:4rem auto;display:grid;gap:.5rem">
+<h1 style="font-size:1.1rem">Mock OAuth sign-in</h1>
+${hidden}
+<input name="email" type="email" placeholder="Email" required>
+<input name="name" placeholder="Display name">
+<button>Continue</button>
+</form>`,
+    { headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { decodeMockGrant, isMockOAuthEnabled, mockDisabled } from '../../../../../lib/server/auth/mockOAuth';
+import { MOCK_CLIENT_ID, MOCK_CLIENT_SECRET } from '../../../../../lib/server/auth/oauth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  if (!isMockOAuthEnabled()) return mockDisabled();
+  const form = new URLSearchParams(await request.text());
+  if (form.get('client_id') !== MOCK_CLIENT_ID || form.get('client_secret') !== MOCK_CLIENT_SECRET) {
+    return NextResponse.json({ error: 'invalid_client' }, { status: 401 });
+  }
+  const code = form.get('code') ?? '';
+  if (form.get('grant_type') !== 'authorization_code' || !decodeMockGrant(code)) {
+    return NextResponse.json({ error: 'invalid_grant' }, { status: 400 });
+  }
+  return NextResponse.json({ access_token: code, token_type: 'Bearer', expires_in: 300 });
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { decodeMockGrant, isMockOAuthEnabled, mockDisabled } from '../../../../../lib/server/auth/mockOAuth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  if (!isMockOAuthEnabled()) return mockDisabled();
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const profile = decodeMockGrant(token);
+  if (!profile) return NextResponse.json({ error: 'invalid_token' }, { status: 401 });
+  return NextResponse.json({ sub: profile.subject, email: profile.email, name: profile.name });
+}
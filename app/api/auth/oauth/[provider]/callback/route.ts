@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { signInWithOAuth } from '../../../../../../lib/server/auth/accounts';
+import { appOrigin, getOAuthProvider } from '../../../../../../lib/server/auth/oauth';
+import { OAUTH_STATE_COOKIE, readCookie, setShortCookie, startSession } from '../../../../../../lib/server/auth/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { provider: string } };
+
+type PendingSignIn = { state: string; provider: string; timezone: string };
+
+function readPending(request: Request): PendingSignIn | null {
+  try {
+    return JSON.parse(readCookie(request, OAUTH_STATE_COOKIE) ?? '') as PendingSignIn;
+  } catch {
+    return null;
+  }
+}
+
+/** Finishes a sign-in and lands back on the dashboard; failures come back as `?authError=`. */
+export async function GET(request: Request, { params }: Params) {
+  const origin = appOrigin(request);
+  const url = new URL(request.url);
+  const failed = (message: string) =>
+    setShortCookie(NextResponse.redirect(`${origin}/?authError=${encodeURIComponent(message)}`), OAUTH_STATE_COOKIE, '', 0);
+
+  const provider = getOAuthProvider(params.provider, origin);
+  if (!provider) return failed(`Unknown sign-in provider "${params.provider}"`);
+  const pending = readPending(request);
+  const code = url.searchParams.get('code');
+  if (url.searchParams.get('error')) return failed(`${provider.name} sign-in was cancelled`);
+  if (!pending || pending.provider !== provider.id || pending.state !== url.searchParams.get('state') || !code) {
+    return failed('That sign-in link expired; please try again');
+  }
+
+  try {
+    const profile = await provider.fetchProfile(code, `${origin}/api/auth/oauth/${provider.id}/callback`);
+    const user = await signInWithOAuth(provider.id, profile, pending.timezone);
+    return startSession(setShortCookie(NextResponse.redirect(`${origin}/`), OAUTH_STATE_COOKIE, '', 0), user);
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Sign-in failed');
+  }
+}
@@ -0,0 +1,26 @@
+import { randomBytes } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { isTimeZone } from '../../../../../lib/auth/protocol';
+import { appOrigin, getOAuthProvider } from '../../../../../lib/server/auth/oauth';
+import { OAUTH_STATE_COOKIE, setShortCookie } from '../../../../../lib/server/auth/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { provider: string } };
+
+/** Starts a sign-in: remembers a one-time state, then hands the browser to the provider. */
+export async function GET(request: Request, { params }: Params) {
+  const origin = appOrigin(request);
+  const provider = getOAuthProvider(params.provider, origin);
+  if (!provider) return NextResponse.json({ error: `Unknown sign-in provider "${params.provider}"` }, { status: 404 });
+
+  const timezone = new URL(request.url).searchParams.get('timezone');
+  const state = randomBytes(16).toString('base64url');
+  const redirectUri = `${origin}/api/auth/oauth/${provider.id}/callback`;
+  return setShortCookie(
+    NextResponse.redirect(provider.authorizationUrl({ state, redirectUri })),
+    OAUTH_STATE_COOKIE,
+    JSON.stringify({ state, provider: provider.id, timezone: isTimeZone(timezone) ? timezone : 'UTC' })
+  );
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { parseProfileUpdate } from '../../../../lib/auth/protocol';
+import type { ProfileUpdate, SessionResponse } from '../../../../lib/auth/protocol';
+import { updateProfile } from '../../../../lib/server/auth/accounts';
+import { appOrigin, getOAuthProviders } from '../../../../lib/server/auth/oauth';
+import { currentUser, unauthorized } from '../../../../lib/server/auth/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const response: SessionResponse = {
+    user: await currentUser(request),
+    providers: getOAuthProviders(appOrigin(request)).map(({ id, name }) => ({ id, name }))
+  };
+  return NextResponse.json(response);
+}
+
+export async function PATCH(request: Request) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+
+  let update: ProfileUpdate;
+  try {
+    update = parseProfileUpdate(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid profile' }, { status: 400 });
+  }
+  return NextResponse.json({ user: await updateProfile(user.id, update) });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { parseSignIn } from '../../../../lib/auth/protocol';
+import type { SignInRequest } from '../../../../lib/auth/protocol';
+import { signIn } from '../../../../lib/server/auth/accounts';
+import { startSession } from '../../../../lib/server/auth/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  let signInRequest: SignInRequest;
+  try {
+    signInRequest = parseSignIn(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid sign-in' }, { status: 400 });
+  }
+
+  const user = await signIn(signInRequest.email, signInRequest.password);
+  if (!user) return NextResponse.json({ error: 'Wrong email or password' }, { status: 401 });
+  return startSession(NextResponse.json({ user }), user);
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { endSession } from '../../../../lib/server/auth/accounts';
+import { clearSession, sessionToken } from '../../../../lib/server/auth/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const token = sessionToken(request);
+  if (token) await endSession(token);
+  return clearSession(new NextResponse(null, { status: 204 }));
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { parseSignUp } from '../../../../lib/auth/protocol';
+import type { SignUpRequest } from '../../../../lib/auth/protocol';
+import { signUp } from '../../../../lib/server/auth/accounts';
+import { startSession } from '../../../../lib/server/auth/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  let signUpRequest: SignUpRequest;
+  try {
+    signUpRequest = parseSignUp(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid sign-up' }, { status: 400 });
+  }
+
+  try {
+    const user = await signUp(signUpRequest);
+    return startSession(NextResponse.json({ user }, { status: 201 }), user);
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Could not sign up' }, { status: 409 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { buildCalendar } from '../../../lib/ical';
+import type { Reminder, Task } from '../../../lib/models';
+import { userForCalendarToken } from '../../../lib/server/auth/accounts';
+import { currentUser } from '../../../lib/server/auth/session';
+import { listRecords, type Actor } from '../../../lib/server/store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Subscribable feed of a user's synced reminders and dated tasks. Calendar apps have no
+ * session, so they subscribe with the account's secret `?token=<calendarToken>`.
+ */
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+  const user = token ? await userForCalendarToken(token) : await currentUser(request);
+  if (!user) return NextResponse.json({ error: 'Invalid calendar token' }, { status: 401 });
+
+  // The feed covers the user's personal brain, which they always own.
+  const actor: Actor = { userId: user.id, name: user.name, role: 'owner' };
+  const [tasks, reminders] = await Promise.all([
+    listRecords(user.workspaceId, 'tasks', actor),
+    listRecords(user.workspaceId, 'reminders', actor)
+  ]);
+  const calendar = buildCalendar(
+    { tasks: tasks as Task[], reminders: reminders as Reminder[] },
+    { timeZone: user.timezone }
+  );
+  return new Response(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="neuronest.ics"',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
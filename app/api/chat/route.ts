@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { encodeStreamEvent, parseChatRequest } from '../../../lib/assistant/protocol';
+import type { ChatRequest } from '../../../lib/assistant/protocol';
+import { getChatProvider, type ChatProvider } from '../../../lib/assistant/providers';
+import { currentUser, unauthorized } from '../../../lib/server/auth/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  if (!(await currentUser(request))) return unauthorized();
+
+  let chatRequest: ChatRequest;
+  try {
+    chatRequest = parseChatRequest(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid chat request' },
+      { status: 400 }
+    );
+  }
+
+  let provider: ChatProvider;
+  try {
+    provider = getChatProvider();
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'The chat provider is not configured' },
+      { status: 500 }
+    );
+  }
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of provider.streamReply(chatRequest, request.signal)) {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        }
+        controller.enqueue(encoder.encode(encodeStreamEvent({ type: 'done' })));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'The assistant failed to respond';
+        controller.enqueue(encoder.encode(encodeStreamEvent({ type: 'error', message })));
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform'
+    }
+  });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import type { Reminder } from '../../../lib/models';
+import { fireTimeOf } from '../../../lib/reminders/lifecycle';
+import { currentUser, unauthorized } from '../../../lib/server/auth/session';
+import { claimDelivery, DeliveryError, getDeliveryAdapter, settleDelivery } from '../../../lib/server/delivery';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const channels: Reminder['channel'][] = ['mobile', 'email', 'push'];
+
+function parseReminder(value: unknown): Reminder {
+  const reminder = (value as { reminder?: Reminder } | null)?.reminder;
+  if (
+    !reminder ||
+    typeof reminder.id !== 'string' ||
+    typeof reminder.title !== 'string' ||
+    typeof reminder.scheduledFor !== 'string' ||
+    !channels.includes(reminder.channel)
+  ) {
+    throw new Error('Body must be { reminder } with id, title, scheduledFor and channel');
+  }
+  return reminder;
+}
+
+export async function POST(request: Request) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+
+  let reminder: Reminder;
+  try {
+    reminder = parseReminder(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid delivery request' }, { status: 400 });
+  }
+
+  // Email reminders go to whoever owns them rather than one address for the whole server.
+  const adapter = getDeliveryAdapter(reminder.channel, { ...process.env, REMINDER_EMAIL_TO: user.email });
+  if (!adapter) {
+    return NextResponse.json(
+      { error: `No ${reminder.channel} delivery adapter is configured`, retryable: false },
+      { status: 501 }
+    );
+  }
+
+  // Every open device posts the same occurrence, so only the first request sends it.
+  const key = { userId: user.id, reminderId: reminder.id, channel: reminder.channel, occurrence: fireTimeOf(reminder) };
+  const claim = await claimDelivery(user.workspaceId, key);
+  if (claim.status === 'delivered') {
+    return NextResponse.json({ status: 'delivered', deliveredAt: claim.deliveredAt, duplicate: true });
+  }
+  if (claim.status === 'sending') {
+    return NextResponse.json({ error: 'This reminder is already being delivered', retryable: true }, { status: 409 });
+  }
+
+  try {
+    await adapter.deliver(reminder);
+    await settleDelivery(user.workspaceId, key, true);
+    return NextResponse.json({ status: 'delivered', deliveredAt: new Date().toISOString() });
+  } catch (error) {
+    await settleDelivery(user.workspaceId, key, false);
+    const retryable = error instanceof DeliveryError ? error.retryable : true;
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Delivery failed', retryable },
+      { status: 502 }
+    );
+  }
+}
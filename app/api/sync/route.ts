@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { currentUser, forbidden, requestWorkspace, unauthorized } from '../../../lib/server/auth/session';
+import { syncChanges } from '../../../lib/server/store';
+import { parseSyncRequest } from '../../../lib/sync/protocol';
+import type { SyncRequest, SyncResponse } from '../../../lib/sync/protocol';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const workspace = await requestWorkspace(request, user);
+  if (!workspace) return forbidden();
+
+  let syncRequest: SyncRequest;
+  try {
+    syncRequest = parseSyncRequest(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid sync request' }, { status: 400 });
+  }
+
+  const response: SyncResponse = await syncChanges(
+    workspace.workspaceId,
+    syncRequest.cursor,
+    syncRequest.changes,
+    workspace.actor
+  );
+  return NextResponse.json(response);
+}
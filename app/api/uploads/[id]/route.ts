@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { currentUser, forbidden, requestWorkspace, unauthorized } from '../../../../lib/server/auth/session';
+import { accessTo, type Actor } from '../../../../lib/server/store';
+import {
+  deleteUpload,
+  isUploadId,
+  readUpload,
+  readUploadMeta,
+  saveUpload,
+  type UploadMeta
+} from '../../../../lib/server/uploads';
+import { canEdit, type Access } from '../../../../lib/workspaces/access';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string } };
+
+const MAX_UPLOAD_BYTES = Number(process.env.NEURONEST_MAX_UPLOAD_MB ?? 25) * 1024 * 1024;
+
+/** Types a browser shows in place without running anything; SVG can carry script, so it is left out. */
+const INLINE_TYPES = /^(?:image\/(?!svg)[\w.+-]+|application\/pdf|audio\/[\w.+-]+|video\/[\w.+-]+)$/;
+
+function headerFileName(request: Request, fallback: string) {
+  try {
+    return decodeURIComponent(request.headers.get('x-file-name') ?? fallback);
+  } catch {
+    return fallback;
+  }
+}
+
+function invalidId(id: string) {
+  return NextResponse.json({ error: `Invalid upload id "${id}"` }, { status: 400 });
+}
+
+/**
+ * Uploads share the access of the file record with the same id. Bytes arrive before their
+ * record syncs, so while there is no live record only whoever uploaded them may touch them,
+ * and anyone who may create records may upload under an unused id.
+ */
+function allowed(access: Access | null, meta: UploadMeta | null, actor: Actor, need: 'read' | 'write' | 'delete') {
+  if (access === null) {
+    if (!meta) return need === 'write' && actor.role !== 'viewer';
+    return meta.uploaderId === actor.userId && (need === 'read' || actor.role !== 'viewer');
+  }
+  if (need === 'read') return access !== 'none';
+  return need === 'write' ? canEdit(access) : access === 'owner';
+}
+
+/** `actor`'s access to the upload's record, and the upload's metadata when there is no live record. */
+async function uploadAccess(workspaceId: string, id: string, actor: Actor) {
+  const access = await accessTo(workspaceId, 'files', id, actor);
+  return { access, meta: access === null ? await readUploadMeta(workspaceId, id) : null };
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const workspace = await requestWorkspace(request, user);
+  if (!workspace) return forbidden();
+  if (!isUploadId(params.id)) return invalidId(params.id);
+  const { access, meta } = await uploadAccess(workspace.workspaceId, params.id, workspace.actor);
+  const upload = allowed(access, meta, workspace.actor, 'read') ? await readUpload(workspace.workspaceId, params.id) : null;
+  if (!upload) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  // The type is whatever the uploader claimed, so anything that could run on this origin is a download.
+  const type = upload.meta.type.split(';')[0].trim().toLowerCase();
+  const inline = INLINE_TYPES.test(type);
+  return new Response(upload.bytes, {
+    headers: {
+      'Content-Type': inline ? type : 'application/octet-stream',
+      'Content-Length': String(upload.meta.size),
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(upload.meta.name)}`,
+      'Content-Security-Policy': 'sandbox',
+      'X-Content-Type-Options': 'nosniff',
+      // PUT can replace the bytes under the same id.
+      'Cache-Control': 'private, no-cache'
+    }
+  });
+}
+
+/** Stores the raw request body; the file's name travels in `X-File-Name`. */
+export async function PUT(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const workspace = await requestWorkspace(request, user);
+  if (!workspace) return forbidden();
+  if (!isUploadId(params.id)) return invalidId(params.id);
+  const { access, meta } = await uploadAccess(workspace.workspaceId, params.id, workspace.actor);
+  if (!allowed(access, meta, workspace.actor, 'write')) {
+    return NextResponse.json({ error: 'You cannot change this file' }, { status: 403 });
+  }
+  const length = Number(request.headers.get('content-length') ?? 0);
+  if (length > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: 'File is too large' }, { status: 413 });
+  }
+
+  const bytes = new Uint8Array(await request.arrayBuffer());
+  if (bytes.byteLength > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: 'File is too large' }, { status: 413 });
+  }
+  const saved = await saveUpload(workspace.workspaceId, params.id, bytes, {
+    type: request.headers.get('content-type') ?? '',
+    name: headerFileName(request, params.id),
+    uploaderId: workspace.actor.userId
+  });
+  return NextResponse.json({ id: params.id, ...saved }, { status: 201 });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const workspace = await requestWorkspace(request, user);
+  if (!workspace) return forbidden();
+  if (!isUploadId(params.id)) return invalidId(params.id);
+  const { access, meta } = await uploadAccess(workspace.workspaceId, params.id, workspace.actor);
+  if (!allowed(access, meta, workspace.actor, 'delete')) {
+    return NextResponse.json({ error: 'Only the owner can delete this file' }, { status: 403 });
+  }
+  await deleteUpload(workspace.workspaceId, params.id);
+  return new NextResponse(null, { status: 204 });
+}
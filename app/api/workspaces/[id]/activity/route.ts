@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { workspaceRole } from '../../../../../lib/server/auth/accounts';
+import { currentUser, forbidden, unauthorized } from '../../../../../lib/server/auth/session';
+import { listActivity } from '../../../../../lib/server/store';
+import type { ActivityResponse } from '../../../../../lib/workspaces/protocol';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string } };
+
+/** Who changed what in the space, limited to records the caller can see. */
+export async function GET(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const role = await workspaceRole(params.id, user.id);
+  if (!role) return forbidden();
+  const response: ActivityResponse = {
+    entries: await listActivity(params.id, { userId: user.id, name: user.name, role })
+  };
+  return NextResponse.json(response);
+}
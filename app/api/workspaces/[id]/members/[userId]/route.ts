@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { WorkspaceError, removeMember, updateMember } from '../../../../../../lib/server/auth/accounts';
+import { currentUser, unauthorized } from '../../../../../../lib/server/auth/session';
+import { parseMemberRole, type MemberRole } from '../../../../../../lib/workspaces/protocol';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string; userId: string } };
+
+function refused(error: unknown) {
+  if (error instanceof WorkspaceError) return NextResponse.json({ error: error.message }, { status: error.status });
+  throw error;
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+
+  let role: MemberRole;
+  try {
+    role = parseMemberRole(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid role' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ workspace: await updateMember(params.id, user.id, params.userId, role) });
+  } catch (error) {
+    return refused(error);
+  }
+}
+
+/** Removes a member; members may also remove themselves to leave the space. */
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  try {
+    return NextResponse.json({ workspace: await removeMember(params.id, user.id, params.userId) });
+  } catch (error) {
+    return refused(error);
+  }
+}
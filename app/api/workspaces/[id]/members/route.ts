@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { WorkspaceError, addMember } from '../../../../../lib/server/auth/accounts';
+import { currentUser, unauthorized } from '../../../../../lib/server/auth/session';
+import { parseMemberInvite, type MemberInvite } from '../../../../../lib/workspaces/protocol';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string } };
+
+/** Adds an existing account, by email, to a shared space the caller owns. */
+export async function POST(request: Request, { params }: Params) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+
+  let invite: MemberInvite;
+  try {
+    invite = parseMemberInvite(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid member' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ workspace: await addMember(params.id, user.id, invite) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WorkspaceError) return NextResponse.json({ error: error.message }, { status: error.status });
+    throw error;
+  }
+}
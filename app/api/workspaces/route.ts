@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { createWorkspace, listWorkspaces } from '../../../lib/server/auth/accounts';
+import { currentUser, unauthorized } from '../../../lib/server/auth/session';
+import { parseWorkspaceName, type WorkspacesResponse } from '../../../lib/workspaces/protocol';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+  const response: WorkspacesResponse = { workspaces: await listWorkspaces(user.id) };
+  return NextResponse.json(response);
+}
+
+/** Creates a shared space owned by the caller; they add members to it afterwards. */
+export async function POST(request: Request) {
+  const user = await currentUser(request);
+  if (!user) return unauthorized();
+
+  let name: string;
+  try {
+    name = parseWorkspaceName(await request.json());
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid space' }, { status: 400 });
+  }
+  return NextResponse.json({ workspace: await createWorkspace(user.id, name) }, { status: 201 });
+}
@@ -1,5 +1,6 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Inter } from "next/font/google";
+import { ServiceWorkerRegistration } from "../components/ServiceWorkerRegistration";
 import "./globals.css";
 
 const inter = Inter({ subsets: ["latin"] });
@@ -7,7 +8,19 @@ const inter = Inter({ subsets: ["latin"] });
 export const metadata: Metadata = {
   title: "NeuroNest | Second Brain",
   description:
-    "AI-powered second brain for notes, tasks, reminders, files, and a unified dashboard."
+    "AI-powered second brain for notes, tasks, reminders, files, and a unified dashboard.",
+  appleWebApp: {
+    capable: true,
+    title: "NeuroNest",
+    statusBarStyle: "black-translucent"
+  }
+};
+
+export const viewport: Viewport = {
+  themeColor: "#020617",
+  width: "device-width",
+  initialScale: 1,
+  viewportFit: "cover"
 };
 
 export default function RootLayout({
@@ -17,7 +30,10 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en" className="bg-slate-950">
-      <body className={`${inter.className} bg-slate-950 text-slate-50`}>{children}</body>
+      <body className={`${inter.className} bg-slate-950 text-slate-50`}>
+        {children}
+        <ServiceWorkerRegistration />
+      </body>
     </html>
   );
 }
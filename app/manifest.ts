@@ -0,0 +1,19 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'NeuroNest | Second Brain',
+    short_name: 'NeuroNest',
+    description: 'AI-powered second brain for notes, tasks, reminders, files, and a unified dashboard.',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#020617',
+    theme_color: '#020617',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' }
+    ]
+  };
+}
@@ -1,145 +1,336 @@
 'use client';
 
-import { FormEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { FormEvent, Fragment, ReactNode, useEffect, useMemo, useRef, useState } from 'react';
 import {
   AlarmClock,
   Bot,
   CalendarCheck,
   CheckSquare,
   ChevronDown,
+  Clock,
+  Cloud,
+  Eye,
+  FileAudio,
+  FileImage,
   FileText,
+  FileVideo,
   Files,
+  HardDrive,
   Hash,
+  History,
+  ListChecks,
+  Lock,
   LucideIcon,
   MessageSquareText,
+  Network,
   NotebookPen,
   Paperclip,
   Pin,
+  PenLine,
   PinOff,
   Plus,
+  Redo2,
+  Repeat,
+  Search,
   Send,
+  Sheet,
   Sparkles,
   Tag,
   Trash2,
-  UploadCloud
+  TriangleAlert,
+  Undo2,
+  UploadCloud,
+  UserRound,
+  Users,
+  X
 } from 'lucide-react';
 import { SectionCard } from '../components/SectionCard';
 import { StatCard } from '../components/StatCard';
+import { ActionItemReview } from '../components/ActionItemReview';
+import { ActionProposalCard } from '../components/ActionProposalCard';
+import { QuickCapture } from '../components/QuickCapture';
+import { TaskBoard } from '../components/TaskBoard';
+import { DayPlanner, type PlannerMode } from '../components/DayPlanner';
+import { TaskRelations } from '../components/TaskRelations';
+import { TaskViewControls } from '../components/TaskViewControls';
+import { CitedReply } from '../components/CitedReply';
+import { SyncIndicator } from '../components/SyncIndicator';
+import { DeliveryBadge } from '../components/DeliveryBadge';
+import { RecurrencePicker } from '../components/RecurrencePicker';
+import { ReminderActions } from '../components/ReminderActions';
+import { CalendarControls } from '../components/CalendarControls';
+import { DataControls } from '../components/DataControls';
+import { CommandPalette } from '../components/CommandPalette';
+import { FileViewer } from '../components/FileViewer';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { MarkdownView } from '../components/MarkdownView';
+import { NoteEditor, type NoteDraft } from '../components/NoteEditor';
+import { EntityLinks } from '../components/EntityLinks';
+import { NoteHistory } from '../components/NoteHistory';
+import { UndoToast } from '../components/UndoToast';
+import { AuthScreen } from '../components/AuthScreen';
+import { AccountSettings } from '../components/AccountSettings';
+import { TrashList } from '../components/TrashList';
+import { WorkspaceSettings } from '../components/WorkspaceSettings';
+import { SharingPanel } from '../components/SharingPanel';
+import { ActivityFeed } from '../components/ActivityFeed';
+import { KnowledgeGraph } from '../components/KnowledgeGraph';
 import { defaultFiles, defaultNotes, defaultReminders, defaultTasks } from '../lib/defaultData';
-import { formatDateTime, formatFileSize, uid } from '../lib/utils';
+import {
+  addDays,
+  formatDay,
+  formatDateTime,
+  formatTime,
+  hourOf,
+  setDisplayTimeZone,
+  startOfDay
+} from '../lib/datetime';
+import { formatFileSize, uid } from '../lib/utils';
 import { usePersistentState } from '../lib/usePersistentState';
+import { useLocalStore, useStoredCollection } from '../lib/store/useLocalStore';
+import { scopedName, workspaceUrl } from '../lib/store/scope';
+import type { LoadReport } from '../lib/store/schema';
+import { useSession } from '../lib/auth/useSession';
+import type { ProfileUpdate, User } from '../lib/auth/protocol';
+import { useWorkspaces, type WorkspacesState } from '../lib/workspaces/useWorkspaces';
+import { useActivity } from '../lib/workspaces/useActivity';
+import type { WorkspaceSummary } from '../lib/workspaces/protocol';
+import {
+  canEdit,
+  recordAccess,
+  type Access,
+  type ItemShare,
+  type Shareable,
+  type ShareableCollection,
+  type Viewer
+} from '../lib/workspaces/access';
+import {
+  actionBlockedReason,
+  applyAssistantAction,
+  describeAction,
+  revertAssistantAction,
+  type ActionProposal,
+  type ActionUpdaters,
+  type AssistantAction
+} from '../lib/assistant/actions';
+import { streamAssistantReply } from '../lib/assistant/client';
+import { bindCollection, useSync } from '../lib/sync/useSync';
+import { nextUpcomingReminder, requestNotificationPermission } from '../lib/reminders/delivery';
+import { describeRRule, validateRRule } from '../lib/recurrence';
+import {
+  addBlocker,
+  blockerCandidates,
+  buildTaskTree,
+  openBlockers,
+  removeBlocker,
+  taskProgress,
+  toggleTaskDone,
+  weightedProgress
+} from '../lib/tasks';
+import {
+  applyTaskView,
+  builtInTaskViews,
+  defaultTaskView,
+  dueBucketTokens,
+  groupByDue,
+  isTreeView,
+  moveTaskToStatus,
+  type SavedTaskView,
+  type TaskStatus,
+  type TaskViewSettings
+} from '../lib/taskViews';
+import {
+  agendaItems,
+  blockMinutes,
+  defaultWorkingHours,
+  nextFreeSlot,
+  scheduleTask,
+  startOfWeek,
+  unscheduleTask,
+  unscheduledTasks,
+  type AgendaItem
+} from '../lib/planner';
+import { addToTrash, expiredEntries, trashTitle, type TrashEntry } from '../lib/trash';
+import { bindUndoable, useUndoHistory } from '../lib/history/useUndoHistory';
+import { useNoteHistory } from '../lib/history/useNoteHistory';
+import type { NoteRevision } from '../lib/history/revisions';
+import { importCalendar } from '../lib/ical';
+import { importArchive, type ImportMode } from '../lib/archive/archive';
+import { downloadBlob, exportWorkspace, readArchiveFile, restoreBlobs, type ExportFormat } from '../lib/archive/transfer';
+import { toggleChecklistItem } from '../lib/markdown';
+import { extractActionItems, type ActionItemDraft } from '../lib/actionItems';
+import type { CaptureDraft } from '../lib/quickCapture';
+import { fromDateTimeLocal } from '../lib/naturalDates';
+import { backlinkMap, renameWikiLinks, resolveWikiLink } from '../lib/wikiLinks';
+import { addLink, entityKey, entitySections, linkMaps, linkTypesFor, removeLink, summarizeEntities } from '../lib/links';
+import { buildKnowledgeGraph, type GraphNode } from '../lib/graph/graph';
+import { buildSearchDocuments, buildSearchIndex, type SearchDocument } from '../lib/search/searchIndex';
+import { useReminderScheduler } from '../lib/reminders/useReminderScheduler';
+import { useFileStorage } from '../lib/files/useFileStorage';
+import { fileKindOf, type FileKind } from '../lib/files/extract';
+import { buildWorkspaceSnapshot } from '../lib/assistant/context';
+import { useKnowledgeIndex } from '../lib/rag/useKnowledgeIndex';
+import { toCitations } from '../lib/rag/citations';
+import {
+  channelTokens,
+  extractionTokens,
+  priorityTokens,
+  type ChatMessage,
+  type Citation,
+  type EntityLink,
+  type EntityRef,
+  type FileResource,
+  type Note,
+  type Reminder,
+  type Task
+} from '../lib/models';
 
-type Note = {
-  id: string;
-  title: string;
-  content: string;
-  tags: string[];
-  pinned: boolean;
-  createdAt: string;
-  updatedAt: string;
-};
-
-type Task = {
-  id: string;
-  title: string;
-  done: boolean;
-  dueDate?: string;
-  priority: 'low' | 'medium' | 'high';
-};
+function getGreeting() {
+  const hour = hourOf();
+  if (hour < 12) return 'Morning';
+  if (hour < 18) return 'Afternoon';
+  return 'Evening';
+}
 
-type Reminder = {
-  id: string;
-  title: string;
-  scheduledFor: string;
-  channel: 'mobile' | 'email' | 'push';
-};
+function LoadingScreen() {
+  return (
+    <main className="mx-auto flex min-h-screen max-w-lg items-center justify-center p-6 text-sm text-slate-400">
+      Loading your brain…
+    </main>
+  );
+}
 
-type FileResource = {
-  id: string;
-  name: string;
-  size: number;
-  type: string;
-  uploadedAt: string;
-  description?: string;
-  previewUrl?: string;
-};
+export default function Home() {
+  const session = useSession();
+  const [authError] = useState(() =>
+    typeof window === 'undefined' ? null : new URLSearchParams(window.location.search).get('authError')
+  );
 
-type ChatMessage = {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: string;
-};
+  if (session.status === 'loading') return <LoadingScreen />;
+  if (!session.user) {
+    return (
+      <AuthScreen providers={session.providers} onSignIn={session.signIn} onSignUp={session.signUp} initialError={authError} />
+    );
+  }
+  return (
+    <Workspaces
+      key={session.user.id}
+      user={session.user}
+      onUpdateProfile={session.updateProfile}
+      onSignOut={session.signOut}
+    />
+  );
+}
 
-const priorityTokens: Record<Task['priority'], string> = {
-  high: 'High Impact',
-  medium: 'Momentum',
-  low: 'Nice to Have'
+type AccountProps = {
+  user: User;
+  onUpdateProfile: (update: ProfileUpdate) => Promise<void>;
+  onSignOut: () => Promise<void>;
 };
 
-const channelTokens: Record<Reminder['channel'], string> = {
-  mobile: 'Mobile Push',
-  email: 'Email Digest',
-  push: 'Desktop Push'
-};
+type WorkspaceProps = AccountProps & { workspace: WorkspaceSummary; spaces: WorkspacesState };
 
-const bubbleResponses = {
-  greeting: [
-    'Let me sync your focus: three open loops and two reminders wanting attention.',
-    'I triaged your brain: momentum is high, clarity is one nudge away.'
-  ],
-  tasks: [
-    'Two tasks are still open. Want me to chunk the top priority into sub-steps?',
-    'The roadmap prioritization task is still active. Blocking it will unlock the rest.'
-  ],
-  notes: [
-    'Pinned note “Morning Reflection” is fueling today’s intent.',
-    'Latest note highlights: double down on automations, refine onboarding, prep investor deck.'
-  ]
-};
+function Workspaces(props: AccountProps) {
+  const spaces = useWorkspaces(props.user);
+  if (!spaces.active) return <LoadingScreen />;
+  return <Workspace key={spaces.active.id} {...props} workspace={spaces.active} spaces={spaces} />;
+}
 
-function getGreeting() {
-  const hour = new Date().getHours();
-  if (hour < 12) return 'Morning';
-  if (hour < 18) return 'Afternoon';
-  return 'Evening';
+function Workspace(props: WorkspaceProps) {
+  const store = useLocalStore(props.workspace.id, props.user.id, props.workspace.kind === 'personal');
+  // The dashboard waits for the zone so its very first paint already shows the user's clock.
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  useEffect(() => {
+    setDisplayTimeZone(props.user.timezone);
+    setTimeZone(props.user.timezone);
+  }, [props.user.timezone]);
+  if (!store.ready || !store.report || !timeZone) return <LoadingScreen />;
+  return <Dashboard {...props} storeReport={store.report} timeZone={timeZone} />;
 }
 
-export default function Home() {
-  const [notes, setNotes] = usePersistentState<Note[]>(
-    'neuronest.notes',
-    defaultNotes.map((note) => ({ ...note, tags: [...note.tags] }))
-  );
-  const [tasks, setTasks] = usePersistentState<Task[]>(
-    'neuronest.tasks',
-    defaultTasks.map((task) => ({ ...task }))
+function Dashboard({
+  user,
+  workspace,
+  spaces,
+  onUpdateProfile,
+  onSignOut,
+  storeReport,
+  timeZone
+}: WorkspaceProps & { storeReport: LoadReport; timeZone: string }) {
+  // A shared space starts empty and fills from the server; the samples are for a new personal brain.
+  const isShared = workspace.kind === 'shared';
+  const [notes, setNotes] = useStoredCollection('notes', () =>
+    isShared ? [] : defaultNotes.map((note) => ({ ...note, tags: [...note.tags] }))
   );
-  const [reminders, setReminders] = usePersistentState<Reminder[]>(
-    'neuronest.reminders',
-    defaultReminders.map((reminder) => ({ ...reminder }))
+  const [tasks, setTasks] = useStoredCollection('tasks', () => (isShared ? [] : defaultTasks.map((task) => ({ ...task }))));
+  const [taskView, setTaskView] = usePersistentState<TaskViewSettings>(scopedName('neuronest.taskView'), defaultTaskView);
+  const [savedTaskViews, setSavedTaskViews] = usePersistentState<SavedTaskView[]>(scopedName('neuronest.taskViews'), []);
+  const [trash, setTrash] = useStoredCollection('trash', []);
+  const [plannerMode, setPlannerMode] = usePersistentState<PlannerMode>(scopedName('neuronest.plannerMode'), 'day');
+  const [reminders, setReminders] = useStoredCollection('reminders', () =>
+    isShared ? [] : defaultReminders.map((reminder) => ({ ...reminder }))
   );
-  const [files, setFiles] = usePersistentState<FileResource[]>(
-    'neuronest.files',
-    defaultFiles.map((file) => ({ ...file }))
+  const [files, setFiles] = useStoredCollection('files', () => (isShared ? [] : defaultFiles.map((file) => ({ ...file }))));
+  const [chatMessages, setChatMessages] = useStoredCollection('chat', () => [
+    {
+      id: 'chat-welcome',
+      role: 'assistant',
+      content:
+        'Hey visionary. I am your NeuroNest guide—surfacing insights, nudging focus, and stitching context across notes, tasks, reminders, and files.',
+      timestamp: new Date().toISOString()
+    }
+  ]);
+  const sync = useSync(
+    {
+      notes: bindCollection(notes, setNotes),
+      tasks: bindCollection(tasks, setTasks),
+      reminders: bindCollection(reminders, setReminders),
+      files: bindCollection(files, setFiles),
+      chat: bindCollection(chatMessages, setChatMessages)
+    },
+    { endpoint: workspaceUrl('/api/sync') }
   );
-  const [chatMessages, setChatMessages] = usePersistentState<ChatMessage[]>(
-    'neuronest.chat',
-    [
-      {
-        id: 'chat-welcome',
-        role: 'assistant',
-        content:
-          'Hey visionary. I am your NeuroNest guide—surfacing insights, nudging focus, and stitching context across notes, tasks, reminders, and files.',
-        timestamp: new Date().toISOString()
-      }
-    ]
+  const activity = useActivity(isShared ? workspace.id : null, sync.lastSyncedAt);
+  const viewer = useMemo<Viewer>(() => ({ userId: user.id, role: workspace.role }), [user.id, workspace.role]);
+
+  const { deliverNow, acknowledge, snooze } = useReminderScheduler(reminders, setReminders, { timeZone });
+  const fileStorage = useFileStorage(files, setFiles);
+  const knowledgeIndex = useKnowledgeIndex({ notes, files });
+  const trashedNoteIds = useMemo(
+    () => new Set(trash.filter((entry) => entry.kind === 'note').map((entry) => entry.record.id)),
+    [trash]
   );
+  const noteHistory = useNoteHistory(notes, trashedNoteIds);
+  const undoHistory = useUndoHistory({
+    notes: bindUndoable(notes, setNotes),
+    tasks: bindUndoable(tasks, setTasks),
+    reminders: bindUndoable(reminders, setReminders),
+    files: bindUndoable(files, setFiles),
+    trash: bindUndoable(trash, setTrash, { keyOf: (entry) => `${entry.kind}:${entry.record.id}`, stamp: false })
+  });
 
   const [noteDraft, setNoteDraft] = useState({ title: '', content: '', tags: '' });
-  const [taskDraft, setTaskDraft] = useState({ title: '', dueDate: '', priority: 'medium' as Task['priority'] });
-  const [reminderDraft, setReminderDraft] = useState({ title: '', scheduledFor: '', channel: 'mobile' as Reminder['channel'] });
+  const [taskDraft, setTaskDraft] = useState({ title: '', dueDate: '', priority: 'medium' as Task['priority'], recurrence: '' });
+  const [reminderDraft, setReminderDraft] = useState({
+    title: '',
+    scheduledFor: '',
+    channel: 'mobile' as Reminder['channel'],
+    recurrence: '',
+    escalationChannel: '' as Reminder['channel'] | '',
+    escalationMinutes: 15
+  });
   const [fileNotes, setFileNotes] = useState('');
+  const [isIngesting, setIsIngesting] = useState(false);
+  const [viewingFileId, setViewingFileId] = useState<string | null>(null);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [focusedCardId, setFocusedCardId] = useState<string | null>(null);
+  const [plannerDay, setPlannerDay] = useState(() => new Date());
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [showStoreReport, setShowStoreReport] = useState(storeReport.repaired + storeReport.dropped > 0);
+  const [extraction, setExtraction] = useState<{ noteId: string; items: ActionItemDraft[] } | null>(null);
   const [pendingMessage, setPendingMessage] = useState('');
   const [isThinking, setIsThinking] = useState(false);
   const chatListRef = useRef<HTMLDivElement | null>(null);
@@ -152,37 +343,85 @@ export default function Home() {
     }
   }, [chatMessages, isChatOpen]);
 
+  const taskTree = useMemo(() => buildTaskTree(tasks), [tasks]);
+  const visibleTasks = useMemo(
+    () => applyTaskView(tasks, taskView, new Date(), { userId: user.id, timeZone }),
+    [tasks, taskView, user.id, timeZone]
+  );
+  const taskViews = useMemo(
+    () => (isShared ? builtInTaskViews : builtInTaskViews.filter((view) => !view.settings.assignedToMe)),
+    [isShared]
+  );
+  const taskTags = useMemo(() => [...new Set(tasks.flatMap((task) => task.tags ?? []))].sort(), [tasks]);
+  const blockedTaskIds = useMemo(
+    () => new Set(tasks.filter((task) => !task.done && openBlockers(task, tasks).length).map((task) => task.id)),
+    [tasks]
+  );
+  // Tasks shared with the viewer read-only; the board and planner won't let them be moved.
+  const readOnlyTaskIds = useMemo(
+    () => new Set(tasks.filter((task) => !canEdit(recordAccess('tasks', task, viewer))).map((task) => task.id)),
+    [tasks, viewer]
+  );
+  const openTasks = useMemo(() => tasks.filter((task) => !task.done), [tasks]);
+  const plannerItems = useMemo(() => {
+    const from = plannerMode === 'day' ? startOfDay(plannerDay, timeZone) : startOfWeek(plannerDay, timeZone);
+    const to = addDays(from, plannerMode === 'day' ? 1 : 7, timeZone);
+    return agendaItems({ tasks, reminders }, from, to, new Date(), timeZone);
+  }, [tasks, reminders, plannerDay, plannerMode, timeZone]);
+  const unscheduled = useMemo(
+    () => unscheduledTasks(tasks).filter((task) => !readOnlyTaskIds.has(task.id)),
+    [tasks, readOnlyTaskIds]
+  );
+  const nextReminder = useMemo(() => nextUpcomingReminder(reminders, new Date(), timeZone), [reminders, timeZone]);
+
+  const searchIndex = useMemo(
+    () => buildSearchIndex(buildSearchDocuments({ notes, tasks, reminders, files, chat: chatMessages })),
+    [notes, tasks, reminders, files, chatMessages]
+  );
+
+  useEffect(() => {
+    if (!focusedCardId) return;
+    const timer = window.setTimeout(() => setFocusedCardId(null), 2500);
+    return () => window.clearTimeout(timer);
+  }, [focusedCardId]);
+
   useEffect(() => {
-    return () => {
-      files.forEach((file) => {
-        if (file.previewUrl) URL.revokeObjectURL(file.previewUrl);
-      });
+    const purgeExpired = () => {
+      const expired = expiredEntries(trash);
+      if (expired.length) purgeFromTrash(expired);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    purgeExpired();
+    const timer = window.setInterval(purgeExpired, 3600_000);
+    return () => window.clearInterval(timer);
+  }, [trash]);
 
-  const completedTasks = useMemo(() => tasks.filter((task) => task.done).length, [tasks]);
-  const openTasks = useMemo(() => tasks.filter((task) => !task.done), [tasks]);
-  const nextReminder = useMemo(() => {
-    const upcoming = reminders
-      .filter((reminder) => new Date(reminder.scheduledFor).getTime() >= Date.now())
-      .sort((a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime());
-    return upcoming[0];
-  }, [reminders]);
+  const viewingFile = files.find((file) => file.id === viewingFileId);
+
+  const noteTitles = useMemo(() => notes.map((note) => note.title), [notes]);
+  const backlinks = useMemo(() => backlinkMap(notes), [notes]);
+  const hasNote = (title: string) => Boolean(resolveWikiLink(title, notes));
+
+  const entitySummaries = useMemo(
+    () => summarizeEntities({ notes, tasks, reminders, files }),
+    [notes, tasks, reminders, files]
+  );
+  const entityLinks = useMemo(() => linkMaps({ notes, tasks, reminders, files }), [notes, tasks, reminders, files]);
+  const knowledgeGraph = useMemo(
+    () => buildKnowledgeGraph({ notes, tasks, reminders, files }),
+    [notes, tasks, reminders, files]
+  );
 
   const noteHighlights = useMemo(() => {
     const pinned = notes.filter((note) => note.pinned);
     return pinned.length ? pinned : notes.slice(0, 2);
   }, [notes]);
 
-  const progressScore = useMemo(() => {
-    if (tasks.length === 0) return 0;
-    return Math.round((completedTasks / tasks.length) * 100);
-  }, [completedTasks, tasks.length]);
+  const progressScore = useMemo(() => Math.round(weightedProgress(tasks) * 100), [tasks]);
 
   function addNote(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (!noteDraft.title.trim() && !noteDraft.content.trim()) return;
+    undoHistory.record('Add note');
     const now = new Date().toISOString();
     setNotes((prev) => [
       {
@@ -199,162 +438,774 @@ export default function Home() {
     setNoteDraft({ title: '', content: '', tags: '' });
   }
 
+  function saveNote(id: string, draft: NoteDraft) {
+    undoHistory.record('Edit note');
+    const now = new Date().toISOString();
+    const previous = notes.find((note) => note.id === id);
+    const title = draft.title.trim() || 'Untitled Note';
+    const renamed = previous && previous.title !== title ? previous.title : null;
+    setNotes((prev) =>
+      prev.map((note) => {
+        if (note.id === id) {
+          return {
+            ...note,
+            title,
+            content: draft.content.trim(),
+            tags: draft.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+            updatedAt: now
+          };
+        }
+        // Keep [[links]] in other notes pointing at the renamed note.
+        const content = renamed ? renameWikiLinks(note.content, renamed, title) : note.content;
+        return content === note.content ? note : { ...note, content, updatedAt: now };
+      })
+    );
+    setEditingNoteId(null);
+  }
+
+  function toggleNoteChecklist(id: string, line: number) {
+    undoHistory.record('Tick checklist item');
+    setNotes((prev) =>
+      prev.map((note) =>
+        note.id === id
+          ? { ...note, content: toggleChecklistItem(note.content, line), updatedAt: new Date().toISOString() }
+          : note
+      )
+    );
+  }
+
+  function openWikiLink(title: string) {
+    const target = resolveWikiLink(title, notes);
+    if (target) {
+      focusCard(target.id, 'notes');
+      return;
+    }
+    const now = new Date().toISOString();
+    const id = `note-${uid()}`;
+    undoHistory.record('Create note');
+    setNotes((prev) => [
+      { id, title: title.trim(), content: '', tags: [], pinned: false, createdAt: now, updatedAt: now },
+      ...prev
+    ]);
+    setEditingNoteId(id);
+    focusCard(id, 'notes');
+  }
+
+  function extractActions(note: Note) {
+    setExtraction({ noteId: note.id, items: extractActionItems(note.content, new Date(), timeZone) });
+  }
+
+  function createTasksFromNote(noteId: string, items: ActionItemDraft[]) {
+    undoHistory.record(`Create ${items.length} ${items.length === 1 ? 'task' : 'tasks'} from note`);
+    const now = new Date().toISOString();
+    const created: Task[] = items.map(({ title, priority, dueDate }) => ({
+      id: `task-${uid()}`,
+      title,
+      done: false,
+      priority,
+      dueDate,
+      links: [{ type: 'derived-from', target: { kind: 'note', id: noteId } }],
+      updatedAt: now
+    }));
+    setTasks((prev) => [...created, ...prev]);
+    setExtraction(null);
+  }
+
   function archiveNote(id: string) {
-    setNotes((prev) => prev.filter((note) => note.id !== id));
+    const note = notes.find((entry) => entry.id === id);
+    undoHistory.record(`Deleted note “${note?.title ?? 'Untitled Note'}”`, { destructive: true });
+    if (note) setTrash((prev) => addToTrash(prev, { kind: 'note', record: note, deletedAt: new Date().toISOString() }));
+    setNotes((prev) => prev.filter((entry) => entry.id !== id));
+  }
+
+  function restoreRevision(id: string, revision: NoteRevision) {
+    undoHistory.record('Restore note revision');
+    setNotes((prev) =>
+      prev.map((note) =>
+        note.id === id
+          ? {
+              ...note,
+              title: revision.title,
+              content: revision.content,
+              tags: [...revision.tags],
+              updatedAt: new Date().toISOString()
+            }
+          : note
+      )
+    );
   }
 
   function togglePin(id: string) {
+    undoHistory.record(notes.find((note) => note.id === id)?.pinned ? 'Unpin note' : 'Pin note');
     setNotes((prev) =>
       prev
-        .map((note) => (note.id === id ? { ...note, pinned: !note.pinned } : note))
+        .map((note) =>
+          note.id === id ? { ...note, pinned: !note.pinned, updatedAt: new Date().toISOString() } : note
+        )
         .sort((a, b) => Number(b.pinned) - Number(a.pinned))
     );
   }
 
   function addTask(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
-    if (!taskDraft.title.trim()) return;
+    const rrule = taskDraft.recurrence;
+    if (!taskDraft.title.trim() || (rrule && validateRRule(rrule))) return;
+    undoHistory.record('Add task');
+    // A repeating task needs an anchor, so it starts now when no due date was picked.
+    const picked = taskDraft.dueDate ? fromDateTimeLocal(taskDraft.dueDate, timeZone)?.toISOString() : undefined;
+    const dueDate = picked ?? (rrule ? new Date().toISOString() : undefined);
     setTasks((prev) => [
       {
         id: `task-${uid()}`,
         title: taskDraft.title.trim(),
         done: false,
-        dueDate: taskDraft.dueDate || undefined,
-        priority: taskDraft.priority
+        dueDate,
+        priority: taskDraft.priority,
+        recurrence: rrule && dueDate ? { rrule, dtstart: new Date(dueDate).toISOString() } : undefined,
+        updatedAt: new Date().toISOString()
       },
       ...prev
     ]);
-    setTaskDraft({ title: '', dueDate: '', priority: taskDraft.priority });
+    setTaskDraft({ title: '', dueDate: '', priority: taskDraft.priority, recurrence: '' });
   }
 
   function toggleTask(id: string) {
+    undoHistory.record(tasks.find((task) => task.id === id)?.done ? 'Reopen task' : 'Complete task');
+    setTasks((prev) =>
+      prev.map((task) => {
+        if (task.id !== id) return task;
+        // Prerequisites gate completion; reopening is always allowed.
+        if (!task.done && openBlockers(task, prev).length) return task;
+        return toggleTaskDone(task);
+      })
+    );
+  }
+
+  function moveTask(id: string, status: TaskStatus) {
+    undoHistory.record('Move task');
     setTasks((prev) =>
-      prev.map((task) => (task.id === id ? { ...task, done: !task.done } : task))
+      prev.map((task) => {
+        if (task.id !== id) return task;
+        if (status === 'done' && openBlockers(task, prev).length) return task;
+        return moveTaskToStatus(task, status);
+      })
     );
   }
 
+  function saveTaskView(name: string) {
+    setSavedTaskViews((prev) => [...prev, { id: `view-${uid()}`, name, settings: taskView }]);
+  }
+
+  function deleteTaskView(id: string) {
+    setSavedTaskViews((prev) => prev.filter((view) => view.id !== id));
+  }
+
+  function addSubtask(parent: Task, title: string) {
+    undoHistory.record('Add subtask');
+    const subtask: Task = {
+      id: `task-${uid()}`,
+      title,
+      done: false,
+      priority: parent.priority,
+      parentId: parent.id,
+      updatedAt: new Date().toISOString()
+    };
+    setTasks((prev) => {
+      // Keep siblings in creation order: insert after the parent's last existing subtask.
+      const index = prev.reduce(
+        (last, task, position) => (task.id === parent.id || task.parentId === parent.id ? position : last),
+        -1
+      );
+      if (index === -1) return [...prev, subtask];
+      return [...prev.slice(0, index + 1), subtask, ...prev.slice(index + 1)];
+    });
+    // Reopen a finished parent: it has new work in it now.
+    if (parent.done) setTasks((prev) => prev.map((task) => (task.id === parent.id ? toggleTaskDone(task) : task)));
+  }
+
+  function editBlockers(taskId: string, blockerId: string, change: 'add' | 'remove') {
+    undoHistory.record(change === 'add' ? 'Add dependency' : 'Remove dependency');
+    setTasks((prev) =>
+      prev.map((task) => {
+        if (task.id !== taskId) return task;
+        return change === 'add' ? addBlocker(task, blockerId, prev) : removeBlocker(task, blockerId);
+      })
+    );
+  }
+
+  function scheduleBlock(taskId: string, start: Date) {
+    undoHistory.record('Schedule task');
+    setTasks((prev) => prev.map((task) => (task.id === taskId ? scheduleTask(task, start) : task)));
+  }
+
+  function scheduleOnDay(taskId: string, day: Date) {
+    const task = tasks.find((entry) => entry.id === taskId);
+    const start = task && nextFreeSlot(task, { tasks, reminders }, day, new Date(), defaultWorkingHours, timeZone);
+    if (start) scheduleBlock(taskId, start);
+  }
+
+  function resizeBlock(taskId: string, minutes: number) {
+    undoHistory.record('Change time block');
+    setTasks((prev) =>
+      prev.map((task) =>
+        task.id === taskId && task.scheduledStart ? scheduleTask(task, new Date(task.scheduledStart), minutes) : task
+      )
+    );
+  }
+
+  function unscheduleBlock(taskId: string) {
+    undoHistory.record('Unschedule task');
+    setTasks((prev) => prev.map((task) => (task.id === taskId ? unscheduleTask(task) : task)));
+  }
+
+  function openAgendaItem(item: AgendaItem) {
+    focusCard(item.id, item.kind === 'reminder' ? 'reminders' : 'tasks');
+  }
+
+  function showInPlanner(task: Task) {
+    if (task.scheduledStart) setPlannerDay(new Date(task.scheduledStart));
+    setPlannerMode('day');
+    window.history.replaceState(null, '', '#planner');
+    document.getElementById('planner')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setFocusedCardId(task.id);
+  }
+
+  function planMyDay() {
+    setPlannerDay(new Date());
+    setPlannerMode('day');
+    setIsChatOpen(true);
+    void askAssistant('Plan my day');
+  }
+
   function removeTask(id: string) {
-    setTasks((prev) => prev.filter((task) => task.id !== id));
+    const task = tasks.find((entry) => entry.id === id);
+    undoHistory.record(`Deleted task “${task?.title ?? 'task'}”`, { destructive: true });
+    if (task) setTrash((prev) => addToTrash(prev, { kind: 'task', record: task, deletedAt: new Date().toISOString() }));
+    setTasks((prev) => prev.filter((entry) => entry.id !== id));
+  }
+
+  function shareItem(collection: ShareableCollection, id: string, shares: ItemShare[]) {
+    undoHistory.record('Change sharing');
+    const updatedAt = new Date().toISOString();
+    const update = <T extends { id: string; shares?: ItemShare[] }>(records: T[]) =>
+      records.map((record) => (record.id === id ? { ...record, shares, updatedAt } : record));
+    if (collection === 'notes') setNotes(update);
+    else if (collection === 'tasks') setTasks(update);
+    else setFiles(update);
+  }
+
+  function assignTask(id: string, assigneeId: string | undefined) {
+    undoHistory.record(assigneeId ? 'Assign task' : 'Unassign task');
+    setTasks((prev) =>
+      prev.map((task) => (task.id === id ? { ...task, assigneeId, updatedAt: new Date().toISOString() } : task))
+    );
   }
 
   function addReminder(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
-    if (!reminderDraft.title.trim()) return;
-    const due = reminderDraft.scheduledFor || new Date(Date.now() + 3600_000).toISOString();
+    const rrule = reminderDraft.recurrence;
+    if (!reminderDraft.title.trim() || (rrule && validateRRule(rrule))) return;
+    undoHistory.record('Add reminder');
+    const picked = reminderDraft.scheduledFor ? fromDateTimeLocal(reminderDraft.scheduledFor, timeZone) : null;
+    const due = (picked ?? new Date(Date.now() + 3600_000)).toISOString();
+    const escalationChannel = reminderDraft.escalationChannel === reminderDraft.channel ? '' : reminderDraft.escalationChannel;
     setReminders((prev) => [
       {
         id: `reminder-${uid()}`,
         title: reminderDraft.title.trim(),
         scheduledFor: due,
-        channel: reminderDraft.channel
+        channel: reminderDraft.channel,
+        recurrence: rrule ? { rrule, dtstart: new Date(due).toISOString() } : undefined,
+        status: 'pending',
+        escalation: escalationChannel
+          ? { channel: escalationChannel, afterMinutes: Math.max(1, reminderDraft.escalationMinutes) }
+          : undefined,
+        updatedAt: new Date().toISOString()
+      },
+      ...prev
+    ]);
+    setReminderDraft((prev) => ({ ...prev, title: '', scheduledFor: '', recurrence: '' }));
+    if (reminderDraft.channel === 'push' || escalationChannel === 'push') void requestNotificationPermission();
+  }
+
+  function captureEntry(draft: CaptureDraft) {
+    undoHistory.record(draft.kind === 'task' ? 'Capture task' : 'Capture reminder');
+    const now = new Date().toISOString();
+    const tags = draft.tags.length ? draft.tags : undefined;
+    if (draft.kind === 'task') {
+      setTasks((prev) => [
+        {
+          id: `task-${uid()}`,
+          title: draft.title,
+          done: false,
+          dueDate: draft.due,
+          priority: draft.priority,
+          tags,
+          updatedAt: now
+        },
+        ...prev
+      ]);
+      return;
+    }
+    setReminders((prev) => [
+      {
+        id: `reminder-${uid()}`,
+        title: draft.title,
+        scheduledFor: draft.due ?? new Date(Date.now() + 3600_000).toISOString(),
+        channel: draft.channel,
+        status: 'pending',
+        tags,
+        updatedAt: now
       },
       ...prev
     ]);
-    setReminderDraft({ title: '', scheduledFor: '', channel: reminderDraft.channel });
+    if (draft.channel === 'push') void requestNotificationPermission();
   }
 
   function removeReminder(id: string) {
-    setReminders((prev) => prev.filter((reminder) => reminder.id !== id));
+    const reminder = reminders.find((entry) => entry.id === id);
+    undoHistory.record(`Deleted reminder “${reminder?.title ?? 'reminder'}”`, { destructive: true });
+    if (reminder) {
+      setTrash((prev) => addToTrash(prev, { kind: 'reminder', record: reminder, deletedAt: new Date().toISOString() }));
+    }
+    setReminders((prev) => prev.filter((entry) => entry.id !== id));
+  }
+
+  function restoreFromTrash(entry: TrashEntry) {
+    undoHistory.record(`Restore “${trashTitle(entry)}”`);
+    // A fresh timestamp lets the restore win over the deletion the sync server recorded.
+    const updatedAt = new Date().toISOString();
+    const restore = <T extends { id: string }>(prev: T[], record: T) =>
+      prev.some((existing) => existing.id === record.id) ? prev : [{ ...record, updatedAt }, ...prev];
+    if (entry.kind === 'note') setNotes((prev) => restore(prev, entry.record));
+    else if (entry.kind === 'task') setTasks((prev) => restore(prev, entry.record));
+    else if (entry.kind === 'reminder') setReminders((prev) => restore(prev, entry.record));
+    else setFiles((prev) => restore(prev, entry.record));
+    setTrash((prev) => prev.filter((other) => other !== entry));
+  }
+
+  function purgeFromTrash(entries: TrashEntry[]) {
+    entries.forEach((entry) => {
+      if (entry.kind === 'file') fileStorage.purge(entry.record);
+    });
+    setTrash((prev) => prev.filter((entry) => !entries.includes(entry)));
+  }
+
+  function focusCard(id: string, section: string) {
+    if (section !== 'assistant') window.history.replaceState(null, '', `#${section}`);
+    // Let a newly rendered card (or the chat panel) mount before scrolling to it.
+    window.setTimeout(() => {
+      const card = document.getElementById(`card-${id}`) ?? document.getElementById(section);
+      card?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setFocusedCardId(id);
+    }, 50);
   }
 
-  function handleFileUpload(event: FormEvent<HTMLFormElement>) {
+  function openEntity(ref: EntityRef) {
+    focusCard(ref.id, entitySections[ref.kind]);
+  }
+
+  function openCitation(citation: Citation) {
+    if (citation.kind === 'file') setViewingFileId(citation.id);
+    else focusCard(citation.id, 'notes');
+  }
+
+  function openGraphNode(node: GraphNode) {
+    if (node.ref) openEntity(node.ref);
+  }
+
+  function editLinks(source: EntityRef, link: EntityLink, change: 'add' | 'remove') {
+    undoHistory.record(change === 'add' ? 'Link items' : 'Unlink items');
+    const apply = <T extends { id: string; links?: EntityLink[]; updatedAt?: string }>(record: T) =>
+      record.id !== source.id ? record : change === 'add' ? addLink(record, link) : removeLink(record, link);
+    if (source.kind === 'note') setNotes((prev) => prev.map(apply));
+    else if (source.kind === 'task') setTasks((prev) => prev.map(apply));
+    else if (source.kind === 'reminder') setReminders((prev) => prev.map(apply));
+    else setFiles((prev) => prev.map(apply));
+  }
+
+  /** The record's links; only listed, not editable, when the viewer may not change the record. */
+  function linksFor(ref: EntityRef, editable = true) {
+    const key = entityKey(ref);
+    return (
+      <EntityLinks
+        self={ref}
+        links={entityLinks.outgoing.get(key) ?? []}
+        backlinks={entityLinks.incoming.get(key) ?? []}
+        candidates={entitySummaries}
+        linkTypes={linkTypesFor[ref.kind]}
+        onAdd={editable ? (link) => editLinks(ref, link, 'add') : undefined}
+        onRemove={editable ? (link) => editLinks(ref, link, 'remove') : undefined}
+        onOpen={openEntity}
+      />
+    );
+  }
+
+  function accessOf(collection: ShareableCollection, record: Shareable): Access {
+    return recordAccess(collection, record, viewer);
+  }
+
+  /** Who can see a record, as a chip that opens its sharing panel. Shared spaces only. */
+  function sharingChip(collection: ShareableCollection, record: Shareable & { id: string }) {
+    if (!isShared) return null;
+    const access = accessOf(collection, record);
+    const key = `${collection}:${record.id}`;
+    const label =
+      access === 'viewer' ? 'View only' : access === 'editor' ? 'Shared with you' : record.shares?.length ? 'Shared' : 'Private';
+    return (
+      <button
+        type="button"
+        onClick={() => setSharingId((current) => (current === key ? null : key))}
+        className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1 hover:text-white"
+        aria-expanded={sharingId === key}
+      >
+        {access === 'viewer' ? <Eye className="h-3 w-3" /> : <Users className="h-3 w-3" />}
+        {label}
+      </button>
+    );
+  }
+
+  function sharingPanel(collection: ShareableCollection, record: Shareable & { id: string }) {
+    if (!isShared || sharingId !== `${collection}:${record.id}`) return null;
+    return (
+      <SharingPanel
+        shares={record.shares}
+        ownerId={record.ownerId}
+        members={workspace.members}
+        currentUserId={user.id}
+        canManage={accessOf(collection, record) === 'owner'}
+        onChange={(shares) => shareItem(collection, record.id, shares)}
+      />
+    );
+  }
+
+  function renderTask(task: Task, nested = true): ReactNode {
+    const subtasks = taskTree.children.get(task.id) ?? [];
+    const parent = task.parentId ? tasks.find((entry) => entry.id === task.parentId) : undefined;
+    const progress = taskProgress(task, taskTree);
+    const blockers = openBlockers(task, tasks);
+    const isBlocked = !task.done && blockers.length > 0;
+    const access = accessOf('tasks', task);
+    return (
+      <Fragment key={task.id}>
+        <div
+          id={`card-${task.id}`}
+          className={`flex items-start gap-3 rounded-2xl border border-white/10 bg-slate-900/50 p-4 transition ${searchHit(task.id)}`}
+        >
+          <button
+            type="button"
+            onClick={() => toggleTask(task.id)}
+            disabled={isBlocked || !canEdit(access)}
+            className={`mt-1 inline-flex h-6 w-6 items-center justify-center rounded-full border transition disabled:cursor-not-allowed ${
+              task.done ? 'border-brand bg-brand/20 text-brand-light' : 'border-white/20 text-slate-400'
+            }`}
+            aria-label={task.done ? 'Mark task incomplete' : isBlocked ? 'Blocked by unfinished tasks' : 'Mark task complete'}
+            title={isBlocked ? `Finish ${blockers.map((blocker) => blocker.title).join(', ')} first` : undefined}
+          >
+            {task.done ? (
+              <CheckSquare className="h-4 w-4" />
+            ) : isBlocked ? (
+              <Lock className="h-3.5 w-3.5" />
+            ) : (
+              <Plus className="h-4 w-4" />
+            )}
+          </button>
+          <div className="flex-1 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className={`text-sm font-medium ${task.done ? 'text-slate-400 line-through' : 'text-white'}`}>{task.title}</p>
+                <p className="text-xs text-slate-300/70">
+                  {priorityTokens[task.priority]}
+                  {parent && !nested ? ` · Subtask of ${parent.title}` : ''}
+                </p>
+              </div>
+              {access === 'owner' ? (
+                <button
+                  type="button"
+                  onClick={() => removeTask(task.id)}
+                  className="text-xs text-slate-400 hover:text-rose-300"
+                  aria-label="Remove task"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              ) : null}
+            </div>
+            {subtasks.length ? (
+              <div className="flex items-center gap-2 text-xs text-slate-300/80">
+                <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-slate-800">
+                  <div className="h-full rounded-full bg-brand" style={{ width: `${Math.round(progress * 100)}%` }} />
+                </div>
+                <span className="tabular-nums">
+                  {subtasks.filter((subtask) => subtask.done).length}/{subtasks.length} subtasks · {Math.round(progress * 100)}%
+                </span>
+              </div>
+            ) : null}
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300/80">
+              {task.dueDate ? (
+                <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+                  <CalendarCheck className="h-3 w-3" />
+                  {formatDateTime(task.dueDate)}
+                </span>
+              ) : null}
+              {task.scheduledStart ? (
+                <button
+                  type="button"
+                  onClick={() => showInPlanner(task)}
+                  className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1 hover:text-white"
+                >
+                  <Clock className="h-3 w-3" />
+                  {formatDateTime(task.scheduledStart)} · {blockMinutes(task)} min
+                </button>
+              ) : null}
+              <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+                <Hash className="h-3 w-3" />
+                {task.priority}
+              </span>
+              {task.recurrence ? (
+                <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+                  <Repeat className="h-3 w-3" />
+                  {describeRRule(task.recurrence.rrule)}
+                </span>
+              ) : null}
+              {task.tags?.map((tag) => (
+                <span key={`${task.id}-${tag}`} className="inline-flex items-center gap-1 rounded-full bg-brand/20 px-2 py-1 text-brand-light">
+                  <Tag className="h-3 w-3" />
+                  {tag}
+                </span>
+              ))}
+              {isShared ? (
+                <label className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+                  <UserRound className="h-3 w-3" />
+                  <select
+                    value={task.assigneeId ?? ''}
+                    onChange={(event) => assignTask(task.id, event.target.value || undefined)}
+                    disabled={access !== 'owner'}
+                    className="bg-transparent text-xs text-slate-200 focus:outline-none"
+                    aria-label="Assignee"
+                  >
+                    <option value="">Unassigned</option>
+                    {workspace.members.map((member) => (
+                      <option key={member.userId} value={member.userId}>
+                        {member.userId === user.id ? 'Me' : member.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+              {sharingChip('tasks', task)}
+            </div>
+            {sharingPanel('tasks', task)}
+            <TaskRelations
+              blockers={(task.blockedBy ?? []).flatMap((id) => tasks.filter((entry) => entry.id === id))}
+              candidates={blockerCandidates(task, tasks)}
+              onAddBlocker={canEdit(access) ? (blockerId) => editBlockers(task.id, blockerId, 'add') : undefined}
+              onRemoveBlocker={canEdit(access) ? (blockerId) => editBlockers(task.id, blockerId, 'remove') : undefined}
+              onAddSubtask={canEdit(access) ? (title) => addSubtask(task, title) : undefined}
+              onOpen={(id) => focusCard(id, 'tasks')}
+            />
+            {linksFor({ kind: 'task', id: task.id }, canEdit(access))}
+          </div>
+        </div>
+        {nested && subtasks.length ? (
+          <div className="ml-4 space-y-3 border-l border-white/10 pl-3">
+            {subtasks.map((subtask) => renderTask(subtask))}
+          </div>
+        ) : null}
+      </Fragment>
+    );
+  }
+
+  function revealSearchResult(result: SearchDocument) {
+    if (result.type === 'chat') setIsChatOpen(true);
+    focusCard(result.id, result.section);
+  }
+
+  const searchHit = (id: string) => (focusedCardId === id ? 'ring-2 ring-brand/70' : '');
+
+  function importCalendarFile(text: string) {
+    const result = importCalendar(text, { tasks, reminders }, (prefix) => `${prefix}-${uid()}`, timeZone);
+    undoHistory.record('Import calendar');
+    setTasks(result.tasks);
+    setReminders(result.reminders);
+    return `Imported ${result.created} new, ${result.updated} updated, ${result.unchanged} unchanged`;
+  }
+
+  async function exportData(format: ExportFormat) {
+    const { blob, filename } = await exportWorkspace({ notes, tasks, reminders, files, chat: chatMessages }, format);
+    downloadBlob(blob, filename);
+  }
+
+  async function importData(file: File, mode: ImportMode) {
+    const { archive, blobs } = await readArchiveFile(file);
+    const { data, summary } = importArchive({ notes, tasks, reminders, files, chat: chatMessages }, archive, mode);
+    // Store the bytes first so the file list finds local copies as soon as it updates.
+    await restoreBlobs(blobs);
+    undoHistory.record(mode === 'replace' ? 'Replaced everything with an archive' : 'Import archive', {
+      destructive: mode === 'replace'
+    });
+    setNotes(data.notes);
+    setTasks(data.tasks);
+    setReminders(data.reminders);
+    setFiles(data.files);
+    setChatMessages(data.chat);
+    return [
+      `Imported ${summary.added} new, ${summary.updated} updated, ${summary.unchanged} unchanged`,
+      summary.removed ? `${summary.removed} removed` : null,
+      blobs.size ? `${blobs.size} ${blobs.size === 1 ? 'file' : 'files'} restored` : null
+    ]
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  async function handleFileUpload(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     const target = event.currentTarget;
     const input = target.querySelector<HTMLInputElement>('input[type="file"]');
     if (!input || !input.files || input.files.length === 0) return;
 
-    const uploadedAt = new Date().toISOString();
-    const entries: FileResource[] = Array.from(input.files).map((file) => ({
-      id: `file-${uid()}`,
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      uploadedAt,
-      description: fileNotes.trim() || undefined,
-      previewUrl: URL.createObjectURL(file)
-    }));
-
-    setFiles((prev) => [...entries, ...prev]);
-    input.value = '';
-    setFileNotes('');
+    setIsIngesting(true);
+    try {
+      await fileStorage.ingest(Array.from(input.files), fileNotes.trim() || undefined);
+      input.value = '';
+      setFileNotes('');
+    } finally {
+      setIsIngesting(false);
+    }
   }
 
   function removeFile(id: string) {
-    setFiles((prev) => {
-      const entry = prev.find((file) => file.id === id);
-      if (entry?.previewUrl) URL.revokeObjectURL(entry.previewUrl);
-      return prev.filter((file) => file.id !== id);
-    });
+    const file = files.find((entry) => entry.id === id);
+    undoHistory.record(`Deleted file “${file?.name ?? 'file'}”`, { destructive: true });
+    if (file) setTrash((prev) => addToTrash(prev, { kind: 'file', record: file, deletedAt: new Date().toISOString() }));
+    fileStorage.remove(id);
   }
 
-  function craftAssistantReply(prompt: string) {
-    const lower = prompt.toLowerCase();
-
-    if (lower.includes('note')) {
-      const highlight = notes[0];
-      if (highlight) {
-        return `Your latest note “${highlight.title}” points to ${highlight.content.slice(0, 120)}... Want me to turn that into next tasks?`;
-      }
-    }
+  function runUpdaters({ notes: notesUpdater, tasks: tasksUpdater, reminders: remindersUpdater }: ActionUpdaters) {
+    if (notesUpdater) setNotes(notesUpdater);
+    if (tasksUpdater) setTasks(tasksUpdater);
+    if (remindersUpdater) setReminders(remindersUpdater);
+  }
 
-    if (lower.includes('task') || lower.includes('todo')) {
-      if (openTasks.length) {
-        const next = openTasks[0];
-        const due = next.dueDate ? ` due ${formatDateTime(next.dueDate)}` : '';
-        return `Focus anchor: ${next.title}${due}. I can break it down or schedule a block—just say “plan it”.`;
-      }
-      return 'Inbox zero achieved. Ready for a brain dump to capture the next wave?';
-    }
+  function updateProposal(messageId: string, proposalId: string, patch: Partial<ActionProposal>) {
+    setChatMessages((prev) =>
+      prev.map((message) =>
+        message.id === messageId
+          ? {
+              ...message,
+              updatedAt: new Date().toISOString(),
+              actions: message.actions?.map((proposal) =>
+                proposal.id === proposalId ? { ...proposal, ...patch } : proposal
+              )
+            }
+          : message
+      )
+    );
+  }
 
-    if (lower.includes('remind') || lower.includes('schedule')) {
-      if (nextReminder) {
-        return `Next reminder is “${nextReminder.title}” via ${channelTokens[nextReminder.channel]} at ${formatDateTime(nextReminder.scheduledFor)}.`;
-      }
-      return 'You are reminder-free. Want me to set a cadence to review goals?';
+  function applyProposal(messageId: string, proposal: ActionProposal) {
+    const blocked = actionBlockedReason(proposal.action, { tasks });
+    if (blocked) {
+      updateProposal(messageId, proposal.id, { detail: blocked });
+      return;
     }
-
-    if (lower.includes('file')) {
-      const doc = files[0];
-      if (doc) {
-        return `Latest file is ${doc.name} (${formatFileSize(doc.size)}). I can summarize or extract actions if you need.`;
-      }
+    const result = applyAssistantAction(proposal.action, { notes, tasks }, (prefix) => `${prefix}-${uid()}`);
+    if (!result) {
+      updateProposal(messageId, proposal.id, { status: 'dismissed', detail: 'The item it refers to no longer exists.' });
+      return;
     }
+    undoHistory.record(`Assistant: ${proposal.label}`);
+    runUpdaters(result.updaters);
+    updateProposal(messageId, proposal.id, { status: 'applied', undo: result.undo });
+  }
 
-    const responses = [
-      ...bubbleResponses.greeting,
-      ...(openTasks.length ? bubbleResponses.tasks : []),
-      ...(noteHighlights.length ? bubbleResponses.notes : [])
-    ];
-    return responses[Math.floor(Math.random() * responses.length)] ??
-      'Your system is synced. Ask for a focus plan or capture something new.';
+  function undoProposal(messageId: string, proposal: ActionProposal) {
+    if (!proposal.undo) return;
+    undoHistory.record(`Revert assistant: ${proposal.label}`);
+    runUpdaters(revertAssistantAction(proposal.undo));
+    updateProposal(messageId, proposal.id, { status: 'undone', undo: undefined });
   }
 
   function sendMessage(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     const content = pendingMessage.trim();
     if (!content || isThinking) return;
+    setPendingMessage('');
+    void askAssistant(content);
+  }
+
+  async function askAssistant(content: string) {
+    if (isThinking) return;
 
     const userMessage: ChatMessage = {
       id: `chat-${uid()}`,
       role: 'user',
       content,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
     };
+    const replyId = `chat-${uid()}`;
+    let replyStarted = false;
 
     setChatMessages((prev) => [...prev, userMessage]);
-    setPendingMessage('');
     setIsThinking(true);
+    const sources = await knowledgeIndex.retrieveSources(content).catch(() => []);
+    const citations = sources.length ? toCitations(sources) : undefined;
 
-    window.setTimeout(() => {
-      const reply: ChatMessage = {
-        id: `chat-${uid()}`,
-        role: 'assistant',
-        content: craftAssistantReply(content),
-        timestamp: new Date().toISOString()
+    function updateReply(update: (reply: ChatMessage) => ChatMessage) {
+      if (!replyStarted) {
+        replyStarted = true;
+        setChatMessages((prev) => [
+          ...prev,
+          update({
+            id: replyId,
+            role: 'assistant',
+            content: '',
+            citations,
+            timestamp: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+          })
+        ]);
+        return;
+      }
+      setChatMessages((prev) =>
+        prev.map((message) =>
+          message.id === replyId ? { ...update(message), updatedAt: new Date().toISOString() } : message
+        )
+      );
+    }
+
+    function appendToReply(text: string) {
+      updateReply((reply) => ({ ...reply, content: reply.content + text }));
+    }
+
+    function proposeAction(action: AssistantAction) {
+      const proposal: ActionProposal = {
+        id: `action-${uid()}`,
+        action,
+        status: 'proposed',
+        ...describeAction(action, { notes, tasks })
       };
-      setChatMessages((prev) => [...prev, reply]);
+      updateReply((reply) => ({ ...reply, actions: [...(reply.actions ?? []), proposal] }));
+    }
+
+    try {
+      await streamAssistantReply(
+        {
+          messages: [...chatMessages, userMessage].map(({ role, content }) => ({ role, content })),
+          context: buildWorkspaceSnapshot({ notes, tasks, reminders, files, timeZone }),
+          sources
+        },
+        { onToken: appendToReply, onAction: proposeAction }
+      );
+    } catch {
+      appendToReply(
+        replyStarted
+          ? ' …I lost the connection mid-thought. Ask again in a moment.'
+          : 'I could not reach my reasoning engine just now. Your notes and tasks are safe—try again in a moment.'
+      );
+    } finally {
       setIsThinking(false);
-    }, 650);
+    }
   }
 
   const today = new Date();
@@ -365,11 +1216,50 @@ export default function Home() {
       <header id="top" className="space-y-4">
         <div className="flex items-center justify-between">
           <div>
-            <p className="text-xs uppercase tracking-[0.2em] text-slate-200/60">{today.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}</p>
-            <h1 className="mt-2 text-3xl font-semibold text-white">Good {getGreeting()}, Operator</h1>
+            <p className="text-xs uppercase tracking-[0.2em] text-slate-200/60">{formatDay(today)}</p>
+            <h1 className="mt-2 text-3xl font-semibold text-white">Good {getGreeting()}, {user.name}</h1>
+            {isShared ? (
+              <a href="#spaces" className="mt-1 inline-flex items-center gap-1 text-xs text-slate-300 hover:text-white">
+                <Users className="h-3.5 w-3.5" />
+                {workspace.name}
+                {workspace.role === 'viewer' ? ' · view only' : ''}
+              </a>
+            ) : null}
+            <SyncIndicator status={sync.status} pending={sync.pending} onRetry={() => void sync.syncNow()} />
           </div>
-          <div className="glass flex h-12 w-12 items-center justify-center rounded-2xl border border-white/10 text-brand-light shadow-lg">
-            <Sparkles className="h-6 w-6" />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={undoHistory.undo}
+              disabled={!undoHistory.canUndo}
+              className="glass flex h-12 w-12 items-center justify-center rounded-2xl border border-white/10 text-slate-200 shadow-lg transition hover:text-white disabled:opacity-40 disabled:hover:text-slate-200"
+              aria-label="Undo (Ctrl+Z)"
+              title={undoHistory.undoLabel ? `Undo: ${undoHistory.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <Undo2 className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={undoHistory.redo}
+              disabled={!undoHistory.canRedo}
+              className="glass flex h-12 w-12 items-center justify-center rounded-2xl border border-white/10 text-slate-200 shadow-lg transition hover:text-white disabled:opacity-40 disabled:hover:text-slate-200"
+              aria-label="Redo (Ctrl+Shift+Z)"
+              title={undoHistory.redoLabel ? `Redo: ${undoHistory.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <Redo2 className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsSearchOpen(true)}
+              className="glass flex h-12 w-12 items-center justify-center rounded-2xl border border-white/10 text-slate-200 shadow-lg transition hover:text-white"
+              aria-label="Search (Ctrl+K)"
+              title="Search (Ctrl+K)"
+            >
+              <Search className="h-5 w-5" />
+            </button>
+            <div className="glass flex h-12 w-12 items-center justify-center rounded-2xl border border-white/10 text-brand-light shadow-lg">
+              <Sparkles className="h-6 w-6" />
+            </div>
           </div>
         </div>
         <div className="glass grid grid-cols-2 gap-3 rounded-3xl p-4">
@@ -388,14 +1278,60 @@ export default function Home() {
           />
           <StatCard
             label="Upcoming"
-            value={nextReminder ? formatDateTime(nextReminder.scheduledFor).split(',')[0] : 'Clear'}
-            delta={nextReminder ? nextReminder.title : 'No reminders queued'}
+            value={nextReminder ? formatDateTime(nextReminder.at.toISOString()).split(',')[0] : 'Clear'}
+            delta={nextReminder ? nextReminder.reminder.title : 'No reminders queued'}
             icon={<AlarmClock className="h-8 w-8" />}
             className="col-span-2"
           />
         </div>
+        {showStoreReport ? (
+          <div className="flex items-center gap-3 rounded-2xl border border-amber-300/30 bg-amber-500/10 px-4 py-3 text-xs text-amber-100">
+            <TriangleAlert className="h-4 w-4 flex-none text-amber-300" />
+            <p className="flex-1">
+              Some saved data was damaged.
+              {storeReport.repaired ? ` Repaired ${storeReport.repaired} ${storeReport.repaired === 1 ? 'record' : 'records'}.` : ''}
+              {storeReport.dropped ? ` Skipped ${storeReport.dropped} that could not be read.` : ''}
+            </p>
+            <button
+              type="button"
+              onClick={() => setShowStoreReport(false)}
+              className="rounded-full p-1 text-amber-200 hover:bg-white/10"
+              aria-label="Dismiss"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ) : null}
       </header>
 
+      <QuickCapture onCapture={captureEntry} timeZone={timeZone} />
+
+      <SectionCard id="planner" title="Planner" subtitle="Time-block tasks around your reminders">
+        <DayPlanner
+          day={plannerDay}
+          mode={plannerMode}
+          onDayChange={setPlannerDay}
+          onModeChange={setPlannerMode}
+          items={plannerItems}
+          unscheduled={unscheduled}
+          blockedIds={blockedTaskIds}
+          readOnlyIds={readOnlyTaskIds}
+          blockLength={(taskId) => {
+            const task = tasks.find((entry) => entry.id === taskId);
+            return task ? blockMinutes(task) : 60;
+          }}
+          onSchedule={scheduleBlock}
+          onScheduleOnDay={scheduleOnDay}
+          onResize={resizeBlock}
+          onUnschedule={unscheduleBlock}
+          onOpen={openAgendaItem}
+          onPlanDay={planMyDay}
+          isPlanning={isThinking}
+          highlightedId={focusedCardId}
+          timeZone={timeZone}
+        />
+      </SectionCard>
+
       <SectionCard
         id="notes"
         title="Notes"
@@ -415,51 +1351,142 @@ export default function Home() {
         }
       >
         <div className="flex flex-col gap-3">
-          {notes.map((note) => (
-            <article
-              key={note.id}
-              className="rounded-2xl border border-white/5 bg-slate-900/60 p-4 shadow-inner transition hover:border-brand/30"
-            >
-              <div className="flex items-start justify-between gap-3">
-                <div className="space-y-1">
-                  <h3 className="text-base font-semibold text-white">{note.title}</h3>
-                  <p className="text-sm text-slate-200/80">
-                    {note.content || 'Empty note. Drop your thoughts here to give them a home.'}
-                  </p>
-                </div>
-                <div className="flex flex-col items-end gap-2">
-                  <button
-                    type="button"
-                    onClick={() => togglePin(note.id)}
-                    className="inline-flex rounded-full border border-white/10 bg-slate-900/70 p-2 text-xs text-slate-200/70 transition hover:text-brand-light"
-                    aria-label={note.pinned ? 'Unpin note' : 'Pin note'}
-                  >
-                    {note.pinned ? <Pin className="h-3.5 w-3.5" /> : <PinOff className="h-3.5 w-3.5" />}
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => archiveNote(note.id)}
-                    className="text-xs text-slate-400 hover:text-rose-300"
-                    aria-label="Delete note"
-                  >
-                    <Trash2 className="h-3.5 w-3.5" />
-                  </button>
-                </div>
-              </div>
-              <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-300/80">
-                <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
-                  <CalendarCheck className="h-3 w-3" />
-                  {formatDateTime(note.updatedAt)}
-                </span>
-                {note.tags.map((tag) => (
-                  <span key={`${note.id}-${tag}`} className="inline-flex items-center gap-1 rounded-full bg-brand/20 px-2 py-1 text-brand-light">
-                    <Tag className="h-3 w-3" />
-                    {tag}
+          {notes.map((note) => {
+            const access = accessOf('notes', note);
+            return (
+              <article
+                key={note.id}
+                id={`card-${note.id}`}
+                className={`rounded-2xl border border-white/5 bg-slate-900/60 p-4 shadow-inner transition hover:border-brand/30 ${searchHit(note.id)}`}
+              >
+                {editingNoteId === note.id && canEdit(access) ? (
+                  <NoteEditor
+                    note={note}
+                    noteTitles={noteTitles}
+                    resolveWikiLink={hasNote}
+                    onSave={(draft) => saveNote(note.id, draft)}
+                    onCancel={() => setEditingNoteId(null)}
+                  />
+                ) : (
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <h3 className="text-base font-semibold text-white">{note.title}</h3>
+                      {note.content ? (
+                        <MarkdownView
+                          content={note.content}
+                          resolveWikiLink={hasNote}
+                          onWikiLinkClick={openWikiLink}
+                          onToggleChecklist={canEdit(access) ? (line) => toggleNoteChecklist(note.id, line) : undefined}
+                        />
+                      ) : (
+                        <p className="text-sm text-slate-200/80">Empty note. Drop your thoughts here to give them a home.</p>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-2">
+                      {canEdit(access) ? (
+                        <button
+                          type="button"
+                          onClick={() => setEditingNoteId(note.id)}
+                          className="inline-flex rounded-full border border-white/10 bg-slate-900/70 p-2 text-xs text-slate-200/70 transition hover:text-brand-light"
+                          aria-label="Edit note"
+                        >
+                          <PenLine className="h-3.5 w-3.5" />
+                        </button>
+                      ) : null}
+                      {canEdit(access) ? (
+                        <button
+                          type="button"
+                          onClick={() => extractActions(note)}
+                          className="inline-flex rounded-full border border-white/10 bg-slate-900/70 p-2 text-xs text-slate-200/70 transition hover:text-brand-light"
+                          aria-label="Extract actions"
+                          title="Extract actions"
+                        >
+                          <ListChecks className="h-3.5 w-3.5" />
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        onClick={() => setHistoryNoteId((current) => (current === note.id ? null : note.id))}
+                        className="inline-flex rounded-full border border-white/10 bg-slate-900/70 p-2 text-xs text-slate-200/70 transition hover:text-brand-light"
+                        aria-label="Note history"
+                        aria-expanded={historyNoteId === note.id}
+                        title="History"
+                      >
+                        <History className="h-3.5 w-3.5" />
+                      </button>
+                      {canEdit(access) ? (
+                        <button
+                          type="button"
+                          onClick={() => togglePin(note.id)}
+                          className="inline-flex rounded-full border border-white/10 bg-slate-900/70 p-2 text-xs text-slate-200/70 transition hover:text-brand-light"
+                          aria-label={note.pinned ? 'Unpin note' : 'Pin note'}
+                        >
+                          {note.pinned ? <Pin className="h-3.5 w-3.5" /> : <PinOff className="h-3.5 w-3.5" />}
+                        </button>
+                      ) : null}
+                      {access === 'owner' ? (
+                        <button
+                          type="button"
+                          onClick={() => archiveNote(note.id)}
+                          className="text-xs text-slate-400 hover:text-rose-300"
+                          aria-label="Delete note"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      ) : null}
+                    </div>
+                  </div>
+                )}
+                {historyNoteId === note.id ? (
+                  <NoteHistory
+                    revisions={noteHistory.revisionsFor(note.id)}
+                    onRestore={canEdit(access) ? (revision) => restoreRevision(note.id, revision) : undefined}
+                    onClose={() => setHistoryNoteId(null)}
+                  />
+                ) : null}
+                {extraction?.noteId === note.id && canEdit(access) ? (
+                  <ActionItemReview
+                    items={extraction.items}
+                    onCreate={(items) => createTasksFromNote(note.id, items)}
+                    onCancel={() => setExtraction(null)}
+                    timeZone={timeZone}
+                  />
+                ) : null}
+                {backlinks.get(note.id)?.length ? (
+                  <div className="mt-3 rounded-xl border border-white/5 bg-slate-950/40 px-3 py-2 text-xs text-slate-300/80">
+                    <p className="mb-1 uppercase tracking-wide text-slate-400">Backlinks</p>
+                    <div className="flex flex-wrap gap-2">
+                      {backlinks.get(note.id)?.map((source) => (
+                        <button
+                          key={source.id}
+                          type="button"
+                          onClick={() => focusCard(source.id, 'notes')}
+                          className="rounded-full bg-slate-800 px-2 py-1 text-brand-light hover:bg-slate-700"
+                        >
+                          {source.title}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+                <div className="mt-3">{linksFor({ kind: 'note', id: note.id }, canEdit(access))}</div>
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-300/80">
+                  <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+                    <CalendarCheck className="h-3 w-3" />
+                    {formatDateTime(note.updatedAt)}
                   </span>
-                ))}
-              </div>
-            </article>
-          ))}
+                  {note.tags.map((tag) => (
+                    <span key={`${note.id}-${tag}`} className="inline-flex items-center gap-1 rounded-full bg-brand/20 px-2 py-1 text-brand-light">
+                      <Tag className="h-3 w-3" />
+                      {tag}
+                    </span>
+                  ))}
+                  {sharingChip('notes', note)}
+                </div>
+                {sharingPanel('notes', note)}
+              </article>
+            );
+          })}
         </div>
         <form id="note-draft" onSubmit={addNote} className="space-y-3 rounded-2xl border border-white/10 bg-slate-900/60 p-4">
           <input
@@ -468,12 +1495,13 @@ export default function Home() {
             placeholder="Note title"
             className="w-full rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-3 text-sm text-white placeholder:text-slate-400 focus:border-brand focus:outline-none"
           />
-          <textarea
+          <MarkdownEditor
             value={noteDraft.content}
-            onChange={(event) => setNoteDraft((prev) => ({ ...prev, content: event.target.value }))}
-            placeholder="Capture your thought, decision, or idea"
+            onChange={(content) => setNoteDraft((prev) => ({ ...prev, content }))}
+            noteTitles={noteTitles}
+            resolveWikiLink={hasNote}
+            placeholder="Capture your thought, decision, or idea — Markdown and [[links]] welcome"
             rows={3}
-            className="w-full rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-3 text-sm text-white placeholder:text-slate-400 focus:border-brand focus:outline-none"
           />
           <input
             value={noteDraft.tags}
@@ -516,58 +1544,64 @@ export default function Home() {
               <option value="low">Low</option>
             </select>
           </div>
+          <RecurrencePicker
+            value={taskDraft.recurrence}
+            anchor={taskDraft.dueDate}
+            onChange={(recurrence) => setTaskDraft((prev) => ({ ...prev, recurrence }))}
+          />
           <button type="submit" className="flex items-center justify-center gap-2 rounded-2xl bg-brand px-4 py-3 text-sm font-semibold text-white transition hover:bg-brand-light">
             <Plus className="h-4 w-4" />
             Queue Task
           </button>
         </form>
-        <div className="space-y-3">
-          {tasks.map((task) => (
-            <div key={task.id} className="flex items-start gap-3 rounded-2xl border border-white/10 bg-slate-900/50 p-4">
-              <button
-                type="button"
-                onClick={() => toggleTask(task.id)}
-                className={`mt-1 inline-flex h-6 w-6 items-center justify-center rounded-full border transition ${
-                  task.done ? 'border-brand bg-brand/20 text-brand-light' : 'border-white/20 text-slate-400'
-                }`}
-                aria-label={task.done ? 'Mark task incomplete' : 'Mark task complete'}
-              >
-                {task.done ? <CheckSquare className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
-              </button>
-              <div className="flex-1 space-y-2">
-                <div className="flex items-start justify-between gap-3">
-                  <div>
-                    <p className={`text-sm font-medium ${task.done ? 'text-slate-400 line-through' : 'text-white'}`}>{task.title}</p>
-                    <p className="text-xs text-slate-300/70">{priorityTokens[task.priority]}</p>
-                  </div>
-                  <button
-                    type="button"
-                    onClick={() => removeTask(task.id)}
-                    className="text-xs text-slate-400 hover:text-rose-300"
-                    aria-label="Remove task"
-                  >
-                    <Trash2 className="h-3.5 w-3.5" />
-                  </button>
-                </div>
-                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300/80">
-                  {task.dueDate ? (
-                    <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
-                      <CalendarCheck className="h-3 w-3" />
-                      {formatDateTime(task.dueDate)}
-                    </span>
-                  ) : null}
-                  <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
-                    <Hash className="h-3 w-3" />
-                    {task.priority}
-                  </span>
-                </div>
-              </div>
+        <TaskViewControls
+          view={taskView}
+          onChange={setTaskView}
+          builtInViews={taskViews}
+          savedViews={savedTaskViews}
+          onSave={saveTaskView}
+          onDelete={deleteTaskView}
+          tags={taskTags}
+          showAssignee={isShared}
+        />
+        {taskView.layout === 'board' ? (
+          <TaskBoard
+            tasks={visibleTasks}
+            blockedIds={blockedTaskIds}
+            readOnlyIds={readOnlyTaskIds}
+            onMove={moveTask}
+            highlightedId={focusedCardId}
+          />
+        ) : isTreeView(taskView) ? (
+          <div className="space-y-3">{taskTree.roots.map((task) => renderTask(task))}</div>
+        ) : taskView.grouped ? (
+          groupByDue(visibleTasks, new Date(), timeZone).map((group) => (
+            <div key={group.bucket} className="space-y-3">
+              <p className={`text-xs uppercase tracking-wide ${group.bucket === 'overdue' ? 'text-rose-300' : 'text-slate-400'}`}>
+                {dueBucketTokens[group.bucket]} · {group.tasks.length}
+              </p>
+              {group.tasks.map((task) => renderTask(task, false))}
             </div>
-          ))}
-        </div>
+          ))
+        ) : (
+          <div className="space-y-3">{visibleTasks.map((task) => renderTask(task, false))}</div>
+        )}
+        {tasks.length && !visibleTasks.length ? (
+          <p className="text-center text-sm text-slate-400">No tasks match this view.</p>
+        ) : null}
       </SectionCard>
 
-      <SectionCard id="reminders" title="Reminders" subtitle="Never lose track of the commitments you make to yourself">
+      <SectionCard
+        id="reminders"
+        title="Reminders"
+        subtitle="Never lose track of the commitments you make to yourself"
+        action={
+          <CalendarControls
+            onImport={importCalendarFile}
+            feedPath={`/api/calendar?token=${encodeURIComponent(user.calendarToken)}`}
+          />
+        }
+      >
         <form onSubmit={addReminder} className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-slate-900/50 p-4">
           <input
             value={reminderDraft.title}
@@ -592,6 +1626,43 @@ export default function Home() {
               <option value="push">Desktop Push</option>
             </select>
           </div>
+          <RecurrencePicker
+            value={reminderDraft.recurrence}
+            anchor={reminderDraft.scheduledFor}
+            onChange={(recurrence) => setReminderDraft((prev) => ({ ...prev, recurrence }))}
+          />
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <select
+              value={reminderDraft.escalationChannel}
+              onChange={(event) =>
+                setReminderDraft((prev) => ({ ...prev, escalationChannel: event.target.value as Reminder['channel'] | '' }))
+              }
+              className="flex-1 rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-3 text-sm text-white focus:border-brand"
+              aria-label="Escalation channel"
+            >
+              <option value="">No escalation</option>
+              {(Object.keys(channelTokens) as Reminder['channel'][])
+                .filter((channel) => channel !== reminderDraft.channel)
+                .map((channel) => (
+                  <option key={channel} value={channel}>
+                    Escalate to {channelTokens[channel]}
+                  </option>
+                ))}
+            </select>
+            {reminderDraft.escalationChannel ? (
+              <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-slate-950/80 px-3 text-sm text-slate-300 focus-within:border-brand">
+                if unacknowledged for
+                <input
+                  type="number"
+                  min={1}
+                  value={reminderDraft.escalationMinutes}
+                  onChange={(event) => setReminderDraft((prev) => ({ ...prev, escalationMinutes: Number(event.target.value) }))}
+                  className="w-16 bg-transparent py-3 text-white focus:outline-none"
+                />
+                min
+              </label>
+            ) : null}
+          </div>
           <button type="submit" className="flex items-center justify-center gap-2 rounded-2xl bg-brand px-4 py-3 text-sm font-semibold text-white transition hover:bg-brand-light">
             <AlarmClock className="h-4 w-4" />
             Schedule Reminder
@@ -599,7 +1670,11 @@ export default function Home() {
         </form>
         <div className="space-y-3">
           {reminders.map((reminder) => (
-            <div key={reminder.id} className="flex items-start justify-between gap-3 rounded-2xl border border-white/10 bg-slate-900/60 p-4">
+            <div
+              key={reminder.id}
+              id={`card-${reminder.id}`}
+              className={`flex items-start justify-between gap-3 rounded-2xl border border-white/10 bg-slate-900/60 p-4 transition ${searchHit(reminder.id)}`}
+            >
               <div className="space-y-2">
                 <p className="text-sm font-medium text-white">{reminder.title}</p>
                 <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300/80">
@@ -611,7 +1686,33 @@ export default function Home() {
                     <MessageSquareText className="h-3 w-3" />
                     {channelTokens[reminder.channel]}
                   </span>
+                  {reminder.recurrence ? (
+                    <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+                      <Repeat className="h-3 w-3" />
+                      {describeRRule(reminder.recurrence.rrule)}
+                    </span>
+                  ) : null}
+                  <DeliveryBadge reminder={reminder} onRetry={() => void deliverNow(reminder)} />
+                  {reminder.escalation ? (
+                    <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+                      <AlarmClock className="h-3 w-3" />
+                      Escalates to {channelTokens[reminder.escalation.channel]} after {reminder.escalation.afterMinutes} min
+                    </span>
+                  ) : null}
+                  {reminder.tags?.map((tag) => (
+                    <span key={`${reminder.id}-${tag}`} className="inline-flex items-center gap-1 rounded-full bg-brand/20 px-2 py-1 text-brand-light">
+                      <Tag className="h-3 w-3" />
+                      {tag}
+                    </span>
+                  ))}
                 </div>
+                <ReminderActions
+                  reminder={reminder}
+                  onAcknowledge={() => acknowledge(reminder.id)}
+                  onSnooze={(until) => snooze(reminder.id, until)}
+                  timeZone={timeZone}
+                />
+                {linksFor({ kind: 'reminder', id: reminder.id })}
               </div>
               <button
                 type="button"
@@ -642,16 +1743,34 @@ export default function Home() {
             rows={2}
             className="w-full rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-3 text-sm text-white placeholder:text-slate-400 focus:border-brand"
           />
-          <button type="submit" className="w-full rounded-2xl bg-brand px-4 py-3 text-sm font-semibold text-white transition hover:bg-brand-light">
-            Ingest Files
+          <button
+            type="submit"
+            disabled={isIngesting}
+            className="w-full rounded-2xl bg-brand px-4 py-3 text-sm font-semibold text-white transition hover:bg-brand-light disabled:opacity-60"
+          >
+            {isIngesting ? 'Reading files…' : 'Ingest Files'}
           </button>
         </form>
         <div className="space-y-3">
           {files.map((file) => (
-            <div key={file.id} className="flex items-start gap-3 rounded-2xl border border-white/10 bg-slate-900/50 p-4">
-              <div className="flex h-12 w-12 flex-none items-center justify-center rounded-2xl bg-brand/20 text-brand-light">
-                <Files className="h-6 w-6" />
-              </div>
+            <div
+              key={file.id}
+              id={`card-${file.id}`}
+              className={`flex items-start gap-3 rounded-2xl border border-white/10 bg-slate-900/50 p-4 transition ${searchHit(file.id)}`}
+            >
+              <button
+                type="button"
+                onClick={() => setViewingFileId(file.id)}
+                className="flex h-12 w-12 flex-none items-center justify-center overflow-hidden rounded-2xl bg-brand/20 text-brand-light transition hover:ring-2 hover:ring-brand/60"
+                aria-label={`Preview ${file.name}`}
+              >
+                {file.thumbnail ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={file.thumbnail} alt="" className="h-full w-full object-cover" />
+                ) : (
+                  <FileKindIcon file={file} className="h-6 w-6" />
+                )}
+              </button>
               <div className="flex-1 space-y-2">
                 <div className="flex items-start justify-between gap-3">
                   <div>
@@ -660,34 +1779,91 @@ export default function Home() {
                       {formatFileSize(file.size)} · {file.type || 'Unknown type'}
                     </p>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => removeFile(file.id)}
-                    className="text-xs text-slate-400 hover:text-rose-300"
-                    aria-label="Remove file"
-                  >
-                    <Trash2 className="h-3.5 w-3.5" />
-                  </button>
+                  {accessOf('files', file) === 'owner' ? (
+                    <button
+                      type="button"
+                      onClick={() => removeFile(file.id)}
+                      className="text-xs text-slate-400 hover:text-rose-300"
+                      aria-label="Remove file"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  ) : null}
                 </div>
                 {file.description ? <p className="text-xs text-slate-200/80">{file.description}</p> : null}
-                {file.previewUrl ? (
-                  <a
-                    href={file.previewUrl}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/70 px-3 py-1 text-xs text-slate-200/80 transition hover:border-brand"
+                {file.content ? (
+                  <p className="line-clamp-3 rounded-xl bg-slate-950/50 px-3 py-2 text-xs text-slate-300/80">{file.content}</p>
+                ) : null}
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300/80">
+                  <button
+                    type="button"
+                    onClick={() => setViewingFileId(file.id)}
+                    className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/70 px-3 py-1 text-slate-200/80 transition hover:border-brand"
                   >
                     <Paperclip className="h-3.5 w-3.5" />
                     Preview
-                  </a>
-                ) : null}
+                  </button>
+                  {file.extraction ? (
+                    <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+                      <FileText className="h-3 w-3" />
+                      {extractionTokens[file.extraction]}
+                    </span>
+                  ) : null}
+                  <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+                    {file.remoteUrl ? <Cloud className="h-3 w-3" /> : <HardDrive className="h-3 w-3" />}
+                    {file.remoteUrl ? 'Stored on server' : 'This device only'}
+                  </span>
+                  {sharingChip('files', file)}
+                </div>
+                {sharingPanel('files', file)}
                 <p className="text-xs text-slate-300/70">Uploaded {formatDateTime(file.uploadedAt)}</p>
+                {linksFor({ kind: 'file', id: file.id }, canEdit(accessOf('files', file)))}
               </div>
             </div>
           ))}
         </div>
       </SectionCard>
 
+      {isShared ? (
+        <SectionCard id="activity" title="Activity" subtitle={`Who changed what in ${workspace.name}`}>
+          <ActivityFeed entries={activity} currentUserId={user.id} onOpen={(collection, id) => focusCard(id, collection)} />
+        </SectionCard>
+      ) : null}
+
+      <SectionCard id="graph" title="Knowledge Graph" subtitle="See how notes, tasks, reminders, files and tags connect">
+        <KnowledgeGraph graph={knowledgeGraph} onOpen={openGraphNode} />
+      </SectionCard>
+
+      <SectionCard id="trash" title="Trash" subtitle="Restore deleted items before they are purged">
+        <TrashList
+          entries={trash}
+          onRestore={restoreFromTrash}
+          onPurge={(entry) => purgeFromTrash([entry])}
+          onEmpty={() => purgeFromTrash(trash)}
+        />
+      </SectionCard>
+
+      <SectionCard id="data" title="Your Data" subtitle="Export everything, or bring an archive back in">
+        <DataControls onExport={exportData} onImport={importData} />
+      </SectionCard>
+
+      <SectionCard id="spaces" title="Spaces" subtitle="Your own brain, and the spaces you share with a team">
+        <WorkspaceSettings
+          workspaces={spaces.workspaces}
+          active={workspace}
+          currentUserId={user.id}
+          onSwitch={spaces.switchTo}
+          onCreate={spaces.create}
+          onAddMember={(invite) => spaces.addMember(workspace.id, invite)}
+          onUpdateMember={(userId, role) => spaces.updateMember(workspace.id, userId, role)}
+          onRemoveMember={(userId) => spaces.removeMember(workspace.id, userId)}
+        />
+      </SectionCard>
+
+      <SectionCard id="account" title="Account" subtitle="Your name and the time zone every time is shown in">
+        <AccountSettings user={user} onSave={onUpdateProfile} onSignOut={onSignOut} />
+      </SectionCard>
+
       <nav className="fixed bottom-6 left-1/2 z-40 w-[90%] max-w-md -translate-x-1/2">
         <div className="glass flex items-center justify-around rounded-full border border-white/10 px-4 py-3 text-xs text-slate-300">
           <BottomLink href="#top" icon={NotebookPen} label="Home" />
@@ -695,6 +1871,7 @@ export default function Home() {
           <BottomLink href="#tasks" icon={CheckSquare} label="Tasks" />
           <BottomLink href="#reminders" icon={AlarmClock} label="Remind" />
           <BottomLink href="#files" icon={Files} label="Files" />
+          <BottomLink href="#graph" icon={Network} label="Graph" />
         </div>
       </nav>
 
@@ -707,11 +1884,55 @@ export default function Home() {
         isThinking={isThinking}
         onSubmit={sendMessage}
         chatListRef={chatListRef}
+        onApplyAction={applyProposal}
+        onDismissAction={(messageId, proposal) => updateProposal(messageId, proposal.id, { status: 'dismissed' })}
+        onUndoAction={undoProposal}
+        onOpenCitation={openCitation}
+        focusedMessageId={focusedCardId}
+      />
+
+      <FileViewer
+        file={viewingFile ?? null}
+        url={viewingFile ? fileStorage.urlFor(viewingFile) : undefined}
+        onClose={() => setViewingFileId(null)}
       />
+
+      <CommandPalette
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        index={searchIndex}
+        onSelect={revealSearchResult}
+      />
+
+      {undoHistory.lastDestructive ? (
+        <UndoToast
+          operationId={undoHistory.lastDestructive.id}
+          label={undoHistory.lastDestructive.label}
+          onUndo={undoHistory.undo}
+          onDismiss={undoHistory.dismissToast}
+        />
+      ) : null}
     </main>
   );
 }
 
+const fileKindIcons: Record<FileKind, LucideIcon> = {
+  pdf: FileText,
+  docx: FileText,
+  markdown: FileText,
+  csv: Sheet,
+  text: FileText,
+  image: FileImage,
+  audio: FileAudio,
+  video: FileVideo,
+  other: Files
+};
+
+function FileKindIcon({ file, className }: { file: FileResource; className?: string }) {
+  const Icon = fileKindIcons[fileKindOf(file)];
+  return <Icon className={className} />;
+}
+
 function BottomLink({ href, icon: Icon, label }: { href: string; icon: LucideIcon; label: string }) {
   return (
     <a href={href} className="flex flex-col items-center gap-1 text-slate-300/80 transition hover:text-white">
@@ -730,6 +1951,11 @@ interface AiBubbleProps {
   setPendingMessage: React.Dispatch<React.SetStateAction<string>>;
   onSubmit: (event: FormEvent<HTMLFormElement>) => void;
   chatListRef: React.RefObject<HTMLDivElement>;
+  onApplyAction: (messageId: string, proposal: ActionProposal) => void;
+  onDismissAction: (messageId: string, proposal: ActionProposal) => void;
+  onUndoAction: (messageId: string, proposal: ActionProposal) => void;
+  onOpenCitation: (citation: Citation) => void;
+  focusedMessageId?: string | null;
 }
 
 function AiBubble({
@@ -740,7 +1966,12 @@ function AiBubble({
   pendingMessage,
   setPendingMessage,
   onSubmit,
-  chatListRef
+  chatListRef,
+  onApplyAction,
+  onDismissAction,
+  onUndoAction,
+  onOpenCitation,
+  focusedMessageId
 }: AiBubbleProps) {
   return (
     <div className="fixed bottom-24 right-6 z-40 flex flex-col items-end gap-3 md:right-10">
@@ -768,25 +1999,43 @@ function AiBubble({
           </header>
           <div ref={chatListRef} className="scrollbar-hidden mb-3 max-h-72 space-y-3 overflow-y-auto pr-1">
             {messages.map((message) => (
-              <div key={message.id} className={`flex ${message.role === 'assistant' ? 'justify-start' : 'justify-end'}`}>
+              <div
+                key={message.id}
+                id={`card-${message.id}`}
+                className={`flex ${message.role === 'assistant' ? 'justify-start' : 'justify-end'}`}
+              >
                 <div
                   className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm ${
                     message.role === 'assistant'
                       ? 'bg-slate-900/80 text-slate-100'
                       : 'bg-brand text-white'
-                  }`}
+                  } ${focusedMessageId === message.id ? 'ring-2 ring-brand/70' : ''}`}
                 >
-                  <p>{message.content}</p>
+                  {message.citations?.length ? (
+                    <CitedReply content={message.content} citations={message.citations} onOpen={onOpenCitation} />
+                  ) : (
+                    <p>{message.content}</p>
+                  )}
+                  {message.actions?.length ? (
+                    <div className="mt-3 space-y-2">
+                      {message.actions.map((proposal) => (
+                        <ActionProposalCard
+                          key={proposal.id}
+                          proposal={proposal}
+                          onApply={() => onApplyAction(message.id, proposal)}
+                          onDismiss={() => onDismissAction(message.id, proposal)}
+                          onUndo={() => onUndoAction(message.id, proposal)}
+                        />
+                      ))}
+                    </div>
+                  ) : null}
                   <span className="mt-1 block text-[10px] uppercase tracking-wide text-white/50">
-                    {new Date(message.timestamp).toLocaleTimeString(undefined, {
-                      hour: '2-digit',
-                      minute: '2-digit'
-                    })}
+                    {formatTime(new Date(message.timestamp))}
                   </span>
                 </div>
               </div>
             ))}
-            {isThinking ? (
+            {isThinking && messages[messages.length - 1]?.role !== 'assistant' ? (
               <div className="flex justify-start">
                 <div className="rounded-2xl bg-slate-900/80 px-4 py-3 text-sm text-slate-200/80">
                   <div className="flex items-center gap-2">
@@ -0,0 +1,94 @@
+"use client";
+
+import { FormEvent, useMemo, useState } from "react";
+import { Globe2, LogOut, Save } from "lucide-react";
+import type { ProfileUpdate, User } from "../lib/auth/protocol";
+import { browserTimeZone } from "../lib/auth/useSession";
+
+interface AccountSettingsProps {
+  user: User;
+  onSave: (update: ProfileUpdate) => Promise<void>;
+  onSignOut: () => Promise<void>;
+}
+
+function timeZoneOptions() {
+  const intl = Intl as { supportedValuesOf?: (key: "timeZone") => string[] };
+  return intl.supportedValuesOf?.("timeZone") ?? [browserTimeZone()];
+}
+
+export function AccountSettings({ user, onSave, onSignOut }: AccountSettingsProps) {
+  const [name, setName] = useState(user.name);
+  const [timezone, setTimezone] = useState(user.timezone);
+  const [message, setMessage] = useState<string | null>(null);
+  const zones = useMemo(timeZoneOptions, []);
+  const changed = name.trim() !== user.name || timezone !== user.timezone;
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    try {
+      await onSave({ name, timezone });
+      setMessage("Saved");
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Could not save");
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-xs">
+      <p className="text-slate-400">Signed in as {user.email}</p>
+      <label className="block space-y-1">
+        <span className="text-slate-300">Display name</span>
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          required
+          className="w-full rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-2 text-sm text-white focus:border-brand focus:outline-none"
+        />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-slate-300">Time zone</span>
+        <input
+          value={timezone}
+          onChange={(event) => setTimezone(event.target.value)}
+          list="account-time-zones"
+          required
+          className="w-full rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-2 text-sm text-white focus:border-brand focus:outline-none"
+        />
+        <datalist id="account-time-zones">
+          {zones.map((zone) => (
+            <option key={zone} value={zone} />
+          ))}
+        </datalist>
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="submit"
+          disabled={!changed}
+          className="inline-flex items-center gap-1 rounded-full bg-brand px-3 py-1.5 font-semibold text-white hover:bg-brand-light disabled:opacity-40"
+        >
+          <Save className="h-3.5 w-3.5" />
+          Save
+        </button>
+        {timezone !== browserTimeZone() ? (
+          <button
+            type="button"
+            onClick={() => setTimezone(browserTimeZone())}
+            className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-slate-300 hover:border-brand/60 hover:text-white"
+          >
+            <Globe2 className="h-3.5 w-3.5" />
+            Use {browserTimeZone()}
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={() => void onSignOut()}
+          className="ml-auto inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-slate-300 hover:border-rose-400/60 hover:text-rose-300"
+        >
+          <LogOut className="h-3.5 w-3.5" />
+          Sign out
+        </button>
+      </div>
+      {message ? <p className="text-slate-300">{message}</p> : null}
+    </form>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Check, X } from "lucide-react";
+import type { ActionItemDraft } from "../lib/actionItems";
+import type { Task } from "../lib/models";
+import { fromDateTimeLocal, toDateTimeLocal } from "../lib/naturalDates";
+
+interface ActionItemReviewProps {
+  items: ActionItemDraft[];
+  onCreate: (items: ActionItemDraft[]) => void;
+  onCancel: () => void;
+  /** Zone the due-date fields are shown and read in. */
+  timeZone?: string;
+}
+
+type Row = { selected: boolean; title: string; priority: Task["priority"]; due: string; source: string };
+
+export function ActionItemReview({ items, onCreate, onCancel, timeZone }: ActionItemReviewProps) {
+  const [rows, setRows] = useState<Row[]>(() =>
+    items.map((item) => ({
+      selected: true,
+      title: item.title,
+      priority: item.priority,
+      due: item.dueDate ? toDateTimeLocal(new Date(item.dueDate), timeZone) : "",
+      source: item.source
+    }))
+  );
+  const chosen = rows.filter((row) => row.selected && row.title.trim());
+
+  function update(index: number, patch: Partial<Row>) {
+    setRows((prev) => prev.map((row, position) => (position === index ? { ...row, ...patch } : row)));
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!chosen.length) return;
+    onCreate(
+      chosen.map((row) => ({
+        title: row.title.trim(),
+        priority: row.priority,
+        dueDate: (row.due && fromDateTimeLocal(row.due, timeZone)?.toISOString()) || undefined,
+        source: row.source
+      }))
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={(event) => {
+        if (event.key === "Escape") onCancel();
+      }}
+      className="mt-3 space-y-2 rounded-xl border border-brand/30 bg-slate-950/50 p-3"
+    >
+      <p className="text-xs uppercase tracking-wide text-slate-400">Action items</p>
+      {rows.length ? (
+        rows.map((row, index) => (
+          <div key={index} className={row.selected ? "space-y-1.5" : "space-y-1.5 opacity-50"}>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={row.selected}
+                onChange={(event) => update(index, { selected: event.target.checked })}
+                className="h-4 w-4 accent-brand"
+                aria-label={`Create “${row.title}”`}
+              />
+              <input
+                value={row.title}
+                onChange={(event) => update(index, { title: event.target.value })}
+                className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-950/80 px-2 py-1.5 text-sm text-white focus:border-brand focus:outline-none"
+              />
+            </div>
+            <div className="flex gap-2 pl-6">
+              <select
+                value={row.priority}
+                onChange={(event) => update(index, { priority: event.target.value as Task["priority"] })}
+                className="rounded-xl border border-white/10 bg-slate-950/80 px-2 py-1 text-xs text-white focus:border-brand"
+              >
+                <option value="high">High</option>
+                <option value="medium">Medium</option>
+                <option value="low">Low</option>
+              </select>
+              <input
+                type="datetime-local"
+                value={row.due}
+                onChange={(event) => update(index, { due: event.target.value })}
+                className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-950/80 px-2 py-1 text-xs text-white focus:border-brand"
+              />
+            </div>
+            <p className="truncate pl-6 text-[11px] text-slate-500" title={row.source}>
+              {row.source}
+            </p>
+          </div>
+        ))
+      ) : (
+        <p className="text-sm text-slate-300/80">No action items found in this note.</p>
+      )}
+      <div className="flex justify-end gap-2 pt-1 text-xs">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-slate-300 hover:text-white"
+        >
+          <X className="h-3.5 w-3.5" />
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!chosen.length}
+          className="inline-flex items-center gap-1 rounded-full bg-brand px-3 py-1.5 font-semibold text-white hover:bg-brand-light disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          <Check className="h-3.5 w-3.5" />
+          {chosen.length === 1 ? "Create 1 task" : `Create ${chosen.length} tasks`}
+        </button>
+      </div>
+    </form>
+  );
+}
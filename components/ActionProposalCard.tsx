@@ -0,0 +1,70 @@
+"use client";
+
+import { Check, RotateCcw, Wand2, X } from "lucide-react";
+import type { ActionProposal } from "../lib/assistant/actions";
+import { cn } from "../lib/utils";
+
+interface ActionProposalCardProps {
+  proposal: ActionProposal;
+  onApply: () => void;
+  onDismiss: () => void;
+  onUndo: () => void;
+}
+
+const statusLabels: Record<ActionProposal["status"], string> = {
+  proposed: "Needs confirmation",
+  applied: "Applied",
+  dismissed: "Dismissed",
+  undone: "Undone"
+};
+
+export function ActionProposalCard({ proposal, onApply, onDismiss, onUndo }: ActionProposalCardProps) {
+  return (
+    <div
+      className={cn(
+        "rounded-2xl border border-white/10 bg-slate-950/70 p-3 text-left",
+        proposal.status === "applied" && "border-emerald-400/30",
+        (proposal.status === "dismissed" || proposal.status === "undone") && "opacity-60"
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <Wand2 className="mt-0.5 h-3.5 w-3.5 flex-none text-brand-light" />
+        <div className="flex-1 space-y-1">
+          <p className="text-xs font-semibold text-white">{proposal.label}</p>
+          {proposal.detail ? <p className="text-[11px] text-slate-300/80">{proposal.detail}</p> : null}
+          <p className="text-[10px] uppercase tracking-wide text-slate-400">{statusLabels[proposal.status]}</p>
+        </div>
+      </div>
+      {proposal.status === "proposed" ? (
+        <div className="mt-2 flex gap-2">
+          <button
+            type="button"
+            onClick={onApply}
+            className="inline-flex flex-1 items-center justify-center gap-1 rounded-full bg-brand px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-brand-light"
+          >
+            <Check className="h-3.5 w-3.5" />
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="inline-flex items-center justify-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-xs text-slate-300/80 transition hover:text-white"
+          >
+            <X className="h-3.5 w-3.5" />
+            Dismiss
+          </button>
+        </div>
+      ) : null}
+      {proposal.status === "applied" && proposal.undo ? (
+        <button
+          type="button"
+          onClick={onUndo}
+          className="mt-2 inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-xs text-slate-300/80 transition hover:text-white"
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+          Undo
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { CheckSquare, Files, LucideIcon, NotebookPen } from "lucide-react";
+import type { ShareableCollection } from "../lib/workspaces/access";
+import { activityTokens, type ActivityEntry } from "../lib/workspaces/protocol";
+import { formatDateTime } from "../lib/datetime";
+
+interface ActivityFeedProps {
+  entries: ActivityEntry[];
+  currentUserId: string;
+  /** Opens the record; left out for deleted records, which are gone. */
+  onOpen: (collection: ShareableCollection, id: string) => void;
+}
+
+const collectionIcons: Record<ShareableCollection, LucideIcon> = {
+  notes: NotebookPen,
+  tasks: CheckSquare,
+  files: Files
+};
+
+export function ActivityFeed({ entries, currentUserId, onOpen }: ActivityFeedProps) {
+  if (!entries.length) {
+    return <p className="text-xs text-slate-400">No activity yet. Changes to shared notes, tasks and files show up here.</p>;
+  }
+
+  return (
+    <ol className="space-y-2 text-xs">
+      {entries.map((entry) => {
+        const Icon = collectionIcons[entry.collection];
+        return (
+          <li key={entry.id} className="flex items-start gap-3 rounded-2xl border border-white/10 bg-slate-900/50 px-3 py-2">
+            <Icon className="mt-0.5 h-4 w-4 flex-none text-slate-400" />
+            <div className="min-w-0 flex-1">
+              <p className="text-slate-300">
+                <span className="font-medium text-white">{entry.actorId === currentUserId ? "You" : entry.actorName}</span>{" "}
+                {activityTokens[entry.action]}{" "}
+                {entry.action === "deleted" ? (
+                  <span className="text-slate-200">{entry.title}</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => onOpen(entry.collection, entry.recordId)}
+                    className="text-brand-light hover:underline"
+                  >
+                    {entry.title}
+                  </button>
+                )}
+              </p>
+              <p className="text-slate-500">{formatDateTime(entry.at)}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
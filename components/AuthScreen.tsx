@@ -0,0 +1,134 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { KeyRound, LogIn, Sparkles, UserPlus } from "lucide-react";
+import { MIN_PASSWORD_LENGTH, type AuthProviderInfo, type SignInRequest, type SignUpRequest } from "../lib/auth/protocol";
+import { browserTimeZone } from "../lib/auth/useSession";
+import { cn } from "../lib/utils";
+
+interface AuthScreenProps {
+  providers: AuthProviderInfo[];
+  onSignIn: (credentials: SignInRequest) => Promise<void>;
+  onSignUp: (details: SignUpRequest) => Promise<void>;
+  /** An error handed back by an OAuth redirect. */
+  initialError?: string | null;
+}
+
+type Mode = "sign-in" | "sign-up";
+
+const inputClass =
+  "w-full rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-3 text-sm text-white placeholder:text-slate-400 focus:border-brand focus:outline-none";
+
+export function AuthScreen({ providers, onSignIn, onSignUp, initialError = null }: AuthScreenProps) {
+  const [mode, setMode] = useState<Mode>("sign-in");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(initialError);
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (mode === "sign-in") await onSignIn({ email, password });
+      else await onSignUp({ email, password, name, timezone: browserTimeZone() });
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Something went wrong");
+      setBusy(false);
+    }
+  }
+
+  return (
+    <main className="relative mx-auto flex min-h-screen max-w-sm flex-col justify-center gap-6 p-6">
+      <div className="absolute inset-x-0 top-0 -z-20 h-72 bg-gradient-to-b from-brand/30 via-slate-900 to-slate-950" />
+      <div className="flex items-center gap-3">
+        <div className="glass flex h-12 w-12 items-center justify-center rounded-2xl border border-white/10 text-brand-light shadow-lg">
+          <Sparkles className="h-6 w-6" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-semibold text-white">NeuroNest</h1>
+          <p className="text-xs text-slate-400">Your second brain, in your own workspace.</p>
+        </div>
+      </div>
+
+      <div className="glass space-y-4 rounded-3xl p-5">
+        <div className="inline-flex w-full rounded-xl border border-white/10 p-0.5 text-xs">
+          {(["sign-in", "sign-up"] as Mode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => {
+                setMode(option);
+                setError(null);
+              }}
+              className={cn(
+                "flex-1 rounded-lg px-3 py-1.5",
+                mode === option ? "bg-brand text-white" : "text-slate-300 hover:text-white"
+              )}
+            >
+              {option === "sign-in" ? "Sign in" : "Create account"}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {mode === "sign-up" ? (
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Display name"
+              autoComplete="name"
+              required
+              className={inputClass}
+            />
+          ) : null}
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            required
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            placeholder={mode === "sign-up" ? `Password (${MIN_PASSWORD_LENGTH}+ characters)` : "Password"}
+            autoComplete={mode === "sign-up" ? "new-password" : "current-password"}
+            minLength={mode === "sign-up" ? MIN_PASSWORD_LENGTH : undefined}
+            required
+            className={inputClass}
+          />
+          {error ? <p className="text-xs text-rose-300">{error}</p> : null}
+          <button
+            type="submit"
+            disabled={busy}
+            className="flex w-full items-center justify-center gap-2 rounded-2xl bg-brand px-4 py-3 text-sm font-semibold text-white hover:bg-brand-light disabled:opacity-50"
+          >
+            {mode === "sign-in" ? <LogIn className="h-4 w-4" /> : <UserPlus className="h-4 w-4" />}
+            {mode === "sign-in" ? "Sign in" : "Create account"}
+          </button>
+        </form>
+
+        {providers.length ? (
+          <div className="space-y-2 border-t border-white/10 pt-4">
+            {providers.map((provider) => (
+              <a
+                key={provider.id}
+                href={`/api/auth/oauth/${provider.id}?timezone=${encodeURIComponent(browserTimeZone())}`}
+                className="flex w-full items-center justify-center gap-2 rounded-2xl border border-white/10 px-4 py-2.5 text-sm text-slate-200 hover:border-brand/60 hover:text-white"
+              >
+                <KeyRound className="h-4 w-4" />
+                Continue with {provider.name}
+              </a>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { ChangeEvent, useRef, useState } from "react";
+import { CalendarPlus, Link2, UploadCloud } from "lucide-react";
+
+interface CalendarControlsProps {
+  /** Imports the file contents and returns a short summary to show. */
+  onImport: (text: string) => string;
+  feedPath?: string;
+}
+
+export function CalendarControls({ onImport, feedPath = "/api/calendar" }: CalendarControlsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function handleFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setMessage(onImport(await file.text()));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Could not read that calendar");
+    }
+  }
+
+  async function copyFeedUrl() {
+    const url = `${window.location.origin}${feedPath}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage("Feed URL copied — add it to your calendar as a subscription");
+    } catch {
+      setMessage(url);
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1 text-xs">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-slate-200 hover:border-brand/60 hover:text-brand-light"
+        >
+          <UploadCloud className="h-3.5 w-3.5" />
+          Import .ics
+        </button>
+        <button
+          type="button"
+          onClick={copyFeedUrl}
+          className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-slate-200 hover:border-brand/60 hover:text-brand-light"
+          title="Subscribe to reminders and dated tasks from any calendar app"
+        >
+          <Link2 className="h-3.5 w-3.5" />
+          Subscribe
+        </button>
+        <a
+          href={feedPath}
+          download="neuronest.ics"
+          className="inline-flex items-center rounded-full border border-white/10 p-1.5 text-slate-200 hover:border-brand/60 hover:text-brand-light"
+          aria-label="Download calendar"
+        >
+          <CalendarPlus className="h-3.5 w-3.5" />
+        </a>
+      </div>
+      {message ? <p className="max-w-xs text-right text-slate-400">{message}</p> : null}
+      <input ref={inputRef} type="file" accept=".ics,text/calendar" onChange={handleFile} className="hidden" />
+    </div>
+  );
+}
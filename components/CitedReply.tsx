@@ -0,0 +1,68 @@
+"use client";
+
+import { useMemo } from "react";
+import { FileText, Files } from "lucide-react";
+import type { Citation } from "../lib/models";
+import { splitCitations } from "../lib/rag/citations";
+
+interface CitedReplyProps {
+  content: string;
+  citations: Citation[];
+  onOpen: (citation: Citation) => void;
+}
+
+export function CitedReply({ content, citations, onOpen }: CitedReplyProps) {
+  const segments = useMemo(() => splitCitations(content, citations), [content, citations]);
+  // Only list what the reply actually cites; retrieved-but-unused passages would just be noise.
+  const cited = useMemo(() => {
+    const used = new Set(segments.flatMap((segment) => ("citation" in segment ? [segment.citation.index] : [])));
+    return citations.filter((citation) => used.has(citation.index));
+  }, [segments, citations]);
+
+  return (
+    <>
+      <p>
+        {segments.map((segment, index) =>
+          "citation" in segment ? (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onOpen(segment.citation)}
+              className="mx-0.5 rounded bg-brand/30 px-1 align-super text-[10px] font-semibold text-brand-light hover:bg-brand/50"
+              title={segment.citation.title}
+              aria-label={`Open source ${segment.citation.index}: ${segment.citation.title}`}
+            >
+              {segment.citation.index}
+            </button>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </p>
+      {cited.length ? (
+        <ol className="mt-3 space-y-1.5 border-t border-white/10 pt-2">
+          {cited.map((citation) => {
+            const Icon = citation.kind === "note" ? FileText : Files;
+            return (
+              <li key={citation.index}>
+                <button
+                  type="button"
+                  onClick={() => onOpen(citation)}
+                  className="w-full rounded-xl px-2 py-1 text-left hover:bg-white/5"
+                  title={citation.excerpt}
+                >
+                  <span className="flex items-center gap-1.5 text-xs font-semibold text-slate-100">
+                    <span className="text-brand-light">[{citation.index}]</span>
+                    <Icon className="h-3 w-3 flex-none text-slate-400" />
+                    <span className="truncate">{citation.title}</span>
+                  </span>
+                  <span className="line-clamp-2 text-[11px] text-slate-400">{citation.excerpt}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import { AlarmClock, CheckSquare, FileText, Files, MessageSquareText, Search, X } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { parseSearchQuery, type SearchType } from "../lib/search/query";
+import {
+  highlightText,
+  searchIndex,
+  snippetAround,
+  type SearchDocument,
+  type SearchIndex
+} from "../lib/search/searchIndex";
+import { formatDateTime } from "../lib/datetime";
+import { cn } from "../lib/utils";
+
+const typeIcons: Record<SearchType, LucideIcon> = {
+  note: FileText,
+  task: CheckSquare,
+  reminder: AlarmClock,
+  file: Files,
+  chat: MessageSquareText
+};
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  index: SearchIndex;
+  onSelect: (document: SearchDocument) => void;
+}
+
+function Highlighted({ text, matched }: { text: string; matched: string[] }) {
+  return (
+    <>
+      {highlightText(text, matched).map((segment, position) =>
+        segment.match ? (
+          <mark key={position} className="rounded bg-brand/30 px-0.5 text-white">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={position}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function CommandPalette({ open, onOpenChange, index, onSelect }: CommandPaletteProps) {
+  const [input, setInput] = useState("");
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const results = useMemo(() => searchIndex(index, parseSearchQuery(input)), [index, input]);
+
+  useEffect(() => {
+    function onKeyDown(event: globalThis.KeyboardEvent) {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  useEffect(() => setActive(0), [input]);
+
+  if (!open) return null;
+
+  function choose(document: SearchDocument) {
+    onSelect(document);
+    onOpenChange(false);
+  }
+
+  function handleKeyDown(event: KeyboardEvent<HTMLInputElement>) {
+    if (event.key === "Escape") onOpenChange(false);
+    else if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActive((prev) => Math.min(prev + 1, results.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActive((prev) => Math.max(prev - 1, 0));
+    } else if (event.key === "Enter" && results[active]) {
+      event.preventDefault();
+      choose(results[active].document);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-slate-950/70 p-4 pt-24 backdrop-blur-sm"
+      onClick={() => onOpenChange(false)}
+    >
+      <div
+        role="dialog"
+        aria-label="Search"
+        className="glass w-full max-w-lg overflow-hidden rounded-3xl border border-white/10 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 border-b border-white/10 px-4">
+          <Search className="h-4 w-4 text-slate-400" />
+          <input
+            ref={inputRef}
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search or filter: tag:ideas type:task due:<today"
+            className="flex-1 bg-transparent py-4 text-sm text-white placeholder:text-slate-500 focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={() => onOpenChange(false)}
+            className="rounded-full p-1 text-slate-400 hover:text-white"
+            aria-label="Close search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <ul className="scrollbar-hidden max-h-96 overflow-y-auto p-2">
+          {results.map(({ document, matched }, position) => {
+            const Icon = typeIcons[document.type];
+            return (
+              <li key={document.key}>
+                <button
+                  type="button"
+                  onClick={() => choose(document)}
+                  onMouseEnter={() => setActive(position)}
+                  className={cn(
+                    "flex w-full items-start gap-3 rounded-2xl px-3 py-2 text-left",
+                    position === active ? "bg-slate-800/80" : "hover:bg-slate-900/60"
+                  )}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-brand-light" />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-sm text-white">
+                      <Highlighted text={document.title} matched={matched} />
+                    </span>
+                    {document.body ? (
+                      <span className="block text-xs text-slate-400">
+                        <Highlighted text={snippetAround(document.body, matched)} matched={matched} />
+                      </span>
+                    ) : null}
+                    <span className="mt-1 flex flex-wrap gap-2 text-[10px] uppercase tracking-wide text-slate-500">
+                      <span>{document.type}</span>
+                      {document.due ? <span>{formatDateTime(document.due)}</span> : null}
+                      {document.tags.map((tag) => (
+                        <span key={tag}>#{tag}</span>
+                      ))}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+          {input.trim() && !results.length ? (
+            <li className="px-3 py-6 text-center text-xs text-slate-400">No matches</li>
+          ) : null}
+          {!input.trim() ? (
+            <li className="px-3 py-6 text-center text-xs text-slate-400">
+              Search notes, tasks, reminders, files and chat. Filters: <code>tag:</code> <code>type:</code>{" "}
+              <code>due:&lt;2024-06-01</code>
+            </li>
+          ) : null}
+        </ul>
+      </div>
+    </div>
+  );
+}
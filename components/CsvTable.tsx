@@ -0,0 +1,81 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { parseCsv, sortRows, type SortDirection } from "../lib/files/csv";
+
+interface CsvTableProps {
+  text: string;
+  /** Rows rendered at once; large sheets are truncated with a note. */
+  maxRows?: number;
+}
+
+export function CsvTable({ text, maxRows = 500 }: CsvTableProps) {
+  const table = useMemo(() => parseCsv(text), [text]);
+  const [sort, setSort] = useState<{ column: number; direction: SortDirection } | null>(null);
+
+  const rows = useMemo(
+    () => (sort ? sortRows(table.rows, sort.column, sort.direction) : table.rows),
+    [table, sort]
+  );
+
+  function toggleSort(column: number) {
+    setSort((current) => {
+      if (!current || current.column !== column) return { column, direction: "asc" };
+      return current.direction === "asc" ? { column, direction: "desc" } : null;
+    });
+  }
+
+  if (!table.header.length) {
+    return <p className="px-4 py-8 text-center text-sm text-slate-400">This file has no rows.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-[60vh] overflow-auto rounded-2xl border border-white/10">
+        <table className="w-full border-collapse text-left text-xs text-slate-200">
+          <thead className="sticky top-0 bg-slate-900">
+            <tr>
+              {table.header.map((heading, column) => {
+                const active = sort?.column === column;
+                const Icon = !active ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+                return (
+                  <th
+                    key={column}
+                    scope="col"
+                    aria-sort={active ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+                    className="border-b border-white/10 p-0 font-semibold"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column)}
+                      className="flex w-full items-center gap-1 whitespace-nowrap px-3 py-2 text-left hover:text-brand-light"
+                    >
+                      {heading}
+                      <Icon className={active ? "h-3 w-3 text-brand-light" : "h-3 w-3 text-slate-500"} />
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, maxRows).map((row, index) => (
+              <tr key={index} className="odd:bg-slate-950/40">
+                {row.map((cell, column) => (
+                  <td key={column} className="whitespace-pre-wrap border-b border-white/5 px-3 py-1.5 align-top">
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400">
+        {rows.length > maxRows ? `Showing ${maxRows} of ${rows.length} rows` : `${rows.length} rows`} ·{" "}
+        {table.header.length} columns
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { ChangeEvent, useRef, useState } from "react";
+import { Download, FileArchive, FileJson, FileText, LucideIcon, UploadCloud } from "lucide-react";
+import type { ImportMode } from "../lib/archive/archive";
+import type { ExportFormat } from "../lib/archive/transfer";
+import { cn } from "../lib/utils";
+
+interface DataControlsProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  /** Imports the archive and resolves to a short summary to show. */
+  onImport: (file: File, mode: ImportMode) => Promise<string>;
+}
+
+const formats: Array<{ value: ExportFormat; label: string; hint: string; icon: LucideIcon }> = [
+  { value: "json", label: "JSON archive", hint: "Everything except file contents", icon: FileJson },
+  { value: "zip", label: "Archive with files", hint: "JSON archive plus every stored upload", icon: FileArchive },
+  { value: "markdown", label: "Markdown folder", hint: "One .md per note and a tasks.md checklist", icon: FileText }
+];
+
+export function DataControls({ onExport, onImport }: DataControlsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function handleExport(format: ExportFormat) {
+    setBusy(true);
+    try {
+      await onExport(format);
+      setMessage(null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (mode === "replace" && !window.confirm("Replace all notes, tasks, reminders, files and chat with this archive?")) return;
+    setBusy(true);
+    try {
+      setMessage(await onImport(file, mode));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Could not read that archive");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="grid gap-2">
+        {formats.map(({ value, label, hint, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => void handleExport(value)}
+            disabled={busy}
+            className="flex items-center gap-3 rounded-2xl border border-white/10 bg-slate-900/50 px-3 py-2 text-left hover:border-brand/60 disabled:opacity-50"
+          >
+            <Icon className="h-4 w-4 flex-none text-brand-light" />
+            <span className="flex-1">
+              <span className="block font-medium text-white">{label}</span>
+              <span className="text-slate-400">{hint}</span>
+            </span>
+            <Download className="h-3.5 w-3.5 text-slate-400" />
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="inline-flex rounded-xl border border-white/10 p-0.5">
+          {(["merge", "replace"] as ImportMode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              aria-pressed={mode === option}
+              className={cn(
+                "rounded-lg px-2 py-1 capitalize",
+                mode === option ? "bg-brand/30 text-white" : "text-slate-400 hover:text-white"
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={busy}
+          className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-slate-200 hover:border-brand/60 hover:text-brand-light disabled:opacity-50"
+        >
+          <UploadCloud className="h-3.5 w-3.5" />
+          Import archive
+        </button>
+      </div>
+      <p className="text-slate-400">
+        {mode === "merge"
+          ? "Merge keeps your data and takes the newer copy of anything edited in both places."
+          : "Replace swaps everything for the archive's contents."}
+      </p>
+      {message ? <p className="text-slate-300">{message}</p> : null}
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.zip,application/json,application/zip"
+        onChange={handleFile}
+        className="hidden"
+      />
+    </div>
+  );
+}
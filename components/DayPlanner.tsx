@@ -0,0 +1,438 @@
+"use client";
+
+import { DragEvent, useState } from "react";
+import {
+  AlarmClock,
+  CalendarCheck,
+  CalendarPlus,
+  ChevronLeft,
+  ChevronRight,
+  Lock,
+  Sparkles,
+  X
+} from "lucide-react";
+import { addDays, formatDay, formatTime, startOfDay, wallClock, zonedTime } from "../lib/datetime";
+import type { Task } from "../lib/models";
+import { blockLengths, startOfWeek, type AgendaItem } from "../lib/planner";
+import { cn } from "../lib/utils";
+
+export type PlannerMode = "day" | "week";
+
+interface DayPlannerProps {
+  day: Date;
+  mode: PlannerMode;
+  onDayChange: (day: Date) => void;
+  onModeChange: (mode: PlannerMode) => void;
+  /** Agenda items for the visible day or week. */
+  items: AgendaItem[];
+  /** Open tasks without a time block yet. */
+  unscheduled: Task[];
+  blockedIds: Set<string>;
+  /** Tasks the viewer may only look at; their blocks can't be moved, resized or removed. */
+  readOnlyIds?: Set<string>;
+  /** Minutes each scheduled task is blocked out for. */
+  blockLength: (taskId: string) => number;
+  onSchedule: (taskId: string, start: Date) => void;
+  /** Drops a task into the first free slot of a day. */
+  onScheduleOnDay: (taskId: string, day: Date) => void;
+  onResize: (taskId: string, minutes: number) => void;
+  onUnschedule: (taskId: string) => void;
+  onOpen: (item: AgendaItem) => void;
+  onPlanDay: () => void;
+  isPlanning: boolean;
+  highlightedId?: string | null;
+  /** Days and hours are laid out on this zone's clock. */
+  timeZone?: string;
+}
+
+const HOUR_HEIGHT = 48;
+const SNAP_MINUTES = 15;
+
+const itemStyles: Record<AgendaItem["kind"], string> = {
+  block: "border-brand/50 bg-brand/25 text-white",
+  due: "border-amber-400/40 bg-amber-500/15 text-amber-100",
+  reminder: "border-sky-400/40 bg-sky-500/15 text-sky-100"
+};
+
+function sameDay(a: Date, b: Date, timeZone?: string) {
+  return startOfDay(a, timeZone).getTime() === startOfDay(b, timeZone).getTime();
+}
+
+/** Side-by-side lanes so overlapping items stay readable. */
+function assignLanes(items: AgendaItem[]) {
+  const laneEnds: number[] = [];
+  const lanes = new Map<AgendaItem, number>();
+  for (const item of items) {
+    const end = Math.max(item.end.getTime(), item.start.getTime() + SNAP_MINUTES * 60_000);
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= item.start.getTime());
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = end;
+    lanes.set(item, lane);
+  }
+  return { lanes, count: Math.max(1, laneEnds.length) };
+}
+
+export function DayPlanner({
+  day,
+  mode,
+  onDayChange,
+  onModeChange,
+  items,
+  unscheduled,
+  blockedIds,
+  readOnlyIds,
+  blockLength,
+  onSchedule,
+  onScheduleOnDay,
+  onResize,
+  onUnschedule,
+  onOpen,
+  onPlanDay,
+  isPlanning,
+  highlightedId,
+  timeZone
+}: DayPlannerProps) {
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<number | null>(null);
+  const now = new Date();
+  const overdue = items.filter((item) => item.overdue);
+
+  const clock = (date: Date) => wallClock(date, timeZone);
+  const onDay = (date: Date, target: Date) => sameDay(date, target, timeZone);
+
+  const startHour = Math.min(7, ...items.filter((item) => onDay(item.start, day)).map((item) => clock(item.start).hour));
+  const endHour = Math.max(
+    21,
+    ...items
+      .filter((item) => onDay(item.end, day))
+      .map((item) => {
+        const end = clock(item.end);
+        return end.hour + (end.minute ? 1 : 0);
+      })
+  );
+  const hours = Array.from({ length: endHour - startHour }, (_, index) => startHour + index);
+  const minuteOffset = (date: Date) => {
+    const { hour, minute } = clock(date);
+    return (hour - startHour) * 60 + minute;
+  };
+  const pixels = (minutes: number) => (minutes / 60) * HOUR_HEIGHT;
+
+  function dragProps(taskId: string) {
+    return {
+      draggable: true,
+      onDragStart: (event: DragEvent<HTMLElement>) => {
+        event.dataTransfer.setData("text/plain", taskId);
+        event.dataTransfer.effectAllowed = "move";
+        setDragging(taskId);
+      },
+      onDragEnd: () => {
+        setDragging(null);
+        setDropDay(null);
+      }
+    };
+  }
+
+  function allowDrop(event: DragEvent<HTMLElement>) {
+    if (!dragging) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+  }
+
+  function dropOnTimeline(event: DragEvent<HTMLDivElement>) {
+    event.preventDefault();
+    const id = event.dataTransfer.getData("text/plain") || dragging;
+    setDragging(null);
+    if (!id) return;
+    const offset = event.clientY - event.currentTarget.getBoundingClientRect().top;
+    const minutes = Math.max(0, Math.floor((offset / HOUR_HEIGHT) * (60 / SNAP_MINUTES)) * SNAP_MINUTES);
+    const { year, month, day: date } = clock(day);
+    onSchedule(id, zonedTime({ year, month, day: date, hour: startHour, minute: minutes }, timeZone));
+  }
+
+  function dropOnDay(event: DragEvent<HTMLDivElement>, target: Date) {
+    event.preventDefault();
+    const id = event.dataTransfer.getData("text/plain") || dragging;
+    setDragging(null);
+    setDropDay(null);
+    if (id) onScheduleOnDay(id, target);
+  }
+
+  function renderItem(item: AgendaItem, compact: boolean) {
+    const isBlock = item.kind === "block";
+    const movable = isBlock && !readOnlyIds?.has(item.id);
+    return (
+      <div
+        className={cn(
+          "flex h-full items-start justify-between gap-1 overflow-hidden rounded-lg border px-2 py-1 text-[11px]",
+          itemStyles[item.kind],
+          item.overdue && "border-rose-400/60 bg-rose-500/20 text-rose-100",
+          highlightedId === item.id && "ring-2 ring-brand/70",
+          movable && "cursor-grab active:cursor-grabbing"
+        )}
+        {...(movable ? dragProps(item.id) : {})}
+      >
+        <button type="button" onClick={() => onOpen(item)} className="min-w-0 flex-1 text-left">
+          <span className="flex items-center gap-1 font-medium">
+            {item.kind === "reminder" ? (
+              <AlarmClock className="h-3 w-3 flex-none" />
+            ) : item.kind === "due" ? (
+              <CalendarCheck className="h-3 w-3 flex-none" />
+            ) : blockedIds.has(item.id) ? (
+              <Lock className="h-3 w-3 flex-none" />
+            ) : null}
+            <span className="truncate">{item.title}</span>
+          </span>
+          <span className="block opacity-80">
+            {formatTime(item.start, timeZone)}
+            {isBlock ? `–${formatTime(item.end, timeZone)}` : item.kind === "due" ? " due" : ""}
+            {item.overdue ? (item.kind === "reminder" ? " · unacknowledged" : " · overdue") : ""}
+          </span>
+        </button>
+        {movable && !compact ? (
+          <span className="flex flex-none items-center gap-1">
+            <select
+              value={blockLength(item.id)}
+              onChange={(event) => onResize(item.id, Number(event.target.value))}
+              className="rounded bg-slate-950/60 px-1 text-[10px] text-white"
+              aria-label={`Length of ${item.title}`}
+            >
+              {blockLengths.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onUnschedule(item.id)}
+              className="rounded-full p-0.5 opacity-70 hover:bg-white/10 hover:opacity-100"
+              aria-label={`Remove ${item.title} from the planner`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ) : null}
+      </div>
+    );
+  }
+
+  function renderDay() {
+    const dayItems = items.filter((item) => onDay(item.start, day));
+    const timed = dayItems.filter((item) => item.kind !== "due");
+    const { lanes, count } = assignLanes(timed);
+    const nowHour = clock(now).hour;
+    const showNow = onDay(now, day) && nowHour >= startHour && nowHour < endHour;
+    return (
+      <div className="flex gap-2">
+        <div className="w-12 flex-none text-right text-[10px] text-slate-500">
+          {hours.map((hour) => (
+            <div key={hour} style={{ height: HOUR_HEIGHT }}>
+              {formatTime(new Date(Date.UTC(2000, 0, 1, hour)), "UTC")}
+            </div>
+          ))}
+        </div>
+        <div
+          onDragOver={allowDrop}
+          onDrop={dropOnTimeline}
+          className={cn("relative flex-1 rounded-xl border border-white/10", dragging && "border-brand/50 bg-brand/5")}
+          style={{ height: hours.length * HOUR_HEIGHT }}
+        >
+          {hours.map((hour) => (
+            <div
+              key={hour}
+              className="absolute inset-x-0 border-t border-white/5"
+              style={{ top: pixels((hour - startHour) * 60) }}
+            />
+          ))}
+          {timed.map((item) => {
+            const lane = lanes.get(item) ?? 0;
+            const minutes = Math.max(SNAP_MINUTES, (item.end.getTime() - item.start.getTime()) / 60_000);
+            return (
+              <div
+                key={`${item.kind}-${item.id}-${item.start.getTime()}`}
+                className={cn("absolute p-0.5", dragging === item.id && "opacity-40")}
+                style={{
+                  top: pixels(minuteOffset(item.start)),
+                  height: pixels(minutes),
+                  left: `${(lane / count) * 100}%`,
+                  width: `${100 / count}%`
+                }}
+              >
+                {renderItem(item, minutes < 45 || count > 1)}
+              </div>
+            );
+          })}
+          {dayItems
+            .filter((item) => item.kind === "due")
+            .map((item) => (
+              <div
+                key={`due-${item.id}`}
+                className="absolute inset-x-0 flex items-center"
+                style={{ top: pixels(minuteOffset(item.start)) }}
+              >
+                <span className={cn("h-px flex-1", item.overdue ? "bg-rose-400/70" : "bg-amber-400/60")} />
+                <button
+                  type="button"
+                  onClick={() => onOpen(item)}
+                  className={cn(
+                    "-translate-y-1/2 rounded-full px-2 py-0.5 text-[10px]",
+                    item.overdue ? "bg-rose-500/30 text-rose-100" : "bg-amber-500/20 text-amber-100"
+                  )}
+                >
+                  {item.title} due
+                </button>
+              </div>
+            ))}
+          {showNow ? (
+            <div className="pointer-events-none absolute inset-x-0 h-0.5 bg-rose-400" style={{ top: pixels(minuteOffset(now)) }} />
+          ) : null}
+        </div>
+      </div>
+    );
+  }
+
+  function renderWeek() {
+    const weekStart = startOfWeek(day, timeZone);
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 7 }, (_, index) => {
+          const date = addDays(weekStart, index, timeZone);
+          const dayItems = items.filter((item) => onDay(item.start, date));
+          return (
+            <div
+              key={index}
+              onDragOver={(event) => {
+                allowDrop(event);
+                if (dragging) setDropDay(index);
+              }}
+              onDragLeave={() => setDropDay((current) => (current === index ? null : current))}
+              onDrop={(event) => dropOnDay(event, date)}
+              className={cn(
+                "rounded-xl border border-white/10 p-2",
+                dropDay === index && "border-brand/60 bg-brand/10",
+                onDay(date, now) && "border-brand/30"
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => {
+                  onDayChange(date);
+                  onModeChange("day");
+                }}
+                className="flex w-full items-center justify-between text-xs font-semibold text-slate-200 hover:text-white"
+              >
+                {formatDay(date, { weekday: "short", month: "short", day: "numeric" }, timeZone)}
+                <span className="font-normal text-slate-400">{dayItems.length || ""}</span>
+              </button>
+              {dayItems.length ? (
+                <div className="mt-1.5 space-y-1">
+                  {dayItems.map((item) => (
+                    <div key={`${item.kind}-${item.id}-${item.start.getTime()}`}>{renderItem(item, true)}</div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const step = mode === "day" ? 1 : 7;
+  const title =
+    mode === "day"
+      ? formatDay(day, { weekday: "long", month: "short", day: "numeric" }, timeZone)
+      : `Week of ${formatDay(startOfWeek(day, timeZone), { month: "short", day: "numeric" }, timeZone)}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <div className="inline-flex items-center rounded-xl border border-white/10">
+          <button
+            type="button"
+            onClick={() => onDayChange(addDays(day, -step, timeZone))}
+            className="p-1.5 text-slate-400 hover:text-white"
+            aria-label={mode === "day" ? "Previous day" : "Previous week"}
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </button>
+          <button type="button" onClick={() => onDayChange(new Date())} className="px-1 text-slate-300 hover:text-white">
+            Today
+          </button>
+          <button
+            type="button"
+            onClick={() => onDayChange(addDays(day, step, timeZone))}
+            className="p-1.5 text-slate-400 hover:text-white"
+            aria-label={mode === "day" ? "Next day" : "Next week"}
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </button>
+        </div>
+        <p className="flex-1 font-semibold text-white">{title}</p>
+        <div className="inline-flex rounded-xl border border-white/10 p-0.5">
+          {(["day", "week"] as PlannerMode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onModeChange(option)}
+              aria-pressed={mode === option}
+              className={cn(
+                "rounded-lg px-2 py-1 capitalize",
+                mode === option ? "bg-brand/30 text-white" : "text-slate-400 hover:text-white"
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      {overdue.length ? (
+        <p className="rounded-xl border border-rose-400/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-100">
+          {overdue.length} overdue: {overdue.map((item) => item.title).join(", ")}
+        </p>
+      ) : null}
+      <div className="space-y-2 rounded-2xl border border-white/10 bg-slate-950/40 p-2">
+        <div className="flex items-center justify-between px-1 text-[11px] uppercase tracking-wide text-slate-400">
+          <span>Unscheduled · {unscheduled.length}</span>
+          <button
+            type="button"
+            onClick={onPlanDay}
+            disabled={isPlanning || !unscheduled.length}
+            className="inline-flex items-center gap-1 rounded-full bg-brand px-2.5 py-1 text-[11px] font-semibold normal-case tracking-normal text-white hover:bg-brand-light disabled:cursor-not-allowed disabled:bg-slate-700"
+          >
+            <Sparkles className="h-3 w-3" />
+            {isPlanning ? "Planning…" : "Plan my day"}
+          </button>
+        </div>
+        {unscheduled.length ? (
+          <div className="flex flex-wrap gap-1.5">
+            {unscheduled.map((task) => (
+              <span
+                key={task.id}
+                {...dragProps(task.id)}
+                className={cn(
+                  "inline-flex cursor-grab items-center gap-1 rounded-full border border-white/10 bg-slate-900/80 py-1 pl-2 pr-1 text-xs text-slate-200 active:cursor-grabbing",
+                  dragging === task.id && "opacity-40"
+                )}
+              >
+                {blockedIds.has(task.id) ? <Lock className="h-3 w-3 text-amber-300" /> : null}
+                {task.title}
+                <button
+                  type="button"
+                  onClick={() => onScheduleOnDay(task.id, day)}
+                  className="rounded-full p-0.5 text-slate-400 hover:bg-white/10 hover:text-white"
+                  aria-label={`Schedule ${task.title} in the next free slot`}
+                >
+                  <CalendarPlus className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="px-1 text-xs text-slate-500">Every open task has a time block.</p>
+        )}
+      </div>
+      {mode === "day" ? renderDay() : renderWeek()}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { CheckCircle2, CircleAlert, Clock3, RotateCcw } from "lucide-react";
+import { formatDateTime } from "../lib/datetime";
+import type { Reminder } from "../lib/models";
+import { fireTimeOf } from "../lib/reminders/lifecycle";
+import { cn } from "../lib/utils";
+
+interface DeliveryBadgeProps {
+  reminder: Reminder;
+  onRetry?: () => void;
+}
+
+export function DeliveryBadge({ reminder, onRetry }: DeliveryBadgeProps) {
+  const current = reminder.delivery?.occurrence === fireTimeOf(reminder);
+  // Recurring reminders have already moved on, so their badge reports the previous occurrence.
+  const delivery = current || reminder.recurrence ? reminder.delivery : undefined;
+  if (!delivery) return null;
+
+  const retryAt = current ? delivery.retryAt : undefined;
+  const { icon: Icon, label, tone } =
+    delivery.status === "delivered"
+      ? { icon: CheckCircle2, label: "Delivered", tone: "bg-emerald-500/15 text-emerald-300" }
+      : retryAt
+        ? { icon: RotateCcw, label: "Retrying", tone: "bg-amber-500/15 text-amber-300" }
+        : delivery.status === "failed"
+          ? { icon: CircleAlert, label: "Failed", tone: "bg-rose-500/15 text-rose-300" }
+          : { icon: Clock3, label: "Missed", tone: "bg-amber-500/15 text-amber-300" };
+  const detail = delivery.error ?? `${label} ${formatDateTime(delivery.at)}`;
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 rounded-full px-2 py-1", tone)}
+      title={retryAt ? `${detail} · next try ${formatDateTime(retryAt)}` : detail}
+    >
+      <Icon className="h-3 w-3" />
+      {current ? label : `Last ${label.toLowerCase()}`}
+      {current && delivery.status !== "delivered" && onRetry ? (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="ml-1 inline-flex items-center gap-0.5 underline-offset-2 hover:underline"
+          aria-label="Retry delivery"
+        >
+          <RotateCcw className="h-3 w-3" />
+          Retry
+        </button>
+      ) : null}
+    </span>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { CornerDownRight, Link2, X } from "lucide-react";
+import { entityKey, entityKindLabels, type Backlink, type EntitySummary } from "../lib/links";
+import { linkTokens, type EntityKind, type EntityLink, type EntityRef, type LinkType } from "../lib/models";
+
+interface EntityLinksProps {
+  self: EntityRef;
+  links: Array<{ link: EntityLink; target: EntitySummary }>;
+  backlinks: Backlink[];
+  /** Records this one may link to. */
+  candidates: EntitySummary[];
+  linkTypes: LinkType[];
+  /** Both left out for readers who may not change the record; its links are then only listed. */
+  onAdd?: (link: EntityLink) => void;
+  onRemove?: (link: EntityLink) => void;
+  onOpen: (ref: EntityRef) => void;
+}
+
+const kindOrder: EntityKind[] = ["note", "task", "reminder", "file"];
+
+export function EntityLinks({ self, links, backlinks, candidates, linkTypes, onAdd, onRemove, onOpen }: EntityLinksProps) {
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<LinkType>(linkTypes[0]);
+  const [target, setTarget] = useState("");
+
+  const options = candidates.filter((candidate) => entityKey(candidate.ref) !== entityKey(self));
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const chosen = options.find((candidate) => entityKey(candidate.ref) === target);
+    if (!chosen || !onAdd) return;
+    onAdd({ type, target: chosen.ref });
+    setTarget("");
+    setOpen(false);
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {links.map(({ link, target: linked }) => (
+        <span
+          key={`${link.type}-${entityKey(link.target)}`}
+          className="inline-flex items-center gap-1 rounded-full bg-brand/15 py-1 pl-2 pr-1 text-brand-light"
+        >
+          <button type="button" onClick={() => onOpen(link.target)} className="inline-flex items-center gap-1 hover:underline">
+            <Link2 className="h-3 w-3" />
+            {linkTokens[link.type]} {linked.title}
+          </button>
+          {onRemove ? (
+            <button
+              type="button"
+              onClick={() => onRemove(link)}
+              className="rounded-full p-0.5 text-brand-light/70 hover:bg-brand/20 hover:text-white"
+              aria-label={`Remove link to ${linked.title}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          ) : null}
+        </span>
+      ))}
+      {backlinks.map(({ source, type: linkType }) => (
+        <button
+          key={`${linkType}-${entityKey(source.ref)}`}
+          type="button"
+          onClick={() => onOpen(source.ref)}
+          className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1 text-slate-200 hover:text-brand-light"
+          title={`${entityKindLabels[source.ref.kind]} · ${linkTokens[linkType].toLowerCase()} this`}
+        >
+          <CornerDownRight className="h-3 w-3" />
+          {source.title}
+        </button>
+      ))}
+      {onAdd ? (
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setOpen((prev) => !prev)}
+            className="inline-flex items-center gap-1 rounded-full border border-white/10 px-2 py-1 text-slate-300 hover:border-brand/60 hover:text-brand-light"
+            aria-expanded={open}
+          >
+            <Link2 className="h-3 w-3" />
+            Link
+          </button>
+          {open ? (
+            <form
+              onSubmit={handleSubmit}
+              className="absolute left-0 z-10 mt-2 w-64 space-y-2 rounded-2xl border border-white/10 bg-slate-950/95 p-2 shadow-xl"
+            >
+              <select
+                value={type}
+                onChange={(event) => setType(event.target.value as LinkType)}
+                className="w-full rounded-xl border border-white/10 bg-slate-900 px-2 py-1.5 text-white focus:border-brand"
+                aria-label="Link type"
+              >
+                {linkTypes.map((linkType) => (
+                  <option key={linkType} value={linkType}>
+                    {linkTokens[linkType]}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={target}
+                onChange={(event) => setTarget(event.target.value)}
+                className="w-full rounded-xl border border-white/10 bg-slate-900 px-2 py-1.5 text-white focus:border-brand"
+                aria-label="Link target"
+              >
+                <option value="">Choose a record…</option>
+                {kindOrder.map((kind) => {
+                  const group = options.filter((candidate) => candidate.ref.kind === kind);
+                  return group.length ? (
+                    <optgroup key={kind} label={`${entityKindLabels[kind]}s`}>
+                      {group.map((candidate) => (
+                        <option key={entityKey(candidate.ref)} value={entityKey(candidate.ref)}>
+                          {candidate.title}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ) : null;
+                })}
+              </select>
+              <button
+                type="submit"
+                disabled={!target}
+                className="w-full rounded-xl bg-brand px-2 py-1.5 font-semibold text-white hover:bg-brand-light disabled:opacity-50"
+              >
+                Add link
+              </button>
+            </form>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { ReactNode, useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Download, ExternalLink, Maximize2, X, ZoomIn, ZoomOut } from "lucide-react";
+import type { FileResource } from "../lib/models";
+import { countPdfPages, fileKindOf } from "../lib/files/extract";
+import { formatFileSize } from "../lib/utils";
+import { CsvTable } from "./CsvTable";
+import { MarkdownView } from "./MarkdownView";
+
+interface FileViewerProps {
+  file: FileResource | null;
+  /** Local object URL or server URL for the bytes; missing when this device has neither. */
+  url?: string;
+  onClose: () => void;
+}
+
+type Loaded<T> = { status: "loading" } | { status: "ready"; value: T } | { status: "error"; message: string };
+
+function useFetched<T>(url: string | undefined, read: (response: Response) => Promise<T>): Loaded<T> {
+  const [state, setState] = useState<Loaded<T>>({ status: "loading" });
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    setState({ status: "loading" });
+    fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Could not load the file (${response.status})`);
+        return read(response);
+      })
+      .then((value) => {
+        if (!cancelled) setState({ status: "ready", value });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setState({ status: "error", message: error instanceof Error ? error.message : "Could not load the file" });
+      });
+    return () => {
+      cancelled = true;
+    };
+    // `read` is a stable module-level function at every call site.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [url]);
+
+  return state;
+}
+
+const readText = (response: Response) => response.text();
+const readPageCount = async (response: Response) => countPdfPages(new Uint8Array(await response.arrayBuffer()));
+
+function Notice({ children }: { children: string }) {
+  return <p className="px-4 py-12 text-center text-sm text-slate-400">{children}</p>;
+}
+
+function ImagePreview({ url, name }: { url: string; name: string }) {
+  const [zoom, setZoom] = useState(1);
+  const change = (factor: number) => setZoom((current) => Math.min(8, Math.max(0.25, current * factor)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-center gap-1 text-xs text-slate-300">
+        <button
+          type="button"
+          onClick={() => change(1 / 1.5)}
+          className="rounded-full p-1.5 hover:bg-slate-800"
+          aria-label="Zoom out"
+        >
+          <ZoomOut className="h-4 w-4" />
+        </button>
+        <span className="w-12 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+        <button
+          type="button"
+          onClick={() => change(1.5)}
+          className="rounded-full p-1.5 hover:bg-slate-800"
+          aria-label="Zoom in"
+        >
+          <ZoomIn className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setZoom(1)}
+          className="rounded-full p-1.5 hover:bg-slate-800"
+          aria-label="Fit to window"
+        >
+          <Maximize2 className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="max-h-[65vh] overflow-auto rounded-2xl bg-slate-950/60">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={url}
+          alt={name}
+          onDoubleClick={() => setZoom((current) => (current === 1 ? 2 : 1))}
+          style={{ width: `${zoom * 100}%`, maxWidth: "none" }}
+          className="mx-auto block cursor-zoom-in"
+        />
+      </div>
+    </div>
+  );
+}
+
+function PdfPreview({ url, name }: { url: string; name: string }) {
+  const pages = useFetched(url, readPageCount);
+  const [page, setPage] = useState(1);
+  const total = pages.status === "ready" ? pages.value : 0;
+
+  return (
+    <div className="space-y-2">
+      {total > 1 ? (
+        <div className="flex items-center justify-center gap-2 text-xs text-slate-300">
+          <button
+            type="button"
+            onClick={() => setPage((current) => Math.max(1, current - 1))}
+            disabled={page <= 1}
+            className="rounded-full p-1.5 hover:bg-slate-800 disabled:opacity-40"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="tabular-nums">
+            Page {page} of {total}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage((current) => Math.min(total, current + 1))}
+            disabled={page >= total}
+            className="rounded-full p-1.5 hover:bg-slate-800 disabled:opacity-40"
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      ) : null}
+      <iframe
+        key={page}
+        src={`${url}#page=${page}`}
+        title={name}
+        className="h-[65vh] w-full rounded-2xl border border-white/10 bg-white"
+      />
+    </div>
+  );
+}
+
+function TextPreview({ url, render }: { url: string; render: (text: string) => ReactNode }) {
+  const text = useFetched(url, readText);
+  if (text.status === "loading") return <Notice>Loading…</Notice>;
+  if (text.status === "error") return <Notice>{text.message}</Notice>;
+  return <>{render(text.value)}</>;
+}
+
+const renderPlain = (text: string) => (
+  <pre className="max-h-[65vh] overflow-auto whitespace-pre-wrap rounded-2xl bg-slate-950/60 p-4 font-mono text-xs text-slate-200">
+    {text}
+  </pre>
+);
+
+const renderMarkdown = (text: string) => (
+  <div className="max-h-[65vh] overflow-auto rounded-2xl bg-slate-950/60 p-4">
+    <MarkdownView content={text} />
+  </div>
+);
+
+const renderCsv = (text: string) => <CsvTable text={text} />;
+
+function FileBody({ file, url }: { file: FileResource; url?: string }) {
+  const kind = fileKindOf(file);
+
+  if (!url) {
+    // Another device uploaded this and the server copy isn't there yet; show what we extracted.
+    if (file.content) return kind === "csv" ? renderCsv(file.content) : renderPlain(file.content);
+    return <Notice>This file isn’t stored on this device or the server yet.</Notice>;
+  }
+
+  switch (kind) {
+    case "image":
+      return <ImagePreview url={url} name={file.name} />;
+    case "pdf":
+      return <PdfPreview url={url} name={file.name} />;
+    case "markdown":
+      return <TextPreview url={url} render={renderMarkdown} />;
+    case "csv":
+      return <TextPreview url={url} render={renderCsv} />;
+    case "text":
+      return <TextPreview url={url} render={renderPlain} />;
+    case "audio":
+      return <audio controls src={url} className="w-full" />;
+    case "video":
+      return <video controls src={url} className="max-h-[65vh] w-full rounded-2xl bg-black" />;
+    default:
+      if (file.content) return renderPlain(file.content);
+      return <Notice>No preview for this file type — download it instead.</Notice>;
+  }
+}
+
+export function FileViewer({ file, url, onClose }: FileViewerProps) {
+  useEffect(() => {
+    if (!file) return;
+    const onKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [file, onClose]);
+
+  if (!file) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-slate-950/70 p-4 pt-16 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={file.name}
+        className="glass w-full max-w-3xl overflow-hidden rounded-3xl border border-white/10 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <header className="flex items-center gap-3 border-b border-white/10 px-4 py-3">
+          <div className="min-w-0 flex-1">
+            <h2 className="truncate text-sm font-semibold text-white">{file.name}</h2>
+            <p className="text-xs text-slate-400">
+              {formatFileSize(file.size)} · {file.type || "Unknown type"}
+            </p>
+          </div>
+          {url ? (
+            <>
+              <a
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="rounded-full p-1.5 text-slate-400 hover:text-white"
+                aria-label="Open in a new tab"
+              >
+                <ExternalLink className="h-4 w-4" />
+              </a>
+              <a
+                href={url}
+                download={file.name}
+                className="rounded-full p-1.5 text-slate-400 hover:text-white"
+                aria-label="Download"
+              >
+                <Download className="h-4 w-4" />
+              </a>
+            </>
+          ) : null}
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full p-1.5 text-slate-400 hover:text-white"
+            aria-label="Close preview"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+        <div className="p-4">
+          <FileBody key={file.id} file={file} url={url} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { KeyboardEvent, PointerEvent, useEffect, useMemo, useRef, useState } from "react";
+import { RotateCcw } from "lucide-react";
+import {
+  edgeTypeLabels,
+  filterGraph,
+  graphTags,
+  type GraphEdgeType,
+  type GraphNode,
+  type GraphNodeKind,
+  type KnowledgeGraph as Graph
+} from "../lib/graph/graph";
+import { seedPositions, tickLayout, type NodePosition } from "../lib/graph/layout";
+import { cn } from "../lib/utils";
+
+interface KnowledgeGraphProps {
+  graph: Graph;
+  /** Called when a record node is clicked; tag nodes filter the graph instead. */
+  onOpen: (node: GraphNode) => void;
+  className?: string;
+}
+
+const width = 640;
+const height = 420;
+const bounds = { width, height };
+const settledAlpha = 0.01;
+
+const kindStyles: Record<GraphNodeKind, { label: string; fill: string; chip: string }> = {
+  note: { label: "Notes", fill: "#818cf8", chip: "bg-indigo-400" },
+  task: { label: "Tasks", fill: "#34d399", chip: "bg-emerald-400" },
+  reminder: { label: "Reminders", fill: "#fbbf24", chip: "bg-amber-400" },
+  file: { label: "Files", fill: "#38bdf8", chip: "bg-sky-400" },
+  tag: { label: "Tags", fill: "#f472b6", chip: "bg-pink-400" }
+};
+
+const edgeDash: Partial<Record<GraphEdgeType, string>> = {
+  tagged: "2 4",
+  "related-to": "6 4",
+  "blocked-by": "8 3"
+};
+
+function radiusOf(node: GraphNode) {
+  return Math.min(14, 5 + Math.sqrt(node.degree) * 2);
+}
+
+export function KnowledgeGraph({ graph, onOpen, className }: KnowledgeGraphProps) {
+  const [kinds, setKinds] = useState<GraphNodeKind[]>([]);
+  const [tag, setTag] = useState("");
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [, setFrame] = useState(0);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const positionsRef = useRef(new Map<string, NodePosition>());
+  const alphaRef = useRef(0);
+  const frameRef = useRef<number | null>(null);
+  const dragRef = useRef<{ id: string; moved: boolean } | null>(null);
+
+  const tags = useMemo(() => graphTags(graph), [graph]);
+  const visible = useMemo(() => filterGraph(graph, { kinds, tag: tag || undefined }), [graph, kinds, tag]);
+  const counts = useMemo(() => {
+    const byKind = new Map<GraphNodeKind, number>();
+    graph.nodes.forEach((node) => byKind.set(node.kind, (byKind.get(node.kind) ?? 0) + 1));
+    return byKind;
+  }, [graph]);
+
+  const edgesRef = useRef(visible.edges);
+  edgesRef.current = visible.edges;
+
+  function run() {
+    if (frameRef.current !== null) return;
+    const step = () => {
+      tickLayout(positionsRef.current, edgesRef.current, bounds, alphaRef.current);
+      alphaRef.current *= 0.97;
+      setFrame((frame) => frame + 1);
+      frameRef.current = alphaRef.current > settledAlpha ? requestAnimationFrame(step) : null;
+    };
+    frameRef.current = requestAnimationFrame(step);
+  }
+
+  function reheat(alpha: number) {
+    alphaRef.current = Math.max(alphaRef.current, alpha);
+    if (window.matchMedia("(prefers-reduced-motion: reduce)").matches) {
+      // Settle in one go instead of animating.
+      while (alphaRef.current > settledAlpha) {
+        tickLayout(positionsRef.current, edgesRef.current, bounds, alphaRef.current);
+        alphaRef.current *= 0.97;
+      }
+      setFrame((frame) => frame + 1);
+      return;
+    }
+    run();
+  }
+
+  useEffect(() => {
+    positionsRef.current = seedPositions(
+      visible.nodes.map((node) => node.id),
+      positionsRef.current,
+      bounds
+    );
+    reheat(0.8);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  useEffect(
+    () => () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    },
+    []
+  );
+
+  function toSvgPoint(event: PointerEvent<SVGSVGElement>) {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return { x: Math.min(width, Math.max(0, point.x)), y: Math.min(height, Math.max(0, point.y)) };
+  }
+
+  function activate(node: GraphNode) {
+    if (node.kind === "tag") setTag((current) => (current === node.tags[0] ? "" : node.tags[0]));
+    else onOpen(node);
+  }
+
+  function handlePointerDown(event: PointerEvent<SVGGElement>, node: GraphNode) {
+    event.stopPropagation();
+    svgRef.current?.setPointerCapture(event.pointerId);
+    dragRef.current = { id: node.id, moved: false };
+    const position = positionsRef.current.get(node.id);
+    if (position) position.pinned = true;
+  }
+
+  function handlePointerMove(event: PointerEvent<SVGSVGElement>) {
+    const drag = dragRef.current;
+    const position = drag && positionsRef.current.get(drag.id);
+    const point = drag && toSvgPoint(event);
+    if (!drag || !position || !point) return;
+    if (!drag.moved && Math.hypot(point.x - position.x, point.y - position.y) < 3) return;
+    drag.moved = true;
+    position.x = point.x;
+    position.y = point.y;
+    reheat(0.3);
+  }
+
+  function handlePointerUp(event: PointerEvent<SVGSVGElement>) {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    svgRef.current?.releasePointerCapture(event.pointerId);
+    if (!drag) return;
+    const position = positionsRef.current.get(drag.id);
+    if (position) position.pinned = false;
+    const node = visible.nodes.find((entry) => entry.id === drag.id);
+    if (!drag.moved && node) activate(node);
+  }
+
+  function handleNodeKeyDown(event: KeyboardEvent<SVGGElement>, node: GraphNode) {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      activate(node);
+    }
+  }
+
+  const neighbours = useMemo(() => {
+    if (!hovered) return null;
+    const ids = new Set([hovered]);
+    for (const edge of visible.edges) {
+      if (edge.source === hovered) ids.add(edge.target);
+      if (edge.target === hovered) ids.add(edge.source);
+    }
+    return ids;
+  }, [hovered, visible.edges]);
+
+  const showAllLabels = visible.nodes.length <= 30;
+  const edgeTypes = [...new Set(visible.edges.map((edge) => edge.type))];
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {(Object.keys(kindStyles) as GraphNodeKind[]).map((kind) => {
+          const active = !kinds.length || kinds.includes(kind);
+          return (
+            <button
+              key={kind}
+              type="button"
+              onClick={() =>
+                setKinds((prev) => {
+                  const current = prev.length ? prev : (Object.keys(kindStyles) as GraphNodeKind[]);
+                  const next = current.includes(kind) ? current.filter((entry) => entry !== kind) : [...current, kind];
+                  return next.length === Object.keys(kindStyles).length ? [] : next;
+                })
+              }
+              className={cn(
+                "inline-flex items-center gap-1.5 rounded-full border px-2.5 py-1 transition",
+                active ? "border-white/20 text-white" : "border-white/5 text-slate-500"
+              )}
+              aria-pressed={active}
+            >
+              <span className={cn("h-2 w-2 rounded-full", kindStyles[kind].chip, !active && "opacity-40")} />
+              {kindStyles[kind].label}
+              <span className="text-slate-400">{counts.get(kind) ?? 0}</span>
+            </button>
+          );
+        })}
+        <select
+          value={tag}
+          onChange={(event) => setTag(event.target.value)}
+          className="rounded-full border border-white/10 bg-slate-950/80 px-2.5 py-1 text-white focus:border-brand"
+          aria-label="Filter by tag"
+        >
+          <option value="">All tags</option>
+          {tags.map((entry) => (
+            <option key={entry} value={entry}>
+              #{entry}
+            </option>
+          ))}
+        </select>
+        {kinds.length || tag ? (
+          <button
+            type="button"
+            onClick={() => {
+              setKinds([]);
+              setTag("");
+            }}
+            className="inline-flex items-center gap-1 rounded-full px-2 py-1 text-slate-400 hover:text-white"
+          >
+            <RotateCcw className="h-3 w-3" />
+            Reset
+          </button>
+        ) : null}
+      </div>
+
+      <div className="overflow-hidden rounded-2xl border border-white/10 bg-slate-950/60">
+        {visible.nodes.length ? (
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${width} ${height}`}
+            className="h-auto w-full touch-none select-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            role="img"
+            aria-label={`Knowledge graph with ${visible.nodes.length} nodes and ${visible.edges.length} links`}
+          >
+            <g>
+              {visible.edges.map((edge) => {
+                const source = positionsRef.current.get(edge.source);
+                const target = positionsRef.current.get(edge.target);
+                if (!source || !target) return null;
+                const dimmed = neighbours && !(neighbours.has(edge.source) && neighbours.has(edge.target));
+                return (
+                  <line
+                    key={edge.id}
+                    x1={source.x}
+                    y1={source.y}
+                    x2={target.x}
+                    y2={target.y}
+                    stroke={edge.type === "tagged" ? "#f472b6" : "#94a3b8"}
+                    strokeOpacity={dimmed ? 0.08 : 0.45}
+                    strokeWidth={edge.type === "tagged" ? 1 : 1.5}
+                    strokeDasharray={edgeDash[edge.type]}
+                  >
+                    <title>{edgeTypeLabels[edge.type]}</title>
+                  </line>
+                );
+              })}
+            </g>
+            <g>
+              {visible.nodes.map((node) => {
+                const position = positionsRef.current.get(node.id);
+                if (!position) return null;
+                const radius = radiusOf(node);
+                const dimmed = neighbours && !neighbours.has(node.id);
+                const labelled = showAllLabels || node.kind === "tag" || neighbours?.has(node.id);
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${position.x} ${position.y})`}
+                    className="cursor-pointer outline-none"
+                    opacity={dimmed ? 0.25 : 1}
+                    role="button"
+                    tabIndex={0}
+                    aria-label={node.kind === "tag" ? `Filter by ${node.label}` : `Open ${node.label}`}
+                    onPointerDown={(event) => handlePointerDown(event, node)}
+                    onPointerEnter={() => setHovered(node.id)}
+                    onPointerLeave={() => setHovered((current) => (current === node.id ? null : current))}
+                    onFocus={() => setHovered(node.id)}
+                    onBlur={() => setHovered(null)}
+                    onKeyDown={(event) => handleNodeKeyDown(event, node)}
+                  >
+                    <circle
+                      r={radius}
+                      fill={kindStyles[node.kind].fill}
+                      stroke={node.kind === "tag" && node.tags[0] === tag ? "#fff" : "#0f172a"}
+                      strokeWidth={2}
+                    />
+                    {labelled ? (
+                      <text
+                        y={radius + 11}
+                        textAnchor="middle"
+                        className="pointer-events-none fill-slate-200 text-[10px]"
+                      >
+                        {node.label.length > 28 ? `${node.label.slice(0, 27)}…` : node.label}
+                      </text>
+                    ) : null}
+                    <title>{node.label}</title>
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+        ) : (
+          <p className="px-4 py-12 text-center text-sm text-slate-400">Nothing matches these filters yet.</p>
+        )}
+      </div>
+
+      {edgeTypes.length ? (
+        <p className="text-xs text-slate-400">
+          Links shown: {edgeTypes.map((type) => edgeTypeLabels[type]).join(" · ")}. Drag to rearrange, click to open, click a tag to
+          focus on it.
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { KeyboardEvent, useMemo, useRef, useState } from "react";
+import { Bold, Brackets, Code, Eye, Heading, ListChecks, PenLine } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { wikiLinkQueryAt } from "../lib/wikiLinks";
+import { cn } from "../lib/utils";
+import { MarkdownView } from "./MarkdownView";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Titles offered when typing `[[`. */
+  noteTitles?: string[];
+  resolveWikiLink?: (target: string) => boolean;
+  placeholder?: string;
+  rows?: number;
+  autoFocus?: boolean;
+}
+
+type Edit = { before: string; after?: string; linePrefix?: boolean; placeholder?: string };
+
+const tools: Array<{ label: string; icon: LucideIcon; edit: Edit }> = [
+  { label: "Heading", icon: Heading, edit: { before: "## ", linePrefix: true } },
+  { label: "Bold", icon: Bold, edit: { before: "**", after: "**", placeholder: "bold" } },
+  { label: "Checklist", icon: ListChecks, edit: { before: "- [ ] ", linePrefix: true } },
+  { label: "Code block", icon: Code, edit: { before: "```\n", after: "\n```", placeholder: "code" } },
+  { label: "Link a note", icon: Brackets, edit: { before: "[[", after: "]]", placeholder: "Note title" } }
+];
+
+export function MarkdownEditor({
+  value,
+  onChange,
+  noteTitles = [],
+  resolveWikiLink,
+  placeholder,
+  rows = 6,
+  autoFocus
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [preview, setPreview] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const linkQuery = preview ? null : wikiLinkQueryAt(value, caret);
+  const suggestions = useMemo(() => {
+    if (!linkQuery) return [];
+    const query = linkQuery.query.trim().toLowerCase();
+    return noteTitles.filter((title) => title.toLowerCase().includes(query)).slice(0, 6);
+  }, [linkQuery, noteTitles]);
+
+  function replaceRange(start: number, end: number, text: string, select?: [number, number]) {
+    onChange(`${value.slice(0, start)}${text}${value.slice(end)}`);
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      const [from, to] = select ?? [start + text.length, start + text.length];
+      textarea.setSelectionRange(from, to);
+      setCaret(to);
+    });
+  }
+
+  function applyEdit({ before, after = "", linePrefix, placeholder: fallback = "" }: Edit) {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    if (linePrefix) {
+      const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+      replaceRange(lineStart, lineStart, before);
+      return;
+    }
+    const selected = value.slice(start, end) || fallback;
+    const offset = start + before.length;
+    replaceRange(start, end, `${before}${selected}${after}`, [offset, offset + selected.length]);
+  }
+
+  function completeLink(title: string) {
+    if (!linkQuery) return;
+    const closing = value.slice(caret).startsWith("]]") ? "" : "]]";
+    replaceRange(linkQuery.start, caret, `${title}${closing}`, [
+      linkQuery.start + title.length + 2,
+      linkQuery.start + title.length + 2
+    ]);
+    setHighlighted(0);
+  }
+
+  function handleKeyDown(event: KeyboardEvent<HTMLTextAreaElement>) {
+    if (!suggestions.length) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((prev) => (prev + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      completeLink(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/80 focus-within:border-brand">
+      <div className="flex items-center gap-1 border-b border-white/5 px-2 py-1.5">
+        {tools.map(({ label, icon: Icon, edit }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => applyEdit(edit)}
+            disabled={preview}
+            className="rounded-lg p-1.5 text-slate-400 transition hover:bg-slate-800 hover:text-white disabled:opacity-40"
+            aria-label={label}
+            title={label}
+          >
+            <Icon className="h-3.5 w-3.5" />
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setPreview((prev) => !prev)}
+          className="ml-auto inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-slate-300 hover:bg-slate-800"
+        >
+          {preview ? <PenLine className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+          {preview ? "Edit" : "Preview"}
+        </button>
+      </div>
+      {preview ? (
+        <MarkdownView
+          content={value || "_Nothing to preview yet._"}
+          resolveWikiLink={resolveWikiLink}
+          className="min-h-[6rem] px-3 py-3"
+        />
+      ) : (
+        <div className="relative">
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(event) => {
+              onChange(event.target.value);
+              setCaret(event.target.selectionStart);
+            }}
+            onSelect={(event) => setCaret(event.currentTarget.selectionStart)}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            rows={rows}
+            autoFocus={autoFocus}
+            className="w-full resize-y bg-transparent px-3 py-3 font-mono text-sm text-white placeholder:font-sans placeholder:text-slate-400 focus:outline-none"
+          />
+          {suggestions.length ? (
+            <ul className="absolute inset-x-3 bottom-2 z-10 rounded-xl border border-white/10 bg-slate-900/95 p-1 text-sm shadow-xl">
+              {suggestions.map((title, index) => (
+                <li key={title}>
+                  <button
+                    type="button"
+                    onMouseDown={(event) => {
+                      event.preventDefault();
+                      completeLink(title);
+                    }}
+                    className={cn(
+                      "w-full rounded-lg px-2 py-1.5 text-left text-slate-200",
+                      index === highlighted ? "bg-slate-800" : "hover:bg-slate-800/60"
+                    )}
+                  >
+                    {title}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { Fragment, ReactNode, useMemo } from "react";
+import { parseMarkdown, type BlockNode, type InlineNode } from "../lib/markdown";
+import { cn } from "../lib/utils";
+
+interface MarkdownViewProps {
+  content: string;
+  /** Whether a `[[wiki link]]` target exists; unresolved links render dimmed. */
+  resolveWikiLink?: (target: string) => boolean;
+  onWikiLinkClick?: (target: string) => void;
+  /** Called with the source line of a checklist item whose box was clicked. */
+  onToggleChecklist?: (line: number) => void;
+  className?: string;
+}
+
+const headingStyles = ["text-lg", "text-base", "text-sm", "text-sm", "text-xs", "text-xs"];
+
+export function MarkdownView({
+  content,
+  resolveWikiLink,
+  onWikiLinkClick,
+  onToggleChecklist,
+  className
+}: MarkdownViewProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  function renderInline(nodes: InlineNode[]): ReactNode {
+    return nodes.map((node, index) => {
+      switch (node.type) {
+        case "text":
+          return <Fragment key={index}>{node.text}</Fragment>;
+        case "strong":
+          return (
+            <strong key={index} className="font-semibold text-white">
+              {renderInline(node.children)}
+            </strong>
+          );
+        case "em":
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case "strike":
+          return (
+            <del key={index} className="text-slate-400">
+              {renderInline(node.children)}
+            </del>
+          );
+        case "code":
+          return (
+            <code key={index} className="rounded bg-slate-800 px-1 py-0.5 font-mono text-[0.85em] text-brand-light">
+              {node.text}
+            </code>
+          );
+        case "link":
+          return (
+            <a
+              key={index}
+              href={node.href}
+              target={node.href.startsWith("#") ? undefined : "_blank"}
+              rel="noopener noreferrer"
+              className="text-brand-light underline underline-offset-2"
+            >
+              {renderInline(node.children)}
+            </a>
+          );
+        case "wikiLink": {
+          const resolved = resolveWikiLink ? resolveWikiLink(node.target) : true;
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onWikiLinkClick?.(node.target)}
+              className={cn(
+                "rounded px-0.5 font-medium underline decoration-dotted underline-offset-2",
+                resolved ? "text-brand-light" : "text-slate-400"
+              )}
+              title={resolved ? `Open “${node.target}”` : `Create “${node.target}”`}
+            >
+              {node.label}
+            </button>
+          );
+        }
+      }
+    });
+  }
+
+  function renderBlock(block: BlockNode, index: number): ReactNode {
+    switch (block.type) {
+      case "heading": {
+        // Note cards already use h3 for the title, so Markdown headings start one level below.
+        const Heading = `h${Math.min(block.level + 3, 6)}` as "h4" | "h5" | "h6";
+        return (
+          <Heading key={index} className={cn("font-semibold text-white", headingStyles[block.level - 1])}>
+            {renderInline(block.children)}
+          </Heading>
+        );
+      }
+      case "paragraph":
+        return (
+          <p key={index} className="whitespace-pre-line">
+            {renderInline(block.children)}
+          </p>
+        );
+      case "list": {
+        const List = block.ordered ? "ol" : "ul";
+        const isChecklist = block.items.some((item) => item.checked !== undefined);
+        return (
+          <List
+            key={index}
+            className={cn("space-y-1", isChecklist ? "list-none" : block.ordered ? "list-decimal pl-5" : "list-disc pl-5")}
+          >
+            {block.items.map((item) => (
+              <li key={item.line} className={cn(item.checked !== undefined && "flex items-start gap-2")}>
+                {item.checked !== undefined ? (
+                  <input
+                    type="checkbox"
+                    checked={item.checked}
+                    onChange={() => onToggleChecklist?.(item.line)}
+                    disabled={!onToggleChecklist}
+                    className="mt-1 h-3.5 w-3.5 accent-brand"
+                  />
+                ) : null}
+                <span className={cn(item.checked && "text-slate-400 line-through")}>{renderInline(item.children)}</span>
+              </li>
+            ))}
+          </List>
+        );
+      }
+      case "code":
+        return (
+          <pre key={index} className="overflow-x-auto rounded-xl bg-slate-950/80 p-3 font-mono text-xs text-slate-200">
+            <code data-language={block.language}>{block.text}</code>
+          </pre>
+        );
+      case "quote":
+        return (
+          <blockquote key={index} className="space-y-2 border-l-2 border-brand/50 pl-3 text-slate-300">
+            {block.children.map(renderBlock)}
+          </blockquote>
+        );
+      case "rule":
+        return <hr key={index} className="border-white/10" />;
+    }
+  }
+
+  return <div className={cn("space-y-2 text-sm text-slate-200/80", className)}>{blocks.map(renderBlock)}</div>;
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Check, X } from "lucide-react";
+import type { Note } from "../lib/models";
+import { MarkdownEditor } from "./MarkdownEditor";
+
+export type NoteDraft = { title: string; content: string; tags: string };
+
+interface NoteEditorProps {
+  note: Note;
+  noteTitles: string[];
+  resolveWikiLink: (target: string) => boolean;
+  onSave: (draft: NoteDraft) => void;
+  onCancel: () => void;
+}
+
+export function NoteEditor({ note, noteTitles, resolveWikiLink, onSave, onCancel }: NoteEditorProps) {
+  const [draft, setDraft] = useState<NoteDraft>({
+    title: note.title,
+    content: note.content,
+    tags: note.tags.join(", ")
+  });
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    onSave(draft);
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={(event) => {
+        if (event.key === "Escape") onCancel();
+      }}
+      className="space-y-3"
+    >
+      <input
+        value={draft.title}
+        onChange={(event) => setDraft((prev) => ({ ...prev, title: event.target.value }))}
+        placeholder="Note title"
+        className="w-full rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-2 text-base font-semibold text-white placeholder:text-slate-400 focus:border-brand focus:outline-none"
+      />
+      <MarkdownEditor
+        value={draft.content}
+        onChange={(content) => setDraft((prev) => ({ ...prev, content }))}
+        noteTitles={noteTitles.filter((title) => title !== note.title)}
+        resolveWikiLink={resolveWikiLink}
+        rows={8}
+        autoFocus
+      />
+      <input
+        value={draft.tags}
+        onChange={(event) => setDraft((prev) => ({ ...prev, tags: event.target.value }))}
+        placeholder="Tags (comma separated)"
+        className="w-full rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-2 text-sm text-white placeholder:text-slate-400 focus:border-brand focus:outline-none"
+      />
+      <div className="flex justify-end gap-2 text-xs">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-slate-300 hover:text-white"
+        >
+          <X className="h-3.5 w-3.5" />
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="inline-flex items-center gap-1 rounded-full bg-brand px-3 py-1.5 font-semibold text-white hover:bg-brand-light"
+        >
+          <Check className="h-3.5 w-3.5" />
+          Save
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { History, RotateCcw, X } from "lucide-react";
+import { diffWords } from "../lib/history/diff";
+import type { NoteRevision } from "../lib/history/revisions";
+import { formatDateTime } from "../lib/datetime";
+import { cn } from "../lib/utils";
+
+interface NoteHistoryProps {
+  /** Newest first; the first one matches the note as it is now. */
+  revisions: NoteRevision[];
+  /** Left out for readers who may not edit the note. */
+  onRestore?: (revision: NoteRevision) => void;
+  onClose: () => void;
+}
+
+const partStyles = {
+  same: "text-slate-300",
+  added: "rounded bg-emerald-500/20 text-emerald-200",
+  removed: "rounded bg-rose-500/20 text-rose-200 line-through"
+};
+
+function RevisionDiff({ revision, previous }: { revision: NoteRevision; previous?: NoteRevision }) {
+  const parts = useMemo(() => diffWords(previous?.content ?? "", revision.content), [previous, revision]);
+  const addedTags = revision.tags.filter((tag) => !previous?.tags.includes(tag));
+  const removedTags = previous?.tags.filter((tag) => !revision.tags.includes(tag)) ?? [];
+  return (
+    <div className="space-y-2 rounded-xl bg-slate-950/60 p-2">
+      {previous && previous.title !== revision.title ? (
+        <p>
+          <span className={partStyles.removed}>{previous.title}</span> → <span className={partStyles.added}>{revision.title}</span>
+        </p>
+      ) : null}
+      {addedTags.length || removedTags.length ? (
+        <p className="flex flex-wrap gap-1">
+          {removedTags.map((tag) => (
+            <span key={`-${tag}`} className={partStyles.removed}>
+              #{tag}
+            </span>
+          ))}
+          {addedTags.map((tag) => (
+            <span key={`+${tag}`} className={partStyles.added}>
+              #{tag}
+            </span>
+          ))}
+        </p>
+      ) : null}
+      <p className="max-h-60 overflow-y-auto whitespace-pre-wrap break-words">
+        {parts.length ? (
+          parts.map((part, index) => (
+            <span key={index} className={partStyles[part.type]}>
+              {part.text}
+            </span>
+          ))
+        ) : (
+          <span className="text-slate-500">Empty note</span>
+        )}
+      </p>
+    </div>
+  );
+}
+
+export function NoteHistory({ revisions, onRestore, onClose }: NoteHistoryProps) {
+  const [openId, setOpenId] = useState<string | null>(revisions[0]?.id ?? null);
+
+  return (
+    <div className="mt-3 space-y-2 rounded-2xl border border-white/10 bg-slate-950/40 p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <p className="inline-flex items-center gap-1 uppercase tracking-wide text-slate-400">
+          <History className="h-3 w-3" />
+          History · {revisions.length}
+        </p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full p-1 text-slate-400 hover:bg-white/10 hover:text-white"
+          aria-label="Close history"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      {revisions.map((revision, index) => (
+        <div key={revision.id} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setOpenId((current) => (current === revision.id ? null : revision.id))}
+              aria-expanded={openId === revision.id}
+              className={cn("flex-1 text-left hover:text-white", openId === revision.id ? "text-white" : "text-slate-300")}
+            >
+              {formatDateTime(revision.savedAt)}
+              <span className="text-slate-500">
+                {index === 0 ? " · current" : index === revisions.length - 1 ? " · first version" : ""}
+              </span>
+            </button>
+            {index > 0 && onRestore ? (
+              <button
+                type="button"
+                onClick={() => onRestore(revision)}
+                className="inline-flex items-center gap-1 rounded-full border border-white/10 px-2 py-0.5 text-slate-300 hover:border-brand/60 hover:text-brand-light"
+              >
+                <RotateCcw className="h-3 w-3" />
+                Restore
+              </button>
+            ) : null}
+          </div>
+          {openId === revision.id ? <RevisionDiff revision={revision} previous={revisions[index + 1]} /> : null}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { FormEvent, useMemo, useState } from "react";
+import { AlarmClock, CalendarCheck, CheckSquare, Hash, LucideIcon, MessageSquareText, Tag, Zap } from "lucide-react";
+import { channelTokens, priorityTokens } from "../lib/models";
+import { parseQuickCapture, type CaptureDraft } from "../lib/quickCapture";
+import { formatDateTime } from "../lib/datetime";
+
+interface QuickCaptureProps {
+  onCapture: (draft: CaptureDraft) => void;
+  /** Zone due-date phrases are read in. */
+  timeZone?: string;
+}
+
+function Chip({ icon: Icon, children }: { icon: LucideIcon; children: string }) {
+  return (
+    <span className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-1">
+      <Icon className="h-3 w-3" />
+      {children}
+    </span>
+  );
+}
+
+export function QuickCapture({ onCapture, timeZone }: QuickCaptureProps) {
+  const [input, setInput] = useState("");
+  const draft = useMemo(() => (input.trim() ? parseQuickCapture(input, new Date(), timeZone) : null), [input, timeZone]);
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!draft?.title) return;
+    onCapture(draft);
+    setInput("");
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="glass space-y-2 rounded-3xl border border-white/10 p-3 shadow-lg">
+      <div className="flex items-center gap-2 rounded-2xl border border-white/10 bg-slate-950/80 px-3 focus-within:border-brand">
+        <Zap className="h-4 w-4 flex-none text-brand-light" />
+        <input
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") setInput("");
+          }}
+          placeholder="Quick capture: call Dana tomorrow 3pm !high #sales"
+          aria-label="Quick capture"
+          className="flex-1 bg-transparent py-3 text-sm text-white placeholder:text-slate-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!draft?.title}
+          className="rounded-full bg-brand px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-brand-light disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          Add
+        </button>
+      </div>
+      {draft ? (
+        <div className="flex flex-wrap items-center gap-2 px-1 text-xs text-slate-300/80" aria-live="polite">
+          <Chip icon={draft.kind === "task" ? CheckSquare : AlarmClock}>
+            {draft.kind === "task" ? "Task" : "Reminder"}
+          </Chip>
+          <span className={draft.title ? "font-medium text-white" : "text-rose-300"}>{draft.title || "Add a title"}</span>
+          {draft.due ? (
+            <Chip icon={CalendarCheck}>{formatDateTime(draft.due)}</Chip>
+          ) : draft.kind === "reminder" ? (
+            <Chip icon={CalendarCheck}>In an hour</Chip>
+          ) : null}
+          {draft.kind === "task" ? (
+            <Chip icon={Hash}>{priorityTokens[draft.priority]}</Chip>
+          ) : (
+            <Chip icon={MessageSquareText}>{channelTokens[draft.channel]}</Chip>
+          )}
+          {draft.tags.map((tag) => (
+            <span key={tag} className="inline-flex items-center gap-1 rounded-full bg-brand/20 px-2 py-1 text-brand-light">
+              <Tag className="h-3 w-3" />
+              {tag}
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </form>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Repeat } from "lucide-react";
+import { describeRRule, recurrencePresets, validateRRule } from "../lib/recurrence";
+import { cn } from "../lib/utils";
+
+const CUSTOM = "custom";
+
+interface RecurrencePickerProps {
+  /** RRULE body such as `FREQ=WEEKLY;BYDAY=MO`, or an empty string for one-off items. */
+  value: string;
+  /** Date the presets are phrased around (e.g. “every 2nd Tuesday”); defaults to now. */
+  anchor?: string;
+  onChange: (rrule: string) => void;
+  className?: string;
+}
+
+export function RecurrencePicker({ value, anchor, onChange, className }: RecurrencePickerProps) {
+  const presets = useMemo(() => {
+    const date = anchor ? new Date(anchor) : new Date();
+    return recurrencePresets(Number.isNaN(date.getTime()) ? new Date() : date);
+  }, [anchor]);
+  const [custom, setCustom] = useState(false);
+  const isCustom = custom || (value !== "" && !presets.some((preset) => preset.rrule === value));
+  const error = isCustom && value ? validateRRule(value) : null;
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-slate-950/80 px-3 text-sm text-white focus-within:border-brand">
+        <Repeat className="h-4 w-4 text-slate-400" />
+        <select
+          value={isCustom ? CUSTOM : value}
+          onChange={(event) => {
+            const next = event.target.value;
+            setCustom(next === CUSTOM);
+            if (next !== CUSTOM) onChange(next);
+          }}
+          className="flex-1 bg-transparent py-3 focus:outline-none"
+          aria-label="Repeat"
+        >
+          <option value="">Does not repeat</option>
+          {presets.map((preset) => (
+            <option key={preset.rrule} value={preset.rrule}>
+              {preset.label}
+            </option>
+          ))}
+          <option value={CUSTOM}>Custom rule…</option>
+        </select>
+      </label>
+      {isCustom ? (
+        <div className="space-y-1">
+          <input
+            value={value}
+            onChange={(event) => onChange(event.target.value.trim().replace(/^RRULE:/i, ""))}
+            placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+            className="w-full rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-3 font-mono text-xs text-white placeholder:text-slate-500 focus:border-brand"
+            aria-invalid={Boolean(error)}
+          />
+          <p className={cn("px-1 text-xs", error ? "text-rose-300" : "text-slate-400")}>
+            {error ?? (value ? describeRRule(value) : "Enter an RFC 5545 RRULE")}
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { BellRing, CheckCheck, Clock3, Moon } from "lucide-react";
+import type { Reminder } from "../lib/models";
+import { snoozePresets, snoozeUntil, statusOf, statusTokens } from "../lib/reminders/lifecycle";
+import { formatDateTime } from "../lib/datetime";
+import { fromDateTimeLocal } from "../lib/naturalDates";
+import { cn } from "../lib/utils";
+
+interface ReminderActionsProps {
+  reminder: Reminder;
+  onAcknowledge: () => void;
+  onSnooze: (until: Date) => void;
+  /** Zone the presets and the custom time are read in. */
+  timeZone?: string;
+}
+
+export function ReminderActions({ reminder, onAcknowledge, onSnooze, timeZone }: ReminderActionsProps) {
+  const [open, setOpen] = useState(false);
+  const [custom, setCustom] = useState("");
+  const status = statusOf(reminder);
+
+  function snooze(until: Date) {
+    onSnooze(until);
+    setOpen(false);
+    setCustom("");
+  }
+
+  const chip =
+    status === "fired"
+      ? { icon: BellRing, label: statusTokens.fired, tone: "bg-brand/20 text-brand-light" }
+      : status === "snoozed" && reminder.snoozedUntil
+        ? { icon: Moon, label: `Snoozed until ${formatDateTime(reminder.snoozedUntil)}`, tone: "bg-slate-800 text-slate-200" }
+        : status === "acknowledged"
+          ? { icon: CheckCheck, label: statusTokens.acknowledged, tone: "bg-emerald-500/15 text-emerald-300" }
+          : null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {chip ? (
+        <span className={cn("inline-flex items-center gap-1 rounded-full px-2 py-1", chip.tone)}>
+          <chip.icon className="h-3 w-3" />
+          {chip.label}
+        </span>
+      ) : null}
+      {status === "fired" || status === "snoozed" ? (
+        <button
+          type="button"
+          onClick={onAcknowledge}
+          className="inline-flex items-center gap-1 rounded-full border border-white/10 px-2 py-1 text-slate-200 hover:border-emerald-400/60 hover:text-emerald-300"
+        >
+          <CheckCheck className="h-3 w-3" />
+          Acknowledge
+        </button>
+      ) : null}
+      {status !== "acknowledged" ? (
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setOpen((prev) => !prev)}
+            className="inline-flex items-center gap-1 rounded-full border border-white/10 px-2 py-1 text-slate-200 hover:border-brand/60 hover:text-brand-light"
+            aria-expanded={open}
+          >
+            <Clock3 className="h-3 w-3" />
+            Snooze
+          </button>
+          {open ? (
+            <div className="absolute left-0 z-10 mt-2 w-56 space-y-1 rounded-2xl border border-white/10 bg-slate-950/95 p-2 shadow-xl">
+              {snoozePresets.map((preset) => (
+                <button
+                  key={preset.id}
+                  type="button"
+                  onClick={() => snooze(snoozeUntil(preset.id, new Date(), timeZone))}
+                  className="block w-full rounded-xl px-3 py-2 text-left text-slate-200 hover:bg-slate-800"
+                >
+                  {preset.label}
+                </button>
+              ))}
+              <form
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  const until = fromDateTimeLocal(custom, timeZone);
+                  if (until) snooze(until);
+                }}
+                className="flex items-center gap-1 px-1 pt-1"
+              >
+                <input
+                  type="datetime-local"
+                  value={custom}
+                  onChange={(event) => setCustom(event.target.value)}
+                  className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900 px-2 py-1.5 text-white focus:border-brand"
+                  aria-label="Snooze until"
+                />
+                <button type="submit" className="rounded-xl bg-brand px-2 py-1.5 font-semibold text-white hover:bg-brand-light">
+                  Set
+                </button>
+              </form>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+"use client";
+
+import { useEffect } from "react";
+
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (!("serviceWorker" in navigator) || process.env.NODE_ENV !== "production") return;
+    navigator.serviceWorker.register("/sw.js").catch(() => {
+      // The dashboard still works online without the offline shell.
+    });
+  }, []);
+
+  return null;
+}
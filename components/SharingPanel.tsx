@@ -0,0 +1,72 @@
+"use client";
+
+import { Users } from "lucide-react";
+import {
+  EVERYONE,
+  itemRoleTokens,
+  setShare,
+  shareFor,
+  type ItemRole,
+  type ItemShare
+} from "../lib/workspaces/access";
+import type { WorkspaceMember } from "../lib/workspaces/protocol";
+
+interface SharingPanelProps {
+  shares?: ItemShare[];
+  /** Unset until the record first syncs, when it belongs to whoever created it. */
+  ownerId?: string;
+  members: WorkspaceMember[];
+  currentUserId: string;
+  /** Only the record's owner may change who it is shared with. */
+  canManage: boolean;
+  onChange: (shares: ItemShare[]) => void;
+}
+
+const selectClass = "rounded-xl border border-white/10 bg-slate-950/80 px-2 py-1 text-xs text-white focus:border-brand";
+
+export function SharingPanel({ shares, ownerId, members, currentUserId, canManage, onChange }: SharingPanelProps) {
+  const owner = ownerId ?? currentUserId;
+  const others = members.filter((member) => member.userId !== owner);
+
+  function roleSelect(userId: string, label: string) {
+    const role = shareFor(shares, userId);
+    if (!canManage) return <span className="text-slate-400">{role ? itemRoleTokens[role] : "No access"}</span>;
+    return (
+      <select
+        value={role ?? ""}
+        onChange={(event) => onChange(setShare(shares, userId, (event.target.value || null) as ItemRole | null))}
+        className={selectClass}
+        aria-label={`Access for ${label}`}
+      >
+        <option value="">No access</option>
+        <option value="viewer">{itemRoleTokens.viewer}</option>
+        <option value="editor">{itemRoleTokens.editor}</option>
+      </select>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-white/10 bg-slate-950/60 p-3 text-xs">
+      <p className="flex items-center gap-1 font-semibold text-slate-200">
+        <Users className="h-3.5 w-3.5" />
+        Sharing
+      </p>
+      <p className="text-slate-400">
+        Owned by {owner === currentUserId ? "you" : members.find((member) => member.userId === owner)?.name ?? "a former member"}
+      </p>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-slate-300">Everyone in this space</span>
+        {roleSelect(EVERYONE, "everyone in this space")}
+      </div>
+      {others.map((member) => (
+        <div key={member.userId} className="flex items-center justify-between gap-2">
+          <span className="min-w-0 truncate text-slate-300" title={member.email}>
+            {member.userId === currentUserId ? "You" : member.name}
+          </span>
+          {roleSelect(member.userId, member.name)}
+        </div>
+      ))}
+      {!others.length ? <p className="text-slate-500">Add members to the space to share with them.</p> : null}
+    </div>
+  );
+}
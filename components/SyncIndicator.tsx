@@ -0,0 +1,40 @@
+"use client";
+
+import { Check, CloudOff, CloudUpload, RefreshCw, TriangleAlert } from "lucide-react";
+import type { SyncStatus } from "../lib/sync/useSync";
+import { cn } from "../lib/utils";
+
+interface SyncIndicatorProps {
+  status: SyncStatus;
+  pending: number;
+  onRetry?: () => void;
+}
+
+export function SyncIndicator({ status, pending, onRetry }: SyncIndicatorProps) {
+  const pendingLabel = `${pending} pending sync`;
+  const { icon: Icon, label, tone } =
+    status === "offline"
+      ? { icon: CloudOff, label: pending ? `Offline · ${pendingLabel}` : "Offline", tone: "text-amber-300" }
+      : status === "error"
+        ? { icon: TriangleAlert, label: pending ? `Sync paused · ${pendingLabel}` : "Sync paused", tone: "text-rose-300" }
+        : status === "syncing"
+          ? { icon: RefreshCw, label: "Syncing…", tone: "text-slate-300" }
+          : pending
+            ? { icon: CloudUpload, label: pendingLabel, tone: "text-amber-200" }
+            : { icon: Check, label: "Synced", tone: "text-emerald-300/90" };
+
+  return (
+    <button
+      type="button"
+      onClick={onRetry}
+      className={cn(
+        "mt-2 inline-flex items-center gap-1.5 rounded-full border border-white/10 bg-slate-900/60 px-2.5 py-1 text-[11px]",
+        tone
+      )}
+      aria-live="polite"
+    >
+      <Icon className={cn("h-3 w-3", status === "syncing" && "animate-spin")} />
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { DragEvent, useState } from "react";
+import { CalendarCheck, ChevronLeft, ChevronRight, Lock, Tag } from "lucide-react";
+import { priorityTokens, type Task } from "../lib/models";
+import { statusTokens, taskStatus, type TaskStatus } from "../lib/taskViews";
+import { formatDateTime } from "../lib/datetime";
+import { cn } from "../lib/utils";
+
+interface TaskBoardProps {
+  tasks: Task[];
+  /** Tasks with unfinished prerequisites; they can't be dropped on Done. */
+  blockedIds: Set<string>;
+  /** Tasks the viewer may only look at; they stay in their column. */
+  readOnlyIds?: Set<string>;
+  onMove: (taskId: string, status: TaskStatus) => void;
+  highlightedId?: string | null;
+}
+
+const columns: TaskStatus[] = ["todo", "in-progress", "done"];
+
+const priorityAccent: Record<Task["priority"], string> = {
+  high: "border-l-rose-400",
+  medium: "border-l-brand",
+  low: "border-l-slate-500"
+};
+
+export function TaskBoard({ tasks, blockedIds, readOnlyIds, onMove, highlightedId }: TaskBoardProps) {
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [target, setTarget] = useState<TaskStatus | null>(null);
+
+  const accepts = (status: TaskStatus) => !(dragging && status === "done" && blockedIds.has(dragging));
+
+  function handleDragOver(event: DragEvent<HTMLDivElement>, status: TaskStatus) {
+    if (!dragging || !accepts(status)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setTarget(status);
+  }
+
+  function handleDrop(event: DragEvent<HTMLDivElement>, status: TaskStatus) {
+    event.preventDefault();
+    const id = event.dataTransfer.getData("text/plain") || dragging;
+    if (id && accepts(status)) onMove(id, status);
+    setDragging(null);
+    setTarget(null);
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {columns.map((status, columnIndex) => {
+        const cards = tasks.filter((task) => taskStatus(task) === status);
+        return (
+          <div
+            key={status}
+            onDragOver={(event) => handleDragOver(event, status)}
+            onDragLeave={() => setTarget((current) => (current === status ? null : current))}
+            onDrop={(event) => handleDrop(event, status)}
+            className={cn(
+              "flex min-h-[10rem] flex-col gap-2 rounded-2xl border border-white/10 bg-slate-950/40 p-2 transition",
+              target === status && "border-brand/60 bg-brand/10",
+              dragging && !accepts(status) && "opacity-50"
+            )}
+          >
+            <p className="flex items-center justify-between px-1 text-[11px] uppercase tracking-wide text-slate-400">
+              {statusTokens[status]}
+              <span className="tabular-nums">{cards.length}</span>
+            </p>
+            {cards.map((task) => {
+              const blocked = blockedIds.has(task.id);
+              const movable = !readOnlyIds?.has(task.id);
+              const previous = movable ? columns[columnIndex - 1] : undefined;
+              const next = movable ? columns[columnIndex + 1] : undefined;
+              return (
+                <article
+                  key={task.id}
+                  id={`card-${task.id}`}
+                  draggable={movable}
+                  onDragStart={(event) => {
+                    event.dataTransfer.setData("text/plain", task.id);
+                    event.dataTransfer.effectAllowed = "move";
+                    setDragging(task.id);
+                  }}
+                  onDragEnd={() => {
+                    setDragging(null);
+                    setTarget(null);
+                  }}
+                  className={cn(
+                    "space-y-1.5 rounded-xl border border-white/10 border-l-2 bg-slate-900/80 p-2 text-xs",
+                    movable && "cursor-grab active:cursor-grabbing",
+                    priorityAccent[task.priority],
+                    dragging === task.id && "opacity-40",
+                    highlightedId === task.id && "ring-2 ring-brand/70"
+                  )}
+                >
+                  <p className={cn("font-medium", task.done ? "text-slate-400 line-through" : "text-white")}>
+                    {blocked && !task.done ? <Lock className="mr-1 inline h-3 w-3 text-amber-300" /> : null}
+                    {task.title}
+                  </p>
+                  <p className="text-[11px] text-slate-400">{priorityTokens[task.priority]}</p>
+                  {task.dueDate ? (
+                    <p className="flex items-center gap-1 text-[11px] text-slate-300/80">
+                      <CalendarCheck className="h-3 w-3" />
+                      {formatDateTime(task.dueDate)}
+                    </p>
+                  ) : null}
+                  {task.tags?.length ? (
+                    <p className="flex flex-wrap gap-1 text-[11px] text-brand-light">
+                      {task.tags.map((tag) => (
+                        <span key={tag} className="inline-flex items-center gap-0.5">
+                          <Tag className="h-2.5 w-2.5" />
+                          {tag}
+                        </span>
+                      ))}
+                    </p>
+                  ) : null}
+                  <div className="flex justify-between">
+                    {previous ? (
+                      <button
+                        type="button"
+                        onClick={() => onMove(task.id, previous)}
+                        className="rounded-full p-0.5 text-slate-400 hover:bg-white/10 hover:text-white"
+                        aria-label={`Move to ${statusTokens[previous]}`}
+                      >
+                        <ChevronLeft className="h-3.5 w-3.5" />
+                      </button>
+                    ) : (
+                      <span />
+                    )}
+                    {next && !(next === "done" && blocked) ? (
+                      <button
+                        type="button"
+                        onClick={() => onMove(task.id, next)}
+                        className="rounded-full p-0.5 text-slate-400 hover:bg-white/10 hover:text-white"
+                        aria-label={`Move to ${statusTokens[next]}`}
+                      >
+                        <ChevronRight className="h-3.5 w-3.5" />
+                      </button>
+                    ) : null}
+                  </div>
+                </article>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
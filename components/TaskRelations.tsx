@@ -0,0 +1,150 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { CheckSquare, ListTree, Lock, X } from "lucide-react";
+import type { Task } from "../lib/models";
+import { cn } from "../lib/utils";
+
+interface TaskRelationsProps {
+  /** Prerequisites of this task, done or not. */
+  blockers: Task[];
+  /** Tasks that can become prerequisites without creating a cycle. */
+  candidates: Task[];
+  /** The editing handlers are left out for readers who may not change the task. */
+  onAddBlocker?: (blockerId: string) => void;
+  onRemoveBlocker?: (blockerId: string) => void;
+  onAddSubtask?: (title: string) => void;
+  onOpen: (taskId: string) => void;
+}
+
+type Panel = "subtask" | "blocker" | null;
+
+export function TaskRelations({
+  blockers,
+  candidates,
+  onAddBlocker,
+  onRemoveBlocker,
+  onAddSubtask,
+  onOpen
+}: TaskRelationsProps) {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [subtask, setSubtask] = useState("");
+  const [blocker, setBlocker] = useState("");
+
+  function togglePanel(next: Panel) {
+    setPanel((current) => (current === next ? null : next));
+  }
+
+  function submitSubtask(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!subtask.trim() || !onAddSubtask) return;
+    onAddSubtask(subtask.trim());
+    setSubtask("");
+  }
+
+  function submitBlocker(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!blocker || !onAddBlocker) return;
+    onAddBlocker(blocker);
+    setBlocker("");
+    setPanel(null);
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        {blockers.map((entry) => (
+          <span
+            key={entry.id}
+            className={cn(
+              "inline-flex items-center gap-1 rounded-full py-1 pl-2 pr-1",
+              entry.done ? "bg-slate-800 text-slate-400" : "bg-amber-500/15 text-amber-200"
+            )}
+          >
+            <button type="button" onClick={() => onOpen(entry.id)} className="inline-flex items-center gap-1 hover:underline">
+              {entry.done ? <CheckSquare className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+              Blocked by {entry.title}
+            </button>
+            {onRemoveBlocker ? (
+              <button
+                type="button"
+                onClick={() => onRemoveBlocker(entry.id)}
+                className="rounded-full p-0.5 opacity-70 hover:bg-white/10 hover:opacity-100"
+                aria-label={`Remove dependency on ${entry.title}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            ) : null}
+          </span>
+        ))}
+        {onAddSubtask ? (
+          <button
+            type="button"
+            onClick={() => togglePanel("subtask")}
+            className="inline-flex items-center gap-1 rounded-full border border-white/10 px-2 py-1 text-slate-300 hover:border-brand/60 hover:text-brand-light"
+            aria-expanded={panel === "subtask"}
+          >
+            <ListTree className="h-3 w-3" />
+            Subtask
+          </button>
+        ) : null}
+        {onAddBlocker ? (
+          <button
+            type="button"
+            onClick={() => togglePanel("blocker")}
+            className="inline-flex items-center gap-1 rounded-full border border-white/10 px-2 py-1 text-slate-300 hover:border-brand/60 hover:text-brand-light"
+            aria-expanded={panel === "blocker"}
+          >
+            <Lock className="h-3 w-3" />
+            Blocked by
+          </button>
+        ) : null}
+      </div>
+      {panel === "subtask" && onAddSubtask ? (
+        <form onSubmit={submitSubtask} className="flex gap-2">
+          <input
+            value={subtask}
+            onChange={(event) => setSubtask(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") setPanel(null);
+            }}
+            placeholder="Subtask title"
+            autoFocus
+            className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-950/80 px-2 py-1.5 text-white placeholder:text-slate-500 focus:border-brand focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!subtask.trim()}
+            className="rounded-xl bg-brand px-3 py-1.5 font-semibold text-white hover:bg-brand-light disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+      ) : null}
+      {panel === "blocker" && onAddBlocker ? (
+        <form onSubmit={submitBlocker} className="flex gap-2">
+          <select
+            value={blocker}
+            onChange={(event) => setBlocker(event.target.value)}
+            className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900 px-2 py-1.5 text-white focus:border-brand"
+            aria-label="Prerequisite task"
+          >
+            <option value="">{candidates.length ? "Choose a prerequisite…" : "No tasks available"}</option>
+            {candidates.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.done ? `✓ ${candidate.title}` : candidate.title}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!blocker}
+            className="rounded-xl bg-brand px-3 py-1.5 font-semibold text-white hover:bg-brand-light disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
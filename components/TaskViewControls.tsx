@@ -0,0 +1,275 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Columns3, List, Save, SlidersHorizontal, Trash2 } from "lucide-react";
+import type { Task } from "../lib/models";
+import type { DueRange, SavedTaskView, TaskViewSettings } from "../lib/taskViews";
+import { cn } from "../lib/utils";
+
+interface TaskViewControlsProps {
+  view: TaskViewSettings;
+  onChange: (view: TaskViewSettings) => void;
+  builtInViews: SavedTaskView[];
+  savedViews: SavedTaskView[];
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  /** Every tag in use on a task. */
+  tags: string[];
+  /** Offer the "assigned to me" filter; only shared spaces have assignees. */
+  showAssignee?: boolean;
+}
+
+const priorities: Task["priority"][] = ["high", "medium", "low"];
+
+const dueRanges: Array<{ value: DueRange; label: string }> = [
+  { value: "any", label: "Any due date" },
+  { value: "overdue", label: "Overdue" },
+  { value: "today", label: "Due today" },
+  { value: "week", label: "Due this week" },
+  { value: "none", label: "No due date" }
+];
+
+const selectClass = "rounded-xl border border-white/10 bg-slate-950/80 px-2 py-1.5 text-xs text-white focus:border-brand";
+
+function sameSettings(a: TaskViewSettings, b: TaskViewSettings) {
+  return (
+    a.state === b.state &&
+    a.due === b.due &&
+    a.sort === b.sort &&
+    a.grouped === b.grouped &&
+    a.layout === b.layout &&
+    (a.tag ?? "") === (b.tag ?? "") &&
+    Boolean(a.assignedToMe) === Boolean(b.assignedToMe) &&
+    [...a.priorities].sort().join() === [...b.priorities].sort().join()
+  );
+}
+
+export function TaskViewControls({
+  view,
+  onChange,
+  builtInViews,
+  savedViews,
+  onSave,
+  onDelete,
+  tags,
+  showAssignee = false
+}: TaskViewControlsProps) {
+  const [showFilters, setShowFilters] = useState(false);
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  const allViews = [...builtInViews, ...savedViews];
+  const active = allViews.find((entry) => sameSettings(entry.settings, view));
+  const update = (patch: Partial<TaskViewSettings>) => onChange({ ...view, ...patch });
+
+  function togglePriority(priority: Task["priority"]) {
+    update({
+      priorities: view.priorities.includes(priority)
+        ? view.priorities.filter((entry) => entry !== priority)
+        : [...view.priorities, priority]
+    });
+  }
+
+  function handleSave(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName("");
+    setNaming(false);
+  }
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-white/10 bg-slate-900/50 p-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={active?.id ?? ""}
+          onChange={(event) => {
+            const chosen = allViews.find((entry) => entry.id === event.target.value);
+            if (chosen) onChange(chosen.settings);
+          }}
+          className={cn(selectClass, "min-w-0 flex-1")}
+          aria-label="Saved view"
+        >
+          {active ? null : <option value="">Custom view</option>}
+          <optgroup label="Views">
+            {builtInViews.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.name}
+              </option>
+            ))}
+          </optgroup>
+          {savedViews.length ? (
+            <optgroup label="Saved">
+              {savedViews.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name}
+                </option>
+              ))}
+            </optgroup>
+          ) : null}
+        </select>
+        <div className="inline-flex rounded-xl border border-white/10 p-0.5">
+          <button
+            type="button"
+            onClick={() => update({ layout: "list" })}
+            className={cn("rounded-lg p-1.5", view.layout === "list" ? "bg-brand/30 text-white" : "text-slate-400 hover:text-white")}
+            aria-label="List layout"
+            aria-pressed={view.layout === "list"}
+          >
+            <List className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => update({ layout: "board" })}
+            className={cn("rounded-lg p-1.5", view.layout === "board" ? "bg-brand/30 text-white" : "text-slate-400 hover:text-white")}
+            aria-label="Board layout"
+            aria-pressed={view.layout === "board"}
+          >
+            <Columns3 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowFilters((open) => !open)}
+          className={cn(
+            "rounded-xl border border-white/10 p-1.5",
+            showFilters ? "border-brand/60 text-brand-light" : "text-slate-400 hover:text-white"
+          )}
+          aria-label="Filters and sorting"
+          aria-expanded={showFilters}
+        >
+          <SlidersHorizontal className="h-3.5 w-3.5" />
+        </button>
+        {active && savedViews.some((entry) => entry.id === active.id) ? (
+          <button
+            type="button"
+            onClick={() => onDelete(active.id)}
+            className="rounded-xl border border-white/10 p-1.5 text-slate-400 hover:text-rose-300"
+            aria-label={`Delete view ${active.name}`}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        ) : null}
+        {!active ? (
+          <button
+            type="button"
+            onClick={() => setNaming((open) => !open)}
+            className="rounded-xl border border-white/10 p-1.5 text-slate-400 hover:text-brand-light"
+            aria-label="Save view"
+          >
+            <Save className="h-3.5 w-3.5" />
+          </button>
+        ) : null}
+      </div>
+      {naming && !active ? (
+        <form onSubmit={handleSave} className="flex gap-2">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="View name"
+            autoFocus
+            className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-950/80 px-2 py-1.5 text-white placeholder:text-slate-500 focus:border-brand focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="rounded-xl bg-brand px-3 py-1.5 font-semibold text-white hover:bg-brand-light disabled:opacity-50"
+          >
+            Save
+          </button>
+        </form>
+      ) : null}
+      {showFilters ? (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1.5">
+            {priorities.map((priority) => (
+              <button
+                key={priority}
+                type="button"
+                onClick={() => togglePriority(priority)}
+                aria-pressed={view.priorities.includes(priority)}
+                className={cn(
+                  "rounded-full border px-2 py-1 capitalize",
+                  view.priorities.includes(priority)
+                    ? "border-brand/60 bg-brand/20 text-brand-light"
+                    : "border-white/10 text-slate-300 hover:text-white"
+                )}
+              >
+                {priority}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={view.state}
+              onChange={(event) => update({ state: event.target.value as TaskViewSettings["state"] })}
+              className={selectClass}
+              aria-label="Completion"
+            >
+              <option value="all">Open and done</option>
+              <option value="open">Open only</option>
+              <option value="done">Done only</option>
+            </select>
+            <select
+              value={view.due}
+              onChange={(event) => update({ due: event.target.value as DueRange })}
+              className={selectClass}
+              aria-label="Due date"
+            >
+              {dueRanges.map((range) => (
+                <option key={range.value} value={range.value}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={view.tag ?? ""}
+              onChange={(event) => update({ tag: event.target.value || undefined })}
+              className={selectClass}
+              aria-label="Tag"
+            >
+              <option value="">Any tag</option>
+              {tags.map((tag) => (
+                <option key={tag} value={tag}>
+                  #{tag}
+                </option>
+              ))}
+            </select>
+            <select
+              value={view.sort}
+              onChange={(event) => update({ sort: event.target.value as TaskViewSettings["sort"] })}
+              className={selectClass}
+              aria-label="Sort"
+            >
+              <option value="manual">Manual order</option>
+              <option value="due">Sort by due date</option>
+              <option value="priority">Sort by priority</option>
+            </select>
+          </div>
+          {view.layout === "list" ? (
+            <label className="flex items-center gap-2 text-slate-300">
+              <input
+                type="checkbox"
+                checked={view.grouped}
+                onChange={(event) => update({ grouped: event.target.checked })}
+                className="h-3.5 w-3.5 accent-brand"
+              />
+              Group by Overdue / Today / This week / Later
+            </label>
+          ) : null}
+          {showAssignee ? (
+            <label className="flex items-center gap-2 text-slate-300">
+              <input
+                type="checkbox"
+                checked={Boolean(view.assignedToMe)}
+                onChange={(event) => update({ assignedToMe: event.target.checked || undefined })}
+                className="h-3.5 w-3.5 accent-brand"
+              />
+              Assigned to me
+            </label>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
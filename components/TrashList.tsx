@@ -0,0 +1,84 @@
+"use client";
+
+import { AlarmClock, CheckSquare, Files, LucideIcon, NotebookPen, RotateCcw, Trash2 } from "lucide-react";
+import type { EntityKind } from "../lib/models";
+import { entityKindLabels } from "../lib/links";
+import { TRASH_RETENTION_DAYS, purgeDate, trashTitle, type TrashEntry } from "../lib/trash";
+import { formatDateTime } from "../lib/datetime";
+
+interface TrashListProps {
+  entries: TrashEntry[];
+  onRestore: (entry: TrashEntry) => void;
+  onPurge: (entry: TrashEntry) => void;
+  onEmpty: () => void;
+}
+
+const kindIcons: Record<EntityKind, LucideIcon> = {
+  note: NotebookPen,
+  task: CheckSquare,
+  reminder: AlarmClock,
+  file: Files
+};
+
+export function TrashList({ entries, onRestore, onPurge, onEmpty }: TrashListProps) {
+  if (!entries.length) {
+    return (
+      <p className="text-xs text-slate-400">
+        Nothing here. Deleted notes, tasks, reminders and files stay for {TRASH_RETENTION_DAYS} days.
+      </p>
+    );
+  }
+
+  const now = Date.now();
+  return (
+    <div className="space-y-2 text-xs">
+      {entries.map((entry) => {
+        const Icon = kindIcons[entry.kind];
+        const daysLeft = Math.max(0, Math.ceil((purgeDate(entry).getTime() - now) / 86_400_000));
+        return (
+          <div
+            key={`${entry.kind}-${entry.record.id}`}
+            className="flex items-center gap-3 rounded-2xl border border-white/10 bg-slate-900/50 px-3 py-2"
+          >
+            <Icon className="h-4 w-4 flex-none text-slate-400" />
+            <div className="min-w-0 flex-1">
+              <p className="truncate font-medium text-white">{trashTitle(entry)}</p>
+              <p className="text-slate-400">
+                {entityKindLabels[entry.kind]} · deleted {formatDateTime(entry.deletedAt)} · purged in {daysLeft}{" "}
+                {daysLeft === 1 ? "day" : "days"}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onRestore(entry)}
+              className="rounded-full p-1.5 text-slate-300 hover:bg-white/10 hover:text-brand-light"
+              aria-label={`Restore ${trashTitle(entry)}`}
+              title="Restore"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onPurge(entry)}
+              className="rounded-full p-1.5 text-slate-400 hover:bg-white/10 hover:text-rose-300"
+              aria-label={`Delete ${trashTitle(entry)} forever`}
+              title="Delete forever"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => {
+          if (window.confirm(`Permanently delete ${entries.length} ${entries.length === 1 ? "item" : "items"}?`)) onEmpty();
+        }}
+        className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-slate-300 hover:border-rose-400/60 hover:text-rose-300"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+        Empty trash
+      </button>
+    </div>
+  );
+}
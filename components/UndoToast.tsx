@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect } from "react";
+import { Undo2, X } from "lucide-react";
+
+interface UndoToastProps {
+  /** Changes whenever a new operation replaces the one on show, restarting the timer. */
+  operationId: string;
+  label: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+export function UndoToast({ operationId, label, onUndo, onDismiss, durationMs = 6000 }: UndoToastProps) {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, durationMs);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [operationId, durationMs]);
+
+  return (
+    <div
+      role="status"
+      className="glass fixed inset-x-0 bottom-24 z-40 mx-auto flex w-[calc(100%-3rem)] max-w-md items-center gap-3 rounded-2xl border border-white/10 px-4 py-3 text-sm text-slate-100 shadow-2xl"
+    >
+      <p className="min-w-0 flex-1 truncate">{label}</p>
+      <button
+        type="button"
+        onClick={onUndo}
+        className="inline-flex items-center gap-1 rounded-full bg-brand px-3 py-1.5 text-xs font-semibold text-white hover:bg-brand-light"
+      >
+        <Undo2 className="h-3.5 w-3.5" />
+        Undo
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="rounded-full p-1 text-slate-400 hover:bg-white/10 hover:text-white"
+        aria-label="Dismiss"
+      >
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
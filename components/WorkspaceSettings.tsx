@@ -0,0 +1,184 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Check, LogOut, Plus, UserMinus, UserPlus } from "lucide-react";
+import { workspaceRoleTokens } from "../lib/workspaces/access";
+import type { MemberInvite, MemberRole, WorkspaceSummary } from "../lib/workspaces/protocol";
+import { cn } from "../lib/utils";
+
+interface WorkspaceSettingsProps {
+  workspaces: WorkspaceSummary[];
+  active: WorkspaceSummary;
+  currentUserId: string;
+  onSwitch: (workspaceId: string) => void;
+  onCreate: (name: string) => Promise<void>;
+  onAddMember: (invite: MemberInvite) => Promise<void>;
+  onUpdateMember: (userId: string, role: MemberRole) => Promise<void>;
+  onRemoveMember: (userId: string) => Promise<void>;
+}
+
+const inputClass =
+  "min-w-0 flex-1 rounded-2xl border border-white/10 bg-slate-950/80 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-brand focus:outline-none";
+
+const selectClass = "rounded-xl border border-white/10 bg-slate-950/80 px-2 py-1 text-xs text-white focus:border-brand";
+
+export function WorkspaceSettings({
+  workspaces,
+  active,
+  currentUserId,
+  onSwitch,
+  onCreate,
+  onAddMember,
+  onUpdateMember,
+  onRemoveMember
+}: WorkspaceSettingsProps) {
+  const [spaceName, setSpaceName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MemberRole>("editor");
+  const [error, setError] = useState<string | null>(null);
+  const isOwner = active.role === "owner";
+
+  async function attempt(action: () => Promise<void>) {
+    setError(null);
+    try {
+      await action();
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Something went wrong");
+    }
+  }
+
+  function handleCreate(event: FormEvent) {
+    event.preventDefault();
+    if (spaceName.trim()) void attempt(() => onCreate(spaceName.trim()));
+  }
+
+  function handleInvite(event: FormEvent) {
+    event.preventDefault();
+    void attempt(async () => {
+      await onAddMember({ email, role });
+      setEmail("");
+    });
+  }
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="space-y-2">
+        {workspaces.map((workspace) => (
+          <button
+            key={workspace.id}
+            type="button"
+            onClick={() => workspace.id !== active.id && onSwitch(workspace.id)}
+            className={cn(
+              "flex w-full items-center gap-2 rounded-2xl border px-3 py-2 text-left",
+              workspace.id === active.id
+                ? "border-brand/60 bg-brand/10 text-white"
+                : "border-white/10 text-slate-300 hover:border-brand/40 hover:text-white"
+            )}
+          >
+            <span className="min-w-0 flex-1 truncate font-medium">{workspace.name}</span>
+            <span className="text-slate-400">
+              {workspace.kind === "personal" ? "Personal" : `${workspace.members.length} members`}
+            </span>
+            {workspace.id === active.id ? <Check className="h-3.5 w-3.5 text-brand-light" /> : null}
+          </button>
+        ))}
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            value={spaceName}
+            onChange={(event) => setSpaceName(event.target.value)}
+            placeholder="New shared space"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!spaceName.trim()}
+            className="inline-flex items-center gap-1 rounded-full bg-brand px-3 py-1.5 font-semibold text-white hover:bg-brand-light disabled:opacity-40"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Create
+          </button>
+        </form>
+      </div>
+
+      {active.kind === "shared" ? (
+        <div className="space-y-2 border-t border-white/10 pt-4">
+          <p className="font-semibold text-slate-200">Members of {active.name}</p>
+          {active.members.map((member) => (
+            <div key={member.userId} className="flex items-center gap-2">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-white">{member.userId === currentUserId ? `${member.name} (you)` : member.name}</p>
+                <p className="truncate text-slate-500">{member.email}</p>
+              </div>
+              {isOwner && member.role !== "owner" ? (
+                <>
+                  <select
+                    value={member.role}
+                    onChange={(event) => void attempt(() => onUpdateMember(member.userId, event.target.value as MemberRole))}
+                    className={selectClass}
+                    aria-label={`Role for ${member.name}`}
+                  >
+                    <option value="editor">{workspaceRoleTokens.editor}</option>
+                    <option value="viewer">{workspaceRoleTokens.viewer}</option>
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => void attempt(() => onRemoveMember(member.userId))}
+                    className="rounded-full p-1.5 text-slate-400 hover:bg-white/10 hover:text-rose-300"
+                    aria-label={`Remove ${member.name}`}
+                    title="Remove from space"
+                  >
+                    <UserMinus className="h-3.5 w-3.5" />
+                  </button>
+                </>
+              ) : (
+                <span className="text-slate-400">{workspaceRoleTokens[member.role]}</span>
+              )}
+            </div>
+          ))}
+          {isOwner ? (
+            <form onSubmit={handleInvite} className="flex flex-wrap gap-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                placeholder="Member's email"
+                required
+                className={inputClass}
+              />
+              <select
+                value={role}
+                onChange={(event) => setRole(event.target.value as MemberRole)}
+                className={selectClass}
+                aria-label="Role for new member"
+              >
+                <option value="editor">{workspaceRoleTokens.editor}</option>
+                <option value="viewer">{workspaceRoleTokens.viewer}</option>
+              </select>
+              <button
+                type="submit"
+                className="inline-flex items-center gap-1 rounded-full bg-brand px-3 py-1.5 font-semibold text-white hover:bg-brand-light"
+              >
+                <UserPlus className="h-3.5 w-3.5" />
+                Add
+              </button>
+            </form>
+          ) : (
+            <button
+              type="button"
+              onClick={() => void attempt(() => onRemoveMember(currentUserId))}
+              className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-slate-300 hover:border-rose-400/60 hover:text-rose-300"
+            >
+              <LogOut className="h-3.5 w-3.5" />
+              Leave space
+            </button>
+          )}
+          <p className="text-slate-500">
+            Notes, tasks and files stay private to whoever created them until they share them. Reminders and chat are
+            never shared.
+          </p>
+        </div>
+      ) : null}
+      {error ? <p className="text-rose-300">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { markdownToPlainText } from './markdown';
+import type { Task } from './models';
+import { parseDuePhrase, stripPhrase } from './naturalDates';
+
+export type ActionItemDraft = {
+  title: string;
+  priority: Task['priority'];
+  dueDate?: string;
+  /** The note line the item came from, shown while reviewing. */
+  source: string;
+};
+
+const MAX_ITEMS = 20;
+
+const actionVerbs = new Set(
+  (
+    'add ask book buy call cancel check clean confirm contact create decide draft email file finalize finish fix ' +
+    'follow get investigate invite look make meet message order organize pay pick plan prepare print publish ' +
+    'read reach refactor renew reply research reschedule review schedule send set share ship sign submit test ' +
+    'text update upload write'
+  ).split(' ')
+);
+
+const labelPrefix = /^(?:todo|to-do|action(?: item)?|ai|next(?: step)?|follow[- ]up)\s*[:\-–]\s*/i;
+const intentPhrase =
+  /\b(?:i|we|you)?\s*(?:really\s+)?(?:need to|needs to|have to|has to|must|should|remember to|don't forget to|do not forget to|make sure to)\s+(.+)/i;
+
+export function inferPriority(text: string): Task['priority'] {
+  const lower = text.toLowerCase();
+  if (/!high\b|\burgent\b|\basap\b|\bcritical\b|\bblocker\b|\bimportant\b/.test(lower)) return 'high';
+  if (/!low\b|\bsomeday\b|\bmaybe\b|\beventually\b|nice to have/.test(lower)) return 'low';
+  return 'medium';
+}
+
+function cleanTitle(text: string) {
+  const title = text
+    .replace(/!(high|medium|low)\b/gi, '')
+    .replace(/\b(urgent|asap)\b[:!,]?/gi, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+    .replace(/^[,;:\-–\s]+|[,;:\-–.!?\s]+$/g, '');
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+/** Returns the actionable part of a line, or null when the line isn't an action item. */
+function actionText(line: string) {
+  const checklist = /^\s*[-*+]\s+\[( |x|X)\]\s+(.*)$/.exec(line);
+  if (checklist) return checklist[1] === ' ' ? checklist[2] : null;
+
+  const bulleted = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+  const body = (bulleted ? bulleted[1] : line).trim();
+
+  if (labelPrefix.test(body)) return body.replace(labelPrefix, '');
+  const intent = intentPhrase.exec(body);
+  if (intent) return intent[1];
+
+  const firstWord = body.split(/\s+/)[0]?.toLowerCase().replace(/[^a-z]/g, '');
+  if (bulleted && firstWord && actionVerbs.has(firstWord)) return body;
+  return null;
+}
+
+/**
+ * Pulls candidate tasks out of a note: open checklist items, "TODO:"-style lines, bullets
+ * that start with a verb, and sentences like "we need to…". Due dates come from phrases such
+ * as "by Friday" and are removed from the title; priority comes from words like "urgent".
+ */
+export function extractActionItems(content: string, now = new Date(), timeZone?: string): ActionItemDraft[] {
+  const lines = content.split('\n').flatMap((line) =>
+    // Prose lines can hold several sentences; list items are taken whole.
+    /^\s*(?:[-*+]|\d+[.)])\s/.test(line) ? [line] : line.split(/(?<=[.!?])\s+/)
+  );
+
+  const seen = new Set<string>();
+  const drafts: ActionItemDraft[] = [];
+  for (const line of lines) {
+    const text = actionText(line);
+    if (!text) continue;
+
+    const plain = markdownToPlainText(text).replace(/\s+/g, ' ').trim();
+    const due = parseDuePhrase(plain, now, timeZone);
+    const title = cleanTitle(due ? stripPhrase(plain, due.phrase) : plain);
+    const key = title.toLowerCase();
+    if (title.length < 3 || seen.has(key)) continue;
+    seen.add(key);
+
+    drafts.push({
+      title,
+      priority: inferPriority(plain),
+      dueDate: due?.date.toISOString(),
+      source: line.trim()
+    });
+    if (drafts.length >= MAX_ITEMS) break;
+  }
+  return drafts;
+}
@@ -0,0 +1,174 @@
+import type { ChatMessage, FileResource, Note, Reminder, Task } from '../models';
+import { invalidFields, isString, withDefaults, type EntityCollection, type RawRecord } from '../store/schema';
+
+export const ARCHIVE_FORMAT = 'neuronest-archive';
+export const ARCHIVE_VERSION = 1;
+
+export type BrainCollections = {
+  notes: Note[];
+  tasks: Task[];
+  reminders: Reminder[];
+  files: FileResource[];
+  chat: ChatMessage[];
+};
+
+export type BrainArchive = BrainCollections & {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+};
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportSummary = { added: number; updated: number; unchanged: number; removed: number };
+
+const collections: EntityCollection[] = ['notes', 'tasks', 'reminders', 'files', 'chat'];
+
+/** Where each collection lived in localStorage before archives existed. */
+const legacyKeys: Record<EntityCollection, string> = {
+  notes: 'neuronest.notes',
+  tasks: 'neuronest.tasks',
+  reminders: 'neuronest.reminders',
+  files: 'neuronest.files',
+  chat: 'neuronest.chat'
+};
+
+export function buildArchive(data: BrainCollections, now = new Date()): BrainArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: now.toISOString(),
+    notes: data.notes,
+    tasks: data.tasks,
+    reminders: data.reminders,
+    files: data.files,
+    chat: data.chat
+  };
+}
+
+type RawArchive = Record<string, unknown>;
+
+function records(value: unknown): RawRecord[] {
+  return Array.isArray(value) ? value.filter((entry): entry is RawRecord => Boolean(entry) && typeof entry === 'object') : [];
+}
+
+/**
+ * Version 0 is a bare dump of the app's localStorage keys, as pasted from dev tools.
+ * Records saved by early builds can lack fields that later became required.
+ */
+function migrateFromV0(raw: RawArchive): RawArchive {
+  const exportedAt = new Date().toISOString();
+  return {
+    format: ARCHIVE_FORMAT,
+    version: 1,
+    exportedAt,
+    ...Object.fromEntries(
+      collections.map((name) => [name, records(raw[legacyKeys[name]]).map((record) => withDefaults(name, record, exportedAt))])
+    )
+  };
+}
+
+/** Upgrades an archive one version at a time; add a step here whenever the format changes. */
+const migrations: Record<number, (raw: RawArchive) => RawArchive> = {
+  0: migrateFromV0
+};
+
+function validateCollection(name: EntityCollection, value: unknown) {
+  if (!Array.isArray(value)) throw new Error(`${name} must be a list`);
+  const ids = new Set<string>();
+  value.forEach((record, index) => {
+    if (!record || typeof record !== 'object') throw new Error(`${name}[${index}] is not a record`);
+    const [field] = invalidFields(name, record as RawRecord);
+    if (field) throw new Error(`${name}[${index}].${field} is missing or invalid`);
+    const id = (record as RawRecord).id as string;
+    if (ids.has(id)) throw new Error(`${name} contains the id ${id} twice`);
+    ids.add(id);
+  });
+}
+
+/**
+ * Reads an archive of any known version, migrates it to the current one and checks
+ * every record, throwing an Error that names the first problem it finds.
+ */
+export function parseArchive(value: unknown): BrainArchive {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Expected a JSON object');
+  let raw = value as RawArchive;
+  if (raw.format === undefined && collections.some((name) => legacyKeys[name] in raw)) raw = { ...raw, version: 0 };
+  else if (raw.format !== ARCHIVE_FORMAT) throw new Error('This is not a NeuroNest archive');
+
+  if (typeof raw.version !== 'number') throw new Error('The archive has no version');
+  if (raw.version > ARCHIVE_VERSION) throw new Error('This archive was made by a newer version of NeuroNest');
+  while ((raw.version as number) < ARCHIVE_VERSION) {
+    const migrate = migrations[raw.version as number];
+    if (!migrate) throw new Error(`Archives of version ${raw.version} can no longer be imported`);
+    raw = migrate(raw);
+  }
+
+  for (const name of collections) validateCollection(name, raw[name] ?? []);
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: isString(raw.exportedAt) ? (raw.exportedAt as string) : new Date().toISOString(),
+    notes: (raw.notes ?? []) as Note[],
+    tasks: (raw.tasks ?? []) as Task[],
+    reminders: (raw.reminders ?? []) as Reminder[],
+    files: (raw.files ?? []) as FileResource[],
+    chat: (raw.chat ?? []) as ChatMessage[]
+  };
+}
+
+type Stamped = { id: string; updatedAt?: string };
+
+function editedAt(record: Stamped & { uploadedAt?: string; timestamp?: string }) {
+  return new Date(record.updatedAt ?? record.uploadedAt ?? record.timestamp ?? 0).getTime();
+}
+
+/** Union by id; where both sides have a record, the more recently edited copy wins. */
+function mergeRecords<T extends Stamped>(current: T[], incoming: T[], summary: ImportSummary) {
+  const byId = new Map(incoming.map((record) => [record.id, record]));
+  const merged = current.map((record) => {
+    const other = byId.get(record.id);
+    byId.delete(record.id);
+    if (!other || JSON.stringify(other) === JSON.stringify(record)) {
+      if (other) summary.unchanged += 1;
+      return record;
+    }
+    if (editedAt(other) <= editedAt(record)) {
+      summary.unchanged += 1;
+      return record;
+    }
+    summary.updated += 1;
+    return other;
+  });
+  summary.added += byId.size;
+  return [...byId.values(), ...merged];
+}
+
+function replaceRecords<T extends Stamped>(current: T[], incoming: T[], summary: ImportSummary) {
+  const existing = new Map(current.map((record) => [record.id, record]));
+  for (const record of incoming) {
+    const previous = existing.get(record.id);
+    if (!previous) summary.added += 1;
+    else if (JSON.stringify(previous) === JSON.stringify(record)) summary.unchanged += 1;
+    else summary.updated += 1;
+    existing.delete(record.id);
+  }
+  summary.removed += existing.size;
+  return incoming;
+}
+
+/** Combines an imported archive with the current data: a merge keeps both, a replace keeps only the archive. */
+export function importArchive(current: BrainCollections, archive: BrainArchive, mode: ImportMode) {
+  const summary: ImportSummary = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+  const combine = mode === 'merge' ? mergeRecords : replaceRecords;
+  const data: BrainCollections = {
+    notes: combine(current.notes, archive.notes, summary),
+    tasks: combine(current.tasks, archive.tasks, summary),
+    reminders: combine(current.reminders, archive.reminders, summary),
+    files: combine(current.files, archive.files, summary),
+    chat: combine(current.chat, archive.chat, summary).sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    )
+  };
+  return { data, summary };
+}
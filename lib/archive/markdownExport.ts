@@ -0,0 +1,81 @@
+import type { Note, Task } from '../models';
+import { priorityTokens } from '../models';
+import { buildTaskTree, type TaskTree } from '../tasks';
+import type { ZipEntry } from './zip';
+
+function slugify(title: string) {
+  return (
+    title
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 80) || 'untitled'
+  );
+}
+
+/** YAML front-matter; JSON strings and arrays are valid YAML flow scalars, so no YAML writer is needed. */
+function frontMatter(note: Note) {
+  return [
+    '---',
+    `title: ${JSON.stringify(note.title)}`,
+    `tags: ${JSON.stringify(note.tags)}`,
+    `pinned: ${note.pinned}`,
+    `created: ${note.createdAt}`,
+    `updated: ${note.updatedAt}`,
+    '---'
+  ].join('\n');
+}
+
+export function noteToMarkdown(note: Note) {
+  return `${frontMatter(note)}\n\n# ${note.title}\n\n${note.content}\n`;
+}
+
+function taskLine(task: Task) {
+  const details = [
+    task.dueDate ? `due ${task.dueDate.slice(0, 16).replace('T', ' ')}` : null,
+    priorityTokens[task.priority],
+    task.tags?.length ? `#${task.tags.join(' #')}` : null
+  ].filter(Boolean);
+  return `- [${task.done ? 'x' : ' '}] ${task.title} — ${details.join(' · ')}`;
+}
+
+function taskLines(tasks: Task[], tree: TaskTree, depth: number, seen: Set<string>): string[] {
+  return tasks.flatMap((task) => {
+    if (seen.has(task.id)) return [];
+    seen.add(task.id);
+    return [
+      `${'  '.repeat(depth)}${taskLine(task)}`,
+      ...taskLines(tree.children.get(task.id) ?? [], tree, depth + 1, seen)
+    ];
+  });
+}
+
+/** Open tasks first, then finished ones, each as a nested GitHub-style checklist. */
+export function tasksToMarkdown(tasks: Task[]) {
+  const tree = buildTaskTree(tasks);
+  const open = tree.roots.filter((task) => !task.done);
+  const done = tree.roots.filter((task) => task.done);
+  const seen = new Set<string>();
+  return [
+    '# Tasks',
+    '',
+    ...(open.length ? taskLines(open, tree, 0, seen) : ['Nothing open.']),
+    ...(done.length ? ['', '## Done', '', ...taskLines(done, tree, 0, seen)] : []),
+    ''
+  ].join('\n');
+}
+
+/** A folder of Markdown: `notes/<title>.md` with front-matter for each note, plus `tasks.md`. */
+export function markdownFolder({ notes, tasks }: { notes: Note[]; tasks: Task[] }): ZipEntry[] {
+  const used = new Set<string>();
+  const noteEntries = notes.map((note) => {
+    const base = slugify(note.title);
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix += 1) name = `${base}-${suffix}`;
+    used.add(name);
+    return { name: `notes/${name}.md`, data: noteToMarkdown(note), modified: new Date(note.updatedAt) };
+  });
+  return [...noteEntries, { name: 'tasks.md', data: tasksToMarkdown(tasks) }];
+}
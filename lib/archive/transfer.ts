@@ -0,0 +1,81 @@
+import { getBlob, isBlobStoreAvailable, putBlob } from '../files/blobStore';
+import { buildArchive, parseArchive, type BrainArchive, type BrainCollections } from './archive';
+import { markdownFolder } from './markdownExport';
+import { createZip, readZip, type ZipEntry } from './zip';
+
+export type ExportFormat = 'json' | 'zip' | 'markdown';
+
+const ARCHIVE_ENTRY = 'neuronest.json';
+
+function datestamp(now: Date) {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Packs the workspace for download: a JSON archive, the same archive zipped together
+ * with every locally stored upload under `files/<id>/<name>`, or a Markdown folder.
+ */
+export async function exportWorkspace(data: BrainCollections, format: ExportFormat, now = new Date()) {
+  if (format === 'markdown') {
+    return { blob: createZip(markdownFolder(data)), filename: `neuronest-markdown-${datestamp(now)}.zip` };
+  }
+  const json = JSON.stringify(buildArchive(data, now), null, 2);
+  if (format === 'json') {
+    return {
+      blob: new Blob([json], { type: 'application/json' }),
+      filename: `neuronest-${datestamp(now)}.json`
+    };
+  }
+  const entries: ZipEntry[] = [{ name: ARCHIVE_ENTRY, data: json }];
+  if (isBlobStoreAvailable()) {
+    for (const file of data.files) {
+      const blob = await getBlob(file.id).catch(() => null);
+      if (blob) entries.push({ name: `files/${file.id}/${file.name}`, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+  }
+  return { blob: createZip(entries), filename: `neuronest-${datestamp(now)}.zip` };
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+async function isZip(file: Blob) {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  return head[0] === 0x50 && head[1] === 0x4b;
+}
+
+function parseJson(text: string) {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new Error('The archive is not valid JSON');
+  }
+}
+
+/** Reads a `.json` or `.zip` archive; file bytes found in a zip are returned by file id. */
+export async function readArchiveFile(file: Blob): Promise<{ archive: BrainArchive; blobs: Map<string, Blob> }> {
+  if (!(await isZip(file))) return { archive: parseArchive(parseJson(await file.text())), blobs: new Map() };
+
+  const entries = await readZip(file);
+  const manifest = entries.get(ARCHIVE_ENTRY);
+  if (!manifest) throw new Error(`The zip has no ${ARCHIVE_ENTRY}; Markdown exports can't be imported`);
+  const archive = parseArchive(parseJson(new TextDecoder().decode(manifest)));
+  const types = new Map(archive.files.map((entry) => [entry.id, entry.type]));
+  const blobs = new Map<string, Blob>();
+  for (const [name, data] of entries) {
+    const [folder, id] = name.split('/');
+    if (folder === 'files' && id && types.has(id)) blobs.set(id, new Blob([data.slice()], { type: types.get(id) }));
+  }
+  return { archive, blobs };
+}
+
+export async function restoreBlobs(blobs: Map<string, Blob>) {
+  if (!isBlobStoreAvailable()) return;
+  for (const [id, blob] of blobs) await putBlob(id, blob);
+}
@@ -0,0 +1,146 @@
+export type ZipEntry = { name: string; data: Uint8Array | string; modified?: Date };
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+      let c = n;
+      for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Builds a ZIP archive with every entry stored uncompressed. Archives are mostly JSON,
+ * Markdown and already-compressed uploads, so skipping deflate costs little and keeps
+ * this dependency-free.
+ */
+export function createZip(entries: ZipEntry[]) {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(entry.modified ?? new Date());
+
+    const local = new Uint8Array(30 + name.length);
+    const header = new DataView(local.buffer);
+    header.setUint32(0, LOCAL_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, UTF8_NAMES, true);
+    header.setUint16(8, 0, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const record = new DataView(central.buffer);
+    record.setUint32(0, CENTRAL_HEADER, true);
+    record.setUint16(4, 20, true);
+    record.setUint16(6, 20, true);
+    record.setUint16(8, UTF8_NAMES, true);
+    record.setUint16(12, time, true);
+    record.setUint16(14, date, true);
+    record.setUint32(16, crc, true);
+    record.setUint32(20, data.length, true);
+    record.setUint32(24, data.length, true);
+    record.setUint16(28, name.length, true);
+    record.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, data);
+    centrals.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((total, central) => total + central.length, 0);
+  const end = new Uint8Array(22);
+  const trailer = new DataView(end.buffer);
+  trailer.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  trailer.setUint16(8, entries.length, true);
+  trailer.setUint16(10, entries.length, true);
+  trailer.setUint32(12, centralSize, true);
+  trailer.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const archive = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return new Blob([archive], { type: 'application/zip' });
+}
+
+async function inflateRaw(data: Uint8Array) {
+  if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot unpack compressed ZIP entries');
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Reads the entries of a ZIP archive, stored or deflated, keyed by path. Folders are skipped. */
+export async function readZip(source: Blob) {
+  const bytes = new Uint8Array(await source.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  let end = -1;
+  for (let position = bytes.length - 22; position >= Math.max(0, bytes.length - 22 - 0xffff); position -= 1) {
+    if (view.getUint32(position, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = position;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a ZIP archive');
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(position, true) !== CENTRAL_HEADER) throw new Error('The ZIP directory is corrupt');
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER) throw new Error(`The ZIP entry ${name} is corrupt`);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, await inflateRaw(data));
+    else throw new Error(`The ZIP entry ${name} uses an unsupported compression method`);
+  }
+  return entries;
+}
@@ -0,0 +1,437 @@
+import type { Note, Reminder, Task } from '../models';
+import { channelTokens, priorityTokens } from '../models';
+import { scheduleTask, type PlannedBlock } from '../planner';
+import { completeTask, openBlockers } from '../tasks';
+import { formatDateTime } from '../datetime';
+
+export type AssistantAction =
+  | {
+      type: 'create_task';
+      title: string;
+      priority: Task['priority'];
+      dueDate?: string;
+      tags?: string[];
+      sourceNoteId?: string;
+    }
+  | { type: 'create_reminder'; title: string; scheduledFor: string; channel: Reminder['channel']; tags?: string[] }
+  | { type: 'set_note_pinned'; noteId: string; pinned: boolean }
+  | { type: 'complete_task'; taskId: string }
+  | { type: 'split_task'; taskId: string; subtasks: string[] }
+  | { type: 'schedule_tasks'; blocks: PlannedBlock[] };
+
+export type ActionUndo =
+  | { type: 'remove_tasks'; taskIds: string[] }
+  | { type: 'remove_reminder'; reminderId: string }
+  | { type: 'set_note_pinned'; noteId: string; pinned: boolean }
+  | { type: 'restore_task'; task: Task }
+  | { type: 'restore_tasks'; tasks: Task[] };
+
+export type ActionProposal = {
+  id: string;
+  action: AssistantAction;
+  label: string;
+  detail?: string;
+  status: 'proposed' | 'applied' | 'dismissed' | 'undone';
+  undo?: ActionUndo;
+};
+
+type Updater<T> = (prev: T[]) => T[];
+
+export type ActionUpdaters = {
+  notes?: Updater<Note>;
+  tasks?: Updater<Task>;
+  reminders?: Updater<Reminder>;
+};
+
+const priorities: Task['priority'][] = ['low', 'medium', 'high'];
+const channels: Reminder['channel'][] = ['mobile', 'email', 'push'];
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+}
+
+function parseTags(value: unknown) {
+  if (!Array.isArray(value)) return undefined;
+  const tags = value.filter(isText).map((tag) => tag.trim().replace(/^#/, '').toLowerCase());
+  return tags.length ? tags : undefined;
+}
+
+/** Validates tool-call arguments coming back from a model; returns null for anything malformed. */
+export function parseAssistantAction(type: string, args: unknown): AssistantAction | null {
+  if (!args || typeof args !== 'object') return null;
+  const input = args as Record<string, unknown>;
+
+  switch (type) {
+    case 'create_task':
+      if (!isText(input.title)) return null;
+      return {
+        type,
+        title: input.title.trim(),
+        priority: priorities.includes(input.priority as Task['priority']) ? (input.priority as Task['priority']) : 'medium',
+        dueDate: isDate(input.dueDate) ? input.dueDate : undefined,
+        tags: parseTags(input.tags),
+        sourceNoteId: isText(input.sourceNoteId) ? input.sourceNoteId : undefined
+      };
+    case 'create_reminder':
+      if (!isText(input.title) || !isDate(input.scheduledFor)) return null;
+      return {
+        type,
+        title: input.title.trim(),
+        scheduledFor: input.scheduledFor,
+        channel: channels.includes(input.channel as Reminder['channel']) ? (input.channel as Reminder['channel']) : 'mobile',
+        tags: parseTags(input.tags)
+      };
+    case 'set_note_pinned':
+      if (!isText(input.noteId) || typeof input.pinned !== 'boolean') return null;
+      return { type, noteId: input.noteId, pinned: input.pinned };
+    case 'complete_task':
+      if (!isText(input.taskId)) return null;
+      return { type, taskId: input.taskId };
+    case 'split_task': {
+      if (!isText(input.taskId) || !Array.isArray(input.subtasks)) return null;
+      const subtasks = input.subtasks.filter(isText).map((title) => title.trim());
+      if (subtasks.length === 0) return null;
+      return { type, taskId: input.taskId, subtasks };
+    }
+    case 'schedule_tasks': {
+      if (!Array.isArray(input.blocks)) return null;
+      const blocks = input.blocks.flatMap((block: Record<string, unknown>) =>
+        block && isText(block.taskId) && isDate(block.start)
+          ? [
+              {
+                taskId: block.taskId,
+                start: new Date(block.start).toISOString(),
+                minutes:
+                  typeof block.minutes === 'number' && block.minutes > 0 ? Math.min(Math.round(block.minutes), 480) : 60
+              }
+            ]
+          : []
+      );
+      return blocks.length ? { type, blocks } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export function describeAction(
+  action: AssistantAction,
+  { notes, tasks }: { notes: Note[]; tasks: Task[] }
+): Pick<ActionProposal, 'label' | 'detail'> {
+  const taskTitle = (id: string) => tasks.find((task) => task.id === id)?.title ?? 'a missing task';
+  const noteTitle = (id: string) => notes.find((note) => note.id === id)?.title ?? 'a missing note';
+
+  switch (action.type) {
+    case 'create_task':
+      return {
+        label: `Create task “${action.title}”`,
+        detail: [
+          priorityTokens[action.priority],
+          action.dueDate ? `due ${formatDateTime(action.dueDate)}` : null,
+          action.tags?.length ? `#${action.tags.join(' #')}` : null,
+          action.sourceNoteId ? `from “${noteTitle(action.sourceNoteId)}”` : null
+        ]
+          .filter(Boolean)
+          .join(' · ')
+      };
+    case 'create_reminder':
+      return {
+        label: `Remind me: ${action.title}`,
+        detail: [
+          formatDateTime(action.scheduledFor),
+          channelTokens[action.channel],
+          action.tags?.length ? `#${action.tags.join(' #')}` : null
+        ]
+          .filter(Boolean)
+          .join(' · ')
+      };
+    case 'set_note_pinned':
+      return { label: `${action.pinned ? 'Pin' : 'Unpin'} note “${noteTitle(action.noteId)}”` };
+    case 'complete_task':
+      return { label: `Mark “${taskTitle(action.taskId)}” done` };
+    case 'split_task':
+      return {
+        label: `Split “${taskTitle(action.taskId)}” into ${action.subtasks.length} subtasks`,
+        detail: action.subtasks.join(' · ')
+      };
+    case 'schedule_tasks':
+      return {
+        label: `Time-block ${action.blocks.length} ${action.blocks.length === 1 ? 'task' : 'tasks'}`,
+        detail: action.blocks
+          .map((block) => `${formatDateTime(block.start)} ${taskTitle(block.taskId)} (${block.minutes} min)`)
+          .join(' · ')
+      };
+  }
+}
+
+/** Why an otherwise valid action can't be applied right now, or null when it can. */
+export function actionBlockedReason(action: AssistantAction, { tasks }: { tasks: Task[] }) {
+  if (action.type !== 'complete_task') return null;
+  const task = tasks.find((entry) => entry.id === action.taskId);
+  const blockers = task ? openBlockers(task, tasks) : [];
+  return blockers.length ? `Blocked by ${blockers.map((blocker) => `“${blocker.title}”`).join(', ')}.` : null;
+}
+
+function stamp() {
+  return new Date().toISOString();
+}
+
+function sortPinnedFirst(notes: Note[]) {
+  return notes.sort((a, b) => Number(b.pinned) - Number(a.pinned));
+}
+
+/**
+ * Turns an accepted action into state updaters plus the undo entry that reverses it.
+ * Reads current collections only to capture the values the undo needs to restore.
+ */
+export function applyAssistantAction(
+  action: AssistantAction,
+  { notes, tasks }: { notes: Note[]; tasks: Task[] },
+  createId: (prefix: string) => string
+): { updaters: ActionUpdaters; undo: ActionUndo } | null {
+  switch (action.type) {
+    case 'create_task': {
+      const id = createId('task');
+      return {
+        updaters: {
+          tasks: (prev) => [
+            {
+              id,
+              title: action.title,
+              done: false,
+              dueDate: action.dueDate,
+              priority: action.priority,
+              tags: action.tags,
+              links: action.sourceNoteId
+                ? [{ type: 'derived-from', target: { kind: 'note', id: action.sourceNoteId } }]
+                : undefined,
+              updatedAt: stamp()
+            },
+            ...prev
+          ]
+        },
+        undo: { type: 'remove_tasks', taskIds: [id] }
+      };
+    }
+    case 'create_reminder': {
+      const id = createId('reminder');
+      return {
+        updaters: {
+          reminders: (prev) => [
+            {
+              id,
+              title: action.title,
+              scheduledFor: action.scheduledFor,
+              channel: action.channel,
+              tags: action.tags,
+              status: 'pending',
+              updatedAt: stamp()
+            },
+            ...prev
+          ]
+        },
+        undo: { type: 'remove_reminder', reminderId: id }
+      };
+    }
+    case 'set_note_pinned': {
+      const note = notes.find((entry) => entry.id === action.noteId);
+      if (!note) return null;
+      return {
+        updaters: {
+          notes: (prev) =>
+            sortPinnedFirst(
+              prev.map((entry) => (entry.id === note.id ? { ...entry, pinned: action.pinned, updatedAt: stamp() } : entry))
+            )
+        },
+        undo: { type: 'set_note_pinned', noteId: note.id, pinned: note.pinned }
+      };
+    }
+    case 'complete_task': {
+      const task = tasks.find((entry) => entry.id === action.taskId);
+      if (!task || openBlockers(task, tasks).length) return null;
+      return {
+        updaters: {
+          tasks: (prev) =>
+            prev.map((entry) => (entry.id === task.id ? completeTask(entry) : entry))
+        },
+        undo: { type: 'restore_task', task }
+      };
+    }
+    case 'split_task': {
+      const parent = tasks.find((entry) => entry.id === action.taskId);
+      if (!parent) return null;
+      const subtasks: Task[] = action.subtasks.map((title) => ({
+        id: createId('task'),
+        title,
+        done: false,
+        priority: parent.priority,
+        dueDate: parent.dueDate,
+        parentId: parent.id,
+        updatedAt: stamp()
+      }));
+      return {
+        updaters: {
+          tasks: (prev) => {
+            const index = prev.findIndex((entry) => entry.id === parent.id);
+            if (index === -1) return [...subtasks, ...prev];
+            return [...prev.slice(0, index + 1), ...subtasks, ...prev.slice(index + 1)];
+          }
+        },
+        undo: { type: 'remove_tasks', taskIds: subtasks.map((task) => task.id) }
+      };
+    }
+    case 'schedule_tasks': {
+      const blocks = new Map(action.blocks.map((block) => [block.taskId, block]));
+      const planned = tasks.filter((task) => blocks.has(task.id));
+      if (!planned.length) return null;
+      return {
+        updaters: {
+          tasks: (prev) =>
+            prev.map((task) => {
+              const block = blocks.get(task.id);
+              return block ? scheduleTask(task, new Date(block.start), block.minutes) : task;
+            })
+        },
+        undo: { type: 'restore_tasks', tasks: planned }
+      };
+    }
+  }
+}
+
+export function revertAssistantAction(undo: ActionUndo): ActionUpdaters {
+  switch (undo.type) {
+    case 'remove_tasks':
+      return { tasks: (prev) => prev.filter((task) => !undo.taskIds.includes(task.id)) };
+    case 'remove_reminder':
+      return { reminders: (prev) => prev.filter((reminder) => reminder.id !== undo.reminderId) };
+    case 'set_note_pinned':
+      return {
+        notes: (prev) =>
+          sortPinnedFirst(
+            prev.map((note) => (note.id === undo.noteId ? { ...note, pinned: undo.pinned, updatedAt: stamp() } : note))
+          )
+      };
+    case 'restore_task':
+      return {
+        tasks: (prev) => prev.map((task) => (task.id === undo.task.id ? { ...undo.task, updatedAt: stamp() } : task))
+      };
+    case 'restore_tasks': {
+      const previous = new Map(undo.tasks.map((task) => [task.id, task]));
+      return {
+        tasks: (prev) =>
+          prev.map((task) => {
+            const original = previous.get(task.id);
+            return original ? { ...original, updatedAt: stamp() } : task;
+          })
+      };
+    }
+  }
+}
+
+/** JSON-schema tool definitions for OpenAI-compatible function calling. */
+export const assistantTools = [
+  {
+    type: 'function',
+    function: {
+      name: 'create_task',
+      description: 'Propose a new task for the user to confirm.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          priority: { type: 'string', enum: priorities },
+          dueDate: { type: 'string', description: 'ISO 8601 date-time' },
+          tags: { type: 'array', items: { type: 'string' } },
+          sourceNoteId: { type: 'string', description: 'Id of the note this action item was extracted from' }
+        },
+        required: ['title', 'priority']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_reminder',
+      description: 'Propose a reminder delivered on a channel at a time.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          scheduledFor: { type: 'string', description: 'ISO 8601 date-time' },
+          channel: { type: 'string', enum: channels },
+          tags: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['title', 'scheduledFor', 'channel']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'set_note_pinned',
+      description: 'Pin or unpin an existing note by id.',
+      parameters: {
+        type: 'object',
+        properties: { noteId: { type: 'string' }, pinned: { type: 'boolean' } },
+        required: ['noteId', 'pinned']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'complete_task',
+      description: 'Mark an existing task as done by id.',
+      parameters: {
+        type: 'object',
+        properties: { taskId: { type: 'string' } },
+        required: ['taskId']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'split_task',
+      description: 'Break an existing task into smaller subtasks.',
+      parameters: {
+        type: 'object',
+        properties: {
+          taskId: { type: 'string' },
+          subtasks: { type: 'array', items: { type: 'string' }, minItems: 1 }
+        },
+        required: ['taskId', 'subtasks']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'schedule_tasks',
+      description: 'Propose time blocks on the day planner for existing open tasks.',
+      parameters: {
+        type: 'object',
+        properties: {
+          blocks: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              properties: {
+                taskId: { type: 'string' },
+                start: { type: 'string', description: 'ISO 8601 date-time' },
+                minutes: { type: 'number' }
+              },
+              required: ['taskId', 'start', 'minutes']
+            }
+          }
+        },
+        required: ['blocks']
+      }
+    }
+  }
+];
@@ -0,0 +1,32 @@
+import type { AssistantAction } from './actions';
+import { readChatStream } from './protocol';
+import type { ChatRequest } from './protocol';
+
+export interface AssistantStreamHandlers {
+  onToken: (token: string) => void;
+  onAction?: (action: AssistantAction) => void;
+}
+
+export async function streamAssistantReply(
+  request: ChatRequest,
+  { onToken, onAction }: AssistantStreamHandlers,
+  signal?: AbortSignal
+) {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Chat request failed (${response.status})`);
+  }
+
+  for await (const event of readChatStream(response.body)) {
+    if (event.type === 'token') onToken(event.value);
+    if (event.type === 'action') onAction?.(event.action);
+    if (event.type === 'error') throw new Error(event.message);
+    if (event.type === 'done') return;
+  }
+}
@@ -0,0 +1,96 @@
+import type { FileResource, Note, Reminder, Task } from '../models';
+import { channelTokens, priorityTokens } from '../models';
+import { blockMinutes } from '../planner';
+import { describeRRule } from '../recurrence';
+import type { ChatSource } from './protocol';
+
+const MAX_NOTE_CHARS = 1200;
+const MAX_FILE_CHARS = 1200;
+const MAX_ITEMS = 50;
+
+export type WorkspaceSnapshot = {
+  generatedAt: string;
+  /** The user's zone, so "today" and "9am" mean the same on the server as on their clock. */
+  timeZone?: string;
+  notes: Array<Pick<Note, 'id' | 'title' | 'content' | 'tags' | 'pinned' | 'updatedAt'>>;
+  tasks: Task[];
+  reminders: Reminder[];
+  files: Array<Pick<FileResource, 'id' | 'name' | 'size' | 'type' | 'uploadedAt' | 'description' | 'content'>>;
+};
+
+export function buildWorkspaceSnapshot({
+  notes,
+  tasks,
+  reminders,
+  files,
+  timeZone
+}: {
+  notes: Note[];
+  tasks: Task[];
+  reminders: Reminder[];
+  files: FileResource[];
+  timeZone?: string;
+}): WorkspaceSnapshot {
+  return {
+    generatedAt: new Date().toISOString(),
+    timeZone,
+    notes: notes.slice(0, MAX_ITEMS).map(({ id, title, content, tags, pinned, updatedAt }) => ({
+      id,
+      title,
+      content: content.length > MAX_NOTE_CHARS ? `${content.slice(0, MAX_NOTE_CHARS)}…` : content,
+      tags,
+      pinned,
+      updatedAt
+    })),
+    tasks: tasks.slice(0, MAX_ITEMS),
+    reminders: reminders.slice(0, MAX_ITEMS),
+    files: files.slice(0, MAX_ITEMS).map(({ id, name, size, type, uploadedAt, description, content }) => ({
+      id,
+      name,
+      size,
+      type,
+      uploadedAt,
+      description,
+      content: content && content.length > MAX_FILE_CHARS ? `${content.slice(0, MAX_FILE_CHARS)}…` : content
+    }))
+  };
+}
+
+export function buildSystemPrompt(snapshot: WorkspaceSnapshot, sources: ChatSource[] = []) {
+  const sections = [
+    'You are NeuroNest AI, the assistant inside a personal second-brain dashboard.',
+    'Answer briefly and concretely, grounded in the workspace below. If the workspace does not contain the answer, say so.',
+    'When the user asks you to change something, call the matching tool with ids from the workspace; the user confirms each change before it is applied.',
+    'To turn a note into tasks, propose one create_task per action item with its sourceNoteId, inferring priority and any due date the note mentions.',
+    'To plan a day, propose one schedule_tasks call that fits open, unblocked tasks around reminders and existing blocks, urgent and high-impact work first.',
+    `Current time: ${snapshot.generatedAt}${snapshot.timeZone ? ` (the user's time zone is ${snapshot.timeZone})` : ''}`,
+    '## Notes',
+    ...snapshot.notes.map(
+      (note) =>
+        `- [${note.id}] ${note.pinned ? '(pinned) ' : ''}${note.title}${note.tags.length ? ` #${note.tags.join(' #')}` : ''}\n  ${note.content.replace(/\n/g, '\n  ')}`
+    ),
+    '## Tasks',
+    ...snapshot.tasks.map(
+      (task) =>
+        `- [${task.id}] [${task.done ? 'x' : ' '}] ${task.title}${task.tags?.length ? ` #${task.tags.join(' #')}` : ''} (${priorityTokens[task.priority]}${task.dueDate ? `, due ${task.dueDate}` : ''}${task.scheduledStart ? `, time-blocked ${task.scheduledStart} for ${blockMinutes(task)} min` : ''}${task.recurrence ? `, repeats ${describeRRule(task.recurrence.rrule, snapshot.timeZone).toLowerCase()}` : ''}${task.parentId ? `, subtask of ${task.parentId}` : ''}${task.blockedBy?.length ? `, blocked by ${task.blockedBy.join(', ')}` : ''})`
+    ),
+    '## Reminders',
+    ...snapshot.reminders.map(
+      (reminder) =>
+        `- [${reminder.id}] ${reminder.title}${reminder.tags?.length ? ` #${reminder.tags.join(' #')}` : ''} at ${reminder.scheduledFor} via ${channelTokens[reminder.channel]}${reminder.status && reminder.status !== 'pending' ? ` (${reminder.status})` : ''}${reminder.recurrence ? `, repeats ${describeRRule(reminder.recurrence.rrule, snapshot.timeZone).toLowerCase()}` : ''}`
+    ),
+    '## Files',
+    ...snapshot.files.map(
+      (file) =>
+        `- [${file.id}] ${file.name} (${file.type || 'unknown type'})${file.description ? `: ${file.description}` : ''}${file.content ? `\n  ${file.content.replace(/\n/g, '\n  ')}` : ''}`
+    )
+  ];
+  if (sources.length) {
+    sections.push(
+      '## Retrieved sources',
+      'These passages were retrieved for the latest question. Prefer them over the summaries above, and cite each one you rely on inline as [n].',
+      ...sources.map((source) => `[${source.index}] (${source.kind}) ${source.title}\n  ${source.text.replace(/\n/g, '\n  ')}`)
+    );
+  }
+  return sections.join('\n');
+}
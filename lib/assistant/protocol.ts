@@ -0,0 +1,115 @@
+import { isTimeZone } from '../auth/protocol';
+import type { ChatMessage, Citation } from '../models';
+import type { AssistantAction } from './actions';
+import type { WorkspaceSnapshot } from './context';
+
+export type ChatTurn = Pick<ChatMessage, 'role' | 'content'>;
+
+/** A retrieved passage sent along with the question; replies cite it as `[index]`. */
+export type ChatSource = Pick<Citation, 'index' | 'kind' | 'id' | 'title'> & { text: string };
+
+export type ChatRequest = {
+  messages: ChatTurn[];
+  context: WorkspaceSnapshot;
+  sources?: ChatSource[];
+};
+
+export type ChatStreamEvent =
+  | { type: 'token'; value: string }
+  | { type: 'action'; action: AssistantAction }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+const MAX_TURNS = 40;
+const MAX_SOURCES = 8;
+const MAX_SOURCE_CHARS = 2000;
+
+function parseSources(value: unknown): ChatSource[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error('sources must be an array');
+  return value.slice(0, MAX_SOURCES).map((source: Partial<ChatSource>) => {
+    if (
+      !source ||
+      typeof source.index !== 'number' ||
+      (source.kind !== 'note' && source.kind !== 'file') ||
+      typeof source.id !== 'string' ||
+      typeof source.title !== 'string' ||
+      typeof source.text !== 'string'
+    ) {
+      throw new Error('Each source needs an index, a kind of note or file, an id, a title and text');
+    }
+    const { index, kind, id, title, text } = source;
+    return { index, kind, id, title, text: text.slice(0, MAX_SOURCE_CHARS) };
+  });
+}
+
+export function parseChatRequest(value: unknown): ChatRequest {
+  if (!value || typeof value !== 'object') throw new Error('Expected a JSON object');
+  const { messages, context, sources } = value as Partial<ChatRequest>;
+  if (!Array.isArray(messages) || messages.length === 0) throw new Error('messages must be a non-empty array');
+  const turns = messages.map((message) => {
+    if (
+      !message ||
+      (message.role !== 'user' && message.role !== 'assistant') ||
+      typeof message.content !== 'string'
+    ) {
+      throw new Error('Each message needs a role of user or assistant and string content');
+    }
+    return { role: message.role, content: message.content };
+  });
+  if (
+    !context ||
+    typeof context !== 'object' ||
+    !Array.isArray(context.notes) ||
+    !Array.isArray(context.tasks) ||
+    !Array.isArray(context.reminders) ||
+    !Array.isArray(context.files)
+  ) {
+    throw new Error('context must be a workspace snapshot');
+  }
+  if (context.timeZone !== undefined && !isTimeZone(context.timeZone)) {
+    throw new Error(`Unknown time zone "${String(context.timeZone)}"`);
+  }
+  return { messages: turns.slice(-MAX_TURNS), context, sources: parseSources(sources) };
+}
+
+export function encodeStreamEvent(event: ChatStreamEvent) {
+  return `${JSON.stringify(event)}\n`;
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue;
+    yield JSON.parse(line) as ChatStreamEvent;
+  }
+}
+
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+    yield line.slice(5).trim();
+  }
+}
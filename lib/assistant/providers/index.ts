@@ -0,0 +1,27 @@
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import type { ChatProvider } from './types';
+
+export type { ChatProvider, ChatProviderEvent } from './types';
+export { createMockProvider, createOpenAIProvider };
+
+/**
+ * Picks the provider from the environment: `NEURONEST_CHAT_PROVIDER=openai|mock`,
+ * defaulting to OpenAI-compatible when `OPENAI_API_KEY` is set and the mock otherwise.
+ */
+export function getChatProvider(env: NodeJS.ProcessEnv = process.env): ChatProvider {
+  const preferred = env.NEURONEST_CHAT_PROVIDER ?? (env.OPENAI_API_KEY ? 'openai' : 'mock');
+
+  if (preferred === 'openai') {
+    if (!env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY is required for the openai chat provider');
+    return createOpenAIProvider({
+      apiKey: env.OPENAI_API_KEY,
+      baseUrl: env.OPENAI_BASE_URL,
+      model: env.OPENAI_MODEL
+    });
+  }
+
+  if (preferred === 'mock') return createMockProvider();
+
+  throw new Error(`Unknown chat provider "${preferred}"`);
+}
@@ -0,0 +1,241 @@
+import { extractActionItems } from '../../actionItems';
+import { channelTokens } from '../../models';
+import { defaultWorkingHours, planDay } from '../../planner';
+import { parseQuickCapture } from '../../quickCapture';
+import { openBlockers } from '../../tasks';
+import { embeddingTerms } from '../../rag/embeddings';
+import { nextUpcomingReminder } from '../../reminders/delivery';
+import { formatDateTime } from '../../datetime';
+import { formatFileSize } from '../../utils';
+import type { AssistantAction } from '../actions';
+import type { ChatRequest, ChatSource } from '../protocol';
+import type { ChatProvider } from './types';
+
+export interface MockProviderOptions {
+  tokenDelayMs?: number;
+}
+
+type MockReply = { text: string; actions?: AssistantAction[] };
+
+function proposeActions({ messages, context }: ChatRequest, prompt: string): MockReply | null {
+  const lower = prompt.toLowerCase();
+  const openTasks = context.tasks.filter((task) => !task.done);
+
+  if (/^(add|create|new) (a )?task|^todo:|^remind me/.test(lower)) {
+    const draft = parseQuickCapture(prompt.replace(/[.!?]$/, ''), new Date(context.generatedAt), context.timeZone);
+    const tags = draft.tags.length ? draft.tags : undefined;
+    if (draft.title && draft.kind === 'task') {
+      return {
+        text: 'Drafted a task for you—confirm it below.',
+        actions: [{ type: 'create_task', title: draft.title, priority: draft.priority, dueDate: draft.due, tags }]
+      };
+    }
+    if (draft.title) {
+      const scheduledFor = draft.due ?? new Date(new Date(context.generatedAt).getTime() + 3600_000).toISOString();
+      return {
+        text: draft.due
+          ? 'Reminder drafted—confirm it below.'
+          : 'I queued a reminder an hour from now. Adjust the time after confirming if needed.',
+        actions: [{ type: 'create_reminder', title: draft.title, scheduledFor, channel: draft.channel, tags }]
+      };
+    }
+  }
+
+  if (/\b(extract|pull out)\b.*\b(actions?|action items|tasks|todos)\b|\b(turn|make) (that|it|this|.+) into (next )?tasks\b/.test(lower)) {
+    const previous = [...messages].reverse().find((message) => message.role === 'assistant')?.content ?? '';
+    const note =
+      context.notes.find((entry) => lower.includes(entry.title.toLowerCase())) ??
+      context.notes.find((entry) => previous.includes(`“${entry.title}”`)) ??
+      context.notes[0];
+    if (note) {
+      const items = extractActionItems(note.content, new Date(context.generatedAt), context.timeZone);
+      if (!items.length) return { text: `I couldn’t spot any action items in “${note.title}”.` };
+      return {
+        text: `Found ${items.length} action ${items.length === 1 ? 'item' : 'items'} in “${note.title}”—confirm the ones you want.`,
+        actions: items.map(({ title, priority, dueDate }) => ({
+          type: 'create_task',
+          title,
+          priority,
+          dueDate,
+          sourceNoteId: note.id
+        }))
+      };
+    }
+  }
+
+  if (/^(un)?pin\b/.test(lower)) {
+    const note = context.notes.find((entry) => lower.includes(entry.title.toLowerCase()));
+    if (note) {
+      const pinned = !lower.startsWith('unpin');
+      return {
+        text: `${pinned ? 'Pinning' : 'Unpinning'} “${note.title}” once you confirm.`,
+        actions: [{ type: 'set_note_pinned', noteId: note.id, pinned }]
+      };
+    }
+  }
+
+  if (/\b(done|complete|finished)\b/.test(lower)) {
+    const task = openTasks.find((entry) => lower.includes(entry.title.toLowerCase()));
+    if (task) {
+      return {
+        text: `Nice. Ready to check off “${task.title}”.`,
+        actions: [{ type: 'complete_task', taskId: task.id }]
+      };
+    }
+  }
+
+  if (/\bplan (out )?(my|the) day\b|\btime.?block|\bschedule my day\b/.test(lower)) {
+    const now = new Date(context.generatedAt);
+    const blocks = planDay(
+      { tasks: context.tasks, reminders: context.reminders },
+      now,
+      now,
+      defaultWorkingHours,
+      context.timeZone
+    );
+    if (!blocks.length) {
+      return { text: 'Nothing left to slot in today—either the day is full or every open task already has a block.' };
+    }
+    return {
+      text: `Here’s a plan for the rest of today: ${blocks.length} ${blocks.length === 1 ? 'block' : 'blocks'}, most urgent first. Confirm to put them on your planner.`,
+      actions: [{ type: 'schedule_tasks', blocks }]
+    };
+  }
+
+  if (/plan it|break (it )?down|split/.test(lower)) {
+    const previous = [...messages].reverse().find((message) => message.role === 'assistant')?.content ?? '';
+    const task =
+      openTasks.find((entry) => lower.includes(entry.title.toLowerCase())) ??
+      openTasks.find((entry) => previous.includes(entry.title)) ??
+      openTasks[0];
+    if (task) {
+      return {
+        text: `Here is a three-step breakdown for “${task.title}”.`,
+        actions: [
+          {
+            type: 'split_task',
+            taskId: task.id,
+            subtasks: [`Define the outcome for ${task.title}`, 'Draft the first pass', 'Review and ship']
+          }
+        ]
+      };
+    }
+  }
+
+  return null;
+}
+
+function bestSentence(text: string, terms: Set<string>) {
+  const sentences = text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+  let best = sentences[0] ?? '';
+  let bestScore = 0;
+  for (const sentence of sentences) {
+    const score = embeddingTerms(sentence).filter((term) => terms.has(term)).length;
+    if (score > bestScore) {
+      best = sentence;
+      bestScore = score;
+    }
+  }
+  return best.length > 240 ? `${best.slice(0, 237)}…` : best;
+}
+
+/** Quotes the most relevant sentence of the top retrieved passages, citing each as `[n]`. */
+function answerFromSources(sources: ChatSource[], prompt: string) {
+  const terms = new Set(embeddingTerms(prompt));
+  const quoted = sources
+    .slice(0, 3)
+    .map((source) => `${bestSentence(source.text, terms).replace(/[.!?]?$/, '')} [${source.index}].`);
+  return `Here’s what your workspace says: ${quoted.join(' ')}`;
+}
+
+function answerQuestion({ context, sources = [] }: ChatRequest, prompt: string) {
+  const lower = prompt.toLowerCase();
+  const openTasks = context.tasks.filter((task) => !task.done);
+  const nextReminder = nextUpcomingReminder(context.reminders, new Date(context.generatedAt), context.timeZone);
+  const asksAboutPlanning = /\b(tasks?|todo|remind|reminders?|schedule)\b/.test(lower);
+
+  if (sources.length && !asksAboutPlanning) return answerFromSources(sources, prompt);
+
+  if (lower.includes('note')) {
+    const highlight = context.notes[0];
+    if (highlight) {
+      return `Your latest note “${highlight.title}” points to ${highlight.content.slice(0, 120)}... Want me to turn that into next tasks?`;
+    }
+  }
+
+  if (lower.includes('task') || lower.includes('todo')) {
+    if (openTasks.length) {
+      const next = openTasks.find((task) => !openBlockers(task, context.tasks).length) ?? openTasks[0];
+      const due = next.dueDate ? ` due ${formatDateTime(next.dueDate, context.timeZone)}` : '';
+      return `Focus anchor: ${next.title}${due}. I can break it down or schedule a block—just say “plan it”.`;
+    }
+    return 'Inbox zero achieved. Ready for a brain dump to capture the next wave?';
+  }
+
+  if (lower.includes('remind') || lower.includes('schedule')) {
+    if (nextReminder) {
+      const { reminder, at } = nextReminder;
+      return `Next reminder is “${reminder.title}” via ${channelTokens[reminder.channel]} at ${formatDateTime(at.toISOString(), context.timeZone)}.`;
+    }
+    return 'You are reminder-free. Want me to set a cadence to review goals?';
+  }
+
+  if (lower.includes('file')) {
+    const doc = context.files[0];
+    if (doc) {
+      return `Latest file is ${doc.name} (${formatFileSize(doc.size)}). I can summarize or extract actions if you need.`;
+    }
+  }
+
+  const pinned = context.notes.find((note) => note.pinned);
+  return [
+    `Your system is synced: ${openTasks.length} open ${openTasks.length === 1 ? 'task' : 'tasks'}, ${context.notes.length} notes and ${context.reminders.length} reminders.`,
+    pinned ? `Pinned note “${pinned.title}” is fueling today’s intent.` : null,
+    'Ask for a focus plan or capture something new.'
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function craftReply(request: ChatRequest): MockReply {
+  const prompt = [...request.messages].reverse().find((message) => message.role === 'user')?.content.trim() ?? '';
+  return proposeActions(request, prompt) ?? { text: answerQuestion(request, prompt) };
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Aborted'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Deterministic provider that answers from the workspace snapshot and any retrieved sources.
+ * Used when no model is configured; `tokenDelayMs: 0` streams the reply instantly.
+ */
+export function createMockProvider({ tokenDelayMs = 25 }: MockProviderOptions = {}): ChatProvider {
+  return {
+    name: 'mock',
+    async *streamReply(request, signal) {
+      const reply = craftReply(request);
+      for (const token of reply.text.match(/\S+\s*/g) ?? []) {
+        if (tokenDelayMs > 0) await wait(tokenDelayMs, signal);
+        yield { type: 'token', value: token };
+      }
+      for (const action of reply.actions ?? []) {
+        yield { type: 'action', action };
+      }
+    }
+  };
+}
@@ -0,0 +1,82 @@
+import { assistantTools, parseAssistantAction } from '../actions';
+import { buildSystemPrompt } from '../context';
+import { readServerSentEvents } from '../protocol';
+import type { ChatProvider } from './types';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+  temperature?: number;
+}
+
+type ToolCallDelta = {
+  index: number;
+  function?: { name?: string; arguments?: string };
+};
+
+type CompletionChunk = {
+  choices?: Array<{ delta?: { content?: string | null; tool_calls?: ToolCallDelta[] } }>;
+};
+
+/**
+ * Adapter for any OpenAI-compatible `/chat/completions` endpoint
+ * (OpenAI, Azure, Ollama, LM Studio, vLLM…) using server-sent event streaming.
+ */
+export function createOpenAIProvider({
+  apiKey,
+  baseUrl = 'https://api.openai.com/v1',
+  model = 'gpt-4o-mini',
+  temperature = 0.4
+}: OpenAIProviderOptions): ChatProvider {
+  return {
+    name: `openai:${model}`,
+    async *streamReply(request, signal) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`
+        },
+        body: JSON.stringify({
+          model,
+          temperature,
+          stream: true,
+          tools: assistantTools,
+          messages: [{ role: 'system', content: buildSystemPrompt(request.context, request.sources) }, ...request.messages]
+        }),
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Completion request failed (${response.status})${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+      }
+
+      const toolCalls: Array<{ name: string; arguments: string }> = [];
+
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+        const delta = (JSON.parse(data) as CompletionChunk).choices?.[0]?.delta;
+        if (delta?.content) yield { type: 'token', value: delta.content };
+        for (const call of delta?.tool_calls ?? []) {
+          const entry = (toolCalls[call.index] ??= { name: '', arguments: '' });
+          entry.name += call.function?.name ?? '';
+          entry.arguments += call.function?.arguments ?? '';
+        }
+      }
+
+      for (const call of toolCalls) {
+        if (!call) continue;
+        let args: unknown;
+        try {
+          args = JSON.parse(call.arguments || '{}');
+        } catch {
+          continue;
+        }
+        const action = parseAssistantAction(call.name, args);
+        if (action) yield { type: 'action', action };
+      }
+    }
+  };
+}
@@ -0,0 +1,9 @@
+import type { AssistantAction } from '../actions';
+import type { ChatRequest } from '../protocol';
+
+export type ChatProviderEvent = { type: 'token'; value: string } | { type: 'action'; action: AssistantAction };
+
+export interface ChatProvider {
+  readonly name: string;
+  streamReply(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatProviderEvent>;
+}
@@ -0,0 +1,81 @@
+/** The signed-in account as the client sees it; secrets never leave the server. */
+export type User = {
+  id: string;
+  email: string;
+  name: string;
+  /** IANA zone such as `Europe/Berlin`; drives the greeting and every displayed time. */
+  timezone: string;
+  /** The user's personal workspace, where their notes, tasks, reminders, files and chat live. */
+  workspaceId: string;
+  /** Secret for the calendar feed URL, which calendar apps fetch without a session. */
+  calendarToken: string;
+};
+
+export type AuthProviderInfo = { id: string; name: string };
+
+export type SessionResponse = { user: User | null; providers: AuthProviderInfo[] };
+
+export type SignUpRequest = { email: string; password: string; name: string; timezone: string };
+
+export type SignInRequest = { email: string; password: string };
+
+export type ProfileUpdate = { name?: string; timezone?: string };
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function body(value: unknown) {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Expected a JSON object');
+  return value as Record<string, unknown>;
+}
+
+export function parseEmail(value: unknown) {
+  if (typeof value !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim())) {
+    throw new Error('Enter a valid email address');
+  }
+  return value.trim().toLowerCase();
+}
+
+function parseName(value: unknown) {
+  if (typeof value !== 'string' || !value.trim()) throw new Error('Enter your name');
+  return value.trim().slice(0, 80);
+}
+
+export function parseSignIn(value: unknown): SignInRequest {
+  const { email, password } = body(value);
+  if (typeof password !== 'string' || !password) throw new Error('Enter your password');
+  return { email: parseEmail(email), password };
+}
+
+export function parseSignUp(value: unknown): SignUpRequest {
+  const { email, password, name, timezone } = body(value);
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return {
+    email: parseEmail(email),
+    password,
+    name: parseName(name),
+    timezone: isTimeZone(timezone) ? timezone : 'UTC'
+  };
+}
+
+export function parseProfileUpdate(value: unknown): ProfileUpdate {
+  const { name, timezone } = body(value);
+  const update: ProfileUpdate = {};
+  if (name !== undefined) update.name = parseName(name);
+  if (timezone !== undefined) {
+    if (!isTimeZone(timezone)) throw new Error(`Unknown time zone "${String(timezone)}"`);
+    update.timezone = timezone;
+  }
+  return update;
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { AuthProviderInfo, ProfileUpdate, SessionResponse, SignInRequest, SignUpRequest, User } from './protocol';
+
+export type SessionStatus = 'loading' | 'signed-in' | 'signed-out';
+
+/** JSON request to the app's own API; a failed response throws its `error` message. */
+export async function send<T>(path: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(path, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(error ?? `Request failed (${response.status})`);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+/** The signed-in account, plus the actions that change it. Errors are thrown for the form to show. */
+export function useSession() {
+  const [user, setUser] = useState<User | null>(null);
+  const [providers, setProviders] = useState<AuthProviderInfo[]>([]);
+  const [status, setStatus] = useState<SessionStatus>('loading');
+
+  useEffect(() => {
+    send<SessionResponse>('/api/auth/session', 'GET')
+      .then((session) => {
+        setUser(session.user);
+        setProviders(session.providers);
+        setStatus(session.user ? 'signed-in' : 'signed-out');
+      })
+      .catch(() => setStatus('signed-out'));
+  }, []);
+
+  const accept = useCallback(({ user: next }: { user: User }) => {
+    setUser(next);
+    setStatus('signed-in');
+  }, []);
+
+  const signIn = useCallback(
+    async (credentials: SignInRequest) => accept(await send('/api/auth/signin', 'POST', credentials)),
+    [accept]
+  );
+
+  const signUp = useCallback(
+    async (details: SignUpRequest) => accept(await send('/api/auth/signup', 'POST', details)),
+    [accept]
+  );
+
+  const updateProfile = useCallback(
+    async (update: ProfileUpdate) => accept(await send('/api/auth/session', 'PATCH', update)),
+    [accept]
+  );
+
+  /** Reloads afterwards so no in-memory state from this workspace outlives the session. */
+  const signOut = useCallback(async () => {
+    await send('/api/auth/signout', 'POST');
+    window.location.assign('/');
+  }, []);
+
+  return { status, user, providers, signIn, signUp, signOut, updateProfile };
+}
+
+export function browserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
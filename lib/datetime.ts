@@ -0,0 +1,114 @@
+let displayTimeZone: string | undefined;
+
+/** The signed-in user's zone; every time shown in the dashboard is rendered in it. */
+export function setDisplayTimeZone(timeZone: string | undefined) {
+  displayTimeZone = timeZone;
+}
+
+export function formatDateTime(value: string, timeZone = displayTimeZone) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone
+  });
+}
+
+export function formatDay(
+  date: Date,
+  options: Intl.DateTimeFormatOptions = { weekday: 'long', month: 'short', day: 'numeric' },
+  timeZone = displayTimeZone
+) {
+  return date.toLocaleDateString(undefined, { ...options, timeZone });
+}
+
+export function formatTime(date: Date, timeZone = displayTimeZone) {
+  return date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit', timeZone });
+}
+
+/** The hour of `date` (0–23) on the user's clock rather than the browser's. */
+export function hourOf(date = new Date(), timeZone = displayTimeZone) {
+  const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone }).format(date);
+  return Number(hour);
+}
+
+/** What a clock in a zone reads: `month` runs 1–12 and `weekday` 0 (Sunday)–6. */
+export type WallClock = { year: number; month: number; day: number; hour: number; minute: number; second: number; weekday: number };
+
+const weekdayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const clockFormats = new Map<string, Intl.DateTimeFormat>();
+
+function clockFormat(timeZone: string | undefined) {
+  const key = timeZone ?? '';
+  let format = clockFormats.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+      timeZone
+    });
+    clockFormats.set(key, format);
+  }
+  return format;
+}
+
+/** The wall clock at `date` in `timeZone`, which defaults to the user's (or, before sign-in, the browser's). */
+export function wallClock(date: Date, timeZone = displayTimeZone): WallClock {
+  const parts: Record<string, string> = {};
+  for (const part of clockFormat(timeZone).formatToParts(date)) parts[part.type] = part.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: weekdayNames.indexOf(parts.weekday)
+  };
+}
+
+/** How far `timeZone`'s clock runs ahead of UTC at `time`, in milliseconds. */
+function offsetAt(time: number, timeZone: string | undefined) {
+  const clock = wallClock(new Date(time), timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return asUtc - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * The moment a clock in `timeZone` reads the given time. Out-of-range fields roll over the way
+ * they do for `Date` (day 0 is the last day of the previous month), and a time skipped by a
+ * daylight-saving change lands just after it.
+ */
+export function zonedTime(
+  { year, month, day, hour = 0, minute = 0, second = 0 }: Pick<WallClock, 'year' | 'month' | 'day'> & Partial<WallClock>,
+  timeZone = displayTimeZone
+) {
+  const target = Date.UTC(year, month - 1, day, hour, minute, second);
+  // The offset at the target itself is right except across a DST change, which one more pass corrects.
+  const guess = target - offsetAt(target, timeZone);
+  const time = target - offsetAt(guess, timeZone);
+  // Inside a skipped hour neither reads the target; the later one falls just after the gap.
+  return new Date(offsetAt(time, timeZone) === target - time ? time : Math.max(time, guess));
+}
+
+/** Midnight of `date`'s day in `timeZone`. */
+export function startOfDay(date: Date, timeZone = displayTimeZone) {
+  const { year, month, day } = wallClock(date, timeZone);
+  return zonedTime({ year, month, day }, timeZone);
+}
+
+/** The same time of day `days` later in `timeZone`, so a DST change doesn't shift it by an hour. */
+export function addDays(date: Date, days: number, timeZone = displayTimeZone) {
+  const clock = wallClock(date, timeZone);
+  const moved = zonedTime({ ...clock, day: clock.day + days }, timeZone);
+  return new Date(moved.getTime() + date.getUTCMilliseconds());
+}
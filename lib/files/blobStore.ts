@@ -0,0 +1,45 @@
+import { scopedName } from '../store/scope';
+
+const DB_NAME = 'neuronest-files';
+const STORE = 'blobs';
+
+let opening: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(scopedName(DB_NAME), 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      opening = null;
+      reject(request.error ?? new Error('Could not open file storage'));
+    };
+  });
+  return opening;
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('File storage request failed'));
+  });
+}
+
+/** File bytes live in IndexedDB keyed by file id; localStorage only holds the metadata. */
+export async function putBlob(id: string, blob: Blob) {
+  await run('readwrite', (store) => store.put(blob, id));
+}
+
+export async function getBlob(id: string) {
+  return ((await run('readonly', (store) => store.get(id))) as Blob | undefined) ?? null;
+}
+
+export async function deleteBlob(id: string) {
+  await run('readwrite', (store) => store.delete(id));
+}
+
+export function isBlobStoreAvailable() {
+  return typeof indexedDB !== 'undefined';
+}
@@ -0,0 +1,82 @@
+export type CsvTable = { header: string[]; rows: string[][] };
+
+export type SortDirection = 'asc' | 'desc';
+
+/** Picks whichever of tab, semicolon or comma splits the first line most, defaulting to comma. */
+export function detectDelimiter(text: string) {
+  const newline = text.indexOf('\n');
+  const firstLine = newline < 0 ? text : text.slice(0, newline);
+  const tabs = firstLine.split('\t').length;
+  const semicolons = firstLine.split(';').length;
+  const commas = firstLine.split(',').length;
+  if (tabs > commas && tabs >= semicolons) return '\t';
+  if (semicolons > commas) return ';';
+  return ',';
+}
+
+/**
+ * RFC 4180 parsing: quoted fields may contain delimiters, newlines and doubled quotes.
+ * The first row is the header; short rows are padded so every row has a cell per column.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): CsvTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((row) => row.some((cell) => cell.trim() !== ''));
+  const [header = [], ...rows] = nonEmpty;
+  const width = Math.max(header.length, ...rows.map((row) => row.length));
+  const pad = (row: string[]) => [...row, ...Array<string>(width - row.length).fill('')];
+  return {
+    header: pad(header).map((cell, index) => cell.trim() || `Column ${index + 1}`),
+    rows: rows.map(pad)
+  };
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/** Numbers compare numerically (ignoring thousands separators), everything else naturally; blanks sort last. */
+export function sortRows(rows: string[][], column: number, direction: SortDirection) {
+  const factor = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const left = a[column]?.trim() ?? '';
+    const right = b[column]?.trim() ?? '';
+    if (!left || !right) return left ? -1 : right ? 1 : 0;
+    const leftNumber = Number(left.replace(/,/g, ''));
+    const rightNumber = Number(right.replace(/,/g, ''));
+    if (!Number.isNaN(leftNumber) && !Number.isNaN(rightNumber)) return (leftNumber - rightNumber) * factor;
+    return collator.compare(left, right) * factor;
+  });
+}
@@ -0,0 +1,245 @@
+export type FileKind = 'pdf' | 'docx' | 'markdown' | 'csv' | 'text' | 'image' | 'audio' | 'video' | 'other';
+
+/** Extracted text is capped so a large upload can't blow up localStorage or the sync payload. */
+export const MAX_EXTRACTED_CHARS = 100_000;
+
+const textExtensions = ['txt', 'json', 'log', 'xml', 'html', 'htm', 'yaml', 'yml'];
+
+function extensionOf(name: string) {
+  const match = name.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match ? match[1] : '';
+}
+
+export function fileKindOf({ name, type }: { name: string; type: string }): FileKind {
+  const extension = extensionOf(name);
+  if (type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || extension === 'docx') {
+    return 'docx';
+  }
+  if (type === 'text/markdown' || extension === 'md' || extension === 'markdown') return 'markdown';
+  if (type === 'text/csv' || type === 'text/tab-separated-values' || extension === 'csv' || extension === 'tsv') {
+    return 'csv';
+  }
+  if (type.startsWith('text/') || textExtensions.includes(extension)) return 'text';
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type.startsWith('video/')) return 'video';
+  return 'other';
+}
+
+async function inflate(bytes: Uint8Array, format: 'deflate' | 'deflate-raw') {
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function tidy(text: string) {
+  const cleaned = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return cleaned.length > MAX_EXTRACTED_CHARS ? cleaned.slice(0, MAX_EXTRACTED_CHARS) : cleaned;
+}
+
+// --- DOCX -----------------------------------------------------------------------------
+
+/** Reads one entry out of a ZIP archive via its central directory. */
+async function readZipEntry(bytes: Uint8Array, name: string) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 65_557); offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP archive');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    if (entryName === name) {
+      const dataStart =
+        localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, 'deflate-raw');
+      throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+function decodeXmlEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    if (code[0] !== '#') return named[code.toLowerCase()] ?? entity;
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  });
+}
+
+async function extractDocx(bytes: Uint8Array) {
+  const xml = await readZipEntry(bytes, 'word/document.xml');
+  if (!xml) throw new Error('No document body in this DOCX');
+  const text = new TextDecoder()
+    .decode(xml)
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br\/>|<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeXmlEntities(text);
+}
+
+// --- PDF ------------------------------------------------------------------------------
+
+function latin1(bytes: Uint8Array) {
+  let text = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return text;
+}
+
+/** Decodes a PDF literal string body (without the outer parentheses). */
+function decodeLiteral(body: string) {
+  return body.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escape: string) => {
+    const simple: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+    if (escape in simple) return simple[escape];
+    if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    return '';
+  });
+}
+
+function decodeHex(body: string) {
+  const hex = body.replace(/\s+/g, '');
+  let text = '';
+  for (let index = 0; index < hex.length; index += 2) {
+    text += String.fromCharCode(parseInt(hex.slice(index, index + 2).padEnd(2, '0'), 16));
+  }
+  // Two-byte CID strings need the font's CMap, which we don't read; skip anything unprintable.
+  return /^[\x20-\x7e\xa0-\xff\n\t]*$/.test(text) ? text : '';
+}
+
+/**
+ * Pulls the text-showing operators (`Tj`, `TJ`, `'`, `"`) out of a page content stream.
+ * Line moves become newlines and wide `TJ` gaps become spaces. Good enough for search and
+ * the assistant; layout, fonts with custom encodings and scanned pages are out of scope.
+ */
+function textFromContentStream(content: string) {
+  const token = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g;
+  let text = '';
+  let operands: string[] = [];
+  let inArray = false;
+  let arrayText = '';
+
+  for (const [value] of content.matchAll(token)) {
+    if (value === '[') {
+      inArray = true;
+      arrayText = '';
+    } else if (value === ']') {
+      inArray = false;
+      operands.push(arrayText);
+    } else if (value.startsWith('(') || (value.startsWith('<') && value.endsWith('>'))) {
+      const decoded = value.startsWith('(') ? decodeLiteral(value.slice(1, -1)) : decodeHex(value.slice(1, -1));
+      if (inArray) arrayText += decoded;
+      else operands.push(decoded);
+    } else if (/^-?\d*\.?\d+$/.test(value)) {
+      if (inArray && Number(value) < -200) arrayText += ' ';
+      else if (!inArray) operands.push(value);
+    } else if (!inArray && !value.startsWith('/')) {
+      switch (value) {
+        case 'Tj':
+        case 'TJ':
+          text += operands[operands.length - 1] ?? '';
+          break;
+        case "'":
+        case '"':
+          text += `\n${operands[operands.length - 1] ?? ''}`;
+          break;
+        case 'T*':
+        case 'ET':
+          text += '\n';
+          break;
+        case 'Td':
+        case 'TD':
+          text += Number(operands[operands.length - 1]) !== 0 ? '\n' : ' ';
+          break;
+      }
+      operands = [];
+    }
+  }
+  return text;
+}
+
+/**
+ * Page count from the page tree: the largest `/Count`, or the number of `/Type /Page`
+ * objects when the tree sits in a compressed object stream. 0 when neither is readable.
+ */
+export function countPdfPages(bytes: Uint8Array) {
+  const source = latin1(bytes);
+  const counts = [...source.matchAll(/\/Count\s+(\d+)/g)].map((match) => Number(match[1]));
+  const pages = source.match(/\/Type\s*\/Page(?![A-Za-z])/g)?.length ?? 0;
+  return Math.max(pages, ...counts, 0);
+}
+
+async function extractPdf(bytes: Uint8Array) {
+  const source = latin1(bytes);
+  if (!source.startsWith('%PDF')) throw new Error('Not a PDF file');
+  const streamPattern = /<<((?:[^<>]|<<(?:[^<>]|<<[^<>]*>>)*>>|<[^<>]*>)*)>>\s*stream\r?\n/g;
+  const parts: string[] = [];
+
+  for (const match of source.matchAll(streamPattern)) {
+    const dictionary = match[1];
+    // Images, fonts, cross-reference and object streams never carry page text.
+    if (/\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(XRef|ObjStm|XObject)/.test(dictionary)) continue;
+    const start = (match.index ?? 0) + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end < 0) continue;
+    let data = bytes.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        data = await inflate(data, 'deflate');
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+    const content = latin1(data);
+    if (content.includes('BT')) parts.push(textFromContentStream(content));
+  }
+
+  return parts.join('\n');
+}
+
+// --- Entry point ------------------------------------------------------------------------
+
+/**
+ * Plain text for search and the assistant, or null for kinds we don't read (images,
+ * archives, media). Throws when a supported file turns out to be malformed.
+ */
+export async function extractText(bytes: Uint8Array, file: { name: string; type: string }) {
+  switch (fileKindOf(file)) {
+    case 'text':
+    case 'markdown':
+    case 'csv':
+      return tidy(new TextDecoder().decode(bytes));
+    case 'docx':
+      return tidy(await extractDocx(bytes));
+    case 'pdf':
+      return tidy(await extractPdf(bytes));
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,75 @@
+import type { FileResource } from '../models';
+import { workspaceUrl } from '../store/scope';
+import { isBlobStoreAvailable, putBlob } from './blobStore';
+import { extractText, fileKindOf } from './extract';
+
+const THUMBNAIL_SIZE = 160;
+
+export function uploadUrl(id: string) {
+  return workspaceUrl(`/api/uploads/${encodeURIComponent(id)}`);
+}
+
+/** Downscales an image to a JPEG data URL small enough to sync with the record. */
+export async function createThumbnail(blob: Blob, size = THUMBNAIL_SIZE) {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.75);
+}
+
+/** Sends the bytes to the server's upload route; resolves with the URL they are served from. */
+export async function uploadBlob(id: string, blob: Blob, name: string) {
+  const response = await fetch(uploadUrl(id), {
+    method: 'PUT',
+    headers: { 'Content-Type': blob.type || 'application/octet-stream', 'X-File-Name': encodeURIComponent(name) },
+    body: blob
+  });
+  if (!response.ok) throw new Error(`Upload failed (${response.status})`);
+  return uploadUrl(id);
+}
+
+/**
+ * Keeps the bytes in IndexedDB and returns the record with extracted text and, for images,
+ * a thumbnail. Extraction failures are recorded on the record rather than thrown, so one
+ * broken PDF doesn't block the rest of a multi-file upload.
+ */
+export async function ingestFile(
+  file: File,
+  { id, uploadedAt, description }: { id: string; uploadedAt: string; description?: string }
+): Promise<FileResource> {
+  if (isBlobStoreAvailable()) await putBlob(id, file);
+
+  let content: string | undefined;
+  let extraction: FileResource['extraction'];
+  try {
+    const text = await extractText(new Uint8Array(await file.arrayBuffer()), file);
+    content = text || undefined;
+    extraction = text === null ? 'unsupported' : 'done';
+  } catch {
+    extraction = 'failed';
+  }
+
+  let thumbnail: string | undefined;
+  if (fileKindOf(file) === 'image') {
+    thumbnail = await createThumbnail(file).catch(() => undefined);
+  }
+
+  return {
+    id,
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    uploadedAt,
+    updatedAt: uploadedAt,
+    description,
+    content,
+    extraction,
+    thumbnail
+  };
+}
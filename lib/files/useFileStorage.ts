@@ -0,0 +1,126 @@
+'use client';
+
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import type { FileResource } from '../models';
+import { uid } from '../utils';
+import { deleteBlob, getBlob, isBlobStoreAvailable } from './blobStore';
+import { ingestFile, uploadBlob, uploadUrl } from './ingest';
+
+const UPLOAD_RETRY_MS = 60_000;
+
+/**
+ * Durable storage for uploads: bytes go to IndexedDB straight away and are copied to the
+ * server's upload route whenever it is reachable, so the file survives reloads and can be
+ * opened on other devices. Object URLs for local copies are created lazily and revoked
+ * when the file goes away.
+ */
+export function useFileStorage(files: FileResource[], setFiles: Dispatch<SetStateAction<FileResource[]>>) {
+  const [localUrls, setLocalUrls] = useState<Record<string, string>>({});
+  const localUrlsRef = useRef(localUrls);
+  const filesRef = useRef(files);
+  const uploading = useRef(new Set<string>());
+  const retryAt = useRef(new Map<string, number>());
+  localUrlsRef.current = localUrls;
+  filesRef.current = files;
+
+  useEffect(() => {
+    if (!isBlobStoreAvailable()) return;
+    let cancelled = false;
+    const ids = new Set(files.map((file) => file.id));
+    const stale = Object.keys(localUrlsRef.current).filter((id) => !ids.has(id));
+    if (stale.length) {
+      stale.forEach((id) => URL.revokeObjectURL(localUrlsRef.current[id]));
+      setLocalUrls((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => ids.has(id))));
+    }
+
+    const missing = files.filter((file) => !localUrlsRef.current[file.id]);
+    void Promise.all(
+      missing.map(async (file) => {
+        const blob = await getBlob(file.id).catch(() => null);
+        return blob ? ([file.id, URL.createObjectURL(blob)] as const) : null;
+      })
+    ).then((entries) => {
+      const found = entries.filter((entry): entry is readonly [string, string] => entry !== null);
+      if (cancelled) {
+        found.forEach(([, url]) => URL.revokeObjectURL(url));
+        return;
+      }
+      if (found.length) setLocalUrls((prev) => ({ ...prev, ...Object.fromEntries(found) }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [files]);
+
+  useEffect(
+    () => () => {
+      Object.values(localUrlsRef.current).forEach((url) => URL.revokeObjectURL(url));
+    },
+    []
+  );
+
+  const uploadPending = useCallback(async () => {
+    if (!isBlobStoreAvailable() || (typeof navigator !== 'undefined' && !navigator.onLine)) return;
+    for (const file of filesRef.current) {
+      if (file.remoteUrl || uploading.current.has(file.id)) continue;
+      if ((retryAt.current.get(file.id) ?? 0) > Date.now()) continue;
+      uploading.current.add(file.id);
+      try {
+        const blob = await getBlob(file.id);
+        if (!blob) continue;
+        const remoteUrl = await uploadBlob(file.id, blob, file.name);
+        setFiles((prev) =>
+          prev.map((entry) =>
+            entry.id === file.id ? { ...entry, remoteUrl, updatedAt: new Date().toISOString() } : entry
+          )
+        );
+      } catch {
+        // The server is unreachable or refused the upload; the local copy stays and we retry later.
+        retryAt.current.set(file.id, Date.now() + UPLOAD_RETRY_MS);
+      } finally {
+        uploading.current.delete(file.id);
+      }
+    }
+  }, [setFiles]);
+
+  useEffect(() => {
+    void uploadPending();
+    const handleOnline = () => {
+      retryAt.current.clear();
+      void uploadPending();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [files, uploadPending]);
+
+  const ingest = useCallback(
+    async (list: File[], description?: string) => {
+      const uploadedAt = new Date().toISOString();
+      const entries = await Promise.all(
+        list.map((file) => ingestFile(file, { id: `file-${uid()}`, uploadedAt, description }))
+      );
+      setFiles((prev) => [...entries, ...prev]);
+      return entries;
+    },
+    [setFiles]
+  );
+
+  /** Takes the file off the list but keeps its bytes, so it can come back out of the Trash. */
+  const remove = useCallback(
+    (id: string) => {
+      setFiles((prev) => prev.filter((entry) => entry.id !== id));
+    },
+    [setFiles]
+  );
+
+  /** Deletes the bytes for good, locally and on the server. */
+  const purge = useCallback((file: FileResource) => {
+    if (isBlobStoreAvailable()) void deleteBlob(file.id).catch(() => undefined);
+    if (file.remoteUrl) void fetch(uploadUrl(file.id), { method: 'DELETE' }).catch(() => undefined);
+  }, []);
+
+  /** Where to open a file: the local copy if this device has one, else the server copy. */
+  const urlFor = useCallback((file: FileResource) => localUrls[file.id] ?? file.remoteUrl, [localUrls]);
+
+  return { ingest, remove, purge, urlFor };
+}
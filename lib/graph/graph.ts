@@ -0,0 +1,142 @@
+import { entityKey, type LinkableCollections } from '../links';
+import { linkTokens, type EntityKind, type EntityLink, type EntityRef, type LinkType } from '../models';
+import { extractWikiLinks, resolveWikiLink } from '../wikiLinks';
+
+export type GraphNodeKind = EntityKind | 'tag';
+
+export type GraphEdgeType = LinkType | 'wiki-link' | 'subtask-of' | 'blocked-by' | 'tagged';
+
+export type GraphNode = {
+  /** `kind:id` for records, `tag:name` for tags. */
+  id: string;
+  kind: GraphNodeKind;
+  label: string;
+  ref?: EntityRef;
+  /** Lowercased tags carried by the record; a tag node carries its own. */
+  tags: string[];
+  degree: number;
+};
+
+export type GraphEdge = {
+  id: string;
+  source: string;
+  target: string;
+  type: GraphEdgeType;
+};
+
+export type KnowledgeGraph = { nodes: GraphNode[]; edges: GraphEdge[] };
+
+export type GraphFilter = {
+  /** Node kinds to show; empty shows every kind. */
+  kinds: GraphNodeKind[];
+  /** Keep only records with this tag and their direct neighbours. */
+  tag?: string;
+};
+
+export const edgeTypeLabels: Record<GraphEdgeType, string> = {
+  ...linkTokens,
+  'wiki-link': 'Wiki link',
+  'subtask-of': 'Subtask of',
+  'blocked-by': 'Blocked by',
+  tagged: 'Tagged'
+};
+
+export function tagNodeId(tag: string) {
+  return `tag:${tag.trim().toLowerCase()}`;
+}
+
+/**
+ * Records become nodes; explicit links, `[[wiki links]]`, subtask parents, blockers and tags become
+ * edges. Tags are hub nodes, so records that share a tag are two hops apart.
+ */
+export function buildKnowledgeGraph(collections: LinkableCollections): KnowledgeGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  function addNode(ref: EntityRef, label: string, tags: string[] = []) {
+    const normalized = [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+    nodes.set(entityKey(ref), { id: entityKey(ref), kind: ref.kind, label, ref, tags: normalized, degree: 0 });
+  }
+
+  function addEdge(source: string, target: string, type: GraphEdgeType) {
+    if (source === target || !nodes.has(source) || !nodes.has(target)) return;
+    const id = `${source}>${target}>${type}`;
+    if (edges.has(id)) return;
+    edges.set(id, { id, source, target, type });
+  }
+
+  function addLinks(source: EntityRef, links: EntityLink[] = []) {
+    for (const link of links) addEdge(entityKey(source), entityKey(link.target), link.type);
+  }
+
+  const { notes, tasks, reminders, files } = collections;
+  notes.forEach((note) => addNode({ kind: 'note', id: note.id }, note.title, note.tags));
+  tasks.forEach((task) => addNode({ kind: 'task', id: task.id }, task.title, task.tags));
+  reminders.forEach((reminder) => addNode({ kind: 'reminder', id: reminder.id }, reminder.title, reminder.tags));
+  files.forEach((file) => addNode({ kind: 'file', id: file.id }, file.name));
+
+  for (const node of [...nodes.values()]) {
+    for (const tag of node.tags) {
+      const id = tagNodeId(tag);
+      if (!nodes.has(id)) nodes.set(id, { id, kind: 'tag', label: `#${tag}`, tags: [tag], degree: 0 });
+      addEdge(node.id, id, 'tagged');
+    }
+  }
+
+  for (const note of notes) {
+    addLinks({ kind: 'note', id: note.id }, note.links);
+    for (const title of extractWikiLinks(note.content)) {
+      const target = resolveWikiLink(title, notes);
+      if (target) addEdge(`note:${note.id}`, `note:${target.id}`, 'wiki-link');
+    }
+  }
+  for (const task of tasks) {
+    addLinks({ kind: 'task', id: task.id }, task.links);
+    if (task.parentId) addEdge(`task:${task.id}`, `task:${task.parentId}`, 'subtask-of');
+    task.blockedBy?.forEach((blockerId) => addEdge(`task:${task.id}`, `task:${blockerId}`, 'blocked-by'));
+  }
+  reminders.forEach((reminder) => addLinks({ kind: 'reminder', id: reminder.id }, reminder.links));
+  files.forEach((file) => addLinks({ kind: 'file', id: file.id }, file.links));
+
+  for (const edge of edges.values()) {
+    nodes.get(edge.source)!.degree += 1;
+    nodes.get(edge.target)!.degree += 1;
+  }
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()] };
+}
+
+export function graphTags(graph: KnowledgeGraph) {
+  return graph.nodes
+    .filter((node) => node.kind === 'tag')
+    .map((node) => node.tags[0])
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/** Applies the kind filter first, then narrows to a tag's records and their neighbours. */
+export function filterGraph(graph: KnowledgeGraph, filter: GraphFilter): KnowledgeGraph {
+  let nodes = filter.kinds.length ? graph.nodes.filter((node) => filter.kinds.includes(node.kind)) : graph.nodes;
+  let visible = new Set(nodes.map((node) => node.id));
+  let edges = graph.edges.filter((edge) => visible.has(edge.source) && visible.has(edge.target));
+
+  const tag = filter.tag?.trim().toLowerCase();
+  if (tag) {
+    const tagged = new Set(nodes.filter((node) => node.tags.includes(tag)).map((node) => node.id));
+    const keep = new Set(tagged);
+    for (const edge of edges) {
+      if (tagged.has(edge.source)) keep.add(edge.target);
+      if (tagged.has(edge.target)) keep.add(edge.source);
+    }
+    // Other tags hanging off the neighbourhood would drag the rest of the graph back in.
+    nodes = nodes.filter((node) => keep.has(node.id) && (node.kind !== 'tag' || tagged.has(node.id)));
+    visible = new Set(nodes.map((node) => node.id));
+    edges = edges.filter((edge) => visible.has(edge.source) && visible.has(edge.target));
+  }
+
+  const degree = new Map<string, number>();
+  for (const edge of edges) {
+    degree.set(edge.source, (degree.get(edge.source) ?? 0) + 1);
+    degree.set(edge.target, (degree.get(edge.target) ?? 0) + 1);
+  }
+  return { nodes: nodes.map((node) => ({ ...node, degree: degree.get(node.id) ?? 0 })), edges };
+}
@@ -0,0 +1,104 @@
+import type { GraphEdge } from './graph';
+
+export type NodePosition = {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  /** Held in place while dragged. */
+  pinned?: boolean;
+};
+
+export type LayoutBounds = { width: number; height: number; padding?: number };
+
+const charge = 200;
+const linkDistance = 70;
+const linkStrength = 0.3;
+const gravity = 0.015;
+const velocityDecay = 0.6;
+
+/**
+ * Keeps existing positions so the layout doesn't jump when records change, and places
+ * new nodes on a golden-angle spiral around the centre so seeding is deterministic.
+ */
+export function seedPositions(ids: string[], previous: Map<string, NodePosition>, { width, height }: LayoutBounds) {
+  const positions = new Map<string, NodePosition>();
+  const angle = Math.PI * (3 - Math.sqrt(5));
+  ids.forEach((id, index) => {
+    const existing = previous.get(id);
+    if (existing) {
+      positions.set(id, { ...existing, pinned: false });
+      return;
+    }
+    const radius = 12 * Math.sqrt(index + 1);
+    positions.set(id, {
+      x: width / 2 + radius * Math.cos(index * angle),
+      y: height / 2 + radius * Math.sin(index * angle),
+      vx: 0,
+      vy: 0
+    });
+  });
+  return positions;
+}
+
+/**
+ * One step of a spring–electrical simulation: every pair repels, edges pull towards
+ * `linkDistance`, and a weak gravity keeps disconnected nodes on screen. Forces scale with
+ * `alpha`, which the caller cools towards zero. Mutates `positions`.
+ */
+export function tickLayout(
+  positions: Map<string, NodePosition>,
+  edges: GraphEdge[],
+  { width, height, padding = 16 }: LayoutBounds,
+  alpha: number
+) {
+  const entries = [...positions.values()];
+
+  for (let i = 0; i < entries.length; i += 1) {
+    const a = entries[i];
+    for (let j = i + 1; j < entries.length; j += 1) {
+      const b = entries[j];
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      if (dx === 0 && dy === 0) {
+        dx = (j - i) * 0.01;
+        dy = 0.01;
+      }
+      const distanceSq = Math.max(dx * dx + dy * dy, 25);
+      // Push of `charge / distance`, split between the pair.
+      const push = (charge * alpha) / distanceSq / 2;
+      a.vx -= dx * push;
+      a.vy -= dy * push;
+      b.vx += dx * push;
+      b.vy += dy * push;
+    }
+  }
+
+  for (const edge of edges) {
+    const a = positions.get(edge.source);
+    const b = positions.get(edge.target);
+    if (!a || !b) continue;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+    const pull = ((distance - linkDistance) / distance) * linkStrength * alpha;
+    a.vx += dx * pull;
+    a.vy += dy * pull;
+    b.vx -= dx * pull;
+    b.vy -= dy * pull;
+  }
+
+  for (const node of entries) {
+    if (node.pinned) {
+      node.vx = 0;
+      node.vy = 0;
+      continue;
+    }
+    node.vx += (width / 2 - node.x) * gravity * alpha;
+    node.vy += (height / 2 - node.y) * gravity * alpha;
+    node.vx *= velocityDecay;
+    node.vy *= velocityDecay;
+    node.x = Math.min(width - padding, Math.max(padding, node.x + node.vx));
+    node.y = Math.min(height - padding, Math.max(padding, node.y + node.vy));
+  }
+}
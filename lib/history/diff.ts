@@ -0,0 +1,69 @@
+export type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+/** Past this many token pairs the LCS table gets too big; the diff degrades to remove-all/add-all. */
+const MAX_CELLS = 4_000_000;
+
+function tokenize(text: string) {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function push(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+/** Word-level diff from `before` to `after`; whitespace runs count as tokens so the text reassembles exactly. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start += 1;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA -= 1;
+    endB -= 1;
+  }
+
+  const parts: DiffPart[] = [];
+  if (start) push(parts, 'same', a.slice(0, start).join(''));
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if ((rows + 1) * (cols + 1) > MAX_CELLS) {
+    if (rows) push(parts, 'removed', a.slice(start, endA).join(''));
+    if (cols) push(parts, 'added', b.slice(start, endB).join(''));
+  } else {
+    // lengths[i][j] = LCS of a[start + i..endA) and b[start + j..endB)
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i -= 1) {
+      for (let j = cols - 1; j >= 0; j -= 1) {
+        lengths[i * width + j] =
+          a[start + i] === b[start + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && a[start + i] === b[start + j]) {
+        push(parts, 'same', a[start + i]);
+        i += 1;
+        j += 1;
+      } else if (i < rows && (j === cols || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        push(parts, 'removed', a[start + i]);
+        i += 1;
+      } else {
+        push(parts, 'added', b[start + j]);
+        j += 1;
+      }
+    }
+  }
+
+  if (endA < a.length) push(parts, 'same', a.slice(endA).join(''));
+  return parts;
+}
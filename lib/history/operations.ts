@@ -0,0 +1,60 @@
+/** One record's change within an operation: absent `before` means it was created, absent `after` that it was removed. */
+export type RecordPatch<T = unknown> = { key: string; index: number; before?: T; after?: T };
+
+export type Operation = {
+  id: string;
+  label: string;
+  at: string;
+  /** Destructive operations get an Undo toast. */
+  destructive: boolean;
+  patches: Record<string, RecordPatch[]>;
+};
+
+/** Patches that turn `before` into `after`, matching records by key. */
+export function diffRecords<T>(before: T[], after: T[], keyOf: (record: T) => string): RecordPatch<T>[] {
+  const previous = new Map(before.map((record, index) => [keyOf(record), { record, index }]));
+  const patches: RecordPatch<T>[] = [];
+  after.forEach((record, index) => {
+    const key = keyOf(record);
+    const old = previous.get(key);
+    previous.delete(key);
+    if (!old) patches.push({ key, index, after: record });
+    else if (old.record !== record && JSON.stringify(old.record) !== JSON.stringify(record)) {
+      patches.push({ key, index, before: old.record, after: record });
+    }
+  });
+  previous.forEach(({ record, index }, key) => patches.push({ key, index, before: record }));
+  return patches;
+}
+
+/**
+ * Rolls patches back (`undo`) or forward (`redo`) on the current records. Only the
+ * patched keys are touched, so unrelated edits made since then survive. `stamp` gives
+ * each restored record a fresh `updatedAt` so sync treats it as the newest version.
+ */
+export function applyPatches<T>(
+  records: T[],
+  patches: RecordPatch<T>[],
+  direction: 'undo' | 'redo',
+  keyOf: (record: T) => string,
+  stamp?: string
+): T[] {
+  const targets = new Map(patches.map((patch) => [patch.key, direction === 'undo' ? patch.before : patch.after]));
+  const withStamp = (record: T) => (stamp ? { ...record, updatedAt: stamp } : record);
+
+  const next = records.flatMap((record) => {
+    const key = keyOf(record);
+    if (!targets.has(key)) return [record];
+    const target = targets.get(key);
+    targets.delete(key);
+    return target === undefined ? [] : [withStamp(target)];
+  });
+
+  patches
+    .filter((patch) => targets.get(patch.key) !== undefined)
+    .sort((a, b) => a.index - b.index)
+    .forEach((patch) => {
+      next.splice(Math.min(patch.index, next.length), 0, withStamp(targets.get(patch.key) as T));
+    });
+  return next;
+}
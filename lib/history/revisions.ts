@@ -0,0 +1,71 @@
+import type { Note } from '../models';
+
+export type NoteRevision = {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  tags: string[];
+  savedAt: string;
+};
+
+const MAX_REVISIONS_PER_NOTE = 50;
+
+function sameContent(revision: NoteRevision, note: Note) {
+  return (
+    revision.title === note.title &&
+    revision.content === note.content &&
+    revision.tags.join('\u0000') === note.tags.join('\u0000')
+  );
+}
+
+/**
+ * Appends a revision for every note whose title, content or tags differ from its latest
+ * revision, keeping the newest 50 per note. History of notes that are gone and not in
+ * `keepIds` (the trash) is dropped. Returns `history` itself when nothing changed.
+ */
+export function recordRevisions(
+  history: NoteRevision[],
+  notes: Note[],
+  keepIds: Set<string>,
+  createId: () => string
+): NoteRevision[] {
+  const latest = new Map<string, NoteRevision>();
+  for (const revision of history) {
+    const current = latest.get(revision.noteId);
+    if (!current || revision.savedAt >= current.savedAt) latest.set(revision.noteId, revision);
+  }
+
+  const added: NoteRevision[] = [];
+  for (const note of notes) {
+    const previous = latest.get(note.id);
+    if (previous && sameContent(previous, note)) continue;
+    added.push({
+      id: createId(),
+      noteId: note.id,
+      title: note.title,
+      content: note.content,
+      tags: [...note.tags],
+      // A sync or import can carry an older timestamp; keep revisions in order regardless.
+      savedAt: previous && note.updatedAt <= previous.savedAt ? new Date().toISOString() : note.updatedAt
+    });
+  }
+
+  const live = new Set(notes.map((note) => note.id));
+  const kept = history.filter((revision) => live.has(revision.noteId) || keepIds.has(revision.noteId));
+  if (!added.length && kept.length === history.length) return history;
+
+  const counts = new Map<string, number>();
+  return [...added, ...kept]
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+    .filter((revision) => {
+      const count = (counts.get(revision.noteId) ?? 0) + 1;
+      counts.set(revision.noteId, count);
+      return count <= MAX_REVISIONS_PER_NOTE;
+    });
+}
+
+/** A note's revisions, newest first. */
+export function revisionsOf(history: NoteRevision[], noteId: string) {
+  return history.filter((revision) => revision.noteId === noteId).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import type { Note } from '../models';
+import { useStoredCollection } from '../store/useLocalStore';
+import { uid } from '../utils';
+import { recordRevisions, revisionsOf } from './revisions';
+
+/**
+ * Records a revision whenever a note's title, content or tags change, whatever made the
+ * change: the editor, a checklist tick, a wiki-link rename, sync or an import.
+ */
+export function useNoteHistory(notes: Note[], trashedNoteIds: Set<string>) {
+  const [history, setHistory] = useStoredCollection('noteHistory', []);
+
+  useEffect(() => {
+    setHistory((prev) => recordRevisions(prev, notes, trashedNoteIds, () => `revision-${uid()}`));
+  }, [notes, trashedNoteIds, setHistory]);
+
+  const revisionsFor = useCallback((noteId: string) => revisionsOf(history, noteId), [history]);
+
+  return { revisionsFor };
+}
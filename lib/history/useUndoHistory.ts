@@ -0,0 +1,135 @@
+'use client';
+
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { uid } from '../utils';
+import { applyPatches, diffRecords, type Operation } from './operations';
+
+export type UndoBinding = {
+  records: unknown[];
+  replace: Dispatch<SetStateAction<unknown[]>>;
+  keyOf: (record: unknown) => string;
+  /** Give restored records a fresh `updatedAt`; needed for anything that syncs. */
+  stamp: boolean;
+};
+
+const MAX_OPERATIONS = 50;
+
+export function bindUndoable<T>(
+  records: T[],
+  setRecords: Dispatch<SetStateAction<T[]>>,
+  { keyOf = (record: T) => (record as { id: string }).id, stamp = true }: { keyOf?: (record: T) => string; stamp?: boolean } = {}
+): UndoBinding {
+  return {
+    records,
+    replace: setRecords as Dispatch<SetStateAction<unknown[]>>,
+    keyOf: keyOf as (record: unknown) => string,
+    stamp
+  };
+}
+
+/**
+ * A shared undo/redo stack over several collections. Call `record(label)` right before a
+ * mutation; the render it triggers carries the mutation too, and the difference is stored as
+ * one reversible operation. A mutation that changes nothing is dropped there, so changes
+ * nobody recorded (sync, typing in a draft) are never tracked.
+ */
+export function useUndoHistory(bindings: Record<string, UndoBinding>) {
+  const [undoStack, setUndoStack] = useState<Operation[]>([]);
+  const [redoStack, setRedoStack] = useState<Operation[]>([]);
+  const [lastDestructive, setLastDestructive] = useState<Operation | null>(null);
+  const bindingsRef = useRef(bindings);
+  const pending = useRef<{ label: string; destructive: boolean; snapshot: Record<string, unknown[]> } | null>(null);
+  // Bumped by `record`, so the effect below runs once per recorded mutation, even a no-op.
+  const [revision, setRevision] = useState(0);
+  bindingsRef.current = bindings;
+
+  const record = useCallback((label: string, { destructive = false } = {}) => {
+    pending.current = {
+      label,
+      destructive,
+      snapshot: Object.fromEntries(Object.entries(bindingsRef.current).map(([name, binding]) => [name, binding.records]))
+    };
+    setRevision((value) => value + 1);
+  }, []);
+
+  useEffect(() => {
+    const change = pending.current;
+    if (!change) return;
+    pending.current = null;
+
+    const patches: Operation['patches'] = {};
+    for (const [name, binding] of Object.entries(bindingsRef.current)) {
+      const before = change.snapshot[name] ?? [];
+      if (before === binding.records) continue;
+      const diff = diffRecords(before, binding.records, binding.keyOf);
+      if (diff.length) patches[name] = diff;
+    }
+    if (!Object.keys(patches).length) return;
+
+    const operation: Operation = {
+      id: `op-${uid()}`,
+      label: change.label,
+      at: new Date().toISOString(),
+      destructive: change.destructive,
+      patches
+    };
+    setUndoStack((prev) => [...prev.slice(1 - MAX_OPERATIONS), operation]);
+    setRedoStack([]);
+    setLastDestructive(operation.destructive ? operation : null);
+  }, [revision]);
+
+  const replay = useCallback((operation: Operation, direction: 'undo' | 'redo') => {
+    const stamp = new Date().toISOString();
+    for (const [name, patches] of Object.entries(operation.patches)) {
+      const binding = bindingsRef.current[name];
+      if (!binding) continue;
+      binding.replace((prev) => applyPatches(prev, patches, direction, binding.keyOf, binding.stamp ? stamp : undefined));
+    }
+    setLastDestructive(null);
+  }, []);
+
+  const undo = useCallback(() => {
+    const operation = undoStack[undoStack.length - 1];
+    if (!operation) return;
+    replay(operation, 'undo');
+    setUndoStack((prev) => prev.filter((entry) => entry.id !== operation.id));
+    setRedoStack((prev) => [...prev, operation]);
+  }, [undoStack, replay]);
+
+  const redo = useCallback(() => {
+    const operation = redoStack[redoStack.length - 1];
+    if (!operation) return;
+    replay(operation, 'redo');
+    setRedoStack((prev) => prev.filter((entry) => entry.id !== operation.id));
+    setUndoStack((prev) => [...prev, operation]);
+  }, [redoStack, replay]);
+
+  useEffect(() => {
+    function handleKey(event: KeyboardEvent) {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Leave text fields their own native undo.
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) redo();
+      else undo();
+    }
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [undo, redo]);
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    undoLabel: undoStack[undoStack.length - 1]?.label,
+    redoLabel: redoStack[redoStack.length - 1]?.label,
+    /** The latest destructive operation, until it is undone or dismissed. */
+    lastDestructive,
+    dismissToast: () => setLastDestructive(null)
+  };
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildCalendar, importCalendar, parseICalDate, type ICalProperty } from './ical';
+import type { Reminder } from './models';
+
+const dtstart = (value: string, params: Record<string, string> = {}): ICalProperty => ({ name: 'DTSTART', params, value });
+
+describe('parseICalDate', () => {
+  it('reads UTC times exactly and TZID times on that zone clock', () => {
+    assert.equal(parseICalDate(dtstart('20260310T090000Z'), 'Asia/Tokyo')?.toISOString(), '2026-03-10T09:00:00.000Z');
+    const zoned = parseICalDate(dtstart('20260310T090000', { TZID: 'America/New_York' }), 'Asia/Tokyo');
+    assert.equal(zoned?.toISOString(), '2026-03-10T13:00:00.000Z');
+    const unique = parseICalDate(dtstart('20260310T090000', { TZID: '/Europe/Berlin' }), 'Asia/Tokyo');
+    assert.equal(unique?.toISOString(), '2026-03-10T08:00:00.000Z');
+  });
+
+  it('reads floating times, dates and unknown TZIDs on the given clock', () => {
+    assert.equal(parseICalDate(dtstart('20260310T090000'), 'Asia/Tokyo')?.toISOString(), '2026-03-10T00:00:00.000Z');
+    assert.equal(parseICalDate(dtstart('20260310'), 'Asia/Tokyo')?.toISOString(), '2026-03-09T15:00:00.000Z');
+    const windows = parseICalDate(dtstart('20260310T090000', { TZID: 'Tokyo Standard Time' }), 'Asia/Tokyo');
+    assert.equal(windows?.toISOString(), '2026-03-10T00:00:00.000Z');
+  });
+
+  it('rejects malformed values', () => {
+    assert.equal(parseICalDate(dtstart('2026-03-10')), null);
+    assert.equal(parseICalDate(undefined), null);
+  });
+});
+
+describe('buildCalendar', () => {
+  const reminder = (recurrence?: Reminder['recurrence']): Reminder => ({
+    id: 'r1',
+    title: 'Stand-up',
+    scheduledFor: '2026-03-10T13:00:00.000Z',
+    channel: 'push',
+    recurrence
+  });
+  const now = new Date('2026-03-01T00:00:00.000Z');
+
+  it('starts a recurring item on the user clock', () => {
+    const recurrence = { dtstart: '2026-03-10T13:00:00.000Z', rrule: 'FREQ=WEEKLY;BYDAY=TU' };
+    const calendar = buildCalendar({ tasks: [], reminders: [reminder(recurrence)] }, { now, timeZone: 'America/New_York' });
+    assert.match(calendar, /\r\nDTSTART;TZID=America\/New_York:20260310T090000\r\nRRULE:FREQ=WEEKLY;BYDAY=TU\r\n/);
+  });
+
+  it('keeps one-off items in UTC', () => {
+    const calendar = buildCalendar({ tasks: [], reminders: [reminder()] }, { now, timeZone: 'America/New_York' });
+    assert.match(calendar, /\r\nDTSTART:20260310T130000Z\r\n/);
+  });
+
+  it('round-trips a recurring reminder through import', () => {
+    const recurrence = { dtstart: '2026-03-10T13:00:00.000Z', rrule: 'FREQ=WEEKLY;BYDAY=TU' };
+    const calendar = buildCalendar({ tasks: [], reminders: [reminder(recurrence)] }, { now, timeZone: 'America/New_York' });
+    const result = importCalendar(calendar, { tasks: [], reminders: [] }, (prefix) => `${prefix}-new`, 'Asia/Tokyo');
+    assert.equal(result.reminders.length, 1);
+    assert.equal(result.reminders[0].recurrence?.dtstart, recurrence.dtstart);
+  });
+});
@@ -0,0 +1,334 @@
+import { isTimeZone } from './auth/protocol';
+import { wallClock, zonedTime } from './datetime';
+import type { Reminder, Task } from './models';
+import { upcomingOccurrence, validateRRule, type Recurrence } from './recurrence';
+
+export type ICalProperty = { name: string; params: Record<string, string>; value: string };
+
+export type ICalComponent = { type: string; properties: ICalProperty[]; components: ICalComponent[] };
+
+export type CalendarImport = {
+  tasks: Task[];
+  reminders: Reminder[];
+  created: number;
+  updated: number;
+  unchanged: number;
+};
+
+const PRODID = '-//NeuroNest//Second Brain//EN';
+const channels: Reminder['channel'][] = ['mobile', 'email', 'push'];
+
+/** RFC 5545 PRIORITY: 1 is highest, 9 lowest, 0 undefined. */
+const priorityValues: Record<Task['priority'], number> = { high: 1, medium: 5, low: 9 };
+
+function priorityFromValue(value: string | undefined): Task['priority'] {
+  const level = Number(value);
+  if (!level) return 'medium';
+  if (level <= 4) return 'high';
+  return level === 5 ? 'medium' : 'low';
+}
+
+/** UID a record is published under; imported records keep the UID of their source event. */
+export function calendarUid(record: { id: string; icalUid?: string }) {
+  return record.icalUid ?? `${record.id}@neuronest`;
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function formatDate(value: string | Date) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** A DATE-TIME as `timeZone`'s clock reads it, for use with a TZID parameter. */
+function formatZonedDate(value: string, timeZone: string) {
+  const { year, month, day, hour, minute, second } = wallClock(new Date(value), timeZone);
+  const pad = (number: number) => String(number).padStart(2, '0');
+  return `${year}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}${pad(second)}`;
+}
+
+const encoder = new TextEncoder();
+
+/** Folds a content line at 75 octets without splitting multi-byte characters. */
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Repeats follow the user's clock, so a series starts in their zone: subscribers then expand
+ * BYDAY and BYHOUR there too, and the series keeps its time across DST changes.
+ */
+function recurrenceLines(recurrence: Recurrence | undefined, fallbackStart: string, timeZone: string) {
+  if (!recurrence) return [`DTSTART:${formatDate(fallbackStart)}`];
+  return [`DTSTART;TZID=${timeZone}:${formatZonedDate(recurrence.dtstart, timeZone)}`, `RRULE:${recurrence.rrule}`];
+}
+
+function reminderEvent(reminder: Reminder, stamp: string, timeZone: string) {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${calendarUid(reminder)}`,
+    `DTSTAMP:${stamp}`,
+    ...recurrenceLines(reminder.recurrence, reminder.scheduledFor, timeZone),
+    'DURATION:PT15M',
+    `SUMMARY:${escapeText(reminder.title)}`,
+    ...(reminder.updatedAt ? [`LAST-MODIFIED:${formatDate(reminder.updatedAt)}`] : []),
+    `X-NEURONEST-CHANNEL:${reminder.channel}`,
+    'BEGIN:VALARM',
+    `ACTION:${reminder.channel === 'email' ? 'EMAIL' : 'DISPLAY'}`,
+    'TRIGGER:PT0S',
+    `DESCRIPTION:${escapeText(reminder.title)}`,
+    ...(reminder.channel === 'email' ? [`SUMMARY:${escapeText(reminder.title)}`] : []),
+    'END:VALARM',
+    'END:VEVENT'
+  ];
+}
+
+function taskTodo(task: Task, tasks: Task[], stamp: string, timeZone: string) {
+  const parent = task.parentId ? tasks.find((entry) => entry.id === task.parentId) : undefined;
+  return [
+    'BEGIN:VTODO',
+    `UID:${calendarUid(task)}`,
+    `DTSTAMP:${stamp}`,
+    ...(task.recurrence ? recurrenceLines(task.recurrence, task.recurrence.dtstart, timeZone) : []),
+    `DUE:${formatDate(task.dueDate as string)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    `PRIORITY:${priorityValues[task.priority]}`,
+    `STATUS:${task.done ? 'COMPLETED' : task.status === 'in-progress' ? 'IN-PROCESS' : 'NEEDS-ACTION'}`,
+    ...(task.done && task.lastCompletedAt ? [`COMPLETED:${formatDate(task.lastCompletedAt)}`] : []),
+    ...(parent ? [`RELATED-TO:${calendarUid(parent)}`] : []),
+    ...(task.updatedAt ? [`LAST-MODIFIED:${formatDate(task.updatedAt)}`] : []),
+    'END:VTODO'
+  ];
+}
+
+/**
+ * Publishes reminders as VEVENTs with a VALARM at the scheduled time and dated tasks as VTODOs.
+ * `timeZone` is the user's; recurring items start on its clock.
+ */
+export function buildCalendar(
+  { tasks, reminders }: { tasks: Task[]; reminders: Reminder[] },
+  { name = 'NeuroNest', now = new Date(), timeZone = 'UTC' }: { name?: string; now?: Date; timeZone?: string } = {}
+) {
+  const stamp = formatDate(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+    'X-PUBLISHED-TTL:PT15M',
+    ...reminders.flatMap((reminder) => reminderEvent(reminder, stamp, timeZone)),
+    ...tasks.filter((task) => task.dueDate).flatMap((task) => taskTodo(task, tasks, stamp, timeZone)),
+    'END:VCALENDAR'
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+function parseProperty(line: string): ICalProperty | null {
+  // The value starts at the first colon outside a quoted parameter value.
+  let quoted = false;
+  let split = -1;
+  for (let index = 0; index < line.length; index += 1) {
+    if (line[index] === '"') quoted = !quoted;
+    else if (line[index] === ':' && !quoted) {
+      split = index;
+      break;
+    }
+  }
+  if (split === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, split).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+}
+
+/** Parses iCalendar text into its component tree; throws if it is not a VCALENDAR. */
+export function parseICalendar(text: string): ICalComponent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const root: ICalComponent = { type: 'ROOT', properties: [], components: [] };
+  const stack = [root];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    if (!property) continue;
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  const calendars = root.components.filter((component) => component.type === 'VCALENDAR');
+  if (calendars.length === 0) throw new Error('Not an iCalendar file');
+  return calendars;
+}
+
+function propertyOf(component: ICalComponent, name: string) {
+  return component.properties.find((property) => property.name === name);
+}
+
+/**
+ * Reads DATE and DATE-TIME values. UTC values are exact and TZID-qualified ones are read on
+ * that zone's clock. Floating times, all-day dates (as midnight) and TZIDs that are not IANA
+ * names, such as Windows zone names, are read on `timeZone`'s clock, the user's by default.
+ */
+export function parseICalDate(property: ICalProperty | undefined, timeZone?: string): Date | null {
+  const match = property?.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!property || !match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const [y, m, d, h, min, sec] = [year, month, day, hour, minute, second].map(Number);
+  // A leading slash marks a globally unique TZID; the rest is the zone's name.
+  const tzid = property.params.TZID?.replace(/^\//, '');
+  const date = utc
+    ? new Date(Date.UTC(y, m - 1, d, h, min, sec))
+    : zonedTime({ year: y, month: m, day: d, hour: h, minute: min, second: sec }, isTimeZone(tzid) ? tzid : timeZone);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function recurrenceOf(component: ICalComponent, start: Date): Recurrence | undefined {
+  const rrule = propertyOf(component, 'RRULE')?.value;
+  if (!rrule || validateRRule(rrule)) return undefined;
+  return { rrule, dtstart: start.toISOString() };
+}
+
+function eventChannel(event: ICalComponent): Reminder['channel'] {
+  const declared = propertyOf(event, 'X-NEURONEST-CHANNEL')?.value as Reminder['channel'] | undefined;
+  if (declared && channels.includes(declared)) return declared;
+  const alarm = event.components.find((component) => component.type === 'VALARM');
+  return propertyOf(alarm ?? event, 'ACTION')?.value.toUpperCase() === 'EMAIL' ? 'email' : 'push';
+}
+
+function differs<T extends object>(existing: T, fields: Partial<T>) {
+  return (Object.keys(fields) as Array<keyof T>).some(
+    (key) => JSON.stringify(existing[key]) !== JSON.stringify(fields[key])
+  );
+}
+
+/**
+ * Turns VEVENTs into reminders and VTODOs into tasks. Records are matched by UID, so
+ * importing the same file twice (or our own feed) updates rather than duplicates.
+ */
+export function importCalendar(
+  text: string,
+  { tasks, reminders }: { tasks: Task[]; reminders: Reminder[] },
+  createId: (prefix: string) => string,
+  timeZone?: string
+): CalendarImport {
+  const components = parseICalendar(text).flatMap((calendar) => calendar.components);
+  const stamp = new Date().toISOString();
+  const result: CalendarImport = { tasks: [...tasks], reminders: [...reminders], created: 0, updated: 0, unchanged: 0 };
+  const seen = new Set<string>();
+  const parents: Array<{ taskId: string; parentUid: string }> = [];
+
+  function upsert<T extends { id: string; icalUid?: string; updatedAt?: string }>(
+    records: T[],
+    uid: string,
+    fields: Omit<T, 'id' | 'updatedAt'>,
+    prefix: string
+  ) {
+    const index = records.findIndex((record) => calendarUid(record) === uid);
+    if (index === -1) {
+      const created = { ...fields, id: createId(prefix), icalUid: uid, updatedAt: stamp } as T;
+      records.unshift(created);
+      result.created += 1;
+      return created;
+    }
+    const existing = records[index];
+    if (!differs(existing, fields as Partial<T>)) {
+      result.unchanged += 1;
+      return existing;
+    }
+    records[index] = { ...existing, ...fields, updatedAt: stamp };
+    result.updated += 1;
+    return records[index];
+  }
+
+  for (const component of components) {
+    const uid = propertyOf(component, 'UID')?.value;
+    // Overrides of single occurrences (RECURRENCE-ID) are folded into the series.
+    if (!uid || seen.has(uid) || propertyOf(component, 'RECURRENCE-ID')) continue;
+    const title = unescapeText(propertyOf(component, 'SUMMARY')?.value ?? '').trim();
+
+    if (component.type === 'VEVENT') {
+      const start = parseICalDate(propertyOf(component, 'DTSTART'), timeZone);
+      if (!start) continue;
+      seen.add(uid);
+      const recurrence = recurrenceOf(component, start);
+      // A series lands on its next occurrence rather than on a start date long past.
+      const scheduledFor = (recurrence && upcomingOccurrence(recurrence.dtstart, recurrence, new Date(), timeZone)) || start;
+      upsert<Reminder>(
+        result.reminders,
+        uid,
+        {
+          title: title || 'Untitled event',
+          scheduledFor: scheduledFor.toISOString(),
+          channel: eventChannel(component),
+          recurrence
+        },
+        'reminder'
+      );
+    } else if (component.type === 'VTODO') {
+      seen.add(uid);
+      const start = parseICalDate(propertyOf(component, 'DTSTART'), timeZone);
+      const due = parseICalDate(propertyOf(component, 'DUE'), timeZone) ?? start;
+      const status = propertyOf(component, 'STATUS')?.value.toUpperCase();
+      const completed = parseICalDate(propertyOf(component, 'COMPLETED'), timeZone);
+      const task = upsert<Task>(
+        result.tasks,
+        uid,
+        {
+          title: title || 'Untitled task',
+          done: status === 'COMPLETED' || Boolean(completed),
+          status: status === 'IN-PROCESS' ? 'in-progress' : undefined,
+          dueDate: due?.toISOString(),
+          priority: priorityFromValue(propertyOf(component, 'PRIORITY')?.value),
+          recurrence: start || due ? recurrenceOf(component, (start ?? due) as Date) : undefined
+        },
+        'task'
+      );
+      const parentUid = propertyOf(component, 'RELATED-TO')?.value;
+      if (parentUid) parents.push({ taskId: task.id, parentUid });
+    }
+  }
+
+  for (const { taskId, parentUid } of parents) {
+    const parent = result.tasks.find((task) => calendarUid(task) === parentUid);
+    const index = result.tasks.findIndex((task) => task.id === taskId);
+    if (parent && index !== -1 && result.tasks[index].parentId !== parent.id) {
+      result.tasks[index] = { ...result.tasks[index], parentId: parent.id, updatedAt: stamp };
+    }
+  }
+
+  return result;
+}
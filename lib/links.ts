@@ -0,0 +1,90 @@
+import type { EntityKind, EntityLink, EntityRef, FileResource, LinkType, Note, Reminder, Task } from './models';
+
+export type LinkableCollections = {
+  notes: Note[];
+  tasks: Task[];
+  reminders: Reminder[];
+  files: FileResource[];
+};
+
+export type EntitySummary = { ref: EntityRef; title: string };
+
+/** Incoming side of a link, as seen from its target. */
+export type Backlink = { source: EntitySummary; type: LinkType };
+
+export const entitySections: Record<EntityKind, string> = {
+  note: 'notes',
+  task: 'tasks',
+  reminder: 'reminders',
+  file: 'files'
+};
+
+export const entityKindLabels: Record<EntityKind, string> = {
+  note: 'Note',
+  task: 'Task',
+  reminder: 'Reminder',
+  file: 'File'
+};
+
+/** Which link types make sense from one kind of record, in the order the picker offers them. */
+export const linkTypesFor: Record<EntityKind, LinkType[]> = {
+  note: ['related-to'],
+  task: ['derived-from', 'related-to'],
+  reminder: ['about', 'related-to'],
+  file: ['attached-to', 'related-to']
+};
+
+export function entityKey(ref: EntityRef) {
+  return `${ref.kind}:${ref.id}`;
+}
+
+function sameLink(a: EntityLink, b: EntityLink) {
+  return a.type === b.type && entityKey(a.target) === entityKey(b.target);
+}
+
+export function addLink<T extends { links?: EntityLink[]; updatedAt?: string }>(record: T, link: EntityLink, now = new Date()): T {
+  const links = record.links ?? [];
+  if (links.some((entry) => sameLink(entry, link))) return record;
+  return { ...record, links: [...links, link], updatedAt: now.toISOString() };
+}
+
+export function removeLink<T extends { links?: EntityLink[]; updatedAt?: string }>(record: T, link: EntityLink, now = new Date()): T {
+  const links = (record.links ?? []).filter((entry) => !sameLink(entry, link));
+  return { ...record, links: links.length ? links : undefined, updatedAt: now.toISOString() };
+}
+
+export function summarizeEntities({ notes, tasks, reminders, files }: LinkableCollections): EntitySummary[] {
+  return [
+    ...notes.map((note) => ({ ref: { kind: 'note' as const, id: note.id }, title: note.title })),
+    ...tasks.map((task) => ({ ref: { kind: 'task' as const, id: task.id }, title: task.title })),
+    ...reminders.map((reminder) => ({ ref: { kind: 'reminder' as const, id: reminder.id }, title: reminder.title })),
+    ...files.map((file) => ({ ref: { kind: 'file' as const, id: file.id }, title: file.name }))
+  ];
+}
+
+/** Outgoing links keyed by source, and backlinks keyed by target. Links to deleted records are dropped. */
+export function linkMaps(collections: LinkableCollections) {
+  const summaries = new Map(summarizeEntities(collections).map((entry) => [entityKey(entry.ref), entry]));
+  const outgoing = new Map<string, Array<{ link: EntityLink; target: EntitySummary }>>();
+  const incoming = new Map<string, Backlink[]>();
+  const records: Array<{ ref: EntityRef; links?: EntityLink[] }> = [
+    ...collections.notes.map((note) => ({ ref: { kind: 'note' as const, id: note.id }, links: note.links })),
+    ...collections.tasks.map((task) => ({ ref: { kind: 'task' as const, id: task.id }, links: task.links })),
+    ...collections.reminders.map((reminder) => ({ ref: { kind: 'reminder' as const, id: reminder.id }, links: reminder.links })),
+    ...collections.files.map((file) => ({ ref: { kind: 'file' as const, id: file.id }, links: file.links }))
+  ];
+
+  for (const { ref, links = [] } of records) {
+    const sourceKey = entityKey(ref);
+    const source = summaries.get(sourceKey);
+    for (const link of links) {
+      const targetKey = entityKey(link.target);
+      const target = summaries.get(targetKey);
+      if (!source || !target || targetKey === sourceKey) continue;
+      outgoing.set(sourceKey, [...(outgoing.get(sourceKey) ?? []), { link, target }]);
+      incoming.set(targetKey, [...(incoming.get(targetKey) ?? []), { source, type: link.type }]);
+    }
+  }
+
+  return { outgoing, incoming };
+}
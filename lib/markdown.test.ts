@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  isSafeHref,
+  markdownToPlainText,
+  parseInline,
+  parseMarkdown,
+  toggleChecklistItem,
+  type BlockNode,
+  type ListItem
+} from './markdown';
+
+function firstList(blocks: BlockNode[]): ListItem[] {
+  for (const block of blocks) {
+    if (block.type === 'list') return block.items;
+    if (block.type === 'quote') {
+      const items = firstList(block.children);
+      if (items.length) return items;
+    }
+  }
+  return [];
+}
+
+describe('parseInline', () => {
+  it('nests emphasis and keeps the text around it', () => {
+    assert.deepEqual(parseInline('a **bold _and em_** b'), [
+      { type: 'text', text: 'a ' },
+      { type: 'strong', children: [{ type: 'text', text: 'bold ' }, { type: 'em', children: [{ type: 'text', text: 'and em' }] }] },
+      { type: 'text', text: ' b' }
+    ]);
+  });
+
+  it('leaves snake_case alone but emphasises _words_', () => {
+    assert.deepEqual(parseInline('snake_case_name'), [{ type: 'text', text: 'snake_case_name' }]);
+    assert.deepEqual(parseInline('_word_'), [{ type: 'em', children: [{ type: 'text', text: 'word' }] }]);
+  });
+
+  it('does not parse Markdown inside code spans', () => {
+    assert.deepEqual(parseInline('`**raw**`'), [{ type: 'code', text: '**raw**' }]);
+  });
+
+  it('reads wiki links with and without a label', () => {
+    assert.deepEqual(parseInline('[[Roadmap]] [[Q3 plan|the plan]]'), [
+      { type: 'wikiLink', target: 'Roadmap', label: 'Roadmap' },
+      { type: 'text', text: ' ' },
+      { type: 'wikiLink', target: 'Q3 plan', label: 'the plan' }
+    ]);
+  });
+
+  it('drops unsafe links but still finds later safe ones', () => {
+    const nodes = parseInline('[bad](javascript:alert(1)) then https://example.com/docs.');
+    assert.ok(!nodes.some((node) => node.type === 'link' && node.href.startsWith('javascript:')));
+    assert.deepEqual(
+      nodes.find((node) => node.type === 'link'),
+      { type: 'link', href: 'https://example.com/docs', children: [{ type: 'text', text: 'https://example.com/docs' }] }
+    );
+  });
+});
+
+describe('isSafeHref', () => {
+  it('allows web, mail and relative links only', () => {
+    assert.ok(isSafeHref('https://example.com'));
+    assert.ok(isSafeHref('mailto:me@example.com'));
+    assert.ok(isSafeHref('/notes'));
+    assert.ok(isSafeHref('#top'));
+    assert.ok(!isSafeHref('javascript:alert(1)'));
+    assert.ok(!isSafeHref('data:text/html,hi'));
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('builds headings, paragraphs, rules and fenced code', () => {
+    const blocks = parseMarkdown('# Title #\r\nfirst line\nsecond line\n\n---\n```ts\nconst a = 1;\n```');
+    assert.deepEqual(blocks, [
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'first line\nsecond line' }] },
+      { type: 'rule' },
+      { type: 'code', language: 'ts', text: 'const a = 1;' }
+    ]);
+  });
+
+  it('splits lists when they switch between bullets and numbers', () => {
+    const blocks = parseMarkdown('- one\n- two\n1. first');
+    assert.deepEqual(
+      blocks.map((block) => (block.type === 'list' ? [block.ordered, block.items.length] : null)),
+      [
+        [false, 2],
+        [true, 1]
+      ]
+    );
+  });
+
+  it('records checklist state and absolute source lines, also inside quotes', () => {
+    const items = firstList(parseMarkdown('intro\n\n- [ ] open\n- [x] done\n- plain'));
+    assert.deepEqual(
+      items.map(({ checked, line }) => ({ checked, line })),
+      [
+        { checked: false, line: 2 },
+        { checked: true, line: 3 },
+        { checked: undefined, line: 4 }
+      ]
+    );
+    const quoted = firstList(parseMarkdown('note\n> quote\n> - [ ] inside'));
+    assert.deepEqual(
+      quoted.map(({ checked, line }) => ({ checked, line })),
+      [{ checked: false, line: 2 }]
+    );
+  });
+});
+
+describe('toggleChecklistItem', () => {
+  it('flips the box on the given line only', () => {
+    const source = '- [ ] a\n- [x] b\n- c';
+    assert.equal(toggleChecklistItem(source, 0), '- [x] a\n- [x] b\n- c');
+    assert.equal(toggleChecklistItem(source, 1), '- [ ] a\n- [ ] b\n- c');
+    assert.equal(toggleChecklistItem(source, 2), source);
+    assert.equal(toggleChecklistItem(source, 9), source);
+  });
+
+  it('toggles items in quotes and nested quotes', () => {
+    assert.equal(toggleChecklistItem('> - [ ] quoted', 0), '> - [x] quoted');
+    assert.equal(toggleChecklistItem('> > 1. [X] deep', 0), '> > 1. [ ] deep');
+  });
+
+  it('toggles the line the parser reported', () => {
+    const source = 'text\n> - [ ] one\n> - [ ] two';
+    const [, second] = firstList(parseMarkdown(source));
+    assert.equal(toggleChecklistItem(source, second.line), 'text\n> - [ ] one\n> - [x] two');
+  });
+});
+
+describe('markdownToPlainText', () => {
+  it('keeps the words and drops the markup', () => {
+    assert.equal(
+      markdownToPlainText('## Plan\n- [ ] Call **Ana** about [[Budget|the budget]]\n> see [docs](https://x.io)'),
+      'Plan\nCall Ana about the budget\nsee docs'
+    );
+  });
+});
@@ -0,0 +1,221 @@
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'wikiLink'; target: string; label: string };
+
+export type ListItem = {
+  children: InlineNode[];
+  /** Set for `- [ ]` / `- [x]` checklist items. */
+  checked?: boolean;
+  /** Zero-based source line, so the rendered checkbox can toggle the Markdown. */
+  line: number;
+};
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'rule' };
+
+const listPattern = /^\s*([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const checklistPattern = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\])/;
+
+/** Only these schemes survive as links; anything else (e.g. `javascript:`) renders as text. */
+export function isSafeHref(href: string) {
+  return /^(https?:|mailto:|\/|#)/i.test(href.trim());
+}
+
+const inlinePatterns: Array<{ pattern: RegExp; build: (match: RegExpExecArray) => InlineNode | null }> = [
+  { pattern: /`([^`]+)`/g, build: (match) => ({ type: 'code', text: match[1] }) },
+  {
+    pattern: /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g,
+    build: (match) => ({ type: 'wikiLink', target: match[1].trim(), label: (match[2] ?? match[1]).trim() })
+  },
+  {
+    pattern: /\[([^\]]+)\]\(([^)\s]+)\)/g,
+    build: (match) =>
+      isSafeHref(match[2]) ? { type: 'link', href: match[2], children: parseInline(match[1]) } : null
+  },
+  { pattern: /\*\*(?=\S)(.+?)(?<=\S)\*\*/g, build: (match) => ({ type: 'strong', children: parseInline(match[1]) }) },
+  // Underscores only emphasise at word boundaries, so snake_case stays intact.
+  {
+    pattern: /(?<![\p{L}\p{N}])__(?=\S)(.+?)(?<=\S)__(?![\p{L}\p{N}])/gu,
+    build: (match) => ({ type: 'strong', children: parseInline(match[1]) })
+  },
+  { pattern: /~~(?=\S)(.+?)(?<=\S)~~/g, build: (match) => ({ type: 'strike', children: parseInline(match[1]) }) },
+  { pattern: /\*(?=\S)(.+?)(?<=\S)\*/g, build: (match) => ({ type: 'em', children: parseInline(match[1]) }) },
+  {
+    pattern: /(?<![\p{L}\p{N}])_(?=\S)(.+?)(?<=\S)_(?![\p{L}\p{N}])/gu,
+    build: (match) => ({ type: 'em', children: parseInline(match[1]) })
+  },
+  {
+    pattern: /https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/g,
+    build: (match) => ({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] })
+  }
+];
+
+/** Parses inline Markdown by repeatedly taking the earliest-starting construct. */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    let best: { index: number; length: number; node: InlineNode } | null = null;
+    for (const { pattern, build } of inlinePatterns) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      // A rejected match (say, an unsafe link) must not hide a later valid one.
+      while ((match = pattern.exec(rest)) && (!best || match.index < best.index)) {
+        const node = build(match);
+        if (node) {
+          best = { index: match.index, length: match[0].length, node };
+          break;
+        }
+      }
+    }
+    if (!best) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (best.index > 0) nodes.push({ type: 'text', text: rest.slice(0, best.index) });
+    nodes.push(best.node);
+    rest = rest.slice(best.index + best.length);
+  }
+
+  return nodes;
+}
+
+function parseLines(lines: string[], offset: number): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    const fence = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      const body: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) body.push(lines[index++]);
+      index += 1;
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      index += 1;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push({ type: 'rule' });
+      index += 1;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const start = index;
+      const quoted: string[] = [];
+      while (index < lines.length && /^\s*>/.test(lines[index])) quoted.push(lines[index++].replace(/^\s*>\s?/, ''));
+      blocks.push({ type: 'quote', children: parseLines(quoted, offset + start) });
+      continue;
+    }
+
+    const item = line.match(listPattern);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: ListItem[] = [];
+      while (index < lines.length) {
+        const match = lines[index].match(listPattern);
+        if (!match || /\d/.test(match[1]) !== ordered) break;
+        items.push({
+          children: parseInline(match[3]),
+          checked: match[2] === undefined ? undefined : match[2] !== ' ',
+          line: offset + index
+        });
+        index += 1;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    index += 1;
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !/^\s*(#{1,6}\s|>|```|~~~)/.test(lines[index]) &&
+      !listPattern.test(lines[index])
+    ) {
+      paragraph.push(lines[index++].trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * A small CommonMark subset: headings, paragraphs, bullet/numbered lists, checklists,
+ * fenced code, quotes, rules, and inline emphasis, code, links and `[[wiki links]]`.
+ * It builds a tree rather than HTML so rendering never injects markup.
+ */
+export function parseMarkdown(source: string): BlockNode[] {
+  return parseLines(source.replace(/\r\n?/g, '\n').split('\n'), 0);
+}
+
+/** Flips the checklist box on `line` of the source, including items inside (nested) quotes. */
+export function toggleChecklistItem(source: string, line: number) {
+  const lines = source.split('\n');
+  if (!lines[line]) return source;
+  // Strip quote markers the way the parser does, so the pattern sees the same text it did.
+  const quote = /^(?:\s*>\s?)*/.exec(lines[line])?.[0] ?? '';
+  lines[line] =
+    quote +
+    lines[line]
+      .slice(quote.length)
+      .replace(checklistPattern, (_, open: string, mark: string, close: string) => `${open}${mark === ' ' ? 'x' : ' '}${close}`);
+  return lines.join('\n');
+}
+
+/** Plain text of the Markdown, for previews and snippets. */
+export function markdownToPlainText(source: string) {
+  const inlineText = (nodes: InlineNode[]): string =>
+    nodes
+      .map((node) =>
+        node.type === 'text' || node.type === 'code'
+          ? node.text
+          : node.type === 'wikiLink'
+            ? node.label
+            : inlineText(node.children)
+      )
+      .join('');
+  const blockText = (blocks: BlockNode[]): string[] =>
+    blocks.flatMap((block) => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+          return [inlineText(block.children)];
+        case 'list':
+          return block.items.map((item) => inlineText(item.children));
+        case 'code':
+          return [block.text];
+        case 'quote':
+          return blockText(block.children);
+        case 'rule':
+          return [];
+      }
+    });
+  return blockText(parseMarkdown(source)).join('\n');
+}
@@ -0,0 +1,158 @@
+import type { ActionProposal } from './assistant/actions';
+import type { Recurrence } from './recurrence';
+import type { ItemShare } from './workspaces/access';
+
+export type EntityKind = 'note' | 'task' | 'reminder' | 'file';
+
+export type EntityRef = { kind: EntityKind; id: string };
+
+export type LinkType = 'derived-from' | 'attached-to' | 'about' | 'related-to';
+
+/** A typed, directed link from the record that stores it to `target`. */
+export type EntityLink = { type: LinkType; target: EntityRef };
+
+export type Note = {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+  links?: EntityLink[];
+  /** Set by the server on the first sync: the member who created the note. */
+  ownerId?: string;
+  shares?: ItemShare[];
+};
+
+export type Task = {
+  id: string;
+  title: string;
+  done: boolean;
+  /** Board column while the task is open; `done` alone marks completion. */
+  status?: 'todo' | 'in-progress';
+  dueDate?: string;
+  /** Start of the time block the task is planned into on the day planner. */
+  scheduledStart?: string;
+  scheduledMinutes?: number;
+  priority: 'low' | 'medium' | 'high';
+  parentId?: string;
+  /** Ids of tasks that must be done before this one can be completed. */
+  blockedBy?: string[];
+  recurrence?: Recurrence;
+  lastCompletedAt?: string;
+  /** UID of the calendar item this task was imported from. */
+  icalUid?: string;
+  tags?: string[];
+  links?: EntityLink[];
+  updatedAt?: string;
+  ownerId?: string;
+  shares?: ItemShare[];
+  /** Member of a shared space who is expected to do the task. */
+  assigneeId?: string;
+};
+
+export type Reminder = {
+  id: string;
+  title: string;
+  scheduledFor: string;
+  channel: 'mobile' | 'email' | 'push';
+  recurrence?: Recurrence;
+  status?: 'pending' | 'fired' | 'snoozed' | 'acknowledged';
+  snoozedUntil?: string;
+  acknowledgedAt?: string;
+  escalation?: ReminderEscalation;
+  icalUid?: string;
+  tags?: string[];
+  links?: EntityLink[];
+  updatedAt?: string;
+  delivery?: ReminderDelivery;
+  escalationDelivery?: ReminderDelivery;
+  /** Reminders are never shared; other members of a space do not receive them. */
+  ownerId?: string;
+};
+
+/** Re-sends a fired reminder on a second channel if it is not acknowledged in time. */
+export type ReminderEscalation = {
+  channel: Reminder['channel'];
+  afterMinutes: number;
+};
+
+export type ReminderDelivery = {
+  status: 'delivered' | 'failed' | 'missed';
+  channel: Reminder['channel'];
+  /** The fire time (`scheduledFor`, or `snoozedUntil` while snoozed) this outcome belongs to. */
+  occurrence: string;
+  at: string;
+  error?: string;
+  /** Failed attempts at this occurrence so far. */
+  attempt?: number;
+  /** When a retryable failure is tried again; absent once the attempts run out. */
+  retryAt?: string;
+};
+
+export type FileResource = {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadedAt: string;
+  updatedAt?: string;
+  description?: string;
+  /** Plain text pulled out of PDF, DOCX, Markdown and text uploads, for search and the assistant. */
+  content?: string;
+  extraction?: 'done' | 'unsupported' | 'failed';
+  /** Small JPEG data URL for image uploads. */
+  thumbnail?: string;
+  /** Server copy of the bytes once uploaded; the local copy lives in IndexedDB. */
+  remoteUrl?: string;
+  links?: EntityLink[];
+  ownerId?: string;
+  shares?: ItemShare[];
+};
+
+export type ChatMessage = {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  updatedAt?: string;
+  actions?: ActionProposal[];
+  /** Retrieved sources the reply may cite inline as `[n]`. */
+  citations?: Citation[];
+  ownerId?: string;
+};
+
+export type Citation = {
+  /** The `n` in `[n]`. */
+  index: number;
+  kind: 'note' | 'file';
+  id: string;
+  title: string;
+  excerpt: string;
+};
+
+export const priorityTokens: Record<Task['priority'], string> = {
+  high: 'High Impact',
+  medium: 'Momentum',
+  low: 'Nice to Have'
+};
+
+export const extractionTokens: Record<NonNullable<FileResource['extraction']>, string> = {
+  done: 'Text extracted',
+  unsupported: 'No text to extract',
+  failed: 'Text extraction failed'
+};
+
+export const channelTokens: Record<Reminder['channel'], string> = {
+  mobile: 'Mobile Push',
+  email: 'Email Digest',
+  push: 'Desktop Push'
+};
+
+export const linkTokens: Record<LinkType, string> = {
+  'derived-from': 'Derived from',
+  'attached-to': 'Attached to',
+  about: 'About',
+  'related-to': 'Related to'
+};
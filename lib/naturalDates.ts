@@ -0,0 +1,170 @@
+import { addDays, wallClock, zonedTime } from './datetime';
+
+const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const months = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Time of day used when a phrase names a day but no time. */
+const DEFAULT_HOUR = 17;
+
+const weekdayPattern = '(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|sday|rsday|urday)?';
+const monthPattern = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+// "at 3", or a bare "3pm" / "15:00"; a lone number without either isn't taken as a time.
+const timePattern =
+  '(?:\\s+(?:at\\s+(?=\\d)|(?=\\d{1,2}(?::\\d{2}|\\s*[ap]m\\b)))(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?)?';
+const lead = '(?:\\b(?:by|on|before|due|until|this)\\s+)?';
+
+export type DuePhrase = {
+  date: Date;
+  /** The matched text, so callers can strip it from a title. */
+  phrase: string;
+};
+
+/** `date`'s day in `timeZone` at the given time, or DEFAULT_HOUR when none was said. */
+function atTime(date: Date, timeZone: string | undefined, hourText?: string, minuteText?: string, meridiem?: string) {
+  const { year, month, day } = wallClock(date, timeZone);
+  const suffix = meridiem?.toLowerCase();
+  let hour = hourText ? Number(hourText) : DEFAULT_HOUR;
+  if (suffix === 'pm' && hour < 12) hour += 12;
+  if (suffix === 'am' && hour === 12) hour = 0;
+  // "at 4" means the afternoon; nobody schedules a task for 4am without saying so.
+  if (!suffix && hourText && !minuteText && hour >= 1 && hour <= 7) hour += 12;
+  return zonedTime({ year, month, day, hour, minute: minuteText ? Number(minuteText) : 0 }, timeZone);
+}
+
+/** Midnight on a calendar date in `timeZone`; `month` is 0-based like `Date`'s, and overflow rolls over. */
+function calendarDate(year: number, month: number, day: number, timeZone: string | undefined) {
+  return zonedTime({ year, month: month + 1, day }, timeZone);
+}
+
+function weekdayIndex(name: string) {
+  return weekdays.findIndex((day) => day.startsWith(name.slice(0, 3).toLowerCase()));
+}
+
+/** The next date (after `from`'s day, unless `allowToday`) that falls on `weekday` in `timeZone`. */
+function nextWeekday(from: Date, weekday: number, timeZone: string | undefined, allowToday = false) {
+  const offset = (weekday - wallClock(from, timeZone).weekday + 7) % 7;
+  return addDays(from, offset === 0 && !allowToday ? 7 : offset, timeZone);
+}
+
+type Rule = {
+  pattern: RegExp;
+  resolve: (match: RegExpExecArray, now: Date, timeZone: string | undefined) => Date | null;
+};
+
+const rules: Rule[] = [
+  {
+    pattern: new RegExp(`${lead}\\b(\\d{4})-(\\d{2})-(\\d{2})${timePattern}`, 'i'),
+    resolve: (m, _now, zone) =>
+      atTime(calendarDate(Number(m[1]), Number(m[2]) - 1, Number(m[3]), zone), zone, m[4], m[5], m[6])
+  },
+  {
+    pattern: new RegExp(`${lead}\\b(today|tonight|eod|end of (?:the )?day)\\b${timePattern}`, 'i'),
+    resolve: (m, now, zone) => atTime(now, zone, m[2] ?? (m[1].toLowerCase() === 'tonight' ? '20' : undefined), m[3], m[4])
+  },
+  {
+    pattern: new RegExp(`${lead}\\b(tomorrow|tmrw)\\b${timePattern}`, 'i'),
+    resolve: (m, now, zone) => atTime(addDays(now, 1, zone), zone, m[2], m[3], m[4])
+  },
+  {
+    pattern: /\bin\s+(\d+|a|an|one|two|three)\s+(day|week)s?\b/i,
+    resolve: (m, now, zone) => {
+      const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3 };
+      const count = words[m[1].toLowerCase()] ?? Number(m[1]);
+      return atTime(addDays(now, m[2].toLowerCase() === 'week' ? count * 7 : count, zone), zone);
+    }
+  },
+  {
+    pattern: /(?:\b(?:by|before|until)\s+)?\b(?:the\s+)?end of (?:the\s+)?(week|month)\b/i,
+    resolve: (m, now, zone) => {
+      if (m[1].toLowerCase() === 'week') return atTime(nextWeekday(now, 5, zone, true), zone);
+      const { year, month } = wallClock(now, zone);
+      return atTime(calendarDate(year, month, 0, zone), zone);
+    }
+  },
+  {
+    pattern: new RegExp(`${lead}\\bnext\\s+(week|month|${weekdayPattern})\\b${timePattern}`, 'i'),
+    resolve: (m, now, zone) => {
+      const unit = m[1].toLowerCase();
+      if (unit === 'week') return atTime(nextWeekday(now, 1, zone), zone);
+      if (unit === 'month') {
+        const { year, month } = wallClock(now, zone);
+        return atTime(calendarDate(year, month, 1, zone), zone);
+      }
+      return atTime(nextWeekday(now, weekdayIndex(unit), zone), zone, m[3], m[4], m[5]);
+    }
+  },
+  {
+    pattern: new RegExp(`\\b(?:by|on|before|due|until|this)\\s+${weekdayPattern}\\b${timePattern}`, 'i'),
+    resolve: (m, now, zone) => atTime(nextWeekday(now, weekdayIndex(m[1]), zone, true), zone, m[2], m[3], m[4])
+  },
+  {
+    pattern: new RegExp(`${lead}\\b${monthPattern}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b${timePattern}`, 'i'),
+    resolve: (m, now, zone) => upcomingDate(now, months.indexOf(m[1].slice(0, 3).toLowerCase()), Number(m[2]), m, zone)
+  },
+  {
+    pattern: new RegExp(`${lead}\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${monthPattern}${timePattern}`, 'i'),
+    resolve: (m, now, zone) => upcomingDate(now, months.indexOf(m[2].slice(0, 3).toLowerCase()), Number(m[1]), m, zone)
+  },
+  {
+    pattern: new RegExp(`\\b(?:by|on|before|due|until)\\s+(\\d{1,2})/(\\d{1,2})\\b${timePattern}`, 'i'),
+    resolve: (m, now, zone) => upcomingDate(now, Number(m[1]) - 1, Number(m[2]), m, zone)
+  },
+  {
+    // A time on its own is the next time the clock reads it: later today, else tomorrow.
+    pattern: /(?:\b(?:by|before|until)\s+)?\b(?:at\s+|(?=\d{1,2}(?::\d{2}|\s*[ap]m\b)))(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i,
+    resolve: (m, now, zone) => {
+      if (Number(m[1]) > 23 || Number(m[2] ?? 0) > 59) return null;
+      const today = atTime(now, zone, m[1], m[2], m[3]);
+      return today > now ? today : addDays(today, 1, zone);
+    }
+  }
+];
+
+/** Month/day with no year means the next time that date comes round (today included). */
+function upcomingDate(now: Date, month: number, day: number, match: RegExpExecArray, timeZone: string | undefined) {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  const [hour, minute, meridiem] = match.slice(-3);
+  const today = wallClock(now, timeZone);
+  let date = atTime(calendarDate(today.year, month, day, timeZone), timeZone, hour, minute, meridiem);
+  const startOfToday = calendarDate(today.year, today.month - 1, today.day, timeZone);
+  if (date < startOfToday) date = atTime(calendarDate(today.year + 1, month, day, timeZone), timeZone, hour, minute, meridiem);
+  return date;
+}
+
+/**
+ * Finds the first due-date phrase in free text ("by Friday", "tomorrow at 9am", "in 3 days",
+ * "end of month", "March 14") and resolves it against `now` on `timeZone`'s clock.
+ */
+export function parseDuePhrase(text: string, now = new Date(), timeZone?: string): DuePhrase | null {
+  let best: (DuePhrase & { index: number }) | null = null;
+  for (const { pattern, resolve } of rules) {
+    const match = pattern.exec(text);
+    if (!match || (best && match.index >= best.index)) continue;
+    const date = resolve(match, now, timeZone);
+    if (date && !Number.isNaN(date.getTime())) best = { date, phrase: match[0], index: match.index };
+  }
+  return best ? { date: best.date, phrase: best.phrase } : null;
+}
+
+export function stripPhrase(text: string, phrase: string) {
+  return text
+    .replace(phrase, ' ')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .trim();
+}
+
+/** Formats a date for `<input type="datetime-local">`, which has no timezone, as `timeZone`'s clock reads it. */
+export function toDateTimeLocal(date: Date, timeZone?: string) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const { year, month, day, hour, minute } = wallClock(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+}
+
+/** Reads a `datetime-local` value as a time on `timeZone`'s clock; null when it isn't one. */
+export function fromDateTimeLocal(value: string, timeZone?: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return zonedTime({ year, month, day, hour, minute }, timeZone);
+}
@@ -0,0 +1,250 @@
+import { addDays, startOfDay, wallClock, zonedTime } from './datetime';
+import type { Reminder, Task } from './models';
+import { iterateOccurrences } from './recurrence';
+import { fireTimeOf, statusOf } from './reminders/lifecycle';
+import { buildTaskTree, openBlockers } from './tasks';
+
+export type AgendaItem = {
+  /** A task's time block, a task's due time, or a reminder firing. */
+  kind: 'block' | 'due' | 'reminder';
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  /** Past due and still open, a block that ended unfinished, or a fired reminder nobody acknowledged. */
+  overdue: boolean;
+  priority?: Task['priority'];
+};
+
+export type PlannedBlock = { taskId: string; start: string; minutes: number };
+
+export type WorkingHours = { startHour: number; endHour: number };
+
+export const defaultWorkingHours: WorkingHours = { startHour: 9, endHour: 18 };
+
+export const blockLengths = [15, 30, 45, 60, 90, 120, 180];
+
+const SLOT_MINUTES = 15;
+const REMINDER_MINUTES = 15;
+const MAX_OCCURRENCES = 500;
+
+const defaultMinutes: Record<Task['priority'], number> = { high: 90, medium: 60, low: 30 };
+const priorityRank: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+/** Monday of the week containing `date`, in `timeZone`. */
+export function startOfWeek(date: Date, timeZone?: string) {
+  return addDays(startOfDay(date, timeZone), -((wallClock(date, timeZone).weekday + 6) % 7), timeZone);
+}
+
+function addMinutes(date: Date, minutes: number) {
+  return new Date(date.getTime() + minutes * 60_000);
+}
+
+function roundUpToSlot(date: Date) {
+  const slot = SLOT_MINUTES * 60_000;
+  return new Date(Math.ceil(date.getTime() / slot) * slot);
+}
+
+export function blockMinutes(task: Task) {
+  return task.scheduledMinutes ?? defaultMinutes[task.priority];
+}
+
+/** Puts a task on the timeline; the length defaults to what its priority usually takes. */
+export function scheduleTask(task: Task, start: Date, minutes = blockMinutes(task), now = new Date()): Task {
+  return { ...task, scheduledStart: start.toISOString(), scheduledMinutes: minutes, updatedAt: now.toISOString() };
+}
+
+export function unscheduleTask(task: Task, now = new Date()): Task {
+  return { ...task, scheduledStart: undefined, scheduledMinutes: undefined, updatedAt: now.toISOString() };
+}
+
+export function blockEnd(task: Task) {
+  return task.scheduledStart ? addMinutes(new Date(task.scheduledStart), blockMinutes(task)) : null;
+}
+
+/** A block that ran out without the task getting done. */
+export function isBlockMissed(task: Task, now = new Date()) {
+  const end = blockEnd(task);
+  return !task.done && end !== null && end.getTime() <= now.getTime();
+}
+
+export function isTaskOverdue(task: Task, now = new Date()) {
+  return !task.done && Boolean(task.dueDate) && new Date(task.dueDate as string).getTime() < now.getTime();
+}
+
+/** Fire times of a reminder inside [from, to), expanding repeats. */
+function reminderTimes(reminder: Reminder, from: Date, to: Date, timeZone?: string) {
+  const fireTime = new Date(fireTimeOf(reminder));
+  const times = fireTime >= from && fireTime < to ? [fireTime] : [];
+  if (!reminder.recurrence) return times;
+  let count = 0;
+  try {
+    for (const occurrence of iterateOccurrences(reminder.recurrence, timeZone)) {
+      if (occurrence >= to || (count += 1) > MAX_OCCURRENCES) break;
+      if (occurrence >= from && occurrence.getTime() !== fireTime.getTime()) times.push(occurrence);
+    }
+  } catch {
+    return times;
+  }
+  return times;
+}
+
+/** Everything on the calendar between `from` and `to`, in time order; repeats are expanded in `timeZone`. */
+export function agendaItems(
+  { tasks, reminders }: { tasks: Task[]; reminders: Reminder[] },
+  from: Date,
+  to: Date,
+  now = new Date(),
+  timeZone?: string
+): AgendaItem[] {
+  const items: AgendaItem[] = [];
+  for (const task of tasks) {
+    const end = blockEnd(task);
+    if (task.scheduledStart && end) {
+      const start = new Date(task.scheduledStart);
+      if (start < to && end > from) {
+        items.push({
+          kind: 'block',
+          id: task.id,
+          title: task.title,
+          start,
+          end,
+          overdue: isBlockMissed(task, now) || isTaskOverdue(task, now),
+          priority: task.priority
+        });
+      }
+      continue;
+    }
+    if (task.done || !task.dueDate) continue;
+    const due = new Date(task.dueDate);
+    if (due >= from && due < to) {
+      items.push({
+        kind: 'due',
+        id: task.id,
+        title: task.title,
+        start: due,
+        end: due,
+        overdue: isTaskOverdue(task, now),
+        priority: task.priority
+      });
+    }
+  }
+  for (const reminder of reminders) {
+    const status = statusOf(reminder);
+    for (const start of reminderTimes(reminder, from, to, timeZone)) {
+      items.push({
+        kind: 'reminder',
+        id: reminder.id,
+        title: reminder.title,
+        start,
+        end: addMinutes(start, REMINDER_MINUTES),
+        overdue: status === 'fired' && start.getTime() <= now.getTime()
+      });
+    }
+  }
+  return items.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Open tasks that still need a slot: no block yet, or a block that was missed.
+ * Parents with open subtasks are left out so the subtasks get scheduled instead.
+ */
+export function unscheduledTasks(tasks: Task[], now = new Date()) {
+  const tree = buildTaskTree(tasks);
+  return tasks.filter(
+    (task) =>
+      !task.done &&
+      (!task.scheduledStart || isBlockMissed(task, now)) &&
+      !(tree.children.get(task.id) ?? []).some((child) => !child.done)
+  );
+}
+
+type Interval = { start: number; end: number };
+
+function busyIntervals(items: AgendaItem[]): Interval[] {
+  return items
+    .filter((item) => item.kind !== 'due')
+    .map((item) => ({ start: item.start.getTime(), end: item.end.getTime() }))
+    .sort((a, b) => a.start - b.start);
+}
+
+function firstFit(busy: Interval[], from: number, until: number, minutes: number) {
+  const length = minutes * 60_000;
+  let cursor = from;
+  for (const interval of busy) {
+    if (interval.end <= cursor) continue;
+    if (interval.start - cursor >= length) break;
+    cursor = Math.max(cursor, roundUpToSlot(new Date(interval.end)).getTime());
+  }
+  return cursor + length <= until ? cursor : null;
+}
+
+function planningWindow(day: Date, now: Date, { startHour, endHour }: WorkingHours, timeZone?: string) {
+  const { year, month, day: date } = wallClock(day, timeZone);
+  const start = zonedTime({ year, month, day: date, hour: startHour }, timeZone);
+  const end = zonedTime({ year, month, day: date, hour: endHour }, timeZone);
+  return { from: Math.max(start.getTime(), roundUpToSlot(now).getTime()), until: end.getTime() };
+}
+
+/**
+ * The earliest free slot on `day` long enough for the task, skipping existing blocks and reminders.
+ * The day and working hours are read on `timeZone`'s clock.
+ */
+export function nextFreeSlot(
+  task: Task,
+  collections: { tasks: Task[]; reminders: Reminder[] },
+  day: Date,
+  now = new Date(),
+  hours = defaultWorkingHours,
+  timeZone?: string
+) {
+  const { from, until } = planningWindow(day, now, hours, timeZone);
+  const dayStart = startOfDay(day, timeZone);
+  const busy = busyIntervals(
+    agendaItems(collections, dayStart, addDays(dayStart, 1, timeZone), now, timeZone).filter((item) => item.id !== task.id)
+  );
+  const start = firstFit(busy, from, until, blockMinutes(task));
+  return start === null ? null : new Date(start);
+}
+
+function comparePlanOrder(dayEnd: number) {
+  const dueBy = (task: Task) => (task.dueDate ? new Date(task.dueDate).getTime() : Number.POSITIVE_INFINITY);
+  return (a: Task, b: Task) =>
+    Number(dueBy(a) >= dayEnd) - Number(dueBy(b) >= dayEnd) ||
+    priorityRank[a.priority] - priorityRank[b.priority] ||
+    dueBy(a) - dueBy(b);
+}
+
+/**
+ * Proposes time blocks for `day`: anything due by the end of the day goes first, then by
+ * priority and due date. Blocked tasks wait for their prerequisites; tasks that don't fit
+ * in the working hours (on `timeZone`'s clock) are left for another day.
+ */
+export function planDay(
+  { tasks, reminders }: { tasks: Task[]; reminders: Reminder[] },
+  day = new Date(),
+  now = new Date(),
+  hours = defaultWorkingHours,
+  timeZone?: string
+): PlannedBlock[] {
+  const dayStart = startOfDay(day, timeZone);
+  const dayEnd = addDays(dayStart, 1, timeZone);
+  const { from, until } = planningWindow(day, now, hours, timeZone);
+  if (from >= until) return [];
+
+  const busy = busyIntervals(agendaItems({ tasks, reminders }, dayStart, dayEnd, now, timeZone));
+  const candidates = unscheduledTasks(tasks, now)
+    .filter((task) => !openBlockers(task, tasks).length)
+    .sort(comparePlanOrder(dayEnd.getTime()));
+
+  const plan: PlannedBlock[] = [];
+  for (const task of candidates) {
+    const minutes = blockMinutes(task);
+    const start = firstFit(busy, from, until, minutes);
+    if (start === null) continue;
+    plan.push({ taskId: task.id, start: new Date(start).toISOString(), minutes });
+    busy.push({ start, end: start + minutes * 60_000 });
+    busy.sort((a, b) => a.start - b.start);
+  }
+  return plan.sort((a, b) => a.start.localeCompare(b.start));
+}
@@ -0,0 +1,73 @@
+import { inferPriority } from './actionItems';
+import type { Reminder, Task } from './models';
+import { parseDuePhrase, stripPhrase } from './naturalDates';
+
+export type CaptureDraft = {
+  kind: 'task' | 'reminder';
+  title: string;
+  priority: Task['priority'];
+  /** ISO date-time: the task's due date or the reminder's scheduled time (an hour out when unset). */
+  due?: string;
+  channel: Reminder['channel'];
+  tags: string[];
+};
+
+const channelWords: Record<string, Reminder['channel']> = {
+  email: 'email',
+  mail: 'email',
+  mobile: 'mobile',
+  phone: 'mobile',
+  sms: 'mobile',
+  push: 'push',
+  desktop: 'push'
+};
+
+const reminderPrefix = /^\s*(?:remind me|reminder:?)\b/i;
+const taskPrefix = /^\s*(?:(?:add|create|new)\s+(?:a\s+)?task\b:?|todo:|task:)/i;
+const channelPhrase = /\b(?:via|by|on)\s+(email|mail|mobile|phone|sms|push|desktop)\b/i;
+const tagPattern = /(^|\s)#([\p{L}\p{N}_-]+)/gu;
+
+/**
+ * Parses one line of quick capture into a task or reminder. "remind me …" makes a reminder;
+ * anything else is a task. Picks out `#tags`, `!high`-style priority (or words like "urgent"),
+ * "via email"-style channels and a due-date phrase (read on `timeZone`'s clock), and leaves
+ * the rest as the title.
+ */
+export function parseQuickCapture(input: string, now = new Date(), timeZone?: string): CaptureDraft {
+  const kind = reminderPrefix.test(input) ? 'reminder' : 'task';
+  let text = input.replace(reminderPrefix, ' ').replace(taskPrefix, ' ');
+
+  const tags: string[] = [];
+  text = text.replace(tagPattern, (_, space: string, tag: string) => {
+    if (!tags.includes(tag.toLowerCase())) tags.push(tag.toLowerCase());
+    return space;
+  });
+
+  const priority = inferPriority(text);
+  text = text.replace(/(^|\s)!(high|medium|low)\b/gi, '$1').replace(/\b(urgent|asap)\b[:!,]?/gi, '');
+
+  let channel: Reminder['channel'] = 'mobile';
+  const channelMatch = channelPhrase.exec(text);
+  if (channelMatch) {
+    channel = channelWords[channelMatch[1].toLowerCase()];
+    text = stripPhrase(text, channelMatch[0]);
+  }
+
+  const due = parseDuePhrase(text, now, timeZone);
+  if (due) text = stripPhrase(text, due.phrase);
+
+  const title = text
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+    .replace(/^(?:to|that)\s+/i, '')
+    .replace(/^[,;:\-–\s]+|[,;:\-–\s]+$/g, '');
+
+  return {
+    kind,
+    title: title.charAt(0).toUpperCase() + title.slice(1),
+    priority,
+    due: due?.date.toISOString(),
+    channel,
+    tags
+  };
+}
@@ -0,0 +1,96 @@
+import { markdownToPlainText } from '../markdown';
+import type { FileResource, Note } from '../models';
+
+export type SourceKind = 'note' | 'file';
+
+export type KnowledgeChunk = {
+  /** `kind:recordId#n`, stable while the record's text is unchanged. */
+  id: string;
+  kind: SourceKind;
+  recordId: string;
+  title: string;
+  text: string;
+};
+
+export type ChunkOptions = { maxChars?: number };
+
+function splitLong(unit: string, maxChars: number) {
+  const sentences = unit.split(/(?<=[.!?])\s+/);
+  const pieces: string[] = [];
+  for (const sentence of sentences) {
+    if (sentence.length <= maxChars) {
+      pieces.push(sentence);
+      continue;
+    }
+    let current = '';
+    for (const word of sentence.split(/\s+/)) {
+      if (current && current.length + word.length + 1 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${word}` : word;
+    }
+    if (current) pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Packs paragraphs (or the sentences of an over-long paragraph) into chunks of at most
+ * `maxChars`. Each chunk after the first repeats the previous chunk's last short unit so
+ * an idea that straddles a boundary is still retrievable from either side.
+ */
+export function chunkText(text: string, { maxChars = 800 }: ChunkOptions = {}) {
+  const units = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => (paragraph.length > maxChars ? splitLong(paragraph, maxChars) : [paragraph]));
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  for (const unit of units) {
+    if (current.length && length + unit.length + 1 > maxChars) {
+      chunks.push(current.join('\n'));
+      const carry = current[current.length - 1];
+      current = carry.length <= maxChars / 3 && carry.length + unit.length + 1 <= maxChars ? [carry] : [];
+      length = current.reduce((total, entry) => total + entry.length + 1, 0);
+    }
+    current.push(unit);
+    length += unit.length + 1;
+  }
+  if (current.length) chunks.push(current.join('\n'));
+  return chunks;
+}
+
+/** Notes contribute their rendered text; files contribute their description and extracted text. */
+export function buildKnowledgeChunks(
+  { notes, files }: { notes: Note[]; files: FileResource[] },
+  options?: ChunkOptions
+): KnowledgeChunk[] {
+  const sources = [
+    ...notes.map((note) => ({
+      kind: 'note' as const,
+      recordId: note.id,
+      title: note.title,
+      text: markdownToPlainText(note.content)
+    })),
+    ...files.map((file) => ({
+      kind: 'file' as const,
+      recordId: file.id,
+      title: file.name,
+      text: [file.description, file.content].filter(Boolean).join('\n\n')
+    }))
+  ];
+
+  return sources.flatMap(({ kind, recordId, title, text }) =>
+    chunkText(text, options).map((chunk, index) => ({
+      id: `${kind}:${recordId}#${index}`,
+      kind,
+      recordId,
+      title,
+      text: chunk
+    }))
+  );
+}
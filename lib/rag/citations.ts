@@ -0,0 +1,41 @@
+import type { ChatSource } from '../assistant/protocol';
+import type { Citation } from '../models';
+import type { RetrievedChunk } from './knowledgeIndex';
+
+const EXCERPT_CHARS = 200;
+
+/** Numbers retrieved chunks from 1 in rank order, as the prompt and the reply refer to them. */
+export function toChatSources(results: RetrievedChunk[]): ChatSource[] {
+  return results.map(({ chunk }, index) => ({
+    index: index + 1,
+    kind: chunk.kind,
+    id: chunk.recordId,
+    title: chunk.title,
+    text: chunk.text
+  }));
+}
+
+export function toCitations(sources: ChatSource[]): Citation[] {
+  return sources.map(({ text, ...source }) => ({
+    ...source,
+    excerpt: text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS - 1).trimEnd()}…` : text
+  }));
+}
+
+export type CitedSegment = { text: string } | { citation: Citation };
+
+/** Splits a reply into plain text and `[n]` markers that match one of its citations. */
+export function splitCitations(text: string, citations: Citation[]): CitedSegment[] {
+  const byIndex = new Map(citations.map((citation) => [citation.index, citation]));
+  const segments: CitedSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(/\[(\d{1,2})\]/g)) {
+    const citation = byIndex.get(Number(match[1]));
+    if (!citation) continue;
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ citation });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+}
@@ -0,0 +1,80 @@
+import { tokenize } from '../search/query';
+
+export interface Embedder {
+  /** Vectors from different embedders aren't comparable, so the index is keyed by this. */
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const stopWords = new Set(
+  (
+    'a an and are as at be but by can do does for from had has have how i if in into is it its me my of on or ' +
+    'our so that the their them then there these they this to was we were what when where which who why will ' +
+    'with you your about should would could'
+  ).split(' ')
+);
+
+/** FNV-1a, 32-bit. */
+function hash(value: string) {
+  let result = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    result ^= value.charCodeAt(index);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+function crudeStem(term: string) {
+  if (term.length > 5 && term.endsWith('ing')) return term.slice(0, -3);
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 4 && term.endsWith('es')) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+export function embeddingTerms(text: string) {
+  const words = tokenize(text)
+    .filter((term) => !stopWords.has(term))
+    .map(crudeStem);
+  const bigrams = words.slice(1).map((word, index) => `${words[index]}_${word}`);
+  return [...words, ...bigrams];
+}
+
+/**
+ * Local stand-in for an embedding model: hashes stemmed words and word pairs into a fixed
+ * number of signed buckets with sublinear term weighting, then L2-normalises. No network,
+ * fully deterministic, and good enough for topical retrieval over a personal workspace.
+ * A real model can replace it by implementing `Embedder`.
+ */
+export function createHashingEmbedder({ dimensions = 512 }: { dimensions?: number } = {}): Embedder {
+  return {
+    name: `hashing-${dimensions}`,
+    async embed(texts) {
+      return texts.map((text) => {
+        const counts = new Map<string, number>();
+        for (const term of embeddingTerms(text)) counts.set(term, (counts.get(term) ?? 0) + 1);
+
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const [term, count] of counts) {
+          const bucket = hash(term);
+          const weight = (1 + Math.log(count)) * (term.includes('_') ? 0.5 : 1);
+          vector[(bucket >>> 1) % dimensions] += bucket & 1 ? -weight : weight;
+        }
+        const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+        return norm ? vector.map((value) => value / norm) : vector;
+      });
+    }
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,72 @@
+import type { KnowledgeChunk } from './chunking';
+import { cosineSimilarity, type Embedder } from './embeddings';
+
+export type IndexedChunk = KnowledgeChunk & { vector: number[] };
+
+export type KnowledgeIndex = {
+  embedder: string;
+  chunks: IndexedChunk[];
+};
+
+export type RetrievedChunk = { chunk: KnowledgeChunk; score: number };
+
+export type RetrieveOptions = {
+  limit?: number;
+  /** At most this many chunks from one note or file, so one long document can't crowd out the rest. */
+  perSource?: number;
+  minScore?: number;
+};
+
+function contentKey(chunk: KnowledgeChunk) {
+  return `${chunk.title}\n${chunk.text}`;
+}
+
+/**
+ * Re-embeds only chunks whose text changed since the previous index (matched on title and
+ * text, so renumbered chunks are reused too). Switching embedders rebuilds everything.
+ */
+export async function updateKnowledgeIndex(
+  previous: KnowledgeIndex | null,
+  chunks: KnowledgeChunk[],
+  embedder: Embedder
+): Promise<KnowledgeIndex> {
+  const known = new Map<string, number[]>();
+  if (previous?.embedder === embedder.name) {
+    previous.chunks.forEach((chunk) => known.set(contentKey(chunk), chunk.vector));
+  }
+
+  const missing = chunks.filter((chunk) => !known.has(contentKey(chunk)));
+  const vectors = missing.length ? await embedder.embed(missing.map(contentKey)) : [];
+  missing.forEach((chunk, index) => known.set(contentKey(chunk), vectors[index]));
+
+  return {
+    embedder: embedder.name,
+    chunks: chunks.map((chunk) => ({ ...chunk, vector: known.get(contentKey(chunk))! }))
+  };
+}
+
+export async function retrieve(
+  index: KnowledgeIndex,
+  query: string,
+  embedder: Embedder,
+  { limit = 5, perSource = 2, minScore = 0.12 }: RetrieveOptions = {}
+): Promise<RetrievedChunk[]> {
+  if (!query.trim() || !index.chunks.length) return [];
+  const [vector] = await embedder.embed([query]);
+
+  const ranked = index.chunks
+    .map(({ vector: chunkVector, ...chunk }) => ({ chunk, score: cosineSimilarity(vector, chunkVector) }))
+    .filter((entry) => entry.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+
+  const perRecord = new Map<string, number>();
+  const results: RetrievedChunk[] = [];
+  for (const entry of ranked) {
+    const key = `${entry.chunk.kind}:${entry.chunk.recordId}`;
+    if ((perRecord.get(key) ?? 0) >= perSource) continue;
+    perRecord.set(key, (perRecord.get(key) ?? 0) + 1);
+    results.push(entry);
+    if (results.length >= limit) break;
+  }
+  return results;
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { ChatSource } from '../assistant/protocol';
+import type { FileResource, Note } from '../models';
+import { buildKnowledgeChunks, type KnowledgeChunk } from './chunking';
+import { toChatSources } from './citations';
+import { createHashingEmbedder, type Embedder } from './embeddings';
+import { retrieve, updateKnowledgeIndex, type KnowledgeIndex, type RetrieveOptions } from './knowledgeIndex';
+
+const REINDEX_DELAY_MS = 800;
+
+const defaultEmbedder = createHashingEmbedder();
+
+/**
+ * Keeps an embedding index of note and file chunks in memory, re-embedding only what changed
+ * a moment after edits settle. `retrieveSources` catches up first if an edit is still pending.
+ */
+export function useKnowledgeIndex(
+  { notes, files }: { notes: Note[]; files: FileResource[] },
+  embedder: Embedder = defaultEmbedder
+) {
+  const chunks = useMemo(() => buildKnowledgeChunks({ notes, files }), [notes, files]);
+  const indexRef = useRef<{ chunks: KnowledgeChunk[]; index: KnowledgeIndex } | null>(null);
+  const building = useRef<Promise<KnowledgeIndex> | null>(null);
+
+  const ensureIndex = useCallback(async () => {
+    const current = indexRef.current;
+    if (current?.chunks === chunks && current.index.embedder === embedder.name) return current.index;
+    const build = updateKnowledgeIndex(current?.index ?? null, chunks, embedder);
+    building.current = build;
+    const index = await build;
+    // A newer build may have started while this one ran; keep whichever matches the latest chunks.
+    if (building.current === build) indexRef.current = { chunks, index };
+    return index;
+  }, [chunks, embedder]);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => void ensureIndex(), REINDEX_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [ensureIndex]);
+
+  const retrieveSources = useCallback(
+    async (query: string, options?: RetrieveOptions): Promise<ChatSource[]> => {
+      const index = await ensureIndex();
+      return toChatSources(await retrieve(index, query, embedder, options));
+    },
+    [ensureIndex, embedder]
+  );
+
+  return { retrieveSources };
+}
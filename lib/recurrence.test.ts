@@ -0,0 +1,231 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setDisplayTimeZone, wallClock, zonedTime } from './datetime';
+import {
+  describeRRule,
+  formatRRule,
+  iterateOccurrences,
+  latestOccurrence,
+  nextOccurrence,
+  parseRRule,
+  recurrencePresets,
+  upcomingOccurrence,
+  validateRRule,
+  type Recurrence
+} from './recurrence';
+
+// Occurrences are expanded in local time, so dates are built and compared on the local clock.
+function local(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function take(recurrence: Recurrence, count: number) {
+  const dates: string[] = [];
+  for (const occurrence of iterateOccurrences(recurrence)) {
+    dates.push(local(occurrence));
+    if (dates.length >= count) break;
+  }
+  return dates;
+}
+
+function starting(rrule: string, ...date: [number, number, number, number?, number?]) {
+  const [year, month, day, hour = 9, minute = 0] = date;
+  return { rrule, dtstart: new Date(year, month - 1, day, hour, minute).toISOString() };
+}
+
+describe('parseRRule', () => {
+  it('reads every supported part', () => {
+    const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,MO;BYMONTH=1,7;BYHOUR=8;BYMINUTE=30;COUNT=4');
+    assert.equal(rule.freq, 'MONTHLY');
+    assert.equal(rule.interval, 2);
+    assert.deepEqual(rule.byDay, [{ weekday: 5, ordinal: -1 }, { weekday: 1 }]);
+    assert.deepEqual(rule.byMonth, [1, 7]);
+    assert.deepEqual(rule.byHour, [8]);
+    assert.deepEqual(rule.byMinute, [30]);
+    assert.equal(rule.count, 4);
+  });
+
+  it('is case-insensitive and ignores WKST', () => {
+    assert.deepEqual(parseRRule('freq=weekly;wkst=mo;byday=tu'), { freq: 'WEEKLY', interval: 1, byDay: [{ weekday: 2 }] });
+  });
+
+  it('reads a UTC UNTIL as an exact instant', () => {
+    assert.equal(parseRRule('FREQ=DAILY;UNTIL=20260131T120000Z').until?.toISOString(), '2026-01-31T12:00:00.000Z');
+  });
+
+  it('rejects rules it cannot honour', () => {
+    assert.throws(() => parseRRule(''), /empty/);
+    assert.throws(() => parseRRule('FREQ=HOURLY'), /FREQ must be/);
+    assert.throws(() => parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20260101'), /cannot be combined/);
+    assert.throws(() => parseRRule('FREQ=MONTHLY;BYMONTHDAY=0'), /BYMONTHDAY/);
+    assert.throws(() => parseRRule('FREQ=WEEKLY;BYDAY=XX'), /BYDAY/);
+    assert.throws(() => parseRRule('FREQ=DAILY;BYSECOND=5'), /not supported/);
+    assert.throws(() => parseRRule('FREQ=DAILY;INTERVAL'), /Malformed/);
+  });
+
+  it('round-trips through formatRRule', () => {
+    const text = 'FREQ=YEARLY;INTERVAL=2;BYMONTH=3;BYDAY=2SU;BYHOUR=10;COUNT=5';
+    assert.deepEqual(parseRRule(formatRRule(parseRRule(text))), parseRRule(text));
+  });
+});
+
+describe('validateRRule', () => {
+  it('returns null for a valid rule and the message otherwise', () => {
+    assert.equal(validateRRule('FREQ=DAILY'), null);
+    assert.match(validateRRule('FREQ=DAILY;COUNT=0') ?? '', /COUNT/);
+  });
+});
+
+describe('iterateOccurrences', () => {
+  it('counts dtstart as the first occurrence and stops at COUNT', () => {
+    assert.deepEqual(take(starting('FREQ=DAILY;INTERVAL=2;COUNT=3', 2026, 1, 30), 10), [
+      '2026-01-30 09:00',
+      '2026-02-01 09:00',
+      '2026-02-03 09:00'
+    ]);
+  });
+
+  it('expands weekly BYDAY within each week', () => {
+    // 2026-01-05 is a Monday.
+    assert.deepEqual(take(starting('FREQ=WEEKLY;BYDAY=MO,WE,FR', 2026, 1, 5), 5), [
+      '2026-01-05 09:00',
+      '2026-01-07 09:00',
+      '2026-01-09 09:00',
+      '2026-01-12 09:00',
+      '2026-01-14 09:00'
+    ]);
+  });
+
+  it('skips months that lack the day instead of rolling over', () => {
+    assert.deepEqual(take(starting('FREQ=MONTHLY', 2026, 1, 31), 3), ['2026-01-31 09:00', '2026-03-31 09:00', '2026-05-31 09:00']);
+  });
+
+  it('resolves ordinal weekdays and negative month days', () => {
+    assert.deepEqual(take(starting('FREQ=MONTHLY;BYDAY=-1FR', 2026, 1, 30), 3), [
+      '2026-01-30 09:00',
+      '2026-02-27 09:00',
+      '2026-03-27 09:00'
+    ]);
+    assert.deepEqual(take(starting('FREQ=MONTHLY;BYMONTHDAY=-1', 2026, 1, 31), 3), [
+      '2026-01-31 09:00',
+      '2026-02-28 09:00',
+      '2026-03-31 09:00'
+    ]);
+  });
+
+  it('picks positions out of a period with BYSETPOS', () => {
+    // The last weekday of each month.
+    assert.deepEqual(take(starting('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', 2026, 1, 30), 3), [
+      '2026-01-30 09:00',
+      '2026-02-27 09:00',
+      '2026-03-31 09:00'
+    ]);
+  });
+
+  it('applies BYHOUR and BYMINUTE to every day', () => {
+    assert.deepEqual(take(starting('FREQ=DAILY;BYHOUR=8,17;BYMINUTE=15', 2026, 1, 5, 7), 4), [
+      '2026-01-05 07:00',
+      '2026-01-05 08:15',
+      '2026-01-05 17:15',
+      '2026-01-06 08:15'
+    ]);
+  });
+
+  it('stops after UNTIL', () => {
+    const until = new Date(2026, 0, 7, 23, 59);
+    const stamp = until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    assert.equal(take(starting(`FREQ=DAILY;UNTIL=${stamp}`, 2026, 1, 5), 10).length, 3);
+  });
+
+  it('throws on an invalid start date', () => {
+    assert.throws(() => iterateOccurrences({ rrule: 'FREQ=DAILY', dtstart: 'soon' }).next(), /start date/);
+  });
+});
+
+describe('nextOccurrence and latestOccurrence', () => {
+  const weekly = starting('FREQ=WEEKLY;COUNT=3', 2026, 1, 5);
+
+  it('finds the occurrences either side of a moment', () => {
+    const between = new Date(2026, 0, 8);
+    assert.equal(local(nextOccurrence(weekly, between)!), '2026-01-12 09:00');
+    assert.equal(local(latestOccurrence(weekly, between)!), '2026-01-05 09:00');
+  });
+
+  it('returns null once the rule is exhausted or not started', () => {
+    assert.equal(nextOccurrence(weekly, new Date(2026, 1, 1)), null);
+    assert.equal(latestOccurrence(weekly, new Date(2025, 11, 1)), null);
+    assert.equal(nextOccurrence({ rrule: 'FREQ=NEVER', dtstart: weekly.dtstart }), null);
+  });
+
+  it('keeps a future scheduled time and otherwise moves to the next repeat', () => {
+    const now = new Date(2026, 0, 8);
+    const ahead = new Date(2026, 0, 9).toISOString();
+    assert.equal(upcomingOccurrence(ahead, weekly, now)?.toISOString(), ahead);
+    assert.equal(local(upcomingOccurrence(weekly.dtstart, weekly, now)!), '2026-01-12 09:00');
+    assert.equal(upcomingOccurrence(weekly.dtstart, undefined, now), null);
+  });
+});
+
+describe('describeRRule', () => {
+  it('describes common rules in words', () => {
+    assert.equal(describeRRule('FREQ=DAILY'), 'Every day');
+    assert.equal(describeRRule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'), 'Every weekday');
+    assert.equal(describeRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH'), 'Every 2 weeks on Tuesday and Thursday');
+    assert.equal(describeRRule('FREQ=MONTHLY;BYDAY=-1FR'), 'Every month on the last Friday');
+    assert.equal(describeRRule('FREQ=YEARLY;BYMONTH=6;BYMONTHDAY=1;COUNT=3'), 'Every year on day 1 in June, 3 times');
+    assert.equal(describeRRule('FREQ=DAILY;BYHOUR=9;BYMINUTE=5'), 'Every day at 9:05');
+    assert.equal(describeRRule('nonsense'), 'Custom schedule');
+  });
+});
+
+describe('recurrencePresets', () => {
+  it('derives weekday and month-position choices from the anchor', () => {
+    // The last Friday of January 2026.
+    const rules = recurrencePresets(new Date(2026, 0, 30)).map((preset) => preset.rrule);
+    assert.ok(rules.includes('FREQ=WEEKLY;BYDAY=FR'));
+    assert.ok(rules.includes('FREQ=MONTHLY;BYDAY=-1FR'));
+    assert.ok(rules.includes('FREQ=MONTHLY;BYMONTHDAY=30'));
+  });
+});
+
+describe('time zones', () => {
+  // Two zones, so at least one differs from whatever the test machine runs in.
+  const zones = ['Asia/Tokyo', 'America/New_York'];
+
+  it("keeps the weekday and time on the zone's clock, across a DST change", () => {
+    for (const zone of zones) {
+      // Monday 2 March 2026; New York moves its clocks on 8 March.
+      const dtstart = zonedTime({ year: 2026, month: 3, day: 2, hour: 9 }, zone).toISOString();
+      const clocks: string[] = [];
+      for (const occurrence of iterateOccurrences({ rrule: 'FREQ=WEEKLY;BYDAY=MO;BYMINUTE=30;COUNT=4', dtstart }, zone)) {
+        const { day, weekday, hour, minute } = wallClock(occurrence, zone);
+        clocks.push(`${day} ${weekday} ${hour}:${minute}`);
+      }
+      assert.deepEqual(clocks, ['2 1 9:0', '2 1 9:30', '9 1 9:30', '16 1 9:30'], zone);
+    }
+  });
+
+  it("expands in the user's zone by default", () => {
+    setDisplayTimeZone('Asia/Tokyo');
+    try {
+      const daily = { rrule: 'FREQ=DAILY;BYHOUR=9;BYMINUTE=0', dtstart: '2026-01-05T00:00:00.000Z' };
+      assert.equal(nextOccurrence(daily, new Date('2026-01-05T00:00:00.000Z'))?.toISOString(), '2026-01-06T00:00:00.000Z');
+    } finally {
+      setDisplayTimeZone(undefined);
+    }
+  });
+
+  it("reads a floating UNTIL on the zone's clock", () => {
+    assert.equal(parseRRule('FREQ=DAILY;UNTIL=20260131T090000', 'Asia/Tokyo').until?.toISOString(), '2026-01-31T00:00:00.000Z');
+    assert.equal(parseRRule('FREQ=DAILY;UNTIL=20260131', 'America/New_York').until?.toISOString(), '2026-02-01T04:59:59.000Z');
+  });
+
+  it("derives presets from the anchor's day in the zone", () => {
+    // Friday evening in UTC is already Saturday the 31st in Tokyo.
+    const rules = recurrencePresets(new Date('2026-01-30T20:00:00.000Z'), 'Asia/Tokyo').map((preset) => preset.rrule);
+    assert.ok(rules.includes('FREQ=WEEKLY;BYDAY=SA'));
+    assert.ok(rules.includes('FREQ=MONTHLY;BYDAY=-1SA'));
+    assert.ok(rules.includes('FREQ=MONTHLY;BYMONTHDAY=31'));
+  });
+});
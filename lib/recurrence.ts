@@ -0,0 +1,388 @@
+/**
+ * A small RFC 5545 RRULE engine covering FREQ, INTERVAL, COUNT, UNTIL, BYDAY (with
+ * ordinals such as `1MO` or `-1FR`), BYMONTHDAY, BYMONTH, BYHOUR, BYMINUTE and BYSETPOS.
+ * Occurrences are expanded on the clock of the user's time zone (see `datetime`), anchored
+ * on `dtstart`, so "every Monday at 9:00" stays 9:00 there whatever zone the device is in.
+ */
+
+import { formatDay, wallClock, zonedTime, type WallClock } from './datetime';
+
+export type Recurrence = {
+  rrule: string;
+  dtstart: string;
+};
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type WeekdayRule = { weekday: number; ordinal?: number };
+
+export type RecurrenceRule = {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+  bySetPos?: number[];
+};
+
+export const weekdayCodes = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const monthNames = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+const frequencies: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const MAX_PERIODS = 10_000;
+
+function parseNumberList(value: string, min: number, max: number, name: string) {
+  return value.split(',').map((part) => {
+    const number = Number(part);
+    if (!Number.isInteger(number) || number < min || number > max || (number === 0 && min < 0)) {
+      throw new Error(`${name} has an invalid value "${part}"`);
+    }
+    return number;
+  });
+}
+
+/** A floating UNTIL (no `Z`) is read on `timeZone`'s clock. */
+function parseUntil(value: string, timeZone?: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) throw new Error(`UNTIL has an invalid value "${value}"`);
+  const [, year, month, day, hour = '23', minute = '59', second = '59', utc] = match;
+  const [y, m, d, h, min, sec] = [year, month, day, hour, minute, second].map(Number);
+  if (utc) return new Date(Date.UTC(y, m - 1, d, h, min, sec));
+  return zonedTime({ year: y, month: m, day: d, hour: h, minute: min, second: sec }, timeZone);
+}
+
+export function parseRRule(text: string, timeZone?: string): RecurrenceRule {
+  const source = text.trim().replace(/^RRULE:/i, '');
+  if (!source) throw new Error('Recurrence rule is empty');
+
+  const fields = new Map<string, string>();
+  for (const pair of source.split(';')) {
+    const [key, value] = pair.split('=');
+    if (!key || value === undefined) throw new Error(`Malformed rule part "${pair}"`);
+    fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ') as Frequency | undefined;
+  if (!freq || !frequencies.includes(freq)) throw new Error('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  for (const [key, value] of fields) {
+    switch (key) {
+      case 'FREQ':
+      case 'WKST':
+        break;
+      case 'INTERVAL':
+        [rule.interval] = parseNumberList(value, 1, 1000, 'INTERVAL');
+        break;
+      case 'COUNT':
+        [rule.count] = parseNumberList(value, 1, 10_000, 'COUNT');
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value, timeZone);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((part) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(part);
+          if (!match) throw new Error(`BYDAY has an invalid value "${part}"`);
+          const weekday = weekdayCodes.indexOf(match[2] as (typeof weekdayCodes)[number]);
+          return match[1] ? { weekday, ordinal: Number(match[1]) } : { weekday };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseNumberList(value, -31, 31, 'BYMONTHDAY');
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseNumberList(value, 1, 12, 'BYMONTH');
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseNumberList(value, 0, 23, 'BYHOUR');
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseNumberList(value, 0, 59, 'BYMINUTE');
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseNumberList(value, -366, 366, 'BYSETPOS');
+        break;
+      default:
+        throw new Error(`${key} is not supported`);
+    }
+  }
+  if (rule.count !== undefined && rule.until) throw new Error('COUNT and UNTIL cannot be combined');
+  return rule;
+}
+
+function formatUntil(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function formatRRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay) {
+    parts.push(`BYDAY=${rule.byDay.map(({ weekday, ordinal }) => `${ordinal ?? ''}${weekdayCodes[weekday]}`).join(',')}`);
+  }
+  if (rule.byHour) parts.push(`BYHOUR=${rule.byHour.join(',')}`);
+  if (rule.byMinute) parts.push(`BYMINUTE=${rule.byMinute.join(',')}`);
+  if (rule.bySetPos) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(';');
+}
+
+/** Calendar days are kept as UTC midnights, so stepping through them never meets a DST change. */
+function calendarDay(year: number, month: number, day: number) {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function daysInMonth(year: number, month: number) {
+  return calendarDay(year, month + 1, 0).getUTCDate();
+}
+
+/** Day numbers (1-based) in a month matching the nth weekday; negative ordinals count from the end. */
+function nthWeekdays(year: number, month: number, { weekday, ordinal }: WeekdayRule) {
+  const total = daysInMonth(year, month);
+  const matches: number[] = [];
+  for (let day = 1; day <= total; day += 1) {
+    if (calendarDay(year, month, day).getUTCDay() === weekday) matches.push(day);
+  }
+  if (ordinal === undefined) return matches;
+  const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+  return picked === undefined ? [] : [picked];
+}
+
+function monthDays(rule: RecurrenceRule, year: number, month: number, start: WallClock) {
+  const total = daysInMonth(year, month);
+  let days: number[] | null = null;
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map((day) => (day > 0 ? day : total + day + 1)).filter((day) => day >= 1 && day <= total);
+  }
+  if (rule.byDay) {
+    const weekdays = new Set(rule.byDay.flatMap((entry) => nthWeekdays(year, month, entry)));
+    days = days ? days.filter((day) => weekdays.has(day)) : [...weekdays];
+  }
+  if (!days) days = start.day <= total ? [start.day] : [];
+  return [...new Set(days)].sort((a, b) => a - b).map((day) => calendarDay(year, month, day));
+}
+
+/** The moments each of `days` reaches the rule's times on `timeZone`'s clock. */
+function withTimes(rule: RecurrenceRule, days: Date[], start: WallClock, timeZone?: string) {
+  const hours = rule.byHour ?? [start.hour];
+  const minutes = rule.byMinute ?? [start.minute];
+  return days.flatMap((day) =>
+    hours.flatMap((hour) =>
+      minutes.map((minute) =>
+        zonedTime(
+          { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate(), hour, minute, second: start.second },
+          timeZone
+        )
+      )
+    )
+  );
+}
+
+/** Candidate occurrences for the `index`-th period after the one containing `start`. */
+function expandPeriod(rule: RecurrenceRule, start: WallClock, index: number, timeZone?: string) {
+  const step = index * rule.interval;
+  let days: Date[];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = calendarDay(start.year, start.month - 1, start.day + step);
+      const weekdayOk = !rule.byDay || rule.byDay.some((entry) => entry.weekday === day.getUTCDay());
+      const monthOk = !rule.byMonth || rule.byMonth.includes(day.getUTCMonth() + 1);
+      const total = daysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+      const dayOk =
+        !rule.byMonthDay ||
+        rule.byMonthDay.some((entry) => (entry > 0 ? entry : total + entry + 1) === day.getUTCDate());
+      days = weekdayOk && monthOk && dayOk ? [day] : [];
+      break;
+    }
+    case 'WEEKLY': {
+      const mondayOffset = (start.weekday + 6) % 7;
+      const weekStart = calendarDay(start.year, start.month - 1, start.day - mondayOffset + step * 7);
+      const weekdays = rule.byDay?.map((entry) => entry.weekday) ?? [start.weekday];
+      days = weekdays
+        .map((weekday) =>
+          calendarDay(weekStart.getUTCFullYear(), weekStart.getUTCMonth(), weekStart.getUTCDate() + ((weekday + 6) % 7))
+        )
+        .filter((day) => !rule.byMonth || rule.byMonth.includes(day.getUTCMonth() + 1))
+        .sort((a, b) => a.getTime() - b.getTime());
+      break;
+    }
+    case 'MONTHLY': {
+      const month = calendarDay(start.year, start.month - 1 + step, 1);
+      days =
+        !rule.byMonth || rule.byMonth.includes(month.getUTCMonth() + 1)
+          ? monthDays(rule, month.getUTCFullYear(), month.getUTCMonth(), start)
+          : [];
+      break;
+    }
+    case 'YEARLY': {
+      const year = start.year + step;
+      const months = rule.byMonth?.map((month) => month - 1) ?? [start.month - 1];
+      days = months.flatMap((month) => monthDays(rule, year, month, start));
+      break;
+    }
+  }
+
+  let candidates = withTimes(rule, days, start, timeZone);
+  if (rule.bySetPos) {
+    const sorted = candidates.sort((a, b) => a.getTime() - b.getTime());
+    candidates = rule.bySetPos
+      .map((position) => (position > 0 ? sorted[position - 1] : sorted[sorted.length + position]))
+      .filter((date): date is Date => date !== undefined);
+  }
+  return candidates.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Iterates occurrences in order starting at `dtstart` (which always counts as the first),
+ * on `timeZone`'s clock; it defaults to the user's zone.
+ */
+export function* iterateOccurrences({ rrule, dtstart }: Recurrence, timeZone?: string): Generator<Date> {
+  const rule = parseRRule(rrule, timeZone);
+  const start = new Date(dtstart);
+  if (Number.isNaN(start.getTime())) throw new Error('Recurrence start date is invalid');
+  const clock = wallClock(start, timeZone);
+
+  let emitted = 0;
+  let last = start.getTime() - 1;
+  for (let index = 0; index < MAX_PERIODS; index += 1) {
+    const period = expandPeriod(rule, clock, index, timeZone);
+    const candidates = index === 0 ? [start, ...period] : period;
+    for (const candidate of candidates) {
+      const time = candidate.getTime();
+      if (time <= last) continue;
+      if (rule.until && time > rule.until.getTime()) return;
+      last = time;
+      yield candidate;
+      emitted += 1;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+    }
+  }
+}
+
+/** First occurrence strictly after `after`, or null once the rule is exhausted. */
+export function nextOccurrence(recurrence: Recurrence, after: Date = new Date(), timeZone?: string): Date | null {
+  try {
+    for (const occurrence of iterateOccurrences(recurrence, timeZone)) {
+      if (occurrence.getTime() > after.getTime()) return occurrence;
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
+
+/** Last occurrence at or before `before`, or null if the rule has not started yet. */
+export function latestOccurrence(recurrence: Recurrence, before: Date = new Date(), timeZone?: string): Date | null {
+  let latest: Date | null = null;
+  try {
+    for (const occurrence of iterateOccurrences(recurrence, timeZone)) {
+      if (occurrence.getTime() > before.getTime()) break;
+      latest = occurrence;
+    }
+  } catch {
+    return latest;
+  }
+  return latest;
+}
+
+/** When something scheduled at `scheduledFor` is next due: itself if still ahead, else its next repeat. */
+export function upcomingOccurrence(
+  scheduledFor: string,
+  recurrence: Recurrence | undefined,
+  now = new Date(),
+  timeZone?: string
+) {
+  const scheduled = new Date(scheduledFor);
+  if (scheduled.getTime() >= now.getTime()) return scheduled;
+  return recurrence ? nextOccurrence(recurrence, now, timeZone) : null;
+}
+
+export function validateRRule(text: string) {
+  try {
+    parseRRule(text);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid rule';
+  }
+}
+
+function ordinalLabel(ordinal: number) {
+  if (ordinal === -1) return 'last';
+  return ['first', 'second', 'third', 'fourth', 'fifth'][ordinal - 1] ?? `${ordinal}th`;
+}
+
+function listLabel(items: string[]) {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0] ?? '';
+}
+
+export function describeRRule(text: string, timeZone?: string) {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRRule(text, timeZone);
+  } catch {
+    return 'Custom schedule';
+  }
+
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  const weekdays = rule.byDay?.map(({ weekday, ordinal }) =>
+    ordinal ? `${ordinalLabel(ordinal)} ${weekdayNames[weekday]}` : weekdayNames[weekday]
+  );
+  const isWeekdays =
+    rule.byDay?.length === 5 && !rule.byDay.some((entry) => entry.ordinal || entry.weekday === 0 || entry.weekday === 6);
+
+  let label = every;
+  if (isWeekdays && rule.interval === 1 && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) label = 'Every weekday';
+  else if (weekdays) label = `${every} on ${rule.byDay?.some((entry) => entry.ordinal) ? 'the ' : ''}${listLabel(weekdays)}`;
+  else if (rule.byMonthDay) label = `${every} on day ${listLabel(rule.byMonthDay.map(String))}`;
+  if (rule.byMonth) label += ` in ${listLabel(rule.byMonth.map((month) => monthNames[month - 1]))}`;
+  if (rule.byHour) {
+    const minute = String(rule.byMinute?.[0] ?? 0).padStart(2, '0');
+    label += ` at ${listLabel(rule.byHour.map((hour) => `${hour}:${minute}`))}`;
+  }
+  if (rule.count !== undefined) label += `, ${rule.count} times`;
+  if (rule.until) label += ` until ${formatDay(rule.until, {}, timeZone)}`;
+  return label;
+}
+
+/** Friendly choices for the recurrence picker, derived from the anchor date. */
+export function recurrencePresets(anchor: Date, timeZone?: string) {
+  const { year, month, day, weekday: dayOfWeek } = wallClock(anchor, timeZone);
+  const weekday = weekdayCodes[dayOfWeek];
+  const nth = Math.ceil(day / 7);
+  const isLastWeek = day + 7 > daysInMonth(year, month - 1);
+  const ordinal = nth === 5 || (nth === 4 && isLastWeek) ? -1 : nth;
+  const rules = [
+    'FREQ=DAILY',
+    'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+    `FREQ=WEEKLY;BYDAY=${weekday}`,
+    `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}`,
+    `FREQ=MONTHLY;BYDAY=${ordinal}${weekday}`,
+    `FREQ=MONTHLY;BYMONTHDAY=${day}`,
+    'FREQ=YEARLY'
+  ];
+  return rules.map((rrule) => ({ rrule, label: describeRRule(rrule) }));
+}
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Reminder, ReminderDelivery } from '../models';
+import { DeliveryFailure, failureRecord, isDue, MAX_DELIVERY_ATTEMPTS } from './delivery';
+import { isEscalationDue, markRetrying } from './lifecycle';
+
+const scheduledFor = '2026-03-10T09:00:00.000Z';
+const reminder: Reminder = { id: 'r1', title: 'Call', scheduledFor, channel: 'email', status: 'pending' };
+
+describe('failureRecord', () => {
+  it('backs off retryable failures and counts attempts per occurrence', () => {
+    const first = failureRecord(reminder, new DeliveryFailure('Timed out'));
+    assert.equal(first.attempt, 1);
+    assert.equal(new Date(first.retryAt!).getTime() - new Date(first.at).getTime(), 30_000);
+    const second = failureRecord(reminder, new Error('offline'), first);
+    assert.equal(second.attempt, 2);
+    assert.equal(new Date(second.retryAt!).getTime() - new Date(second.at).getTime(), 60_000);
+    const other = failureRecord(reminder, new Error('offline'), { ...first, occurrence: '2026-03-03T09:00:00.000Z' });
+    assert.equal(other.attempt, 1);
+  });
+
+  it('gives up on permanent failures and after the last attempt', () => {
+    assert.equal(failureRecord(reminder, new DeliveryFailure('No adapter', false)).retryAt, undefined);
+    const last: ReminderDelivery = { ...failureRecord(reminder, new Error('x')), attempt: MAX_DELIVERY_ATTEMPTS - 1 };
+    const final = failureRecord(reminder, new Error('x'), last);
+    assert.equal(final.attempt, MAX_DELIVERY_ATTEMPTS);
+    assert.equal(final.retryAt, undefined);
+  });
+});
+
+describe('retries', () => {
+  const failed = (retryAt?: string): ReminderDelivery => ({
+    status: 'failed',
+    channel: 'email',
+    occurrence: scheduledFor,
+    at: scheduledFor,
+    attempt: 1,
+    retryAt
+  });
+  const fire = new Date(scheduledFor).getTime();
+
+  it('makes a waiting reminder due again once its retry time passes', () => {
+    const waiting = markRetrying(reminder, failed('2026-03-10T09:00:30.000Z'));
+    assert.equal(waiting.status, 'pending');
+    assert.equal(isDue(waiting, fire + 10_000), false);
+    assert.equal(isDue(waiting, fire + 30_000), true);
+    assert.equal(isDue({ ...waiting, status: 'fired', delivery: failed() }, fire + 60_000), false);
+  });
+
+  it('retries a failed escalation', () => {
+    const fired: Reminder = {
+      ...reminder,
+      status: 'fired',
+      delivery: { ...failed(), status: 'delivered' },
+      escalation: { channel: 'push', afterMinutes: 5 },
+      escalationDelivery: { ...failed('2026-03-10T09:06:00.000Z'), channel: 'push' }
+    };
+    assert.equal(isEscalationDue(fired, fire + 5 * 60_000), false);
+    assert.equal(isEscalationDue(fired, fire + 6 * 60_000), true);
+    assert.equal(isEscalationDue({ ...fired, escalationDelivery: { ...failed(), channel: 'push' } }, fire + 60 * 60_000), false);
+  });
+});
@@ -0,0 +1,115 @@
+import { formatDateTime } from '../datetime';
+import type { Reminder, ReminderDelivery } from '../models';
+import { upcomingOccurrence } from '../recurrence';
+import { fireTimeOf, isRetryDue, statusOf } from './lifecycle';
+
+/** A reminder that comes due while no device is open is marked missed after this window. */
+export const MISSED_AFTER_MS = 15 * 60_000;
+/** Retryable failures wait 30 s, then twice as long each time, for at most this many attempts. */
+const RETRY_BASE_MS = 30_000;
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+/** `retryable` failures are tried again with backoff; the rest are final. */
+export class DeliveryFailure extends Error {
+  constructor(
+    message: string,
+    readonly retryable = true
+  ) {
+    super(message);
+    this.name = 'DeliveryFailure';
+  }
+}
+
+export function isDue(reminder: Reminder, now = Date.now()) {
+  const fireTime = fireTimeOf(reminder);
+  return (
+    statusOf(reminder) !== 'acknowledged' &&
+    new Date(fireTime).getTime() <= now &&
+    (reminder.delivery?.occurrence !== fireTime || isRetryDue(reminder.delivery, now))
+  );
+}
+
+export function isMissed(reminder: Reminder, now = Date.now()) {
+  return now - new Date(fireTimeOf(reminder)).getTime() > MISSED_AFTER_MS;
+}
+
+/** The soonest reminder still ahead of `now`, counting the next repeat of recurring ones. */
+export function nextUpcomingReminder(reminders: Reminder[], now = new Date(), timeZone?: string) {
+  let next: { reminder: Reminder; at: Date } | null = null;
+  for (const reminder of reminders) {
+    if (statusOf(reminder) === 'acknowledged') continue;
+    const at = upcomingOccurrence(fireTimeOf(reminder), reminder.recurrence, now, timeZone);
+    if (at && (!next || at.getTime() < next.at.getTime())) next = { reminder, at };
+  }
+  return next;
+}
+
+export async function requestNotificationPermission() {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  await Notification.requestPermission().catch(() => undefined);
+}
+
+async function showPushNotification(reminder: Reminder) {
+  if (typeof Notification === 'undefined') throw new DeliveryFailure('This browser does not support notifications', false);
+  if (Notification.permission !== 'granted') throw new DeliveryFailure('Notifications are blocked for NeuroNest', false);
+
+  const options: NotificationOptions = {
+    body: `Scheduled for ${formatDateTime(reminder.scheduledFor)}`,
+    tag: reminder.id,
+    icon: '/icon.svg',
+    requireInteraction: true,
+    data: { reminderId: reminder.id }
+  };
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  // Action buttons only exist on service-worker notifications; public/sw.js routes the clicks back.
+  const actions = [
+    { action: 'snooze', title: 'Snooze 5 min' },
+    { action: 'acknowledge', title: 'Acknowledge' }
+  ];
+  if (registration) await registration.showNotification(reminder.title, { ...options, actions } as NotificationOptions);
+  else new Notification(reminder.title, options);
+}
+
+async function postDelivery(reminder: Reminder) {
+  const response = await fetch('/api/deliveries', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reminder })
+  });
+  if (!response.ok) {
+    const { error, retryable } = (await response.json().catch(() => ({}))) as { error?: string; retryable?: boolean };
+    throw new DeliveryFailure(error ?? `Delivery failed (${response.status})`, retryable ?? response.status >= 500);
+  }
+}
+
+export function deliverReminder(reminder: Reminder) {
+  return reminder.channel === 'push' ? showPushNotification(reminder) : postDelivery(reminder);
+}
+
+export function deliveryRecord(
+  reminder: Reminder,
+  status: ReminderDelivery['status'],
+  error?: string
+): ReminderDelivery {
+  return {
+    status,
+    channel: reminder.channel,
+    occurrence: fireTimeOf(reminder),
+    at: new Date().toISOString(),
+    error
+  };
+}
+
+/**
+ * Records a failed attempt. `previous` is the last outcome on the same channel; failures at
+ * the same occurrence count towards the attempts, and a retryable one gets a `retryAt`.
+ */
+export function failureRecord(reminder: Reminder, error: unknown, previous?: ReminderDelivery): ReminderDelivery {
+  const record = deliveryRecord(reminder, 'failed', error instanceof Error ? error.message : 'Delivery failed');
+  const earlier = previous?.status === 'failed' && previous.occurrence === record.occurrence ? previous.attempt ?? 1 : 0;
+  const attempt = earlier + 1;
+  const retryable = error instanceof DeliveryFailure ? error.retryable : true;
+  if (!retryable || attempt >= MAX_DELIVERY_ATTEMPTS) return { ...record, attempt };
+  const retryAt = new Date(new Date(record.at).getTime() + RETRY_BASE_MS * 2 ** (attempt - 1));
+  return { ...record, attempt, retryAt: retryAt.toISOString() };
+}
@@ -0,0 +1,119 @@
+import { wallClock, zonedTime } from '../datetime';
+import type { Reminder, ReminderDelivery } from '../models';
+import { latestOccurrence, nextOccurrence } from '../recurrence';
+
+export type ReminderStatus = NonNullable<Reminder['status']>;
+
+export type SnoozePreset = '5m' | '1h' | 'tomorrow';
+
+/** What a notification button or action link asks for. */
+export type ReminderAction = { type: 'acknowledge' } | { type: 'snooze'; preset: SnoozePreset };
+
+export const snoozePresets: Array<{ id: SnoozePreset; label: string }> = [
+  { id: '5m', label: '5 minutes' },
+  { id: '1h', label: '1 hour' },
+  { id: 'tomorrow', label: 'Tomorrow 9:00' }
+];
+
+export const statusTokens: Record<ReminderStatus, string> = {
+  pending: 'Pending',
+  fired: 'Awaiting acknowledgement',
+  snoozed: 'Snoozed',
+  acknowledged: 'Acknowledged'
+};
+
+/** The moment the reminder goes off next: the snooze time while snoozed, else its schedule. */
+export function fireTimeOf(reminder: Reminder) {
+  return reminder.status === 'snoozed' && reminder.snoozedUntil ? reminder.snoozedUntil : reminder.scheduledFor;
+}
+
+/** Reminders saved before the lifecycle existed count as fired once they have a delivery. */
+export function statusOf(reminder: Reminder): ReminderStatus {
+  if (reminder.status) return reminder.status;
+  return reminder.delivery?.occurrence === reminder.scheduledFor ? 'fired' : 'pending';
+}
+
+/** "Tomorrow" means 9:00 the next day on `timeZone`'s clock. */
+export function snoozeUntil(preset: SnoozePreset, now = new Date(), timeZone?: string) {
+  if (preset === '5m') return new Date(now.getTime() + 5 * 60_000);
+  if (preset === '1h') return new Date(now.getTime() + 3600_000);
+  const { year, month, day } = wallClock(now, timeZone);
+  return zonedTime({ year, month, day: day + 1, hour: 9 }, timeZone);
+}
+
+export function markFired(reminder: Reminder, delivery: ReminderDelivery): Reminder {
+  return { ...reminder, status: 'fired', delivery, updatedAt: delivery.at };
+}
+
+/** A failure that will be retried leaves the reminder waiting to fire, not fired. */
+export function markRetrying(reminder: Reminder, delivery: ReminderDelivery): Reminder {
+  return { ...reminder, status: reminder.status === 'snoozed' ? 'snoozed' : 'pending', delivery, updatedAt: delivery.at };
+}
+
+export function isRetryDue(delivery: ReminderDelivery | undefined, now = Date.now()) {
+  return !!delivery?.retryAt && new Date(delivery.retryAt).getTime() <= now;
+}
+
+export function snoozeReminder(reminder: Reminder, until: Date, now = new Date()): Reminder {
+  return { ...reminder, status: 'snoozed', snoozedUntil: until.toISOString(), updatedAt: now.toISOString() };
+}
+
+/** Acknowledging closes a one-off reminder; a recurring one moves on to its next occurrence. */
+export function acknowledgeReminder(reminder: Reminder, now = new Date(), timeZone?: string): Reminder {
+  const stamp = now.toISOString();
+  const acknowledged = { ...reminder, acknowledgedAt: stamp, snoozedUntil: undefined, updatedAt: stamp };
+  if (reminder.recurrence) {
+    const after = Math.max(new Date(reminder.scheduledFor).getTime(), now.getTime());
+    const next = nextOccurrence(reminder.recurrence, new Date(after), timeZone);
+    if (next) return { ...acknowledged, status: 'pending', scheduledFor: next.toISOString() };
+  }
+  return { ...acknowledged, status: 'acknowledged' };
+}
+
+export function applyReminderAction(reminder: Reminder, action: ReminderAction, now = new Date(), timeZone?: string) {
+  return action.type === 'acknowledge'
+    ? acknowledgeReminder(reminder, now, timeZone)
+    : snoozeReminder(reminder, snoozeUntil(action.preset, now, timeZone), now);
+}
+
+export function parseReminderAction(action: unknown, preset?: unknown): ReminderAction | null {
+  if (action === 'acknowledge') return { type: 'acknowledge' };
+  if (action !== 'snooze') return null;
+  const known = snoozePresets.find((entry) => entry.id === preset);
+  return { type: 'snooze', preset: known?.id ?? '5m' };
+}
+
+/** Deep link that applies an action once the dashboard opens, used by email and webhook payloads. */
+export function reminderActionUrl(appUrl: string, reminderId: string, action: ReminderAction) {
+  const params = new URLSearchParams({ reminder: reminderId, action: action.type });
+  if (action.type === 'snooze') params.set('preset', action.preset);
+  return `${appUrl.replace(/\/$/, '')}/?${params}`;
+}
+
+/**
+ * A recurring reminder left fired or snoozed is superseded once its next occurrence has
+ * passed: it jumps to the latest due occurrence so that one fires instead.
+ */
+export function supersedeReminder(reminder: Reminder, now = Date.now(), timeZone?: string): Reminder | null {
+  const status = statusOf(reminder);
+  if (!reminder.recurrence || status === 'pending' || status === 'acknowledged') return null;
+  const next = nextOccurrence(reminder.recurrence, new Date(reminder.scheduledFor), timeZone);
+  if (!next || next.getTime() > now) return null;
+  const latest = latestOccurrence(reminder.recurrence, new Date(now), timeZone) ?? next;
+  return {
+    ...reminder,
+    status: 'pending',
+    scheduledFor: latest.toISOString(),
+    snoozedUntil: undefined,
+    updatedAt: new Date(now).toISOString()
+  };
+}
+
+export function isEscalationDue(reminder: Reminder, now = Date.now()) {
+  const { escalation, delivery } = reminder;
+  if (!escalation || !delivery || statusOf(reminder) !== 'fired') return false;
+  if (delivery.occurrence !== fireTimeOf(reminder)) return false;
+  const { escalationDelivery } = reminder;
+  if (escalationDelivery?.occurrence === delivery.occurrence) return isRetryDue(escalationDelivery, now);
+  return now - new Date(delivery.at).getTime() >= escalation.afterMinutes * 60_000;
+}
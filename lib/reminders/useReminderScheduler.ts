@@ -0,0 +1,155 @@
+'use client';
+
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef } from 'react';
+import type { Reminder, ReminderDelivery } from '../models';
+import { deliverReminder, deliveryRecord, failureRecord, isDue, isMissed } from './delivery';
+import {
+  acknowledgeReminder,
+  applyReminderAction,
+  fireTimeOf,
+  isEscalationDue,
+  markFired,
+  markRetrying,
+  parseReminderAction,
+  snoozeReminder,
+  supersedeReminder,
+  type ReminderAction
+} from './lifecycle';
+
+/**
+ * Watches reminders while the dashboard is open and dispatches each occurrence once
+ * through its channel, writing the outcome back onto the reminder. Retryable failures are
+ * tried again with backoff. Fired reminders wait for an acknowledgement or snooze,
+ * escalating to a second channel if one is configured.
+ */
+export function useReminderScheduler(
+  reminders: Reminder[],
+  setReminders: Dispatch<SetStateAction<Reminder[]>>,
+  { intervalMs = 30_000, timeZone }: { intervalMs?: number; timeZone?: string } = {}
+) {
+  const remindersRef = useRef(reminders);
+  const inFlight = useRef(new Set<string>());
+  remindersRef.current = reminders;
+
+  const update = useCallback(
+    (id: string, change: (reminder: Reminder) => Reminder) => {
+      setReminders((prev) => prev.map((entry) => (entry.id === id ? change(entry) : entry)));
+    },
+    [setReminders]
+  );
+
+  const record = useCallback(
+    (reminder: Reminder, delivery: ReminderDelivery) => {
+      update(reminder.id, (entry) => {
+        if (fireTimeOf(entry) !== delivery.occurrence) return entry;
+        return delivery.retryAt ? markRetrying(entry, delivery) : markFired(entry, delivery);
+      });
+    },
+    [update]
+  );
+
+  const dispatch = useCallback(
+    async (
+      reminder: Reminder,
+      previous: ReminderDelivery | undefined,
+      onOutcome: (delivery: ReminderDelivery) => void
+    ) => {
+      const key = `${reminder.id}:${reminder.channel}`;
+      if (inFlight.current.has(key)) return;
+      inFlight.current.add(key);
+      try {
+        await deliverReminder(reminder);
+        onOutcome(deliveryRecord(reminder, 'delivered'));
+      } catch (error) {
+        onOutcome(failureRecord(reminder, error, previous));
+      } finally {
+        inFlight.current.delete(key);
+      }
+    },
+    []
+  );
+
+  const deliverNow = useCallback(
+    (reminder: Reminder) => dispatch(reminder, reminder.delivery, (delivery) => record(reminder, delivery)),
+    [dispatch, record]
+  );
+
+  const escalate = useCallback(
+    (reminder: Reminder) => {
+      if (!reminder.escalation) return;
+      return dispatch({ ...reminder, channel: reminder.escalation.channel }, reminder.escalationDelivery, (delivery) =>
+        update(reminder.id, (entry) =>
+          fireTimeOf(entry) === delivery.occurrence
+            ? { ...entry, escalationDelivery: delivery, updatedAt: delivery.at }
+            : entry
+        )
+      );
+    },
+    [dispatch, update]
+  );
+
+  const acknowledge = useCallback(
+    (id: string) => update(id, (entry) => acknowledgeReminder(entry, new Date(), timeZone)),
+    [timeZone, update]
+  );
+  const snooze = useCallback((id: string, until: Date) => update(id, (entry) => snoozeReminder(entry, until)), [update]);
+  const runAction = useCallback(
+    (id: string, action: ReminderAction) => update(id, (entry) => applyReminderAction(entry, action, new Date(), timeZone)),
+    [timeZone, update]
+  );
+
+  useEffect(() => {
+    function tick() {
+      const now = Date.now();
+      for (const reminder of remindersRef.current) {
+        const superseded = supersedeReminder(reminder, now, timeZone);
+        if (superseded) {
+          update(reminder.id, () => superseded);
+          continue;
+        }
+        if (isEscalationDue(reminder, now)) {
+          if (reminder.escalation?.channel === 'push' || navigator.onLine) void escalate(reminder);
+          continue;
+        }
+        if (!isDue(reminder, now)) continue;
+        if (isMissed(reminder, now)) {
+          record(reminder, deliveryRecord(reminder, 'missed'));
+          continue;
+        }
+        // Server channels wait for connectivity rather than failing while offline.
+        if (reminder.channel !== 'push' && !navigator.onLine) continue;
+        void deliverNow(reminder);
+      }
+    }
+
+    tick();
+    const timer = window.setInterval(tick, intervalMs);
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [deliverNow, escalate, intervalMs, record, timeZone, update]);
+
+  // Snooze/acknowledge from notification buttons (via the service worker) and action links.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linked = parseReminderAction(params.get('action'), params.get('preset'));
+    const linkedId = params.get('reminder');
+    if (linkedId) {
+      if (linked) runAction(linkedId, linked);
+      window.history.replaceState(null, '', `${window.location.pathname}${window.location.hash}`);
+    }
+
+    if (!('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      const { type, reminderId, action, preset } = (event.data ?? {}) as Record<string, unknown>;
+      const parsed = type === 'reminder-action' ? parseReminderAction(action, preset) : null;
+      if (parsed && typeof reminderId === 'string') runAction(reminderId, parsed);
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, [runAction]);
+
+  return { deliverNow, acknowledge, snooze };
+}
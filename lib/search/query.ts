@@ -0,0 +1,110 @@
+import { addDays, startOfDay, zonedTime } from '../datetime';
+
+export type SearchType = 'note' | 'task' | 'reminder' | 'file' | 'chat';
+
+export type DueFilter = { op: '<' | '<=' | '>' | '>=' | '='; day: Date };
+
+export type SearchQuery = {
+  terms: string[];
+  tags: string[];
+  types: SearchType[];
+  due?: DueFilter;
+};
+
+const typeAliases: Record<string, SearchType> = {
+  note: 'note',
+  notes: 'note',
+  task: 'task',
+  tasks: 'task',
+  todo: 'task',
+  reminder: 'reminder',
+  reminders: 'reminder',
+  file: 'file',
+  files: 'file',
+  chat: 'chat',
+  message: 'chat',
+  messages: 'chat'
+};
+
+/** Lowercases and strips diacritics so “Café” and “cafe” index to the same term. */
+export function normalizeTerm(value: string) {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+export function tokenize(text: string) {
+  return normalizeTerm(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Days start at midnight on the user's clock. */
+function parseDay(value: string, now: Date) {
+  const keyword = { yesterday: -1, today: 0, tomorrow: 1 }[value];
+  if (keyword !== undefined) return addDays(startOfDay(now), keyword);
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+  const day = zonedTime({ year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) });
+  return Number.isNaN(day.getTime()) ? null : day;
+}
+
+function parseDue(value: string, now: Date): DueFilter | null {
+  const match = value.match(/^(<=|>=|<|>|=)?(.+)$/);
+  if (!match) return null;
+  const day = parseDay(match[2], now);
+  return day ? { op: (match[1] ?? '=') as DueFilter['op'], day } : null;
+}
+
+/**
+ * Splits palette input into free-text terms and filters: `tag:` (or `#tag`), `type:task`,
+ * and `due:` with an optional comparison (`due:<2024-06-01`, `due:>=today`). Anything
+ * that is not a recognised filter is searched as text.
+ */
+export function parseSearchQuery(input: string, now = new Date()): SearchQuery {
+  const query: SearchQuery = { terms: [], tags: [], types: [] };
+
+  for (const word of input.trim().split(/\s+/).filter(Boolean)) {
+    const lower = word.toLowerCase();
+    const filter = lower.match(/^(tag|type|due):(.+)$/);
+    if (filter?.[1] === 'tag' || (lower.startsWith('#') && lower.length > 1)) {
+      query.tags.push(normalizeTerm(filter ? filter[2] : lower.slice(1)));
+      continue;
+    }
+    if (filter?.[1] === 'type' && typeAliases[filter[2]]) {
+      query.types.push(typeAliases[filter[2]]);
+      continue;
+    }
+    if (filter?.[1] === 'due') {
+      const due = parseDue(filter[2], now);
+      if (due) {
+        query.due = due;
+        continue;
+      }
+    }
+    query.terms.push(...tokenize(word));
+  }
+
+  return query;
+}
+
+export function matchesDue(filter: DueFilter, value: string) {
+  const time = new Date(value).getTime();
+  const start = filter.day.getTime();
+  const end = addDays(filter.day, 1).getTime();
+  switch (filter.op) {
+    case '<':
+      return time < start;
+    case '<=':
+      return time < end;
+    case '>':
+      return time >= end;
+    case '>=':
+      return time >= start;
+    case '=':
+      return time >= start && time < end;
+  }
+}
+
+export function isEmptyQuery(query: SearchQuery) {
+  return !query.terms.length && !query.tags.length && !query.types.length && !query.due;
+}
@@ -0,0 +1,242 @@
+import { markdownToPlainText } from '../markdown';
+import type { ChatMessage, FileResource, Note, Reminder, Task } from '../models';
+import { fireTimeOf } from '../reminders/lifecycle';
+import { isEmptyQuery, matchesDue, normalizeTerm, tokenize, type SearchQuery, type SearchType } from './query';
+
+export type SearchDocument = {
+  /** `type:id`, unique across collections. */
+  key: string;
+  type: SearchType;
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  /** Due date for tasks, fire time for reminders; what `due:` filters compare against. */
+  due?: string;
+  /** Page anchor of the section the record is listed in. */
+  section: string;
+  updatedAt?: string;
+};
+
+export type SearchIndex = {
+  documents: Map<string, SearchDocument>;
+  /** term → document key → field-weighted term frequency */
+  postings: Map<string, Map<string, number>>;
+};
+
+export type SearchResult = {
+  document: SearchDocument;
+  score: number;
+  /** Indexed terms the query matched, used for highlighting. */
+  matched: string[];
+};
+
+export type HighlightSegment = { text: string; match: boolean };
+
+const fieldWeights = { title: 3, tags: 2, body: 1 };
+
+export function buildSearchDocuments({
+  notes,
+  tasks,
+  reminders,
+  files,
+  chat
+}: {
+  notes: Note[];
+  tasks: Task[];
+  reminders: Reminder[];
+  files: FileResource[];
+  chat: ChatMessage[];
+}): SearchDocument[] {
+  return [
+    ...notes.map((note) => ({
+      key: `note:${note.id}`,
+      type: 'note' as const,
+      id: note.id,
+      title: note.title,
+      body: markdownToPlainText(note.content),
+      tags: note.tags,
+      section: 'notes',
+      updatedAt: note.updatedAt
+    })),
+    ...tasks.map((task) => ({
+      key: `task:${task.id}`,
+      type: 'task' as const,
+      id: task.id,
+      title: task.title,
+      body: '',
+      tags: task.tags ?? [],
+      due: task.dueDate,
+      section: 'tasks',
+      updatedAt: task.updatedAt
+    })),
+    ...reminders.map((reminder) => ({
+      key: `reminder:${reminder.id}`,
+      type: 'reminder' as const,
+      id: reminder.id,
+      title: reminder.title,
+      body: '',
+      tags: reminder.tags ?? [],
+      due: fireTimeOf(reminder),
+      section: 'reminders',
+      updatedAt: reminder.updatedAt
+    })),
+    ...files.map((file) => ({
+      key: `file:${file.id}`,
+      type: 'file' as const,
+      id: file.id,
+      title: file.name,
+      body: [file.description, file.content].filter(Boolean).join('\n'),
+      tags: [],
+      section: 'files',
+      updatedAt: file.updatedAt ?? file.uploadedAt
+    })),
+    ...chat.map((message) => ({
+      key: `chat:${message.id}`,
+      type: 'chat' as const,
+      id: message.id,
+      title: message.role === 'user' ? 'You' : 'NeuroNest AI',
+      body: message.content,
+      tags: [],
+      section: 'assistant',
+      updatedAt: message.updatedAt ?? message.timestamp
+    }))
+  ];
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const index: SearchIndex = { documents: new Map(), postings: new Map() };
+
+  for (const document of documents) {
+    index.documents.set(document.key, document);
+    const fields: Array<[string, number]> = [
+      [document.type === 'chat' ? '' : document.title, fieldWeights.title],
+      [document.tags.join(' '), fieldWeights.tags],
+      [document.body, fieldWeights.body]
+    ];
+    for (const [text, weight] of fields) {
+      for (const term of tokenize(text)) {
+        const posting = index.postings.get(term) ?? new Map<string, number>();
+        posting.set(document.key, (posting.get(document.key) ?? 0) + weight);
+        index.postings.set(term, posting);
+      }
+    }
+  }
+
+  return index;
+}
+
+/** Levenshtein distance that gives up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, current[j]);
+    }
+    if (best > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Index terms a query term matches, with a closeness factor: exact 1, prefix 0.7, typo 0.4. */
+function expandTerm(index: SearchIndex, term: string) {
+  const matches = new Map<string, number>();
+  const allowedTypos = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  for (const candidate of index.postings.keys()) {
+    if (candidate === term) matches.set(candidate, 1);
+    else if (candidate.startsWith(term)) matches.set(candidate, 0.7);
+    else if (allowedTypos && editDistance(term, candidate, allowedTypos) <= allowedTypos) matches.set(candidate, 0.4);
+  }
+  return matches;
+}
+
+function passesFilters(document: SearchDocument, query: SearchQuery) {
+  if (query.types.length && !query.types.includes(document.type)) return false;
+  if (query.tags.length) {
+    const tags = document.tags.map(normalizeTerm);
+    if (!query.tags.every((tag) => tags.some((entry) => entry === tag || entry.startsWith(tag)))) return false;
+  }
+  if (query.due && (!document.due || !matchesDue(query.due, document.due))) return false;
+  return true;
+}
+
+/**
+ * Every query term must match (exactly, by prefix, or within a typo or two); documents
+ * are ranked by field-weighted matches. A query made only of filters lists everything
+ * that passes them, most recently updated first.
+ */
+export function searchIndex(index: SearchIndex, query: SearchQuery, limit = 30): SearchResult[] {
+  if (isEmptyQuery(query)) return [];
+  const candidates = [...index.documents.values()].filter((document) => passesFilters(document, query));
+
+  if (!query.terms.length) {
+    return candidates
+      .sort((a, b) => (b.due ?? b.updatedAt ?? '').localeCompare(a.due ?? a.updatedAt ?? ''))
+      .slice(0, limit)
+      .map((document) => ({ document, score: 0, matched: [] }));
+  }
+
+  const scores = new Map<string, { score: number; matched: Set<string>; hits: number }>();
+  for (const term of new Set(query.terms)) {
+    const seen = new Set<string>();
+    for (const [candidate, closeness] of expandTerm(index, term)) {
+      for (const [key, weight] of index.postings.get(candidate) ?? []) {
+        const entry = scores.get(key) ?? { score: 0, matched: new Set<string>(), hits: 0 };
+        entry.score += weight * closeness;
+        entry.matched.add(candidate);
+        if (!seen.has(key)) {
+          entry.hits += 1;
+          seen.add(key);
+        }
+        scores.set(key, entry);
+      }
+    }
+  }
+
+  const required = new Set(query.terms).size;
+  return candidates
+    .flatMap((document) => {
+      const entry = scores.get(document.key);
+      return entry && entry.hits === required ? [{ document, score: entry.score, matched: [...entry.matched] }] : [];
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/** Splits text into plain and matching runs, comparing normalized words to the matched terms. */
+export function highlightText(text: string, matched: string[]): HighlightSegment[] {
+  if (!matched.length) return [{ text, match: false }];
+  const terms = new Set(matched);
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = word.index ?? 0;
+    if (!terms.has(normalizeTerm(word[0]))) continue;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: word[0], match: true });
+    last = start + word[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+/** A window of `length` characters around the first matched word, for long bodies. */
+export function snippetAround(text: string, matched: string[], length = 120) {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= length) return flat;
+  const terms = new Set(matched);
+  let anchor = 0;
+  for (const word of flat.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (terms.has(normalizeTerm(word[0]))) {
+      anchor = word.index ?? 0;
+      break;
+    }
+  }
+  const start = Math.max(0, Math.min(anchor - Math.floor(length / 3), flat.length - length));
+  return `${start > 0 ? '…' : ''}${flat.slice(start, start + length)}${start + length < flat.length ? '…' : ''}`;
+}
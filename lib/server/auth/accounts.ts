@@ -0,0 +1,347 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ProfileUpdate, SignUpRequest, User } from '../../auth/protocol';
+import type { WorkspaceRole } from '../../workspaces/access';
+import type { MemberInvite, MemberRole, WorkspaceKind, WorkspaceSummary } from '../../workspaces/protocol';
+import { adoptLegacyData, dataDir } from '../store';
+import { hashPassword, verifyPassword } from './passwords';
+
+export const SESSION_DAYS = 30;
+
+type StoredUser = User & {
+  passwordHash?: string;
+  /** `<provider>:<subject>` for every OAuth identity linked to the account. */
+  identities: string[];
+  createdAt: string;
+};
+
+type Member = { userId: string; role: WorkspaceRole };
+
+type Workspace = {
+  id: string;
+  name: string;
+  ownerId: string;
+  createdAt: string;
+  /** Missing on workspaces created before shared spaces, which are all personal. */
+  kind?: WorkspaceKind;
+  members?: Member[];
+};
+
+type Session = { userId: string; expiresAt: string };
+
+type AccountsFile = {
+  version: 1;
+  users: Record<string, StoredUser>;
+  workspaces: Record<string, Workspace>;
+  /** Keyed by a hash of the session token, so a leaked file does not leak live sessions. */
+  sessions: Record<string, Session>;
+};
+
+export type OAuthProfile = { subject: string; email: string; name: string };
+
+/** A refused workspace change; `status` is the HTTP status the route should answer with. */
+export class WorkspaceError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 403 | 404 = 400
+  ) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+const accountsPath = path.join(dataDir, 'accounts.json');
+
+let cache: AccountsFile | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+async function load(): Promise<AccountsFile> {
+  if (cache) return cache;
+  try {
+    cache = JSON.parse(await readFile(accountsPath, 'utf8')) as AccountsFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    cache = { version: 1, users: {}, workspaces: {}, sessions: {} };
+  }
+  return cache;
+}
+
+async function persist(accounts: AccountsFile) {
+  await mkdir(dataDir, { recursive: true });
+  const temp = `${accountsPath}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(accounts));
+  await rename(temp, accountsPath);
+}
+
+function withAccounts<T>(task: (accounts: AccountsFile) => T | Promise<T>, { write = false } = {}): Promise<T> {
+  const run = queue.then(async () => {
+    const accounts = await load();
+    const result = await task(accounts);
+    if (write) await persist(accounts);
+    return result;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+function newId(prefix: string) {
+  return `${prefix}-${randomBytes(9).toString('base64url').replace(/[^A-Za-z0-9]/g, '')}`;
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('base64url');
+}
+
+function toUser({ id, email, name, timezone, workspaceId, calendarToken }: StoredUser): User {
+  return { id, email, name, timezone, workspaceId, calendarToken };
+}
+
+function findByEmail(accounts: AccountsFile, email: string) {
+  return Object.values(accounts.users).find((user) => user.email === email) ?? null;
+}
+
+function membersOf(workspace: Workspace): Member[] {
+  return workspace.members ?? [{ userId: workspace.ownerId, role: 'owner' }];
+}
+
+function toSummary(accounts: AccountsFile, workspace: Workspace, userId: string): WorkspaceSummary {
+  const members = membersOf(workspace).flatMap(({ userId: memberId, role }) => {
+    const member = accounts.users[memberId];
+    return member ? [{ userId: memberId, name: member.name, email: member.email, role }] : [];
+  });
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    kind: workspace.kind ?? 'personal',
+    role: members.find((member) => member.userId === userId)?.role ?? 'viewer',
+    members
+  };
+}
+
+/** The shared space `workspaceId`, provided `userId` owns it. */
+function ownedSpace(accounts: AccountsFile, workspaceId: string, userId: string) {
+  const workspace = accounts.workspaces[workspaceId];
+  if (!workspace || !membersOf(workspace).some((member) => member.userId === userId)) {
+    throw new WorkspaceError('Space not found', 404);
+  }
+  if (workspace.kind !== 'shared') throw new WorkspaceError('Personal brains cannot be shared; create a shared space');
+  if (workspace.ownerId !== userId) throw new WorkspaceError('Only the owner can manage members', 403);
+  return workspace;
+}
+
+/** Creates the account and its personal workspace; the very first account inherits pre-account data. */
+async function addUser(
+  accounts: AccountsFile,
+  fields: Pick<StoredUser, 'email' | 'name' | 'timezone'> & { passwordHash?: string; identity?: string }
+) {
+  const first = Object.keys(accounts.users).length === 0;
+  const now = new Date().toISOString();
+  const id = newId('user');
+  const workspace: Workspace = {
+    id: newId('ws'),
+    name: `${fields.name}'s brain`,
+    ownerId: id,
+    createdAt: now,
+    kind: 'personal',
+    members: [{ userId: id, role: 'owner' }]
+  };
+  const user: StoredUser = {
+    id,
+    email: fields.email,
+    name: fields.name,
+    timezone: fields.timezone,
+    workspaceId: workspace.id,
+    calendarToken: randomBytes(24).toString('base64url'),
+    passwordHash: fields.passwordHash,
+    identities: fields.identity ? [fields.identity] : [],
+    createdAt: now
+  };
+  accounts.workspaces[workspace.id] = workspace;
+  accounts.users[id] = user;
+  if (first) await adoptLegacyData(workspace.id);
+  return user;
+}
+
+export async function signUp({ email, password, name, timezone }: SignUpRequest) {
+  const passwordHash = await hashPassword(password);
+  return withAccounts(
+    async (accounts) => {
+      if (findByEmail(accounts, email)) throw new Error('An account with this email already exists');
+      return toUser(await addUser(accounts, { email, name, timezone, passwordHash }));
+    },
+    { write: true }
+  );
+}
+
+/** Null for an unknown email or a wrong password; the sign-in route reports both the same way. */
+export async function signIn(email: string, password: string) {
+  const user = await withAccounts((accounts) => findByEmail(accounts, email));
+  if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) return null;
+  return toUser(user);
+}
+
+/**
+ * Finds the account linked to an OAuth identity, or creates one. An existing account with
+ * the same email is never linked automatically: the provider may not have verified it.
+ */
+export function signInWithOAuth(provider: string, profile: OAuthProfile, timezone: string) {
+  const identity = `${provider}:${profile.subject}`;
+  return withAccounts(
+    async (accounts) => {
+      const linked = Object.values(accounts.users).find((user) => user.identities.includes(identity));
+      if (linked) return toUser(linked);
+      if (findByEmail(accounts, profile.email.toLowerCase())) {
+        throw new Error('An account with this email already exists; sign in with your password');
+      }
+      return toUser(
+        await addUser(accounts, { email: profile.email.toLowerCase(), name: profile.name || profile.email, timezone, identity })
+      );
+    },
+    { write: true }
+  );
+}
+
+export function updateProfile(userId: string, update: ProfileUpdate) {
+  return withAccounts(
+    (accounts) => {
+      const user = accounts.users[userId];
+      if (!user) throw new Error('Account not found');
+      Object.assign(user, update);
+      return toUser(user);
+    },
+    { write: true }
+  );
+}
+
+export function createSession(userId: string) {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 86_400_000).toISOString();
+  return withAccounts(
+    (accounts) => {
+      const now = new Date().toISOString();
+      for (const [key, session] of Object.entries(accounts.sessions)) {
+        if (session.expiresAt <= now) delete accounts.sessions[key];
+      }
+      accounts.sessions[hashToken(token)] = { userId, expiresAt };
+      return { token, expiresAt };
+    },
+    { write: true }
+  );
+}
+
+export function userForSession(token: string) {
+  return withAccounts((accounts) => {
+    const session = accounts.sessions[hashToken(token)];
+    if (!session || session.expiresAt <= new Date().toISOString()) return null;
+    const user = accounts.users[session.userId];
+    return user ? toUser(user) : null;
+  });
+}
+
+export function endSession(token: string) {
+  return withAccounts(
+    (accounts) => {
+      delete accounts.sessions[hashToken(token)];
+    },
+    { write: true }
+  );
+}
+
+export function userForCalendarToken(token: string) {
+  return withAccounts((accounts) => {
+    const user = Object.values(accounts.users).find((entry) => entry.calendarToken === token);
+    return user ? toUser(user) : null;
+  });
+}
+
+/** Every workspace `userId` belongs to, their personal brain first. */
+export function listWorkspaces(userId: string) {
+  return withAccounts((accounts) =>
+    Object.values(accounts.workspaces)
+      .filter((workspace) => membersOf(workspace).some((member) => member.userId === userId))
+      .sort((a, b) => Number(a.kind === 'shared') - Number(b.kind === 'shared') || a.name.localeCompare(b.name))
+      .map((workspace) => toSummary(accounts, workspace, userId))
+  );
+}
+
+/** `userId`'s role in `workspaceId`, or null when they are not a member. */
+export function workspaceRole(workspaceId: string, userId: string) {
+  return withAccounts((accounts) => {
+    const workspace = accounts.workspaces[workspaceId];
+    return workspace ? membersOf(workspace).find((member) => member.userId === userId)?.role ?? null : null;
+  });
+}
+
+export function createWorkspace(userId: string, name: string) {
+  return withAccounts(
+    (accounts) => {
+      const workspace: Workspace = {
+        id: newId('ws'),
+        name,
+        ownerId: userId,
+        createdAt: new Date().toISOString(),
+        kind: 'shared',
+        members: [{ userId, role: 'owner' }]
+      };
+      accounts.workspaces[workspace.id] = workspace;
+      return toSummary(accounts, workspace, userId);
+    },
+    { write: true }
+  );
+}
+
+/** Adds an existing account to a shared space; only its owner may. */
+export function addMember(workspaceId: string, ownerId: string, { email, role }: MemberInvite) {
+  return withAccounts(
+    (accounts) => {
+      const workspace = ownedSpace(accounts, workspaceId, ownerId);
+      const invitee = findByEmail(accounts, email);
+      if (!invitee) throw new WorkspaceError('No account uses that email; ask them to sign up first', 404);
+      const members = membersOf(workspace);
+      if (members.some((member) => member.userId === invitee.id)) throw new WorkspaceError('Already a member of this space');
+      workspace.members = [...members, { userId: invitee.id, role }];
+      return toSummary(accounts, workspace, ownerId);
+    },
+    { write: true }
+  );
+}
+
+export function updateMember(workspaceId: string, ownerId: string, userId: string, role: MemberRole) {
+  return withAccounts(
+    (accounts) => {
+      const workspace = ownedSpace(accounts, workspaceId, ownerId);
+      const member = membersOf(workspace).find((entry) => entry.userId === userId);
+      if (!member) throw new WorkspaceError('Not a member of this space', 404);
+      if (member.role === 'owner') throw new WorkspaceError("The owner's role cannot change");
+      member.role = role;
+      return toSummary(accounts, workspace, ownerId);
+    },
+    { write: true }
+  );
+}
+
+/**
+ * Takes `userId` out of a shared space: the owner may remove anyone else, and members may
+ * leave. Whatever they created stays in the space, still owned by them.
+ */
+export function removeMember(workspaceId: string, actorId: string, userId: string) {
+  return withAccounts(
+    (accounts) => {
+      const workspace = accounts.workspaces[workspaceId];
+      const members = workspace ? membersOf(workspace) : [];
+      if (!workspace || !members.some((member) => member.userId === actorId)) {
+        throw new WorkspaceError('Space not found', 404);
+      }
+      if (workspace.kind !== 'shared') throw new WorkspaceError('Personal brains have no other members');
+      if (userId === workspace.ownerId) throw new WorkspaceError('The owner cannot leave their own space');
+      if (actorId !== userId && actorId !== workspace.ownerId) {
+        throw new WorkspaceError('Only the owner can remove members', 403);
+      }
+      if (!members.some((member) => member.userId === userId)) throw new WorkspaceError('Not a member of this space', 404);
+      workspace.members = members.filter((member) => member.userId !== userId);
+      return toSummary(accounts, workspace, actorId);
+    },
+    { write: true }
+  );
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import type { OAuthProfile } from './accounts';
+
+/**
+ * The local stand-in provider keeps no state: codes and access tokens simply carry the
+ * profile the tester typed in. It only answers when NEURONEST_MOCK_OAUTH is `true`.
+ */
+export function isMockOAuthEnabled(env: NodeJS.ProcessEnv = process.env) {
+  return env.NEURONEST_MOCK_OAUTH === 'true';
+}
+
+export function mockDisabled() {
+  return NextResponse.json({ error: 'The mock OAuth provider is disabled' }, { status: 404 });
+}
+
+export function encodeMockGrant(profile: OAuthProfile) {
+  return Buffer.from(JSON.stringify(profile)).toString('base64url');
+}
+
+export function decodeMockGrant(value: string): OAuthProfile | null {
+  try {
+    const profile = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as OAuthProfile;
+    return typeof profile.subject === 'string' && typeof profile.email === 'string' ? profile : null;
+  } catch {
+    return null;
+  }
+}
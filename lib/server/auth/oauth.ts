@@ -0,0 +1,119 @@
+import type { OAuthProfile } from './accounts';
+
+export type OAuthProvider = {
+  id: string;
+  name: string;
+  /** Where to send the browser to sign in; the provider redirects back to `redirectUri` with a code. */
+  authorizationUrl: (params: { state: string; redirectUri: string }) => string;
+  /** Trades the code for an access token and reads who signed in. */
+  fetchProfile: (code: string, redirectUri: string) => Promise<OAuthProfile>;
+};
+
+type OAuth2Config = {
+  id: string;
+  name: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+};
+
+/** A plain OAuth 2.0 authorization-code provider whose user-info endpoint returns `sub`/`id`, `email` and `name`. */
+export function createOAuth2Provider(config: OAuth2Config): OAuthProvider {
+  return {
+    id: config.id,
+    name: config.name,
+    authorizationUrl({ state, redirectUri }) {
+      const url = new URL(config.authorizeUrl);
+      url.searchParams.set('response_type', 'code');
+      url.searchParams.set('client_id', config.clientId);
+      url.searchParams.set('redirect_uri', redirectUri);
+      url.searchParams.set('scope', config.scope);
+      url.searchParams.set('state', state);
+      return url.toString();
+    },
+    async fetchProfile(code, redirectUri) {
+      const tokenResponse = await fetch(config.tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri,
+          client_id: config.clientId,
+          client_secret: config.clientSecret
+        })
+      });
+      if (!tokenResponse.ok) throw new Error(`${config.name} rejected the sign-in (${tokenResponse.status})`);
+      const { access_token: accessToken } = (await tokenResponse.json()) as { access_token?: string };
+      if (!accessToken) throw new Error(`${config.name} returned no access token`);
+
+      const profileResponse = await fetch(config.userInfoUrl, {
+        headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' }
+      });
+      if (!profileResponse.ok) throw new Error(`Could not read your ${config.name} profile (${profileResponse.status})`);
+      const profile = (await profileResponse.json()) as Record<string, unknown>;
+      const subject = profile.sub ?? profile.id;
+      if ((typeof subject !== 'string' && typeof subject !== 'number') || typeof profile.email !== 'string') {
+        throw new Error(`${config.name} did not share an id and email address`);
+      }
+      return {
+        subject: String(subject),
+        email: profile.email,
+        name: typeof profile.name === 'string' ? profile.name : ''
+      };
+    }
+  };
+}
+
+export const MOCK_CLIENT_ID = 'neuronest-local';
+export const MOCK_CLIENT_SECRET = 'neuronest-local-secret';
+
+/**
+ * The configured sign-in providers. `OAUTH_*` variables set up any OAuth 2.0 provider;
+ * `NEURONEST_MOCK_OAUTH=true` adds a local stand-in served from `/api/auth/mock-oauth`
+ * that exercises the same flow without a third party.
+ */
+export function getOAuthProviders(origin: string, env: NodeJS.ProcessEnv = process.env): OAuthProvider[] {
+  const providers: OAuthProvider[] = [];
+  if (env.OAUTH_AUTHORIZE_URL && env.OAUTH_TOKEN_URL && env.OAUTH_USERINFO_URL && env.OAUTH_CLIENT_ID) {
+    providers.push(
+      createOAuth2Provider({
+        id: env.OAUTH_ID ?? 'oauth',
+        name: env.OAUTH_NAME ?? 'Single sign-on',
+        authorizeUrl: env.OAUTH_AUTHORIZE_URL,
+        tokenUrl: env.OAUTH_TOKEN_URL,
+        userInfoUrl: env.OAUTH_USERINFO_URL,
+        clientId: env.OAUTH_CLIENT_ID,
+        clientSecret: env.OAUTH_CLIENT_SECRET ?? '',
+        scope: env.OAUTH_SCOPE ?? 'openid email profile'
+      })
+    );
+  }
+  if (env.NEURONEST_MOCK_OAUTH === 'true') {
+    providers.push(
+      createOAuth2Provider({
+        id: 'mock',
+        name: 'Mock OAuth',
+        authorizeUrl: `${origin}/api/auth/mock-oauth/authorize`,
+        tokenUrl: `${origin}/api/auth/mock-oauth/token`,
+        userInfoUrl: `${origin}/api/auth/mock-oauth/userinfo`,
+        clientId: MOCK_CLIENT_ID,
+        clientSecret: MOCK_CLIENT_SECRET,
+        scope: 'email profile'
+      })
+    );
+  }
+  return providers;
+}
+
+export function getOAuthProvider(id: string, origin: string, env: NodeJS.ProcessEnv = process.env) {
+  return getOAuthProviders(origin, env).find((provider) => provider.id === id) ?? null;
+}
+
+/** Public origin of the app, for redirect URIs; prefer NEURONEST_APP_URL behind a proxy. */
+export function appOrigin(request: Request, env: NodeJS.ProcessEnv = process.env) {
+  return env.NEURONEST_APP_URL ? new URL(env.NEURONEST_APP_URL).origin : new URL(request.url).origin;
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import type { User } from '../../auth/protocol';
+import type { Actor } from '../store';
+import { createSession, userForSession, workspaceRole } from './accounts';
+
+export const SESSION_COOKIE = 'neuronest_session';
+/** Holds the state of an OAuth sign-in between leaving for the provider and coming back. */
+export const OAUTH_STATE_COOKIE = 'neuronest_oauth';
+
+export function readCookie(request: Request, name: string) {
+  for (const part of (request.headers.get('cookie') ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+export function sessionToken(request: Request) {
+  return readCookie(request, SESSION_COOKIE);
+}
+
+/** The account behind the request's session cookie, or null when it is missing or expired. */
+export async function currentUser(request: Request): Promise<User | null> {
+  const token = sessionToken(request);
+  return token ? userForSession(token) : null;
+}
+
+export function unauthorized() {
+  return NextResponse.json({ error: 'Sign in to continue' }, { status: 401 });
+}
+
+export function forbidden() {
+  return NextResponse.json({ error: 'You are not a member of this space' }, { status: 403 });
+}
+
+/**
+ * The workspace a data request works in: `?workspace=<id>` when given, otherwise the
+ * user's personal brain. Null when the user is not a member.
+ */
+export async function requestWorkspace(request: Request, user: User): Promise<{ workspaceId: string; actor: Actor } | null> {
+  const workspaceId = new URL(request.url).searchParams.get('workspace') ?? user.workspaceId;
+  const role = await workspaceRole(workspaceId, user.id);
+  return role ? { workspaceId, actor: { userId: user.id, name: user.name, role } } : null;
+}
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/'
+};
+
+/** Starts a session for `user` and attaches its cookie to `response`. */
+export async function startSession<T extends NextResponse>(response: T, user: User) {
+  const { token, expiresAt } = await createSession(user.id);
+  response.cookies.set(SESSION_COOKIE, token, { ...cookieOptions, expires: new Date(expiresAt) });
+  return response;
+}
+
+export function clearSession<T extends NextResponse>(response: T) {
+  response.cookies.set(SESSION_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  return response;
+}
+
+export function setShortCookie<T extends NextResponse>(response: T, name: string, value: string, maxAgeSeconds = 600) {
+  response.cookies.set(name, value, { ...cookieOptions, maxAge: maxAgeSeconds });
+  return response;
+}
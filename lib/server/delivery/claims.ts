@@ -0,0 +1,77 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Reminder } from '../../models';
+import { workspaceDir } from '../store';
+
+/** Claims are forgotten after a week; occurrences that old are long past retrying. */
+const CLAIM_TTL_MS = 7 * 24 * 3600_000;
+/** A send that never settled (the server went down mid-request) stops blocking retries after this. */
+const SENDING_TIMEOUT_MS = 2 * 60_000;
+
+type Claim = { status: 'sending' | 'delivered'; at: string };
+
+export type DeliveryKey = { userId: string; reminderId: string; channel: Reminder['channel']; occurrence: string };
+
+export type DeliveryClaim = { status: 'claimed' } | { status: 'sending' } | { status: 'delivered'; deliveredAt: string };
+
+let queue: Promise<unknown> = Promise.resolve();
+
+function claimsPathFor(workspaceId: string) {
+  return path.join(workspaceDir(workspaceId), 'deliveries.json');
+}
+
+function keyOf({ userId, reminderId, channel, occurrence }: DeliveryKey) {
+  return [userId, reminderId, channel, occurrence].join(' ');
+}
+
+async function load(file: string): Promise<Record<string, Claim>> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as Record<string, Claim>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return {};
+  }
+}
+
+/** Serializes access like the record store, dropping expired claims on the way. */
+function withClaims<T>(workspaceId: string, task: (claims: Record<string, Claim>, now: number) => T): Promise<T> {
+  const run = queue.then(async () => {
+    const file = claimsPathFor(workspaceId);
+    const claims = await load(file);
+    const now = Date.now();
+    for (const [key, claim] of Object.entries(claims)) {
+      if (now - Date.parse(claim.at) > CLAIM_TTL_MS) delete claims[key];
+    }
+    const result = task(claims, now);
+    await mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(claims));
+    await rename(temp, file);
+    return result;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Claims one occurrence of a reminder on one channel before it is sent, so several devices
+ * (or a retry racing the first attempt) deliver it once. Anything but `claimed` means the
+ * caller must not send.
+ */
+export function claimDelivery(workspaceId: string, key: DeliveryKey): Promise<DeliveryClaim> {
+  return withClaims(workspaceId, (claims, now) => {
+    const claim = claims[keyOf(key)];
+    if (claim?.status === 'delivered') return { status: 'delivered', deliveredAt: claim.at };
+    if (claim && now - Date.parse(claim.at) < SENDING_TIMEOUT_MS) return { status: 'sending' };
+    claims[keyOf(key)] = { status: 'sending', at: new Date(now).toISOString() };
+    return { status: 'claimed' };
+  });
+}
+
+/** Records the outcome of a claimed send; a failure releases the claim so a retry can take it. */
+export function settleDelivery(workspaceId: string, key: DeliveryKey, delivered: boolean) {
+  return withClaims(workspaceId, (claims, now) => {
+    if (delivered) claims[keyOf(key)] = { status: 'delivered', at: new Date(now).toISOString() };
+    else delete claims[keyOf(key)];
+  });
+}
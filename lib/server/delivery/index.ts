@@ -0,0 +1,41 @@
+import type { Reminder } from '../../models';
+import { createSmtpAdapter } from './smtp';
+import type { DeliveryAdapter } from './types';
+import { createWebhookAdapter } from './webhook';
+
+export { claimDelivery, settleDelivery } from './claims';
+export type { DeliveryClaim, DeliveryKey } from './claims';
+export { DeliveryError } from './types';
+export type { DeliveryAdapter } from './types';
+
+/**
+ * Server-side adapters for the `email` and `mobile` channels. `push` is delivered in the
+ * browser through the Notifications API, so it never reaches the server.
+ */
+export function getDeliveryAdapter(
+  channel: Reminder['channel'],
+  env: NodeJS.ProcessEnv = process.env
+): DeliveryAdapter | null {
+  if (channel === 'email' && env.SMTP_HOST && env.REMINDER_EMAIL_TO) {
+    return createSmtpAdapter({
+      host: env.SMTP_HOST,
+      port: Number(env.SMTP_PORT ?? (env.SMTP_SECURE === 'true' ? 465 : 25)),
+      secure: env.SMTP_SECURE === 'true',
+      username: env.SMTP_USER,
+      password: env.SMTP_PASS,
+      from: env.SMTP_FROM ?? 'NeuroNest <reminders@neuronest.local>',
+      to: env.REMINDER_EMAIL_TO,
+      appUrl: env.NEURONEST_APP_URL
+    });
+  }
+
+  if (channel === 'mobile' && env.REMINDER_WEBHOOK_URL) {
+    return createWebhookAdapter({
+      url: env.REMINDER_WEBHOOK_URL,
+      secret: env.REMINDER_WEBHOOK_SECRET,
+      appUrl: env.NEURONEST_APP_URL
+    });
+  }
+
+  return null;
+}
@@ -0,0 +1,144 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { channelTokens, type Reminder } from '../../models';
+import { reminderActionUrl } from '../../reminders/lifecycle';
+import { DeliveryError, type DeliveryAdapter } from './types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  from: string;
+  to: string;
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+  /** Public dashboard URL; when set, emails carry acknowledge and snooze links. */
+  appUrl?: string;
+}
+
+type SmtpReply = { code: number; text: string };
+
+function openSocket({ host, port, secure, timeoutMs = 10_000 }: SmtpOptions) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.setTimeout(timeoutMs, () => socket.destroy(new DeliveryError(`SMTP ${host}:${port} timed out`)));
+    socket.once('error', reject);
+  });
+}
+
+/** Reads CRLF-terminated SMTP replies, joining `250-…` continuation lines. */
+function createReplyReader(socket: net.Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  const ready: SmtpReply[] = [];
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let index = buffer.indexOf('\r\n');
+    while (index !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.join('\n') };
+        lines = [];
+        const next = waiting.shift();
+        if (next) next.resolve(reply);
+        else ready.push(reply);
+      }
+      index = buffer.indexOf('\r\n');
+    }
+  });
+  socket.on('error', (error) => waiting.splice(0).forEach((entry) => entry.reject(error)));
+  socket.on('close', () =>
+    waiting.splice(0).forEach((entry) => entry.reject(new DeliveryError('SMTP connection closed unexpectedly')))
+  );
+
+  return () =>
+    new Promise<SmtpReply>((resolve, reject) => {
+      const reply = ready.shift();
+      if (reply) resolve(reply);
+      else waiting.push({ resolve, reject });
+    });
+}
+
+function headerValue(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+export function buildReminderEmail(
+  reminder: Reminder,
+  { from, to, appUrl }: Pick<SmtpOptions, 'from' | 'to' | 'appUrl'>
+) {
+  const when = new Date(reminder.scheduledFor).toUTCString();
+  const links = appUrl
+    ? [
+        `Acknowledge: ${reminderActionUrl(appUrl, reminder.id, { type: 'acknowledge' })}`,
+        `Snooze 1 hour: ${reminderActionUrl(appUrl, reminder.id, { type: 'snooze', preset: '1h' })}`,
+        ''
+      ]
+    : [];
+  const body = [
+    `Reminder: ${reminder.title}`,
+    '',
+    `Scheduled for ${when} (${channelTokens[reminder.channel]}).`,
+    '',
+    ...links,
+    '— NeuroNest'
+  ].join('\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${headerValue(`⏰ ${reminder.title}`)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${reminder.id}.${Date.now()}@neuronest>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from(body).toString('base64').replace(/.{76}/g, '$&\r\n')
+  ].join('\r\n');
+}
+
+export async function sendMail(options: SmtpOptions, message: string) {
+  const socket = await openSocket(options);
+  const read = createReplyReader(socket);
+
+  async function expect(codes: number[], line?: string) {
+    if (line !== undefined) socket.write(`${line}\r\n`);
+    const reply = await read();
+    if (!codes.includes(reply.code)) {
+      throw new DeliveryError(`SMTP ${reply.code}: ${reply.text}`, reply.code < 500);
+    }
+    return reply;
+  }
+
+  try {
+    await expect([220]);
+    await expect([250], 'EHLO neuronest.local');
+    if (options.username) {
+      await expect([334], 'AUTH LOGIN');
+      await expect([334], Buffer.from(options.username).toString('base64'));
+      await expect([235], Buffer.from(options.password ?? '').toString('base64'));
+    }
+    await expect([250], `MAIL FROM:<${options.from.replace(/^.*<|>.*$/g, '')}>`);
+    await expect([250, 251], `RCPT TO:<${options.to.replace(/^.*<|>.*$/g, '')}>`);
+    await expect([354], 'DATA');
+    await expect([250], `${message.replace(/^\./gm, '..')}\r\n.`);
+    socket.write('QUIT\r\n');
+  } finally {
+    socket.end();
+  }
+}
+
+export function createSmtpAdapter(options: SmtpOptions): DeliveryAdapter {
+  return {
+    channel: 'email',
+    deliver: (reminder) => sendMail(options, buildReminderEmail(reminder, options))
+  };
+}
@@ -0,0 +1,16 @@
+import type { Reminder } from '../../models';
+
+export interface DeliveryAdapter {
+  readonly channel: Reminder['channel'];
+  deliver(reminder: Reminder): Promise<void>;
+}
+
+export class DeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly retryable = true
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
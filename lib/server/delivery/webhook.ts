@@ -0,0 +1,43 @@
+import { createHmac } from 'node:crypto';
+import type { Reminder } from '../../models';
+import { reminderActionUrl } from '../../reminders/lifecycle';
+import { DeliveryError, type DeliveryAdapter } from './types';
+
+export interface WebhookOptions {
+  url: string;
+  secret?: string;
+  timeoutMs?: number;
+  appUrl?: string;
+}
+
+/**
+ * Posts `reminder.due` events to a mobile push relay. When a secret is configured the
+ * body is signed as `X-NeuroNest-Signature: sha256=<hex hmac>`. With an `appUrl` the event
+ * also carries acknowledge/snooze links the relay can attach to the notification.
+ */
+export function createWebhookAdapter({ url, secret, timeoutMs = 10_000, appUrl }: WebhookOptions): DeliveryAdapter {
+  return {
+    channel: 'mobile',
+    async deliver(reminder: Reminder) {
+      const actions = appUrl
+        ? {
+            acknowledge: reminderActionUrl(appUrl, reminder.id, { type: 'acknowledge' }),
+            snooze: reminderActionUrl(appUrl, reminder.id, { type: 'snooze', preset: '1h' })
+          }
+        : undefined;
+      const body = JSON.stringify({ type: 'reminder.due', sentAt: new Date().toISOString(), reminder, actions });
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (secret) headers['X-NeuroNest-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+      let response: Response;
+      try {
+        response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(timeoutMs) });
+      } catch (error) {
+        throw new DeliveryError(`Webhook unreachable: ${error instanceof Error ? error.message : 'network error'}`);
+      }
+      if (!response.ok) {
+        throw new DeliveryError(`Webhook responded ${response.status}`, response.status >= 500);
+      }
+    }
+  };
+}
@@ -0,0 +1,329 @@
+import { randomUUID } from 'node:crypto';
+import { access, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { SyncChange, SyncCollection, SyncRecord } from '../sync/protocol';
+import { revisionOf, syncCollections } from '../sync/protocol';
+import { canUpdate, isShareable, recordAccess, sameShares, type ItemShare, type Shareable, type Viewer } from '../workspaces/access';
+import type { ActivityAction, ActivityEntry } from '../workspaces/protocol';
+
+type StoredRecord = SyncRecord & Record<string, unknown>;
+
+type StoredEntry = {
+  revision: number;
+  record: StoredRecord;
+  deletedAt?: string;
+};
+
+type StoreFile = {
+  version: 1;
+  revision: number;
+  collections: Record<SyncCollection, Record<string, StoredEntry>>;
+  /** Newest last; only changes to shareable records are logged. */
+  activity?: ActivityEntry[];
+};
+
+/** The member a store call acts for; every read and write is checked against their access. */
+export type Actor = Viewer & { name: string };
+
+export type WriteResult =
+  | { status: 'applied'; revision: number }
+  | { status: 'stale'; current: SyncChange }
+  | { status: 'denied'; current: SyncChange };
+
+const ACTIVITY_LIMIT = 200;
+/** Repeated edits of one record by one person within this window share an activity entry. */
+const ACTIVITY_MERGE_MS = 10 * 60_000;
+
+export const dataDir = process.env.NEURONEST_DATA_DIR ?? path.join(process.cwd(), '.neuronest');
+/** Where the single shared store lived before accounts; the first account to sign up adopts it. */
+const legacyStorePath = path.join(dataDir, 'store.json');
+
+/** Workspace ids end up in paths, so only plain ids are accepted. */
+export function workspaceDir(workspaceId: string) {
+  if (!/^[A-Za-z0-9_-]{1,100}$/.test(workspaceId)) throw new Error(`Invalid workspace id "${workspaceId}"`);
+  return path.join(dataDir, 'workspaces', workspaceId);
+}
+
+function storePathFor(workspaceId: string) {
+  return path.join(workspaceDir(workspaceId), 'store.json');
+}
+
+const cache = new Map<string, StoreFile>();
+let queue: Promise<unknown> = Promise.resolve();
+
+function emptyStore(): StoreFile {
+  return {
+    version: 1,
+    revision: 0,
+    collections: Object.fromEntries(syncCollections.map((name) => [name, {}])) as StoreFile['collections']
+  };
+}
+
+async function load(workspaceId: string): Promise<StoreFile> {
+  const cached = cache.get(workspaceId);
+  if (cached) return cached;
+  let store: StoreFile;
+  try {
+    const parsed = JSON.parse(await readFile(storePathFor(workspaceId), 'utf8')) as StoreFile;
+    store = { ...emptyStore(), ...parsed, collections: { ...emptyStore().collections, ...parsed.collections } };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    store = emptyStore();
+  }
+  cache.set(workspaceId, store);
+  return store;
+}
+
+async function persist(workspaceId: string, store: StoreFile) {
+  const storePath = storePathFor(workspaceId);
+  await mkdir(path.dirname(storePath), { recursive: true });
+  const temp = `${storePath}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(store));
+  await rename(temp, storePath);
+}
+
+/** Serializes access so concurrent requests never interleave a read-modify-write. */
+function withStore<T>(
+  workspaceId: string,
+  task: (store: StoreFile) => T | Promise<T>,
+  { write = false } = {}
+): Promise<T> {
+  const run = queue.then(async () => {
+    const store = await load(workspaceId);
+    const result = await task(store);
+    if (write) await persist(workspaceId, store);
+    return result;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+async function exists(file: string) {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Moves the pre-account store and uploads into `workspaceId`, if they are still lying around. */
+export function adoptLegacyData(workspaceId: string) {
+  return withStore(workspaceId, async () => {
+    if (!(await exists(legacyStorePath))) return false;
+    const target = workspaceDir(workspaceId);
+    await mkdir(target, { recursive: true });
+    await rename(legacyStorePath, storePathFor(workspaceId));
+    const legacyUploads = path.join(dataDir, 'uploads');
+    if (await exists(legacyUploads)) await rename(legacyUploads, path.join(target, 'uploads'));
+    cache.delete(workspaceId);
+    return true;
+  });
+}
+
+function toChange(entry: StoredEntry): SyncChange {
+  return entry.deletedAt
+    ? { op: 'delete', id: entry.record.id, deletedAt: entry.deletedAt }
+    : { op: 'upsert', record: entry.record };
+}
+
+function entryTime(entry: StoredEntry) {
+  return entry.deletedAt ?? revisionOf(entry.record);
+}
+
+function entryAccess(collection: SyncCollection, entry: StoredEntry | undefined, actor: Actor) {
+  if (!entry) return actor.role === 'viewer' ? 'viewer' : 'owner';
+  return recordAccess(collection, entry.record as StoredRecord & { ownerId?: string; shares?: ItemShare[] }, actor);
+}
+
+/** What `actor` gets to see of an entry: the entry itself, or a tombstone when it is not theirs to see. */
+function visibleChange(collection: SyncCollection, entry: StoredEntry, actor: Actor): SyncChange {
+  if (entryAccess(collection, entry, actor) !== 'none') return toChange(entry);
+  return { op: 'delete', id: entry.record.id, deletedAt: entryTime(entry) };
+}
+
+function isAllowed(collection: SyncCollection, existing: StoredEntry | undefined, change: SyncChange, actor: Actor) {
+  const level = entryAccess(collection, existing, actor);
+  if (change.op === 'delete') return level === 'owner';
+  return canUpdate(level, existing?.record as Shareable | undefined, change.record as Shareable);
+}
+
+function activityAction(existing: StoredEntry | undefined, change: SyncChange): ActivityAction {
+  if (change.op === 'delete') return 'deleted';
+  if (!existing || existing.deletedAt) return 'created';
+  const before = existing.record;
+  const after = change.record;
+  if (before.done !== after.done) return after.done ? 'completed' : 'reopened';
+  if (before.assigneeId !== after.assigneeId) return 'assigned';
+  if (!sameShares(before.shares as ItemShare[], after.shares as ItemShare[])) return 'shared';
+  return 'edited';
+}
+
+function logActivity(store: StoreFile, collection: SyncCollection, entry: StoredEntry, action: ActivityAction, actor: Actor) {
+  if (!isShareable(collection)) return;
+  const activity = (store.activity ??= []);
+  const at = new Date().toISOString();
+  const title = String(entry.record.title ?? entry.record.name ?? 'Untitled');
+  const last = activity[activity.length - 1];
+  if (
+    action === 'edited' &&
+    last?.action === 'edited' &&
+    last.actorId === actor.userId &&
+    last.recordId === entry.record.id &&
+    Date.parse(at) - Date.parse(last.at) < ACTIVITY_MERGE_MS
+  ) {
+    Object.assign(last, { at, title });
+    return;
+  }
+  activity.push({
+    id: randomUUID(),
+    actorId: actor.userId,
+    actorName: actor.name,
+    collection,
+    recordId: entry.record.id,
+    title,
+    action,
+    at
+  });
+  if (activity.length > ACTIVITY_LIMIT) activity.splice(0, activity.length - ACTIVITY_LIMIT);
+}
+
+function writeChange(store: StoreFile, collection: SyncCollection, change: SyncChange, actor: Actor): WriteResult {
+  const entries = store.collections[collection];
+  const id = change.op === 'upsert' ? change.record.id : change.id;
+  const incomingTime = change.op === 'upsert' ? revisionOf(change.record) : change.deletedAt;
+  const existing = entries[id];
+
+  if (!isAllowed(collection, existing, change, actor)) {
+    // Hand back whatever the actor may see, so their copy snaps back to it.
+    return {
+      status: 'denied',
+      current:
+        existing && entryAccess(collection, existing, actor) !== 'none'
+          ? toChange(existing)
+          : { op: 'delete', id, deletedAt: incomingTime }
+    };
+  }
+
+  // Per-record resolution: the newest edit of this record wins; other records are untouched.
+  if (existing && entryTime(existing) > incomingTime) {
+    return { status: 'stale', current: toChange(existing) };
+  }
+
+  store.revision += 1;
+  // Ownership is set by the first write that reaches the server and never moves after that.
+  const ownerId = existing?.record.ownerId ?? actor.userId;
+  const entry: StoredEntry =
+    change.op === 'upsert'
+      ? { revision: store.revision, record: { ...change.record, ownerId } }
+      : { revision: store.revision, record: existing?.record ?? { id }, deletedAt: change.deletedAt };
+  if (existing || change.op === 'upsert') logActivity(store, collection, entry, activityAction(existing, change), actor);
+  entries[id] = entry;
+  return { status: 'applied', revision: store.revision };
+}
+
+export function listRecords(workspaceId: string, collection: SyncCollection, actor: Actor) {
+  return withStore(workspaceId, (store) =>
+    Object.values(store.collections[collection])
+      .filter((entry) => !entry.deletedAt && entryAccess(collection, entry, actor) !== 'none')
+      .map((entry) => entry.record)
+  );
+}
+
+export function getRecord(workspaceId: string, collection: SyncCollection, id: string, actor: Actor) {
+  return withStore(workspaceId, (store) => {
+    const entry = store.collections[collection][id];
+    return entry && !entry.deletedAt && entryAccess(collection, entry, actor) !== 'none' ? entry.record : null;
+  });
+}
+
+/** `actor`'s access to a stored record, or null when there is no such record. */
+export function accessTo(workspaceId: string, collection: SyncCollection, id: string, actor: Actor) {
+  return withStore(workspaceId, (store) => {
+    const entry = store.collections[collection][id];
+    return entry && !entry.deletedAt ? entryAccess(collection, entry, actor) : null;
+  });
+}
+
+export function putRecord(workspaceId: string, collection: SyncCollection, record: StoredRecord, actor: Actor) {
+  return withStore(workspaceId, (store) => writeChange(store, collection, { op: 'upsert', record }, actor), {
+    write: true
+  });
+}
+
+export function deleteRecord(
+  workspaceId: string,
+  collection: SyncCollection,
+  id: string,
+  actor: Actor,
+  deletedAt = new Date().toISOString()
+) {
+  return withStore(
+    workspaceId,
+    (store) => {
+      const entry = store.collections[collection][id];
+      if (!entry || entryAccess(collection, entry, actor) === 'none') return null;
+      return writeChange(store, collection, { op: 'delete', id, deletedAt }, actor);
+    },
+    { write: true }
+  );
+}
+
+/** Recent changes to records `actor` can still see (or could see before they were deleted), newest first. */
+export function listActivity(workspaceId: string, actor: Actor, limit = 50) {
+  return withStore(workspaceId, (store) =>
+    (store.activity ?? [])
+      .filter((entry) => {
+        const stored = store.collections[entry.collection][entry.recordId];
+        return stored && entryAccess(entry.collection, stored, actor) !== 'none';
+      })
+      .reverse()
+      .slice(0, limit)
+  );
+}
+
+/**
+ * Applies a client's outgoing changes, then returns everything written after `cursor`
+ * plus the current server copy of any record whose incoming change lost or was not
+ * allowed. Records `actor` cannot see go out as deletions, so they drop off devices as
+ * soon as they stop being shared.
+ */
+export function syncChanges(
+  workspaceId: string,
+  cursor: number,
+  changes: Partial<Record<SyncCollection, SyncChange[]>>,
+  actor: Actor
+) {
+  return withStore(
+    workspaceId,
+    (store) => {
+      const rejected: Partial<Record<SyncCollection, SyncChange[]>> = {};
+      for (const collection of syncCollections) {
+        for (const change of changes[collection] ?? []) {
+          const result = writeChange(store, collection, change, actor);
+          if (result.status !== 'applied') (rejected[collection] ??= []).push(result.current);
+        }
+      }
+
+      const outgoing: Partial<Record<SyncCollection, SyncChange[]>> = {};
+      let rejectedCount = 0;
+      for (const collection of syncCollections) {
+        const list = Object.values(store.collections[collection])
+          .filter((entry) => entry.revision > cursor)
+          .sort((a, b) => a.revision - b.revision)
+          .map((entry) => visibleChange(collection, entry, actor));
+        const stale = rejected[collection] ?? [];
+        rejectedCount += stale.length;
+        const merged = [...list, ...stale.filter((change) => !list.some((entry) => sameRecord(entry, change)))];
+        if (merged.length) outgoing[collection] = merged;
+      }
+
+      return { cursor: store.revision, changes: outgoing, rejected: rejectedCount };
+    },
+    { write: Object.values(changes).some((list) => list && list.length > 0) }
+  );
+}
+
+function sameRecord(a: SyncChange, b: SyncChange) {
+  return (a.op === 'upsert' ? a.record.id : a.id) === (b.op === 'upsert' ? b.record.id : b.id);
+}
@@ -0,0 +1,58 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { workspaceDir } from './store';
+
+/** Upload ids come from the URL, so only plain record ids may touch the disk. */
+export function isUploadId(id: string) {
+  return /^[A-Za-z0-9_-]{1,100}$/.test(id);
+}
+
+/** `uploaderId` is missing on uploads stored before it was recorded. */
+export type UploadMeta = { type: string; name: string; size: number; storedAt: string; uploaderId?: string };
+
+function pathsFor(workspaceId: string, id: string) {
+  if (!isUploadId(id)) throw new Error(`Invalid upload id "${id}"`);
+  const dir = path.join(workspaceDir(workspaceId), 'uploads');
+  return { dir, data: path.join(dir, `${id}.bin`), meta: path.join(dir, `${id}.json`) };
+}
+
+export async function saveUpload(
+  workspaceId: string,
+  id: string,
+  bytes: Uint8Array,
+  { type, name, uploaderId }: { type: string; name: string; uploaderId: string }
+) {
+  const paths = pathsFor(workspaceId, id);
+  await mkdir(paths.dir, { recursive: true });
+  const meta: UploadMeta = { type, name, size: bytes.byteLength, storedAt: new Date().toISOString(), uploaderId };
+  const temp = `${paths.data}.${process.pid}.tmp`;
+  await writeFile(temp, bytes);
+  await rename(temp, paths.data);
+  await writeFile(paths.meta, JSON.stringify(meta));
+  return meta;
+}
+
+export async function readUpload(workspaceId: string, id: string) {
+  const paths = pathsFor(workspaceId, id);
+  try {
+    const [bytes, meta] = await Promise.all([readFile(paths.data), readFile(paths.meta, 'utf8')]);
+    return { bytes, meta: JSON.parse(meta) as UploadMeta };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export async function readUploadMeta(workspaceId: string, id: string) {
+  try {
+    return JSON.parse(await readFile(pathsFor(workspaceId, id).meta, 'utf8')) as UploadMeta;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export async function deleteUpload(workspaceId: string, id: string) {
+  const paths = pathsFor(workspaceId, id);
+  await Promise.all([rm(paths.data, { force: true }), rm(paths.meta, { force: true })]);
+}
@@ -0,0 +1,66 @@
+import { scopedName } from './scope';
+
+const DB_NAME = 'neuronest-data';
+const COLLECTIONS = 'collections';
+const META = 'meta';
+
+let opening: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(scopedName(DB_NAME), 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(COLLECTIONS);
+      request.result.createObjectStore(META);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      opening = null;
+      reject(request.error ?? new Error('Could not open the local database'));
+    };
+  });
+  return opening;
+}
+
+function settle(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = transaction.onerror = () => reject(transaction.error ?? new Error('Local database write failed'));
+  });
+}
+
+/** Every stored collection by name, plus the schema version they were written with (0 when never written). */
+export async function readDatabase() {
+  const db = await openDatabase();
+  const transaction = db.transaction([COLLECTIONS, META], 'readonly');
+  const collections: Record<string, unknown> = {};
+  let version = 0;
+
+  const cursor = transaction.objectStore(COLLECTIONS).openCursor();
+  cursor.onsuccess = () => {
+    if (!cursor.result) return;
+    collections[cursor.result.key as string] = cursor.result.value;
+    cursor.result.continue();
+  };
+  const versionRequest = transaction.objectStore(META).get('version');
+  versionRequest.onsuccess = () => {
+    if (typeof versionRequest.result === 'number') version = versionRequest.result;
+  };
+
+  await settle(transaction);
+  return { collections, version };
+}
+
+/** Writes collections and the schema version in one transaction, so a migration lands whole or not at all. */
+export async function writeDatabase(collections: Record<string, unknown>, version?: number) {
+  const db = await openDatabase();
+  const transaction = db.transaction([COLLECTIONS, META], 'readwrite');
+  const store = transaction.objectStore(COLLECTIONS);
+  for (const [name, records] of Object.entries(collections)) store.put(records, name);
+  if (version !== undefined) transaction.objectStore(META).put(version, 'version');
+  await settle(transaction);
+}
+
+export function isDatabaseAvailable() {
+  return typeof indexedDB !== 'undefined';
+}
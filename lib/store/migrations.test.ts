@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { STORE_VERSION, claimLegacyStorage, clearLegacyStorage, legacyKey, migrateStore, readLegacyStorage } from './migrations';
+
+// The legacy helpers only touch window.localStorage, so a Map-backed one stands in for the browser.
+const items = new Map<string, string>();
+const localStorage = {
+  getItem: (key: string) => items.get(key) ?? null,
+  setItem: (key: string, value: string) => void items.set(key, value),
+  removeItem: (key: string) => void items.delete(key)
+};
+Object.assign(globalThis, { window: { localStorage } });
+
+beforeEach(() => items.clear());
+
+describe('migrateStore', () => {
+  it('imports legacy collections the store does not have yet', () => {
+    const legacy = { notes: [{ id: 'old' }], tasks: [{ id: 'old-task' }] };
+    assert.deepEqual(migrateStore({ notes: [{ id: 'new' }] }, 0, legacy), {
+      notes: [{ id: 'new' }],
+      tasks: [{ id: 'old-task' }]
+    });
+  });
+
+  it('imports nothing when there is no legacy data to claim', () => {
+    assert.deepEqual(migrateStore({}, 0), {});
+  });
+
+  it('passes current and newer data through unchanged', () => {
+    const data = { notes: [] };
+    assert.equal(migrateStore(data, STORE_VERSION, { tasks: [] }), data);
+    assert.equal(migrateStore(data, STORE_VERSION + 1), data);
+  });
+
+  it('refuses versions it has no upgrade step for', () => {
+    assert.throws(() => migrateStore({}, -1), /version -1 can no longer be upgraded/);
+  });
+});
+
+describe('legacy storage', () => {
+  it('reads each collection and skips unreadable JSON', () => {
+    localStorage.setItem(legacyKey('notes'), '[{"id":"n"}]');
+    localStorage.setItem(legacyKey('tasks'), '{broken');
+    assert.deepEqual(readLegacyStorage(), { notes: [{ id: 'n' }] });
+
+    clearLegacyStorage();
+    assert.deepEqual(readLegacyStorage(), {});
+  });
+
+  it('belongs to the first account that claims it', () => {
+    assert.equal(claimLegacyStorage('ana'), true);
+    assert.equal(claimLegacyStorage('ben'), false);
+    assert.equal(claimLegacyStorage('ana'), true);
+  });
+});
@@ -0,0 +1,59 @@
+import { storeCollections, type StoreCollection } from './schema';
+
+/** Bump when the stored shape changes, and add the step that upgrades the previous version. */
+export const STORE_VERSION = 1;
+
+export type RawStore = Record<string, unknown>;
+
+/** Before the local database existed, each collection was a JSON string under its own localStorage key. */
+export function legacyKey(name: StoreCollection) {
+  return `neuronest.${name}`;
+}
+
+export function readLegacyStorage(keyOf = legacyKey): RawStore {
+  const data: RawStore = {};
+  for (const name of storeCollections) {
+    try {
+      const raw = window.localStorage.getItem(keyOf(name));
+      if (raw !== null) data[name] = JSON.parse(raw);
+    } catch {
+      // unreadable JSON counts as missing; the defaults take over
+    }
+  }
+  return data;
+}
+
+export function clearLegacyStorage() {
+  for (const name of storeCollections) window.localStorage.removeItem(legacyKey(name));
+}
+
+const LEGACY_OWNER_KEY = 'neuronest.legacyOwner';
+
+/**
+ * The unscoped legacy keys belong to the first account that signs in on this browser.
+ * Returns whether `userId` is that account, claiming the data for it if nobody has yet.
+ */
+export function claimLegacyStorage(userId: string) {
+  const owner = window.localStorage.getItem(LEGACY_OWNER_KEY);
+  if (owner === null) window.localStorage.setItem(LEGACY_OWNER_KEY, userId);
+  return (owner ?? userId) === userId;
+}
+
+/**
+ * Ordered upgrade steps: `migrations[n]` turns version n data into version n + 1.
+ * `legacy` is the pre-database localStorage data, or empty when this store may not import it.
+ */
+const migrations: Record<number, (data: RawStore, legacy: RawStore) => RawStore> = {
+  0: (data, legacy) => ({ ...legacy, ...data })
+};
+
+/** Runs every step from `version` up to STORE_VERSION; data from a newer build is passed through as is. */
+export function migrateStore(data: RawStore, version: number, legacy: RawStore = {}) {
+  let migrated = data;
+  for (let step = version; step < STORE_VERSION; step += 1) {
+    const migrate = migrations[step];
+    if (!migrate) throw new Error(`Stored data of version ${step} can no longer be upgraded`);
+    migrated = migrate(migrated, legacy);
+  }
+  return migrated;
+}
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { invalidFields, repairRecord, sanitizeCollection, withDefaults, type LoadReport } from './schema';
+
+const now = '2026-03-01T10:00:00.000Z';
+
+const note = { id: 'n', title: 'T', content: '', tags: [], pinned: false, createdAt: now, updatedAt: now };
+
+const task = { id: 't', title: 'T', done: false, priority: 'medium' };
+
+describe('invalidFields', () => {
+  it('lists failing fields in schema order', () => {
+    assert.deepEqual(invalidFields('notes', note), []);
+    assert.deepEqual(invalidFields('notes', { ...note, tags: ['ok', 1], pinned: 'yes' }), ['tags', 'pinned']);
+  });
+
+  it('checks nested shapes such as links, shares and recurrences', () => {
+    const damaged = {
+      ...task,
+      links: [{ type: 'about', target: { kind: 'note' } }],
+      shares: [{ userId: 'ben', role: 'owner' }],
+      recurrence: { rrule: 'FREQ=DAILY' }
+    };
+    assert.deepEqual(invalidFields('tasks', damaged), ['recurrence', 'links', 'shares']);
+  });
+
+  it('reports the fields of a trashed record under record.', () => {
+    assert.deepEqual(invalidFields('trash', { kind: 'task', deletedAt: now, record: { ...task, done: 'no' } }), [
+      'record.done'
+    ]);
+  });
+});
+
+describe('withDefaults', () => {
+  it('fills in missing fields without overriding present ones', () => {
+    assert.deepEqual(withDefaults('tasks', { id: 't', title: 'T', done: true }, now), { ...task, done: true });
+    assert.deepEqual(withDefaults('notes', { id: 'n', title: 'T', content: '', createdAt: 'then' }, now), {
+      ...note,
+      createdAt: 'then',
+      updatedAt: 'then'
+    });
+  });
+});
+
+describe('repairRecord', () => {
+  it('returns valid records as they are', () => {
+    const result = repairRecord('notes', note, now);
+    assert.equal(result?.record, note);
+    assert.equal(result?.repaired, false);
+  });
+
+  it('resets damaged fields to defaults and drops damaged optional ones', () => {
+    const result = repairRecord('tasks', { ...task, priority: 'urgent', links: 'none', dueDate: 5 }, now);
+    assert.deepEqual(result, { record: task, repaired: true });
+  });
+
+  it('drops a nested value that no longer fits its shape', () => {
+    const result = repairRecord('reminders', {
+      id: 'r',
+      title: 'R',
+      scheduledFor: now,
+      channel: 'email',
+      delivery: { status: 'delivered', channel: 'pager', occurrence: now, at: now }
+    });
+    assert.deepEqual(result?.record, { id: 'r', title: 'R', scheduledFor: now, channel: 'email' });
+  });
+
+  it('gives up when a required field without a default is damaged', () => {
+    assert.equal(repairRecord('notes', { ...note, title: 3 }), null);
+    assert.equal(repairRecord('notes', 'not a record'), null);
+  });
+
+  it('repairs the record inside a trash entry', () => {
+    const result = repairRecord('trash', { kind: 'task', deletedAt: now, record: { ...task, priority: 9 } }, now);
+    assert.deepEqual(result, { record: { kind: 'task', deletedAt: now, record: task }, repaired: true });
+    assert.equal(repairRecord('trash', { kind: 'task', deletedAt: now, record: { id: 't' } }), null);
+  });
+});
+
+describe('sanitizeCollection', () => {
+  it('keeps repairable records, drops the rest and counts both', () => {
+    const report: LoadReport = { repaired: 0, dropped: 0 };
+    const records = sanitizeCollection('tasks', [task, { ...task, id: 'u', done: 'no' }, { ...task }, { id: 'x' }, null], report);
+    assert.deepEqual(
+      records.map((record) => record.id),
+      ['t', 'u']
+    );
+    assert.deepEqual(report, { repaired: 1, dropped: 3 });
+  });
+
+  it('treats a missing collection as empty and a malformed one as dropped', () => {
+    const report: LoadReport = { repaired: 0, dropped: 0 };
+    assert.deepEqual(sanitizeCollection('notes', undefined, report), []);
+    assert.deepEqual(sanitizeCollection('notes', { notes: [] }, report), []);
+    assert.deepEqual(report, { repaired: 0, dropped: 1 });
+  });
+});
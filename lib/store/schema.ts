@@ -0,0 +1,271 @@
+import type { ChatMessage, FileResource, Note, Reminder, Task } from '../models';
+import type { NoteRevision } from '../history/revisions';
+import type { TrashEntry } from '../trash';
+
+/** Everything the dashboard keeps in the local store, by collection name. */
+export type StoredCollections = {
+  notes: Note[];
+  tasks: Task[];
+  reminders: Reminder[];
+  files: FileResource[];
+  chat: ChatMessage[];
+  trash: TrashEntry[];
+  noteHistory: NoteRevision[];
+};
+
+export type StoreCollection = keyof StoredCollections;
+
+export const storeCollections: StoreCollection[] = ['notes', 'tasks', 'reminders', 'files', 'chat', 'trash', 'noteHistory'];
+
+export type RawRecord = Record<string, unknown>;
+
+export type FieldCheck = (value: unknown) => boolean;
+
+export const isString: FieldCheck = (value) => typeof value === 'string';
+export const isBoolean: FieldCheck = (value) => typeof value === 'boolean';
+export const isNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+export const isStringList: FieldCheck = (value) => Array.isArray(value) && value.every(isString);
+export const isRecord: FieldCheck = (value) => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+export const oneOf = (...options: string[]): FieldCheck => (value) => options.includes(value as string);
+export const optional = (check: FieldCheck): FieldCheck => (value) => value === undefined || check(value);
+export const listOf = (check: FieldCheck): FieldCheck => (value) => Array.isArray(value) && value.every(check);
+/** An object whose fields pass `fields`; other fields are left alone. */
+export const shape =
+  (fields: Record<string, FieldCheck>): FieldCheck =>
+  (value) =>
+    isRecord(value) && Object.entries(fields).every(([field, check]) => check((value as RawRecord)[field]));
+
+const channel = oneOf('mobile', 'email', 'push');
+
+const recurrence = shape({ rrule: isString, dtstart: isString });
+
+const links = listOf(
+  shape({
+    type: oneOf('derived-from', 'attached-to', 'about', 'related-to'),
+    target: shape({ kind: oneOf('note', 'task', 'reminder', 'file'), id: isString })
+  })
+);
+
+const shares = listOf(shape({ userId: isString, role: oneOf('viewer', 'editor') }));
+
+const delivery = shape({
+  status: oneOf('delivered', 'failed', 'missed'),
+  channel,
+  occurrence: isString,
+  at: isString,
+  error: optional(isString)
+});
+
+const citations = listOf(
+  shape({ index: isNumber, kind: oneOf('note', 'file'), id: isString, title: isString, excerpt: isString })
+);
+
+const actionProposals = listOf(
+  shape({
+    id: isString,
+    label: isString,
+    detail: optional(isString),
+    status: oneOf('proposed', 'applied', 'dismissed', 'undone'),
+    action: shape({
+      type: oneOf('create_task', 'create_reminder', 'set_note_pinned', 'complete_task', 'split_task', 'schedule_tasks')
+    }),
+    undo: optional(shape({ type: isString }))
+  })
+);
+
+export type EntityCollection = 'notes' | 'tasks' | 'reminders' | 'files' | 'chat';
+
+const entitySchemas: Record<EntityCollection, Record<string, FieldCheck>> = {
+  notes: {
+    id: isString,
+    title: isString,
+    content: isString,
+    tags: isStringList,
+    pinned: isBoolean,
+    createdAt: isString,
+    updatedAt: isString,
+    links: optional(links),
+    ownerId: optional(isString),
+    shares: optional(shares)
+  },
+  tasks: {
+    id: isString,
+    title: isString,
+    done: isBoolean,
+    priority: oneOf('low', 'medium', 'high'),
+    status: optional(oneOf('todo', 'in-progress')),
+    dueDate: optional(isString),
+    parentId: optional(isString),
+    blockedBy: optional(isStringList),
+    tags: optional(isStringList),
+    scheduledStart: optional(isString),
+    scheduledMinutes: optional(isNumber),
+    recurrence: optional(recurrence),
+    lastCompletedAt: optional(isString),
+    icalUid: optional(isString),
+    links: optional(links),
+    ownerId: optional(isString),
+    shares: optional(shares),
+    assigneeId: optional(isString),
+    updatedAt: optional(isString)
+  },
+  reminders: {
+    id: isString,
+    title: isString,
+    scheduledFor: isString,
+    channel,
+    status: optional(oneOf('pending', 'fired', 'snoozed', 'acknowledged')),
+    recurrence: optional(recurrence),
+    snoozedUntil: optional(isString),
+    acknowledgedAt: optional(isString),
+    escalation: optional(shape({ channel, afterMinutes: isNumber })),
+    icalUid: optional(isString),
+    tags: optional(isStringList),
+    links: optional(links),
+    delivery: optional(delivery),
+    escalationDelivery: optional(delivery),
+    ownerId: optional(isString),
+    updatedAt: optional(isString)
+  },
+  files: {
+    id: isString,
+    name: isString,
+    size: isNumber,
+    type: isString,
+    uploadedAt: isString,
+    description: optional(isString),
+    content: optional(isString),
+    extraction: optional(oneOf('done', 'unsupported', 'failed')),
+    thumbnail: optional(isString),
+    remoteUrl: optional(isString),
+    links: optional(links),
+    ownerId: optional(isString),
+    shares: optional(shares),
+    updatedAt: optional(isString)
+  },
+  chat: {
+    id: isString,
+    role: oneOf('user', 'assistant'),
+    content: isString,
+    timestamp: isString,
+    actions: optional(actionProposals),
+    citations: optional(citations),
+    ownerId: optional(isString),
+    updatedAt: optional(isString)
+  }
+};
+
+const trashKinds: Record<TrashEntry['kind'], EntityCollection> = {
+  note: 'notes',
+  task: 'tasks',
+  reminder: 'reminders',
+  file: 'files'
+};
+
+/** Field checks per collection; a record passes when every check does. */
+export const recordSchemas: Record<StoreCollection, Record<string, FieldCheck>> = {
+  ...entitySchemas,
+  trash: {
+    kind: oneOf(...Object.keys(trashKinds)),
+    deletedAt: isString,
+    record: isRecord
+  },
+  noteHistory: {
+    id: isString,
+    noteId: isString,
+    title: isString,
+    content: isString,
+    tags: isStringList,
+    savedAt: isString
+  }
+};
+
+/**
+ * Values for fields that early builds did not write, or that are safe to reset when
+ * damaged. A required field without a default makes the record unrecoverable.
+ */
+const recordDefaults: Partial<Record<StoreCollection, (record: RawRecord, now: string) => RawRecord>> = {
+  notes: (note, now) => ({
+    tags: [],
+    pinned: false,
+    createdAt: isString(note.updatedAt) ? note.updatedAt : now,
+    updatedAt: isString(note.createdAt) ? note.createdAt : now
+  }),
+  tasks: () => ({ done: false, priority: 'medium' }),
+  reminders: () => ({ channel: 'mobile' }),
+  files: (_file, now) => ({ type: '', size: 0, uploadedAt: now }),
+  chat: (_message, now) => ({ timestamp: now }),
+  noteHistory: () => ({ tags: [] })
+};
+
+/** Fills in fields that are missing altogether; present values are left for the schema to judge. */
+export function withDefaults(name: StoreCollection, record: RawRecord, now = new Date().toISOString()): RawRecord {
+  return { ...recordDefaults[name]?.(record, now), ...record };
+}
+
+/** The fields of `record` that fail their checks, in schema order. */
+export function invalidFields(name: StoreCollection, record: RawRecord): string[] {
+  const fields = Object.entries(recordSchemas[name])
+    .filter(([field, check]) => !check(record[field]))
+    .map(([field]) => field);
+  if (name === 'trash' && !fields.length) {
+    const inner = invalidFields(trashKinds[record.kind as TrashEntry['kind']], record.record as RawRecord);
+    return inner.map((field) => `record.${field}`);
+  }
+  return fields;
+}
+
+/**
+ * Makes a stored record fit its schema: damaged fields are reset to their default, or
+ * dropped when optional. Returns null when a required field cannot be recovered.
+ */
+export function repairRecord(
+  name: StoreCollection,
+  value: unknown,
+  now = new Date().toISOString()
+): { record: RawRecord; repaired: boolean } | null {
+  if (!isRecord(value)) return null;
+  let record = value as RawRecord;
+  if (name === 'trash' && isRecord(record.record) && trashKinds[record.kind as TrashEntry['kind']]) {
+    const inner = repairRecord(trashKinds[record.kind as TrashEntry['kind']], record.record, now);
+    if (!inner) return null;
+    if (inner.record !== record.record) record = { ...record, record: inner.record };
+  }
+
+  const defaults = recordDefaults[name]?.(record, now) ?? {};
+  let repaired = record;
+  for (const field of Object.keys(recordSchemas[name])) {
+    const check = recordSchemas[name][field];
+    if (check(repaired[field])) continue;
+    if (repaired === record) repaired = { ...record };
+    if (field in defaults) repaired[field] = defaults[field];
+    else if (check(undefined)) delete repaired[field];
+    else return null;
+  }
+  return { record: repaired, repaired: repaired !== value };
+}
+
+export type LoadReport = { repaired: number; dropped: number };
+
+/** Keeps the records that are valid or repairable, and the first copy of any duplicated id. */
+export function sanitizeCollection(name: StoreCollection, value: unknown, report: LoadReport) {
+  if (!Array.isArray(value)) {
+    if (value !== undefined) report.dropped += 1;
+    return [];
+  }
+  const now = new Date().toISOString();
+  const seen = new Set<string>();
+  const records: RawRecord[] = [];
+  for (const entry of value) {
+    const result = repairRecord(name, entry, now);
+    const key = result && (name === 'trash' ? `${result.record.kind}:${(result.record.record as RawRecord).id}` : result.record.id);
+    if (!result || seen.has(key as string)) {
+      report.dropped += 1;
+      continue;
+    }
+    if (result.repaired) report.repaired += 1;
+    seen.add(key as string);
+    records.push(result.record);
+  }
+  return records;
+}
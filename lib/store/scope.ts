@@ -0,0 +1,21 @@
+let workspaceScope: string | null = null;
+
+/**
+ * Points every browser-side store (collections, file blobs, the sync outbox) at one
+ * workspace, so people sharing a browser never see each other's data. Set it before
+ * anything is read; switching back and forth needs a page reload.
+ */
+export function setWorkspaceScope(workspaceId: string) {
+  workspaceScope = workspaceId;
+}
+
+/** `base` suffixed with the current workspace, e.g. `neuronest-data:ws-abc`. */
+export function scopedName(base: string) {
+  return workspaceScope ? `${base}:${workspaceScope}` : base;
+}
+
+/** `path` addressed to the current workspace, which the data API reads from `?workspace=`. */
+export function workspaceUrl(path: string) {
+  if (!workspaceScope) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}workspace=${encodeURIComponent(workspaceScope)}`;
+}
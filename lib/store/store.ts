@@ -0,0 +1,82 @@
+import { isDatabaseAvailable, readDatabase, writeDatabase } from './database';
+import {
+  STORE_VERSION,
+  claimLegacyStorage,
+  clearLegacyStorage,
+  legacyKey,
+  migrateStore,
+  readLegacyStorage,
+  type RawStore
+} from './migrations';
+import { scopedName } from './scope';
+import { sanitizeCollection, storeCollections, type LoadReport, type StoreCollection, type StoredCollections } from './schema';
+
+type Backend = 'database' | 'localStorage';
+
+let backend: Backend = 'localStorage';
+let loaded: Partial<StoredCollections> = {};
+
+/** Without IndexedDB each workspace keeps its collections under its own localStorage keys. */
+function fallbackKey(name: StoreCollection) {
+  return scopedName(legacyKey(name));
+}
+
+function sanitize(data: RawStore, report: LoadReport) {
+  const collections: Partial<StoredCollections> = {};
+  for (const name of storeCollections) {
+    if (data[name] === undefined) continue;
+    (collections as Record<string, unknown>)[name] = sanitizeCollection(name, data[name], report);
+  }
+  return collections;
+}
+
+async function loadFromDatabase(report: LoadReport, importLegacy: boolean) {
+  const { collections, version } = await readDatabase();
+  const legacy = importLegacy && version < STORE_VERSION ? readLegacyStorage() : {};
+  const data = sanitize(migrateStore(collections, version, legacy), report);
+  if (version < STORE_VERSION) {
+    await writeDatabase(data, STORE_VERSION);
+    if (importLegacy) clearLegacyStorage();
+  } else if (report.repaired || report.dropped) {
+    await writeDatabase(data);
+  }
+  return data;
+}
+
+/** Who is opening which workspace; decides whether the pre-database data may be imported. */
+export type StoreOwner = { userId: string; personal: boolean };
+
+/**
+ * Reads, migrates and validates every collection once, before the dashboard mounts.
+ * Corrupt records are repaired or skipped rather than thrown, and counted in the report.
+ * Falls back to localStorage where IndexedDB is missing or refuses to open.
+ * Legacy data only ever lands in the personal workspace of the account that claimed it.
+ */
+export async function loadStore(owner: StoreOwner): Promise<LoadReport> {
+  const report: LoadReport = { repaired: 0, dropped: 0 };
+  const importLegacy = claimLegacyStorage(owner.userId) && owner.personal;
+  if (isDatabaseAvailable()) {
+    try {
+      loaded = await loadFromDatabase(report, importLegacy);
+      backend = 'database';
+      return report;
+    } catch {
+      report.repaired = 0;
+      report.dropped = 0;
+    }
+  }
+  loaded = sanitize(readLegacyStorage(fallbackKey), report);
+  backend = 'localStorage';
+  return report;
+}
+
+/** The collection as loaded, or undefined when it has never been saved. */
+export function loadedCollection<K extends StoreCollection>(name: K) {
+  return loaded[name] as StoredCollections[K] | undefined;
+}
+
+export async function saveCollection<K extends StoreCollection>(name: K, records: StoredCollections[K]) {
+  loaded[name] = records;
+  if (backend === 'database') await writeDatabase({ [name]: records });
+  else window.localStorage.setItem(fallbackKey(name), JSON.stringify(records));
+}
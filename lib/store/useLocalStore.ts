@@ -0,0 +1,58 @@
+'use client';
+
+import { Dispatch, SetStateAction, useEffect, useRef, useState } from 'react';
+import type { LoadReport, StoreCollection, StoredCollections } from './schema';
+import { setWorkspaceScope } from './scope';
+import { loadStore, loadedCollection, saveCollection } from './store';
+
+const SAVE_DELAY_MS = 300;
+
+/**
+ * Loads one workspace's local store for `userId`; render nothing that reads a collection until `ready`.
+ * `personal` marks the user's own workspace, the only one that may import pre-database data.
+ */
+export function useLocalStore(workspaceId: string, userId: string, personal: boolean) {
+  const [report, setReport] = useState<LoadReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWorkspaceScope(workspaceId);
+    void loadStore({ userId, personal }).then((result) => {
+      if (!cancelled) setReport(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, userId, personal]);
+
+  return { ready: report !== null, report };
+}
+
+/**
+ * State backed by one stored collection, starting from what `useLocalStore` loaded
+ * (or `fallback` on first run). Changes are written back shortly after they settle.
+ */
+export function useStoredCollection<K extends StoreCollection>(
+  name: K,
+  fallback: StoredCollections[K] | (() => StoredCollections[K])
+): [StoredCollections[K], Dispatch<SetStateAction<StoredCollections[K]>>] {
+  const [records, setRecords] = useState<StoredCollections[K]>(() => {
+    const stored = loadedCollection(name);
+    if (stored) return stored;
+    return typeof fallback === 'function' ? fallback() : fallback;
+  });
+  const saved = useRef(records);
+
+  useEffect(() => {
+    if (records === saved.current) return;
+    const timer = window.setTimeout(() => {
+      saved.current = records;
+      void saveCollection(name, records).catch(() => {
+        // keep working from memory; the next change writes the whole collection again
+      });
+    }, SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [name, records]);
+
+  return [records, setRecords];
+}
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkRemoteChanges, collectChanges, markPushed, mergeRemoteChanges } from './engine';
+import type { SyncChange, SyncRecord } from './protocol';
+
+type Item = SyncRecord & { title: string; previewUrl?: string };
+
+const at = (minute: number) => `2026-03-01T10:${String(minute).padStart(2, '0')}:00.000Z`;
+
+const item = (id: string, minute: number, title = id): Item => ({ id, title, updatedAt: at(minute) });
+
+const upsert = (record: SyncRecord & Record<string, unknown>): SyncChange => ({ op: 'upsert', record });
+
+const remove = (id: string, minute: number): SyncChange => ({ op: 'delete', id, deletedAt: at(minute) });
+
+describe('collectChanges', () => {
+  it('sends new and edited records and deletes the ones that are gone', () => {
+    const base = { kept: at(1), edited: at(1), gone: at(1) };
+    const changes = collectChanges('notes', [item('kept', 1), item('edited', 2), item('new', 3)], base, at(9));
+    assert.deepEqual(changes, [upsert(item('edited', 2)), upsert(item('new', 3)), remove('gone', 9)]);
+  });
+
+  it('never sends device-only file fields', () => {
+    const file = { ...item('f', 1), previewUrl: 'blob:local' };
+    const [change] = collectChanges('files', [file]);
+    assert.equal(change.op, 'upsert');
+    assert.ok(change.op === 'upsert' && !('previewUrl' in change.record));
+    assert.equal(file.previewUrl, 'blob:local');
+  });
+});
+
+describe('markPushed', () => {
+  it('records pushed revisions and forgets deleted ids', () => {
+    assert.deepEqual(markPushed({ a: at(1), b: at(1) }, [upsert(item('a', 2)), remove('b', 3)]), { a: at(2) });
+  });
+});
+
+describe('checkRemoteChanges', () => {
+  const note = { id: 'n', title: 'T', content: '', tags: [], pinned: false, createdAt: at(0), updatedAt: at(1) };
+
+  it('passes valid records and deletes through untouched', () => {
+    const changes = [upsert(note), remove('x', 2)];
+    const checked = checkRemoteChanges('notes', changes);
+    assert.equal(checked[0], changes[0]);
+    assert.equal(checked[1], changes[1]);
+  });
+
+  it('repairs damaged fields and skips records it cannot repair', () => {
+    const checked = checkRemoteChanges('notes', [upsert({ ...note, tags: 'oops' }), upsert({ id: 'bad', updatedAt: at(1) })]);
+    assert.equal(checked.length, 1);
+    assert.deepEqual(checked[0], upsert(note));
+  });
+});
+
+describe('mergeRemoteChanges', () => {
+  it('adds, replaces and removes records that have no local edits', () => {
+    const local = [item('a', 1), item('b', 1)];
+    const base = { a: at(1), b: at(1) };
+    const result = mergeRemoteChanges('notes', local, [upsert(item('a', 2, 'A2')), remove('b', 3), upsert(item('c', 4))], base);
+    assert.deepEqual(result.records, [item('c', 4), item('a', 2, 'A2')]);
+    assert.deepEqual(result.base, { a: at(2), c: at(4) });
+    assert.equal(result.changed, true);
+  });
+
+  it('keeps a newer unsynced local edit and takes a newer remote one', () => {
+    const base = { a: at(1) };
+    const kept = mergeRemoteChanges('notes', [item('a', 5, 'mine')], [upsert(item('a', 3, 'theirs'))], base);
+    assert.equal(kept.records[0].title, 'mine');
+    assert.equal(kept.changed, false);
+
+    const taken = mergeRemoteChanges('notes', [item('a', 2, 'mine')], [upsert(item('a', 3, 'theirs'))], base);
+    assert.equal(taken.records[0].title, 'theirs');
+  });
+
+  it('lets a queued edit outlive an older remote delete', () => {
+    const result = mergeRemoteChanges('notes', [item('a', 1)], [remove('a', 2)], { a: at(1) }, { a: at(4) });
+    assert.deepEqual(result.records, [item('a', 1)]);
+    assert.equal(result.changed, false);
+  });
+
+  it('does not resurrect a record deleted locally with a stale remote copy', () => {
+    const result = mergeRemoteChanges('notes', [], [upsert(item('a', 1))], { a: at(1) });
+    assert.deepEqual(result.records, []);
+    assert.equal(result.changed, false);
+  });
+
+  it('leaves an unsynced local copy alone when the remote one is no newer', () => {
+    const result = mergeRemoteChanges('notes', [item('a', 2, 'mine')], [upsert(item('a', 2, 'theirs'))], {});
+    assert.deepEqual(result.records, [item('a', 2, 'mine')]);
+    assert.deepEqual(result.base, {});
+    assert.equal(result.changed, false);
+  });
+
+  it('keeps device-only file fields across a remote update', () => {
+    const local = [{ ...item('f', 1), previewUrl: 'blob:local' }];
+    const result = mergeRemoteChanges('files', local, [upsert(item('f', 2, 'renamed'))], { f: at(1) });
+    assert.deepEqual(result.records, [{ ...item('f', 2, 'renamed'), previewUrl: 'blob:local' }]);
+  });
+});
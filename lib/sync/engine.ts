@@ -0,0 +1,130 @@
+import { repairRecord } from '../store/schema';
+import type { SyncChange, SyncCollection, SyncRecord } from './protocol';
+import { revisionOf } from './protocol';
+
+/** Revision of every record as of the last sync or enqueue, keyed by id. */
+export type SyncBase = Record<string, string>;
+
+export type SyncState = {
+  cursor: number;
+  base: Partial<Record<SyncCollection, SyncBase>>;
+};
+
+/** Device-specific fields that must never leave the browser (e.g. blob URLs saved by older builds). */
+const localOnlyFields: Partial<Record<SyncCollection, string[]>> = {
+  files: ['previewUrl']
+};
+
+function stripLocalFields(collection: SyncCollection, record: SyncRecord) {
+  const fields = localOnlyFields[collection];
+  if (!fields) return record as SyncRecord & Record<string, unknown>;
+  const copy: Record<string, unknown> = { ...record };
+  fields.forEach((field) => delete copy[field]);
+  return copy as SyncRecord & Record<string, unknown>;
+}
+
+function keepLocalFields<T extends SyncRecord>(collection: SyncCollection, local: T | undefined, remote: SyncRecord): T {
+  const fields = localOnlyFields[collection];
+  if (!fields || !local) return remote as T;
+  const merged: Record<string, unknown> = { ...remote };
+  fields.forEach((field) => {
+    const value = (local as Record<string, unknown>)[field];
+    if (value !== undefined) merged[field] = value;
+  });
+  return merged as T;
+}
+
+/** Diffs the local collection against the last-synced base to find creates, edits and deletes. */
+export function collectChanges(
+  collection: SyncCollection,
+  records: SyncRecord[],
+  base: SyncBase = {},
+  now = new Date().toISOString()
+): SyncChange[] {
+  const changes: SyncChange[] = [];
+  const seen = new Set<string>();
+
+  for (const record of records) {
+    seen.add(record.id);
+    if (base[record.id] !== revisionOf(record)) {
+      changes.push({ op: 'upsert', record: stripLocalFields(collection, record) });
+    }
+  }
+  for (const id of Object.keys(base)) {
+    if (!seen.has(id)) changes.push({ op: 'delete', id, deletedAt: now });
+  }
+  return changes;
+}
+
+export function markPushed(base: SyncBase, changes: SyncChange[]): SyncBase {
+  const next = { ...base };
+  for (const change of changes) {
+    if (change.op === 'upsert') next[change.record.id] = revisionOf(change.record);
+    else delete next[change.id];
+  }
+  return next;
+}
+
+/**
+ * Holds incoming records to the same schema as stored ones, since another device or
+ * member may run a different build: damaged fields are repaired, and records that
+ * cannot be repaired are skipped rather than merged.
+ */
+export function checkRemoteChanges(collection: SyncCollection, changes: SyncChange[]): SyncChange[] {
+  return changes.flatMap((change): SyncChange[] => {
+    if (change.op === 'delete') return [change];
+    const result = repairRecord(collection, change.record);
+    if (!result || typeof result.record.id !== 'string') return [];
+    return [result.repaired ? { op: 'upsert', record: result.record as SyncRecord & Record<string, unknown> } : change];
+  });
+}
+
+/**
+ * Folds remote changes into the local collection record by record. A local edit that has
+ * not reached the server yet (still queued, or made since the last diff) survives only if
+ * it is newer than the incoming version.
+ */
+export function mergeRemoteChanges<T extends SyncRecord>(
+  collection: SyncCollection,
+  records: T[],
+  changes: SyncChange[],
+  base: SyncBase,
+  pending: Record<string, string> = {}
+): { records: T[]; base: SyncBase; changed: boolean } {
+  let next = [...records];
+  const nextBase = { ...base };
+  let changed = false;
+
+  for (const change of changes) {
+    const id = change.op === 'upsert' ? change.record.id : change.id;
+    const index = next.findIndex((record) => record.id === id);
+    const local = index === -1 ? undefined : next[index];
+    const unsyncedAt =
+      pending[id] ?? (local && revisionOf(local) !== nextBase[id] ? revisionOf(local) : undefined);
+
+    if (change.op === 'delete') {
+      if (unsyncedAt !== undefined && unsyncedAt > change.deletedAt) continue;
+      if (local) {
+        next = next.filter((record) => record.id !== id);
+        changed = true;
+      }
+      delete nextBase[id];
+      continue;
+    }
+
+    const remoteRevision = revisionOf(change.record);
+    if (unsyncedAt !== undefined && unsyncedAt >= remoteRevision) continue;
+    if (!local && id in nextBase && remoteRevision <= nextBase[id]) continue;
+    if (local && revisionOf(local) === remoteRevision) {
+      nextBase[id] = remoteRevision;
+      continue;
+    }
+
+    const merged = keepLocalFields(collection, local, change.record);
+    next = index === -1 ? [merged, ...next] : next.map((record, position) => (position === index ? merged : record));
+    nextBase[id] = remoteRevision;
+    changed = true;
+  }
+
+  return { records: next, base: nextBase, changed };
+}
@@ -0,0 +1,69 @@
+import { scopedName } from '../store/scope';
+import { uid } from '../utils';
+import type { SyncChange, SyncChangeSet, SyncCollection } from './protocol';
+import { revisionOf } from './protocol';
+
+const OUTBOX_KEY = 'neuronest.outbox';
+
+export type OutboxEntry = {
+  id: string;
+  collection: SyncCollection;
+  change: SyncChange;
+  queuedAt: string;
+};
+
+function recordId(change: SyncChange) {
+  return change.op === 'upsert' ? change.record.id : change.id;
+}
+
+function changeTime(change: SyncChange) {
+  return change.op === 'upsert' ? revisionOf(change.record) : change.deletedAt;
+}
+
+export function loadOutbox(): OutboxEntry[] {
+  try {
+    const raw = window.localStorage.getItem(scopedName(OUTBOX_KEY));
+    return raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveOutbox(entries: OutboxEntry[]) {
+  window.localStorage.setItem(scopedName(OUTBOX_KEY), JSON.stringify(entries));
+}
+
+/** Queues changes, keeping only the latest pending change per record. */
+export function enqueueChanges(collection: SyncCollection, changes: SyncChange[]) {
+  if (changes.length === 0) return loadOutbox();
+  const queuedAt = new Date().toISOString();
+  const replaced = new Set(changes.map(recordId));
+  const entries = [
+    ...loadOutbox().filter((entry) => entry.collection !== collection || !replaced.has(recordId(entry.change))),
+    ...changes.map((change) => ({ id: `outbox-${uid()}`, collection, change, queuedAt }))
+  ];
+  saveOutbox(entries);
+  return entries;
+}
+
+/** Drops the entries that were sent; anything re-queued while the request was in flight stays. */
+export function acknowledgeEntries(sent: OutboxEntry[]) {
+  const ids = new Set(sent.map((entry) => entry.id));
+  const entries = loadOutbox().filter((entry) => !ids.has(entry.id));
+  saveOutbox(entries);
+  return entries;
+}
+
+export function toChangeSet(entries: OutboxEntry[]): SyncChangeSet {
+  const changes: SyncChangeSet = {};
+  for (const entry of entries) (changes[entry.collection] ??= []).push(entry.change);
+  return changes;
+}
+
+export function pendingTimes(entries: OutboxEntry[], collection: SyncCollection) {
+  const times: Record<string, string> = {};
+  for (const entry of entries) {
+    if (entry.collection === collection) times[recordId(entry.change)] = changeTime(entry.change);
+  }
+  return times;
+}
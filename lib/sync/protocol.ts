@@ -0,0 +1,61 @@
+export const syncCollections = ['notes', 'tasks', 'reminders', 'files', 'chat'] as const;
+
+export type SyncCollection = (typeof syncCollections)[number];
+
+export type SyncRecord = { id: string; updatedAt?: string };
+
+export type SyncChange =
+  | { op: 'upsert'; record: SyncRecord & Record<string, unknown> }
+  | { op: 'delete'; id: string; deletedAt: string };
+
+export type SyncChangeSet = Partial<Record<SyncCollection, SyncChange[]>>;
+
+export type SyncRequest = {
+  cursor: number;
+  changes: SyncChangeSet;
+};
+
+export type SyncResponse = {
+  cursor: number;
+  changes: SyncChangeSet;
+  rejected: number;
+};
+
+export function isSyncCollection(value: string): value is SyncCollection {
+  return (syncCollections as readonly string[]).includes(value);
+}
+
+export function revisionOf(record: SyncRecord) {
+  return record.updatedAt ?? '';
+}
+
+export function parseRecord(value: unknown): SyncRecord & Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Record must be an object');
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== 'string' || !record.id) throw new Error('Record needs a string id');
+  if (record.updatedAt !== undefined && typeof record.updatedAt !== 'string') {
+    throw new Error('updatedAt must be an ISO timestamp');
+  }
+  return record as SyncRecord & Record<string, unknown>;
+}
+
+export function parseSyncRequest(value: unknown): SyncRequest {
+  if (!value || typeof value !== 'object') throw new Error('Expected a JSON object');
+  const { cursor = 0, changes = {} } = value as Partial<SyncRequest>;
+  if (typeof cursor !== 'number' || cursor < 0) throw new Error('cursor must be a non-negative number');
+  if (!changes || typeof changes !== 'object') throw new Error('changes must be an object');
+
+  const parsed: SyncChangeSet = {};
+  for (const [collection, list] of Object.entries(changes)) {
+    if (!isSyncCollection(collection)) throw new Error(`Unknown collection "${collection}"`);
+    if (!Array.isArray(list)) throw new Error(`changes.${collection} must be an array`);
+    parsed[collection] = list.map((change: SyncChange) => {
+      if (change?.op === 'upsert') return { op: 'upsert', record: parseRecord(change.record) };
+      if (change?.op === 'delete' && typeof change.id === 'string' && typeof change.deletedAt === 'string') {
+        return { op: 'delete', id: change.id, deletedAt: change.deletedAt };
+      }
+      throw new Error(`Malformed change in ${collection}`);
+    });
+  }
+  return { cursor, changes: parsed };
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { scopedName } from '../store/scope';
+import { checkRemoteChanges, collectChanges, markPushed, mergeRemoteChanges, type SyncState } from './engine';
+import { acknowledgeEntries, enqueueChanges, loadOutbox, pendingTimes, toChangeSet } from './outbox';
+import type { SyncCollection, SyncRecord, SyncResponse } from './protocol';
+import { syncCollections } from './protocol';
+
+const STATE_KEY = 'neuronest.sync';
+
+export type SyncBinding = {
+  records: SyncRecord[];
+  replace: (records: SyncRecord[]) => void;
+};
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+export function bindCollection<T extends SyncRecord>(
+  records: T[],
+  setRecords: Dispatch<SetStateAction<T[]>>
+): SyncBinding {
+  return { records, replace: (next) => setRecords(next as T[]) };
+}
+
+function loadState(): SyncState {
+  try {
+    const raw = window.localStorage.getItem(scopedName(STATE_KEY));
+    if (raw) return JSON.parse(raw) as SyncState;
+  } catch {
+    // fall through to a fresh state; the next sync re-pushes everything
+  }
+  return { cursor: 0, base: {} };
+}
+
+function saveState(state: SyncState) {
+  window.localStorage.setItem(scopedName(STATE_KEY), JSON.stringify(state));
+}
+
+function isOnline() {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+/**
+ * Keeps the local collections in step with `/api/sync`. Every local edit or deletion is
+ * diffed against the last-known base and recorded in a persistent outbox, which is
+ * replayed whenever the browser is online; remote changes are merged record by record.
+ */
+export function useSync(
+  bindings: Record<SyncCollection, SyncBinding>,
+  { endpoint = '/api/sync', recordDelayMs = 400, intervalMs = 30_000 } = {}
+) {
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [pending, setPending] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const bindingsRef = useRef(bindings);
+  const inFlight = useRef(false);
+  const queued = useRef(false);
+  bindingsRef.current = bindings;
+
+  const recordLocalChanges = useCallback(() => {
+    const state = loadState();
+    let entries = loadOutbox();
+    let recorded = false;
+    for (const collection of syncCollections) {
+      const changes = collectChanges(collection, bindingsRef.current[collection].records, state.base[collection]);
+      if (changes.length === 0) continue;
+      entries = enqueueChanges(collection, changes);
+      state.base[collection] = markPushed(state.base[collection] ?? {}, changes);
+      recorded = true;
+    }
+    if (recorded) saveState(state);
+    setPending(entries.length);
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (inFlight.current) {
+      queued.current = true;
+      return;
+    }
+    recordLocalChanges();
+    if (!isOnline()) {
+      setStatus('offline');
+      return;
+    }
+    inFlight.current = true;
+    setStatus('syncing');
+
+    try {
+      const sent = loadOutbox();
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cursor: loadState().cursor, changes: toChangeSet(sent) })
+      });
+      if (!response.ok) throw new Error(`Sync failed (${response.status})`);
+      const result = (await response.json()) as SyncResponse;
+
+      const remaining = acknowledgeEntries(sent);
+      const state = loadState();
+      for (const collection of syncCollections) {
+        const binding = bindingsRef.current[collection];
+        const merged = mergeRemoteChanges(
+          collection,
+          binding.records,
+          checkRemoteChanges(collection, result.changes[collection] ?? []),
+          state.base[collection] ?? {},
+          pendingTimes(remaining, collection)
+        );
+        if (merged.changed) binding.replace(merged.records);
+        state.base[collection] = merged.base;
+      }
+      state.cursor = result.cursor;
+      saveState(state);
+      setPending(remaining.length);
+      setLastSyncedAt(new Date().toISOString());
+      setStatus('idle');
+    } catch {
+      setStatus(isOnline() ? 'error' : 'offline');
+    } finally {
+      inFlight.current = false;
+      if (queued.current) {
+        queued.current = false;
+        void syncNow();
+      }
+    }
+  }, [endpoint, recordLocalChanges]);
+
+  const { notes, tasks, reminders, files, chat } = bindings;
+  useEffect(() => {
+    const timer = window.setTimeout(() => void syncNow(), recordDelayMs);
+    return () => window.clearTimeout(timer);
+  }, [notes.records, tasks.records, reminders.records, files.records, chat.records, recordDelayMs, syncNow]);
+
+  useEffect(() => {
+    const trigger = () => void syncNow();
+    const goOffline = () => setStatus('offline');
+    const interval = window.setInterval(trigger, intervalMs);
+    window.addEventListener('online', trigger);
+    window.addEventListener('offline', goOffline);
+    window.addEventListener('focus', trigger);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', trigger);
+      window.removeEventListener('offline', goOffline);
+      window.removeEventListener('focus', trigger);
+    };
+  }, [intervalMs, syncNow]);
+
+  return { status, pending, lastSyncedAt, syncNow };
+}
@@ -0,0 +1,143 @@
+import { addDays, startOfDay, wallClock } from './datetime';
+import type { Task } from './models';
+import { completeTask } from './tasks';
+
+export type TaskStatus = 'todo' | 'in-progress' | 'done';
+export type DueBucket = 'overdue' | 'today' | 'week' | 'later' | 'earlier' | 'none';
+export type DueRange = 'any' | 'overdue' | 'today' | 'week' | 'none';
+
+export type TaskViewSettings = {
+  priorities: Task['priority'][];
+  tag?: string;
+  state: 'all' | 'open' | 'done';
+  due: DueRange;
+  sort: 'manual' | 'due' | 'priority';
+  /** Group the list into due-date buckets. */
+  grouped: boolean;
+  layout: 'list' | 'board';
+  /** Only tasks assigned to the signed-in member of a shared space. */
+  assignedToMe?: boolean;
+};
+
+export type SavedTaskView = { id: string; name: string; settings: TaskViewSettings };
+
+export const defaultTaskView: TaskViewSettings = {
+  priorities: [],
+  state: 'all',
+  due: 'any',
+  sort: 'manual',
+  grouped: false,
+  layout: 'list'
+};
+
+export const builtInTaskViews: SavedTaskView[] = [
+  { id: 'all', name: 'All tasks', settings: defaultTaskView },
+  { id: 'agenda', name: 'Agenda', settings: { ...defaultTaskView, state: 'open', sort: 'due', grouped: true } },
+  { id: 'focus', name: 'High impact', settings: { ...defaultTaskView, priorities: ['high'], state: 'open', sort: 'due' } },
+  { id: 'board', name: 'Board', settings: { ...defaultTaskView, sort: 'priority', layout: 'board' } },
+  { id: 'mine', name: 'Assigned to me', settings: { ...defaultTaskView, state: 'open', sort: 'due', assignedToMe: true } }
+];
+
+export const statusTokens: Record<TaskStatus, string> = {
+  todo: 'To do',
+  'in-progress': 'In progress',
+  done: 'Done'
+};
+
+export const dueBucketTokens: Record<DueBucket, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  week: 'This week',
+  later: 'Later',
+  earlier: 'Earlier',
+  none: 'No due date'
+};
+
+const bucketOrder: DueBucket[] = ['overdue', 'today', 'week', 'later', 'earlier', 'none'];
+const priorityRank: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+export function taskStatus(task: Task): TaskStatus {
+  if (task.done) return 'done';
+  return task.status === 'in-progress' ? 'in-progress' : 'todo';
+}
+
+/** Moves a task to a board column; "done" completes it, so recurring tasks roll forward. */
+export function moveTaskToStatus(task: Task, status: TaskStatus, now = new Date()): Task {
+  if (taskStatus(task) === status) return task;
+  if (status === 'done') return completeTask({ ...task, status: undefined }, now);
+  return { ...task, done: false, status: status === 'in-progress' ? 'in-progress' : undefined, updatedAt: now.toISOString() };
+}
+
+/**
+ * "This week" runs to the end of Sunday; finished tasks are never overdue, just earlier.
+ * Days are counted on `timeZone`'s clock.
+ */
+export function dueBucket(task: Task, now = new Date(), timeZone?: string): DueBucket {
+  if (!task.dueDate) return 'none';
+  const due = new Date(task.dueDate);
+  const today = startOfDay(now, timeZone);
+  const tomorrow = addDays(today, 1, timeZone);
+  const weekEnd = addDays(today, ((7 - wallClock(now, timeZone).weekday) % 7) + 1, timeZone);
+
+  if (due < today) return task.done ? 'earlier' : 'overdue';
+  if (due < tomorrow) return !task.done && due < now ? 'overdue' : 'today';
+  if (due < weekEnd) return 'week';
+  return 'later';
+}
+
+function matchesDue(task: Task, range: DueRange, now: Date, timeZone?: string) {
+  if (range === 'any') return true;
+  const bucket = dueBucket(task, now, timeZone);
+  if (range === 'week') return bucket === 'today' || bucket === 'week' || bucket === 'overdue';
+  return bucket === range;
+}
+
+function compareDue(a: Task, b: Task) {
+  if (!a.dueDate || !b.dueDate) return Number(!a.dueDate) - Number(!b.dueDate);
+  return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+}
+
+/** `userId` is who "assigned to me" means; due ranges are read on `timeZone`'s clock. */
+export function applyTaskView(
+  tasks: Task[],
+  view: TaskViewSettings,
+  now = new Date(),
+  { userId, timeZone }: { userId?: string; timeZone?: string } = {}
+) {
+  const tag = view.tag?.toLowerCase();
+  const filtered = tasks.filter(
+    (task) =>
+      (!view.assignedToMe || task.assigneeId === userId) &&
+      (!view.priorities.length || view.priorities.includes(task.priority)) &&
+      (!tag || task.tags?.some((entry) => entry.toLowerCase() === tag)) &&
+      (view.state === 'all' || (view.state === 'done') === task.done) &&
+      matchesDue(task, view.due, now, timeZone)
+  );
+  const comparePriority = (a: Task, b: Task) => priorityRank[a.priority] - priorityRank[b.priority];
+  if (view.sort === 'due') return [...filtered].sort((a, b) => compareDue(a, b) || comparePriority(a, b));
+  if (view.sort === 'priority') return [...filtered].sort((a, b) => comparePriority(a, b) || compareDue(a, b));
+  return filtered;
+}
+
+export function groupByDue(tasks: Task[], now = new Date(), timeZone?: string) {
+  const groups = new Map<DueBucket, Task[]>();
+  for (const task of tasks) {
+    const bucket = dueBucket(task, now, timeZone);
+    groups.set(bucket, [...(groups.get(bucket) ?? []), task]);
+  }
+  return bucketOrder.filter((bucket) => groups.has(bucket)).map((bucket) => ({ bucket, tasks: groups.get(bucket)! }));
+}
+
+/** The plain list keeps subtasks nested under their parents; any filter, sort or grouping flattens it. */
+export function isTreeView(view: TaskViewSettings) {
+  return (
+    view.layout === 'list' &&
+    !view.grouped &&
+    view.sort === 'manual' &&
+    view.state === 'all' &&
+    view.due === 'any' &&
+    !view.priorities.length &&
+    !view.tag &&
+    !view.assignedToMe
+  );
+}
@@ -0,0 +1,106 @@
+import type { Task } from './models';
+import { nextOccurrence } from './recurrence';
+
+/**
+ * Checks a task off. Recurring tasks stay open and roll their due date forward to the
+ * next occurrence instead; once the rule is exhausted they complete normally.
+ */
+export function completeTask(task: Task, now = new Date()): Task {
+  const stamp = now.toISOString();
+  if (task.recurrence) {
+    const next = nextOccurrence(task.recurrence, task.dueDate ? new Date(task.dueDate) : now);
+    if (next) return { ...task, done: false, dueDate: next.toISOString(), lastCompletedAt: stamp, updatedAt: stamp };
+  }
+  return { ...task, done: true, lastCompletedAt: stamp, updatedAt: stamp };
+}
+
+export function toggleTaskDone(task: Task, now = new Date()): Task {
+  return task.done ? { ...task, done: false, updatedAt: now.toISOString() } : completeTask(task, now);
+}
+
+export type TaskTree = {
+  /** Tasks with no parent, or whose parent was removed. */
+  roots: Task[];
+  children: Map<string, Task[]>;
+};
+
+export function buildTaskTree(tasks: Task[]): TaskTree {
+  const ids = new Set(tasks.map((task) => task.id));
+  const children = new Map<string, Task[]>();
+  const roots: Task[] = [];
+  for (const task of tasks) {
+    if (task.parentId && task.parentId !== task.id && ids.has(task.parentId)) {
+      children.set(task.parentId, [...(children.get(task.parentId) ?? []), task]);
+    } else {
+      roots.push(task);
+    }
+  }
+  return { roots, children };
+}
+
+/** Share of a task that is finished: 1 when done, otherwise the mean of its subtasks' progress. */
+export function taskProgress(task: Task, tree: TaskTree, seen = new Set<string>()): number {
+  if (task.done) return 1;
+  const subtasks = tree.children.get(task.id) ?? [];
+  if (!subtasks.length || seen.has(task.id)) return 0;
+  seen.add(task.id);
+  return subtasks.reduce((total, subtask) => total + taskProgress(subtask, tree, seen), 0) / subtasks.length;
+}
+
+const priorityWeights: Record<Task['priority'], number> = { high: 3, medium: 2, low: 1 };
+
+/**
+ * Overall completion from 0 to 1: each top-level task counts by priority and contributes
+ * its rolled-up subtask progress, so half a big task moves the needle more than one chore.
+ */
+export function weightedProgress(tasks: Task[]) {
+  const tree = buildTaskTree(tasks);
+  let total = 0;
+  let done = 0;
+  for (const task of tree.roots) {
+    const weight = priorityWeights[task.priority];
+    total += weight;
+    done += weight * taskProgress(task, tree);
+  }
+  return total ? done / total : 0;
+}
+
+/** Prerequisites that still have to be finished; removed tasks no longer block. */
+export function openBlockers(task: Task, tasks: Task[]) {
+  return (task.blockedBy ?? [])
+    .map((id) => tasks.find((entry) => entry.id === id))
+    .filter((blocker): blocker is Task => Boolean(blocker && !blocker.done));
+}
+
+/** True when `blockerId` already depends, directly or not, on `taskId`. */
+function dependsOn(blockerId: string, taskId: string, tasks: Task[]) {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const stack = [blockerId];
+  const seen = new Set<string>();
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.blockedBy ?? []));
+  }
+  return false;
+}
+
+/** Tasks that may be added as a prerequisite of `task` without creating a cycle. */
+export function blockerCandidates(task: Task, tasks: Task[]) {
+  return tasks.filter(
+    (candidate) =>
+      candidate.id !== task.id && !task.blockedBy?.includes(candidate.id) && !dependsOn(candidate.id, task.id, tasks)
+  );
+}
+
+export function addBlocker(task: Task, blockerId: string, tasks: Task[], now = new Date()): Task {
+  if (!blockerCandidates(task, tasks).some((candidate) => candidate.id === blockerId)) return task;
+  return { ...task, blockedBy: [...(task.blockedBy ?? []), blockerId], updatedAt: now.toISOString() };
+}
+
+export function removeBlocker(task: Task, blockerId: string, now = new Date()): Task {
+  const blockedBy = (task.blockedBy ?? []).filter((id) => id !== blockerId);
+  return { ...task, blockedBy: blockedBy.length ? blockedBy : undefined, updatedAt: now.toISOString() };
+}
@@ -0,0 +1,28 @@
+import type { FileResource, Note, Reminder, Task } from './models';
+
+/** Deleted items wait this long in the Trash before they are purged for good. */
+export const TRASH_RETENTION_DAYS = 30;
+
+export type TrashEntry = { deletedAt: string } & (
+  | { kind: 'note'; record: Note }
+  | { kind: 'task'; record: Task }
+  | { kind: 'reminder'; record: Reminder }
+  | { kind: 'file'; record: FileResource }
+);
+
+export function trashTitle(entry: TrashEntry) {
+  return entry.kind === 'file' ? entry.record.name : entry.record.title;
+}
+
+export function purgeDate(entry: TrashEntry) {
+  return new Date(new Date(entry.deletedAt).getTime() + TRASH_RETENTION_DAYS * 86_400_000);
+}
+
+/** Adds an entry, replacing any older copy of the same record. */
+export function addToTrash(trash: TrashEntry[], entry: TrashEntry) {
+  return [entry, ...trash.filter((other) => other.kind !== entry.kind || other.record.id !== entry.record.id)];
+}
+
+export function expiredEntries(trash: TrashEntry[], now = new Date()) {
+  return trash.filter((entry) => purgeDate(entry).getTime() <= now.getTime());
+}
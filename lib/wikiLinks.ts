@@ -0,0 +1,50 @@
+import type { Note } from './models';
+
+const wikiLinkPattern = /\[\[([^\]|]+)(\|[^\]]+)?\]\]/g;
+
+function normalizeTitle(title: string) {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Titles referenced by `[[Title]]` or `[[Title|label]]`, deduplicated. */
+export function extractWikiLinks(content: string) {
+  const titles = new Map<string, string>();
+  for (const match of content.matchAll(wikiLinkPattern)) {
+    const title = match[1].trim();
+    if (title) titles.set(normalizeTitle(title), title);
+  }
+  return [...titles.values()];
+}
+
+/** Titles are matched case- and whitespace-insensitively; the first note with the title wins. */
+export function resolveWikiLink(target: string, notes: Note[]) {
+  const wanted = normalizeTitle(target);
+  return notes.find((note) => normalizeTitle(note.title) === wanted);
+}
+
+/** Note id → the other notes that link to it. */
+export function backlinkMap(notes: Note[]) {
+  const map = new Map<string, Note[]>();
+  for (const source of notes) {
+    for (const target of extractWikiLinks(source.content)) {
+      const note = resolveWikiLink(target, notes);
+      if (!note || note.id === source.id) continue;
+      map.set(note.id, [...(map.get(note.id) ?? []), source]);
+    }
+  }
+  return map;
+}
+
+/** Rewrites `[[Old]]` (and `[[Old|label]]`) to point at a renamed note. */
+export function renameWikiLinks(content: string, from: string, to: string) {
+  const wanted = normalizeTitle(from);
+  return content.replace(wikiLinkPattern, (link, title: string, label = '') =>
+    normalizeTitle(title) === wanted ? `[[${to}${label}]]` : link
+  );
+}
+
+/** The `[[partial` being typed just before the caret, if any. */
+export function wikiLinkQueryAt(content: string, caret: number) {
+  const match = content.slice(0, caret).match(/\[\[([^\]\n|]*)$/);
+  return match ? { query: match[1], start: caret - match[1].length } : null;
+}
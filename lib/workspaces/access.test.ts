@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { EVERYONE, canEdit, canUpdate, recordAccess, sameShares, setShare, shareFor, type Viewer } from './access';
+
+const ana: Viewer = { userId: 'ana', role: 'editor' };
+const ben: Viewer = { userId: 'ben', role: 'editor' };
+const owner: Viewer = { userId: 'olga', role: 'owner' };
+const reader: Viewer = { userId: 'ben', role: 'viewer' };
+
+describe('recordAccess', () => {
+  it('gives the owner, or whoever holds an unsynced record, full access', () => {
+    assert.equal(recordAccess('notes', { ownerId: 'ana' }, ana), 'owner');
+    assert.equal(recordAccess('reminders', {}, ana), 'owner');
+  });
+
+  it('gives other members nothing without a share, the space owner included', () => {
+    assert.equal(recordAccess('notes', { ownerId: 'ana' }, ben), 'none');
+    assert.equal(recordAccess('notes', { ownerId: 'ana' }, owner), 'none');
+  });
+
+  it('uses the best of the member share and the space-wide share', () => {
+    const shares = [
+      { userId: EVERYONE, role: 'viewer' as const },
+      { userId: 'ben', role: 'editor' as const }
+    ];
+    assert.equal(recordAccess('notes', { ownerId: 'ana', shares }, ben), 'editor');
+    assert.equal(recordAccess('notes', { ownerId: 'ana', shares }, owner), 'viewer');
+  });
+
+  it('lets a task assignee edit', () => {
+    assert.equal(recordAccess('tasks', { ownerId: 'ana', assigneeId: 'ben' }, ben), 'editor');
+    assert.equal(recordAccess('notes', { ownerId: 'ana', assigneeId: 'ben' }, ben), 'none');
+  });
+
+  it('never shares reminders or chat', () => {
+    const shares = [{ userId: EVERYONE, role: 'editor' as const }];
+    assert.equal(recordAccess('reminders', { ownerId: 'ana', shares }, ben), 'none');
+    assert.equal(recordAccess('chat', { ownerId: 'ana', shares }, ben), 'none');
+  });
+
+  it('caps workspace viewers at view access, even on their own records', () => {
+    assert.equal(recordAccess('notes', { ownerId: 'ben' }, reader), 'viewer');
+    assert.equal(recordAccess('tasks', { ownerId: 'ana', shares: [{ userId: 'ben', role: 'editor' }] }, reader), 'viewer');
+    assert.equal(recordAccess('notes', { ownerId: 'ana' }, reader), 'none');
+  });
+});
+
+describe('canEdit', () => {
+  it('is true for editors and owners only', () => {
+    assert.deepEqual(
+      (['none', 'viewer', 'editor', 'owner'] as const).map(canEdit),
+      [false, false, true, true]
+    );
+  });
+});
+
+describe('canUpdate', () => {
+  const task = { ownerId: 'ana', shares: [{ userId: 'ben', role: 'editor' as const }], assigneeId: 'ben' };
+
+  it('lets editors change the content but not who may see the record', () => {
+    assert.ok(canUpdate('editor', task, { ...task }));
+    assert.ok(!canUpdate('editor', task, { ...task, shares: setShare(task.shares, EVERYONE, 'viewer') }));
+    assert.ok(!canUpdate('editor', task, { ...task, assigneeId: 'carl' }));
+    assert.ok(!canUpdate('editor', task, { ...task, assigneeId: undefined }));
+  });
+
+  it('lets the owner change shares and the assignee', () => {
+    assert.ok(canUpdate('owner', task, { ...task, shares: [], assigneeId: 'carl' }));
+    assert.ok(canUpdate('owner', undefined, { assigneeId: 'carl' }));
+  });
+
+  it('refuses anyone who cannot edit', () => {
+    assert.ok(!canUpdate('viewer', task, task));
+    assert.ok(!canUpdate('none', task, task));
+  });
+});
+
+describe('share lists', () => {
+  it('sets, replaces and removes a member share', () => {
+    const shared = setShare(undefined, 'ben', 'viewer');
+    assert.deepEqual(shared, [{ userId: 'ben', role: 'viewer' }]);
+    assert.equal(shareFor(setShare(shared, 'ben', 'editor'), 'ben'), 'editor');
+    assert.deepEqual(setShare(shared, 'ben', null), []);
+    assert.equal(shareFor(shared, 'ana'), undefined);
+  });
+
+  it('compares share lists regardless of order', () => {
+    const a = [
+      { userId: 'ben', role: 'viewer' as const },
+      { userId: EVERYONE, role: 'editor' as const }
+    ];
+    assert.ok(sameShares(a, [...a].reverse()));
+    assert.ok(sameShares(undefined, []));
+    assert.ok(!sameShares(a, setShare(a, 'ben', 'editor')));
+  });
+});
@@ -0,0 +1,90 @@
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export type ItemRole = 'viewer' | 'editor';
+
+/** `userId` is a member of the space, or `EVERYONE` for every member at once. */
+export type ItemShare = { userId: string; role: ItemRole };
+
+export const EVERYONE = 'everyone';
+
+/** `owner` may also share and delete the record; `editor` may change its content. */
+export type Access = 'none' | ItemRole | 'owner';
+
+export type Viewer = { userId: string; role: WorkspaceRole };
+
+/** Collections whose records can be shared; reminders and chat always stay with their author. */
+export const shareableCollections = ['notes', 'tasks', 'files'] as const;
+
+export type ShareableCollection = (typeof shareableCollections)[number];
+
+export type Shareable = { ownerId?: string; shares?: ItemShare[]; assigneeId?: string };
+
+const accessRank: Record<Access, number> = { none: 0, viewer: 1, editor: 2, owner: 3 };
+
+export const itemRoleTokens: Record<ItemRole, string> = {
+  viewer: 'Can view',
+  editor: 'Can edit'
+};
+
+export const workspaceRoleTokens: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+export function isShareable(collection: string): collection is ShareableCollection {
+  return (shareableCollections as readonly string[]).includes(collection);
+}
+
+/**
+ * What `viewer` may do with a record of `collection`. A record without an owner has not
+ * reached the server yet, so it belongs to whoever holds it. Everyone else, the space's
+ * owner included, needs a share or to be the task's assignee. Workspace viewers never get
+ * more than view access.
+ */
+export function recordAccess(collection: string, record: Shareable, viewer: Viewer): Access {
+  const cap = (access: Access): Access => (viewer.role === 'viewer' && access !== 'none' ? 'viewer' : access);
+  if (!record.ownerId || record.ownerId === viewer.userId) return cap('owner');
+  if (!isShareable(collection)) return 'none';
+
+  let best: Access = collection === 'tasks' && record.assigneeId === viewer.userId ? 'editor' : 'none';
+  for (const share of record.shares ?? []) {
+    if (share.userId !== viewer.userId && share.userId !== EVERYONE) continue;
+    if (accessRank[share.role] > accessRank[best]) best = share.role;
+  }
+  return cap(best);
+}
+
+export function canEdit(access: Access) {
+  return access === 'editor' || access === 'owner';
+}
+
+/**
+ * Whether someone with `access` may replace `before` with `after`. Editors may change the
+ * content, but only the owner decides who else gets to see the record: its shares and, since
+ * an assignee may edit the task, its assignee.
+ */
+export function canUpdate(access: Access, before: Shareable | undefined, after: Shareable) {
+  if (!canEdit(access)) return false;
+  return access === 'owner' || (sameShares(before?.shares, after.shares) && before?.assigneeId === after.assigneeId);
+}
+
+/** The role `userId` holds through `shares`, ignoring the space-wide entry. */
+export function shareFor(shares: ItemShare[] | undefined, userId: string) {
+  return shares?.find((share) => share.userId === userId)?.role;
+}
+
+/** Replaces `userId`'s share; `null` removes it. */
+export function setShare(shares: ItemShare[] | undefined, userId: string, role: ItemRole | null): ItemShare[] {
+  const rest = (shares ?? []).filter((share) => share.userId !== userId);
+  return role ? [...rest, { userId, role }] : rest;
+}
+
+export function sameShares(a: ItemShare[] | undefined, b: ItemShare[] | undefined) {
+  const key = (shares: ItemShare[] | undefined) =>
+    (shares ?? [])
+      .map((share) => `${share.userId}:${share.role}`)
+      .sort()
+      .join();
+  return key(a) === key(b);
+}
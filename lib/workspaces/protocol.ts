@@ -0,0 +1,70 @@
+import { parseEmail } from '../auth/protocol';
+import type { ShareableCollection, WorkspaceRole } from './access';
+
+export type WorkspaceKind = 'personal' | 'shared';
+
+export type WorkspaceMember = { userId: string; name: string; email: string; role: WorkspaceRole };
+
+/** A workspace as one of its members sees it. */
+export type WorkspaceSummary = {
+  id: string;
+  name: string;
+  kind: WorkspaceKind;
+  /** The requesting user's role. */
+  role: WorkspaceRole;
+  members: WorkspaceMember[];
+};
+
+export type WorkspacesResponse = { workspaces: WorkspaceSummary[] };
+
+/** Roles an owner can hand out; every space has exactly one owner. */
+export type MemberRole = Exclude<WorkspaceRole, 'owner'>;
+
+export type MemberInvite = { email: string; role: MemberRole };
+
+export type ActivityAction = 'created' | 'edited' | 'completed' | 'reopened' | 'assigned' | 'shared' | 'deleted';
+
+export type ActivityEntry = {
+  id: string;
+  actorId: string;
+  actorName: string;
+  collection: ShareableCollection;
+  recordId: string;
+  /** The record's title or file name when the change was made. */
+  title: string;
+  action: ActivityAction;
+  at: string;
+};
+
+export type ActivityResponse = { entries: ActivityEntry[] };
+
+export const activityTokens: Record<ActivityAction, string> = {
+  created: 'created',
+  edited: 'edited',
+  completed: 'completed',
+  reopened: 'reopened',
+  assigned: 'reassigned',
+  shared: 'changed sharing on',
+  deleted: 'deleted'
+};
+
+function body(value: unknown) {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Expected a JSON object');
+  return value as Record<string, unknown>;
+}
+
+export function parseWorkspaceName(value: unknown) {
+  const { name } = body(value);
+  if (typeof name !== 'string' || !name.trim()) throw new Error('Name the space');
+  return name.trim().slice(0, 80);
+}
+
+export function parseMemberRole(value: unknown): MemberRole {
+  const { role } = body(value);
+  if (role !== 'editor' && role !== 'viewer') throw new Error('role must be "editor" or "viewer"');
+  return role;
+}
+
+export function parseMemberInvite(value: unknown): MemberInvite {
+  return { email: parseEmail(body(value).email), role: parseMemberRole(value) };
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { send } from '../auth/useSession';
+import type { ActivityEntry, ActivityResponse } from './protocol';
+
+/** The space's activity feed, refetched whenever `refreshKey` changes (e.g. after each sync). */
+export function useActivity(workspaceId: string | null, refreshKey?: unknown) {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    let cancelled = false;
+    send<ActivityResponse>(`/api/workspaces/${workspaceId}/activity`, 'GET')
+      .then((response) => {
+        if (!cancelled) setEntries(response.entries);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, refreshKey]);
+
+  return entries;
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { User } from '../auth/protocol';
+import { send } from '../auth/useSession';
+import type { MemberInvite, MemberRole, WorkspaceSummary, WorkspacesResponse } from './protocol';
+
+function activeKey(userId: string) {
+  return `neuronest.workspace:${userId}`;
+}
+
+/** What the dashboard falls back to when the workspace list cannot be fetched. */
+function personalWorkspace(user: User): WorkspaceSummary {
+  return {
+    id: user.workspaceId,
+    name: `${user.name}'s brain`,
+    kind: 'personal',
+    role: 'owner',
+    members: [{ userId: user.id, name: user.name, email: user.email, role: 'owner' }]
+  };
+}
+
+/**
+ * The spaces `user` belongs to and the one the dashboard shows. The choice is kept per user
+ * in localStorage; switching reloads the page, since every local store is scoped to it.
+ */
+export function useWorkspaces(user: User) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[] | null>(null);
+  const [activeId] = useState(() =>
+    typeof window === 'undefined' ? user.workspaceId : window.localStorage.getItem(activeKey(user.id)) ?? user.workspaceId
+  );
+
+  useEffect(() => {
+    send<WorkspacesResponse>('/api/workspaces', 'GET')
+      .then((response) => setWorkspaces(response.workspaces))
+      .catch(() => setWorkspaces([personalWorkspace(user)]));
+  }, [user]);
+
+  const switchTo = useCallback(
+    (workspaceId: string) => {
+      window.localStorage.setItem(activeKey(user.id), workspaceId);
+      window.location.reload();
+    },
+    [user.id]
+  );
+
+  const replace = useCallback((next: WorkspaceSummary) => {
+    setWorkspaces((current) => (current ?? []).map((workspace) => (workspace.id === next.id ? next : workspace)));
+  }, []);
+
+  const create = useCallback(
+    async (name: string) => {
+      const { workspace } = await send<{ workspace: WorkspaceSummary }>('/api/workspaces', 'POST', { name });
+      switchTo(workspace.id);
+    },
+    [switchTo]
+  );
+
+  const addMember = useCallback(
+    async (workspaceId: string, invite: MemberInvite) =>
+      replace((await send<{ workspace: WorkspaceSummary }>(`/api/workspaces/${workspaceId}/members`, 'POST', invite)).workspace),
+    [replace]
+  );
+
+  const updateMember = useCallback(
+    async (workspaceId: string, userId: string, role: MemberRole) =>
+      replace(
+        (await send<{ workspace: WorkspaceSummary }>(`/api/workspaces/${workspaceId}/members/${userId}`, 'PATCH', { role }))
+          .workspace
+      ),
+    [replace]
+  );
+
+  /** Removing yourself leaves the space and goes back to your personal brain. */
+  const removeMember = useCallback(
+    async (workspaceId: string, userId: string) => {
+      const { workspace } = await send<{ workspace: WorkspaceSummary }>(
+        `/api/workspaces/${workspaceId}/members/${userId}`,
+        'DELETE'
+      );
+      if (userId === user.id) switchTo(user.workspaceId);
+      else replace(workspace);
+    },
+    [replace, switchTo, user.id, user.workspaceId]
+  );
+
+  // A space the user has left (or been removed from) falls back to their own brain.
+  const active = workspaces
+    ? workspaces.find((workspace) => workspace.id === activeId) ??
+      workspaces.find((workspace) => workspace.id === user.workspaceId) ??
+      personalWorkspace(user)
+    : null;
+
+  return { workspaces: workspaces ?? [], active, switchTo, create, addMember, updateMember, removeMember };
+}
+
+export type WorkspacesState = ReturnType<typeof useWorkspaces>;
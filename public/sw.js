@@ -0,0 +1,81 @@
+const CACHE = 'neuronest-shell-v1';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+function putInCache(request, response) {
+  if (response.ok && response.type === 'basic') {
+    const copy = response.clone();
+    caches.open(CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // API calls are never cached: offline writes go through the client outbox instead.
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache('/', response))
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response))));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request)
+        .then((response) => putInCache(request, response))
+        .catch(() => cached);
+      return cached || network;
+    })
+  );
+});
+
+// Notification buttons snooze or acknowledge the reminder in an open dashboard, opening one if needed.
+self.addEventListener('notificationclick', (event) => {
+  const { reminderId } = event.notification.data || {};
+  event.notification.close();
+  if (!reminderId) return;
+  const action = event.action === 'snooze' || event.action === 'acknowledge' ? event.action : null;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const client = windows[0];
+      if (client) {
+        if (action) client.postMessage({ type: 'reminder-action', reminderId, action, preset: '5m' });
+        return client.focus();
+      }
+      const params = new URLSearchParams({ reminder: reminderId });
+      if (action) params.set('action', action);
+      if (action === 'snooze') params.set('preset', '5m');
+      return self.clients.openWindow(`/?${params}#reminders`);
+    })
+  );
+});
@@ -0,0 +1,54 @@
+// Compiles every `*.test.ts` under lib/ and app/ to CommonJS in a temporary folder and runs
+// the result with Node's built-in test runner. Wired up as `npm test`.
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+function findTests(dir) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findTests(file);
+    return entry.name.endsWith('.test.ts') ? [file] : [];
+  });
+}
+
+const tests = ['lib', 'app'].flatMap((dir) => findTests(path.join(root, dir)));
+const outDir = mkdtempSync(path.join(tmpdir(), 'neuronest-test-'));
+
+try {
+  const program = ts.createProgram(tests, {
+    outDir,
+    rootDir: root,
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+    types: ['node'],
+    strict: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    noEmitOnError: true
+  });
+  const result = program.emit();
+  const diagnostics = [...ts.getPreEmitDiagnostics(program), ...result.diagnostics];
+  if (diagnostics.length) {
+    console.error(
+      ts.formatDiagnosticsWithColorAndContext(diagnostics, {
+        getCanonicalFileName: (file) => file,
+        getCurrentDirectory: () => root,
+        getNewLine: () => '\n'
+      })
+    );
+    process.exitCode = 1;
+  } else {
+    const compiled = tests.map((file) => path.join(outDir, path.relative(root, file)).replace(/\.ts$/, '.js'));
+    const run = spawnSync(process.execPath, ['--test', ...compiled], { stdio: 'inherit' });
+    process.exitCode = run.status ?? 1;
+  }
+} finally {
+  rmSync(outDir, { recursive: true, force: true });
+}